@@ -0,0 +1,43 @@
+// Server-only: 端末の anonId の持ち主確認（ログインしない生徒用）
+// 端末は anonId と一緒に秘密の anonKey を作り、x-anon-key ヘッダで送る
+// anonKeys/{sha1(anonId)} に sha256(anonKey) を保存し、最初に届いた鍵をその anonId の鍵とする（以後は一致したときだけ本人）
+import crypto from "crypto";
+import type { Store } from "./_store.js";
+
+const sha1 = (s: string) => crypto.createHash("sha1").update(s).digest("hex");
+const sha256 = (s: string) => crypto.createHash("sha256").update(s).digest("hex");
+
+/** 推測できない長さの鍵だけ受け付ける */
+const KEY_PATTERN = /^[A-Za-z0-9_-]{22,128}$/;
+
+/** リクエストの x-anon-key（無ければ null） */
+export function anonKeyFrom(req: any): string | null {
+  const v = req.headers?.["x-anon-key"];
+  const key = String(Array.isArray(v) ? v[0] : v ?? "");
+  return KEY_PATTERN.test(key) ? key : null;
+}
+
+/**
+ * anonId の鍵と照合する。まだ鍵が無ければこの鍵を登録して true
+ * 鍵が登録済みで一致しなければ false
+ */
+export async function claimAnonKey(db: Store, anonId: string, key: string): Promise<boolean> {
+  const ref = db.collection("anonKeys").doc(sha1(anonId));
+  const hash = sha256(key);
+  return db.runTransaction(async tx => {
+    const snap = await tx.get(ref);
+    if (snap.exists) {
+      const stored = Buffer.from(String(snap.data()?.hash ?? ""));
+      const given = Buffer.from(hash);
+      return stored.length === given.length && crypto.timingSafeEqual(stored, given);
+    }
+    tx.set(ref, { anonId, hash, createdAt: new Date() });
+    return true;
+  });
+}
+
+/** リクエストの x-anon-key がその anonId の鍵か（鍵が無ければ false、未登録なら登録して true） */
+export async function isAnonOwner(db: Store, req: any, anonId: string): Promise<boolean> {
+  const key = anonKeyFrom(req);
+  return !!key && claimAnonKey(db, anonId, key);
+}
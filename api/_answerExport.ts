@@ -0,0 +1,157 @@
+// Server-only: 回答の書き出し（回答ごとの表と生徒別の集計）
+// 判定は final（先生の訂正・一括訂正を反映した最終結果）を使い、出どころを source 列に出す
+import { loadQuestionsOnce } from "./_questions.js";
+import { questionTypeOf } from "./_answerFilters.js";
+import { manualBy, isStaffCorrection } from "./_manual.js";
+import type { Cell } from "./_xlsx.js";
+
+const toIso = (v: any): string | null => {
+  const d = v instanceof Date ? v
+    : typeof v?.toDate === "function" ? v.toDate()
+    : typeof v === "string" || typeof v === "number" ? new Date(v)
+    : null;
+  return d && !isNaN(d.getTime()) ? d.toISOString() : null;
+};
+
+export const ANSWER_HEADER: string[] = [
+  "answerId", "ts", "uid", "anonId", "classId", "displayName", "qid", "lemma", "group", "questionType", "quizType",
+  "answerRaw", "auto.result", "auto.score", "final.result", "final.source", "final.reason", "manual.by",
+];
+
+/** a.displayName は呼び出し側で名簿から付ける */
+export function answerRow(a: any): Cell[] {
+  const raw = a.raw ?? {};
+  const q = loadQuestionsOnce().get(raw.qid);
+  return [
+    a.id,
+    toIso(raw.ts),
+    raw.uid ?? null,
+    raw.anonId ?? null,
+    raw.classId ?? null,
+    a.displayName ?? null,
+    raw.qid ?? null,
+    q?.lemma ?? null,
+    q?.group ?? null,
+    questionTypeOf(a),
+    raw.quizType ?? null,
+    raw.answerRaw ?? null,
+    raw.auto?.result ?? null,
+    typeof raw.auto?.score === "number" ? raw.auto.score : null,
+    a.final?.result ?? null,
+    a.final?.source ?? null,
+    a.final?.reason ?? null,
+    manualBy(a.manual),
+  ];
+}
+
+interface Tally { total: number; ok: number; ng: number; abstain: number }
+
+const emptyTally = (): Tally => ({ total: 0, ok: 0, ng: 0, abstain: 0 });
+
+function count(t: Tally, result: unknown) {
+  t.total++;
+  if (result === "OK") t.ok++;
+  else if (result === "NG") t.ng++;
+  else t.abstain++;
+}
+
+/** 正答率（保留は分母に入れない。判定済みが無ければ空欄） */
+const accuracy = (t: Tally | undefined): number | null =>
+  t && t.ok + t.ng > 0 ? Math.round((t.ok / (t.ok + t.ng)) * 1000) / 1000 : null;
+
+interface StudentTally extends Tally {
+  uid: string | null;
+  anonId: string | null;
+  displayName: string | null;
+  classId: string | null;
+  /** 教師の訂正 */
+  manual: number;
+  /** 生徒の自己訂正 */
+  self: number;
+  /** 一括訂正ルール・辞書による上書き */
+  override: number;
+  lastTs: string | null;
+  byGroup: Map<string, Tally>;
+  byQuizType: Map<string, Tally>;
+}
+
+/**
+ * 生徒別の集計（uid があれば uid、無ければ anonId ごと）
+ * 回答を add で流し込み、最後に header/rows で表にする。グループ・出題形式の列は出てきたものだけ並べる
+ */
+export function createStudentSummary() {
+  const students = new Map<string, StudentTally>();
+  const groups = new Set<string>();
+  const quizTypes = new Set<string>();
+
+  return {
+    add(a: any) {
+      const raw = a.raw ?? {};
+      const key = raw.uid ? `uid:${raw.uid}` : raw.anonId ? `anon:${raw.anonId}` : "unknown";
+      let s = students.get(key);
+      if (!s) {
+        s = { ...emptyTally(), uid: raw.uid ?? null, anonId: raw.anonId ?? null, displayName: null, classId: null, manual: 0, self: 0, override: 0, lastTs: null, byGroup: new Map(), byQuizType: new Map() };
+        students.set(key, s);
+      }
+      // 新しい順に流れてくるので、最初に見つかった名前・クラスを使う
+      if (!s.displayName) s.displayName = a.displayName ?? null;
+      if (!s.classId) s.classId = raw.classId ?? null;
+      const result = a.final?.result;
+      count(s, result);
+      if (isStaffCorrection(a)) s.manual++;
+      else if (a.final?.source === "manual") s.self++;
+      else if (a.final?.source === "override") s.override++;
+      const ts = toIso(raw.ts);
+      if (ts && (!s.lastTs || ts > s.lastTs)) s.lastTs = ts;
+
+      const group = loadQuestionsOnce().get(raw.qid)?.group;
+      if (group !== undefined && group !== null) {
+        const g = String(group);
+        groups.add(g);
+        if (!s.byGroup.has(g)) s.byGroup.set(g, emptyTally());
+        count(s.byGroup.get(g)!, result);
+      }
+      const quizType = raw.quizType ?? questionTypeOf(a);
+      quizTypes.add(quizType);
+      if (!s.byQuizType.has(quizType)) s.byQuizType.set(quizType, emptyTally());
+      count(s.byQuizType.get(quizType)!, result);
+    },
+
+    header(): string[] {
+      return [
+        "uid", "anonId", "displayName", "classId", "answers", "OK", "NG", "ABSTAIN", "accuracy", "manualCorrections", "selfCorrections", "overrides", "lastAnswerAt",
+        ...sortedGroups().map(g => `group${g}.accuracy`),
+        ...[...quizTypes].sort().map(t => `${t}.accuracy`),
+      ];
+    },
+
+    rows(): Cell[][] {
+      const gs = sortedGroups();
+      const qts = [...quizTypes].sort();
+      return [...students.values()]
+        .sort((a, b) => String(a.displayName ?? a.uid ?? a.anonId ?? "").localeCompare(String(b.displayName ?? b.uid ?? b.anonId ?? ""), "ja"))
+        .map(s => [
+          s.uid, s.anonId, s.displayName, s.classId, s.total, s.ok, s.ng, s.abstain, accuracy(s), s.manual, s.self, s.override, s.lastTs,
+          ...gs.map(g => accuracy(s.byGroup.get(g))),
+          ...qts.map(t => accuracy(s.byQuizType.get(t))),
+        ]);
+    },
+  };
+
+  function sortedGroups() {
+    return [...groups].sort((a, b) => Number(a) - Number(b) || a.localeCompare(b));
+  }
+}
+
+// 表計算ソフトで数式として解釈される先頭文字（生徒の入力をそのまま出すため）
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/** CSV 1行（RFC 4180。改行は CRLF） */
+export function csvLine(cells: Cell[]): string {
+  return cells.map(v => {
+    if (v === null || v === undefined) return "";
+    if (typeof v === "number") return Number.isFinite(v) ? String(v) : "";
+    const s = FORMULA_PREFIX.test(v) ? `'${v}` : v;
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  }).join(",") + "\r\n";
+}
@@ -0,0 +1,202 @@
+// Server-only: 教師用の回答検索フィルタ（browseAnswers と書き出しで共通）
+// Firestore で絞れる条件（qid・クラス・final・uid/anonId・期間）はクエリに、それ以外（得点帯・出題形式・多数の qid）は取得後に絞る
+import type { Store, StoreDocSnapshot, StoreQuery } from "./_store.js";
+import { loadQuestionsOnce } from "./_questions.js";
+import { narrowScope, type ClassScope } from "./_classes.js";
+
+export type FinalResult = "OK" | "NG" | "ABSTAIN";
+export type FinalSource = "auto" | "manual" | "override";
+
+export interface AnswerFilters {
+  /** qid・見出し語・グループ範囲から解決した qid（null = 絞らない、空 = 該当なし） */
+  qids: string[] | null;
+  /** 見られるクラス（null = すべて、空 = 該当なし） */
+  classIds: ClassScope;
+  result?: FinalResult;
+  source?: FinalSource;
+  questionType?: "writing" | "selection";
+  from?: Date;
+  to?: Date;
+  uid?: string;
+  anonId?: string;
+  scoreMin?: number;
+  scoreMax?: number;
+}
+
+/** Firestore の "in" に渡せる件数 */
+const MAX_IN = 30;
+
+const str = (v: unknown) => (v === undefined || v === null || v === "" ? undefined : String(v));
+
+function num(v: unknown, name: string): number | undefined {
+  const s = str(v);
+  if (s === undefined) return undefined;
+  const n = Number(s);
+  if (!Number.isFinite(n)) throw new Error(`BAD_REQUEST: ${name} must be a number`);
+  return n;
+}
+
+function date(v: unknown, name: string): Date | undefined {
+  const s = str(v);
+  if (s === undefined) return undefined;
+  const d = new Date(s);
+  if (isNaN(d.getTime())) throw new Error(`BAD_REQUEST: invalid ${name}`);
+  return d;
+}
+
+function oneOf<T extends string>(v: unknown, allowed: readonly T[], name: string): T | undefined {
+  const s = str(v);
+  if (s === undefined) return undefined;
+  if (!(allowed as readonly string[]).includes(s)) throw new Error(`BAD_REQUEST: ${name} must be one of ${allowed.join(", ")}`);
+  return s as T;
+}
+
+/**
+ * クエリ文字列を解釈（不正な値は "BAD_REQUEST: ..." で throw）
+ * qid はカンマ区切り可。lemma・groupFrom/groupTo は問題データで qid に解決し、指定した条件の積集合をとる
+ * classId は scope（呼び出した教師の担当クラス）の中だけ指定できる
+ */
+export function parseAnswerFilters(query: Record<string, unknown>, scope: ClassScope = null): AnswerFilters {
+  const qidParam = str(query.qid)?.split(",").map(s => s.trim()).filter(Boolean);
+  const lemma = str(query.lemma)?.trim();
+  const groupFrom = num(query.groupFrom, "groupFrom");
+  const groupTo = num(query.groupTo, "groupTo");
+
+  let qids: string[] | null = qidParam?.length ? qidParam : null;
+  if (lemma || groupFrom !== undefined || groupTo !== undefined) {
+    const matched: string[] = [];
+    for (const [qid, q] of loadQuestionsOnce()) {
+      if (lemma && q.lemma !== lemma) continue;
+      if (groupFrom !== undefined && !(Number(q.group) >= groupFrom)) continue;
+      if (groupTo !== undefined && !(Number(q.group) <= groupTo)) continue;
+      matched.push(qid);
+    }
+    qids = qids ? qids.filter(q => matched.includes(q)) : matched;
+  }
+
+  const filters: AnswerFilters = {
+    qids,
+    classIds: narrowScope(scope, str(query.classId)),
+    result: oneOf(query.result, ["OK", "NG", "ABSTAIN"] as const, "result"),
+    source: oneOf(query.source, ["auto", "manual", "override"] as const, "source"),
+    questionType: oneOf(query.questionType, ["writing", "selection"] as const, "questionType"),
+    from: date(query.from, "from"),
+    to: date(query.to, "to"),
+    uid: str(query.uid),
+    anonId: str(query.anonId),
+    scoreMin: num(query.scoreMin, "scoreMin"),
+    scoreMax: num(query.scoreMax, "scoreMax"),
+  };
+  return filters;
+}
+
+/**
+ * Firestore に渡すクエリ（raw.ts の新しい順）
+ * Require composite index: [条件のフィールド ASC, "raw.ts" DESC]（specs/INDEXES.md）
+ */
+export function buildAnswerQuery(db: Store, f: AnswerFilters): StoreQuery {
+  let q: StoreQuery = db.collection("answers");
+  if (f.qids && f.qids.length === 1) q = q.where("raw.qid", "==", f.qids[0]);
+  else if (f.qids && f.qids.length <= MAX_IN) q = q.where("raw.qid", "in", f.qids);
+  if (f.classIds && f.classIds.length === 1) q = q.where("raw.classId", "==", f.classIds[0]);
+  else if (classInQuery(f)) q = q.where("raw.classId", "in", f.classIds);
+  if (f.result) q = q.where("final.result", "==", f.result);
+  if (f.source) q = q.where("final.source", "==", f.source);
+  if (f.uid) q = q.where("raw.uid", "==", f.uid);
+  if (f.anonId) q = q.where("raw.anonId", "==", f.anonId);
+  if (f.from) q = q.where("raw.ts", ">=", f.from);
+  if (f.to) q = q.where("raw.ts", "<=", f.to);
+  return q.orderBy("raw.ts", "desc");
+}
+
+/**
+ * 回答クエリを担当クラス（classScope）で絞る。null（全クラス）と空はそのまま返す
+ * "in" に入らない31クラス以上もそのまま返すので、読んだ後に inClassScope で絞る
+ */
+export function whereClassScope(q: StoreQuery, scope: ClassScope): StoreQuery {
+  if (scope === null || scope.length === 0 || scope.length > MAX_IN) return q;
+  return scope.length === 1 ? q.where("raw.classId", "==", scope[0]) : q.where("raw.classId", "in", scope);
+}
+
+/** 複数クラスを "in" で絞れるか（Firestore は1クエリに "in" を1つまで） */
+const classInQuery = (f: AnswerFilters) =>
+  !!f.classIds && f.classIds.length > 1 && f.classIds.length <= MAX_IN && !(f.qids && f.qids.length > 1 && f.qids.length <= MAX_IN);
+
+/** 選択式の回答は answerRaw に選んだ qid が入る（questionType の無い古い回答の判別用） */
+const looksLikeQid = (s: unknown) => typeof s === "string" && /^\d+-\d+$/.test(s);
+
+export function questionTypeOf(a: any): "writing" | "selection" {
+  return a.raw?.questionType ?? (looksLikeQid(a.raw?.answerRaw) ? "selection" : "writing");
+}
+
+/** クエリで絞れなかった条件 */
+export function matchesAnswerFilters(a: any, f: AnswerFilters): boolean {
+  if (f.qids && f.qids.length > MAX_IN && !f.qids.includes(a.raw?.qid)) return false;
+  if (f.classIds && f.classIds.length > 1 && !classInQuery(f) && !f.classIds.includes(a.raw?.classId)) return false;
+  if (f.questionType && questionTypeOf(a) !== f.questionType) return false;
+  if (f.scoreMin !== undefined || f.scoreMax !== undefined) {
+    const score = a.raw?.auto?.score;
+    if (typeof score !== "number") return false;
+    if (f.scoreMin !== undefined && score < f.scoreMin) return false;
+    if (f.scoreMax !== undefined && score > f.scoreMax) return false;
+  }
+  return true;
+}
+
+export interface AnswerPage {
+  rows: any[];
+  /** 次のページのカーソル（最後に読んだ回答の ID、終わりなら null） */
+  nextCursor: string | null;
+  scanned: number;
+}
+
+/**
+ * 1ページ分を取得。取得後の絞り込みで足りなければ続きを読むが、maxScan 件で打ち切ってカーソルを返す
+ */
+export async function scanAnswers(
+  db: Store,
+  f: AnswerFilters,
+  opts: { limit: number; cursor?: string | null; maxScan?: number }
+): Promise<AnswerPage> {
+  if ((f.qids && f.qids.length === 0) || (f.classIds && f.classIds.length === 0)) return { rows: [], nextCursor: null, scanned: 0 };
+
+  const base = buildAnswerQuery(db, f);
+  const maxScan = opts.maxScan ?? 1000;
+  const chunk = Math.max(opts.limit, 50);
+  let last: StoreDocSnapshot | null = null;
+  if (opts.cursor) {
+    last = await db.collection("answers").doc(opts.cursor).get();
+    if (!last.exists) throw new Error("BAD_REQUEST: invalid cursor");
+  }
+
+  const rows: any[] = [];
+  let scanned = 0;
+  let exhausted = false;
+  while (rows.length < opts.limit && scanned < maxScan) {
+    const q = last ? base.startAfter(last) : base;
+    const snap = await q.limit(chunk).get();
+    for (const doc of snap.docs) {
+      scanned++;
+      last = doc;
+      const a = doc.data();
+      if (matchesAnswerFilters(a, f)) rows.push({ id: doc.id, ...a });
+      if (rows.length >= opts.limit) break;
+    }
+    if (snap.size < chunk && rows.length < opts.limit) {
+      exhausted = true;
+      break;
+    }
+  }
+
+  return { rows, nextCursor: exhausted || !last ? null : last.id, scanned };
+}
+
+/** 条件に合う回答を新しい順にページ単位で最後まで読む（書き出し用） */
+export async function* iterateAnswers(db: Store, f: AnswerFilters, pageSize = 500): AsyncGenerator<any[]> {
+  let cursor: string | null = null;
+  do {
+    const page: AnswerPage = await scanAnswers(db, f, { limit: pageSize, cursor, maxScan: pageSize * 4 });
+    if (page.rows.length) yield page.rows;
+    cursor = page.nextCursor;
+  } while (cursor);
+}
@@ -0,0 +1,111 @@
+// Server-only: 名前付きの API キー（apiKeys/{keyId}）
+// キーは "kbn_<keyId>_<secret>"。保存するのは secret の SHA-256 だけで、平文は発行時に1回だけ返す
+import crypto from "crypto";
+import type { Store } from "./_store.js";
+import { isRole, type Role } from "./_roles.js";
+
+export interface ApiKey {
+  keyId: string;
+  name: string;
+  role: Role;
+  /** sha256(secret) の hex */
+  hash: string;
+  createdBy: string;
+  createdAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedBy: string | null;
+  lastUsedAt: Date | null;
+}
+
+const KEY_PATTERN = /^kbn_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+const DEFAULT_TTL_DAYS = 90;
+const MAX_TTL_DAYS = 365;
+// 最終利用日時の書き込みはこの間隔より細かくしない（リクエストごとの書き込みを避ける）
+const TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+
+const sha256 = (s: string) => crypto.createHash("sha256").update(s).digest("hex");
+const toMillis = (v: any): number => (v && typeof v.toDate === "function" ? v.toDate().getTime() : new Date(v).getTime());
+
+const iso = (v: any) => (v ? new Date(toMillis(v)).toISOString() : null);
+
+/** レスポンス用（hash は返さず、日時は ISO 文字列） */
+export function apiKeyView(k: ApiKey, at = Date.now()) {
+  const status: "active" | "expired" | "revoked" = k.revokedAt ? "revoked" : toMillis(k.expiresAt) <= at ? "expired" : "active";
+  return {
+    keyId: k.keyId,
+    name: k.name,
+    role: k.role,
+    createdBy: k.createdBy,
+    createdAt: iso(k.createdAt),
+    expiresAt: iso(k.expiresAt),
+    revokedAt: iso(k.revokedAt),
+    revokedBy: k.revokedBy,
+    lastUsedAt: iso(k.lastUsedAt),
+    status,
+  };
+}
+
+/** 発行（平文のキーは戻り値の key でだけ返す） */
+export async function issueApiKey(
+  db: Store,
+  input: { name?: unknown; role?: unknown; expiresInDays?: unknown },
+  actor: string,
+): Promise<{ key: string; apiKey: ApiKey }> {
+  const name = String(input.name ?? "").trim();
+  if (!name || name.length > 60) throw new Error("BAD_REQUEST: name must be 1-60 characters");
+  if (!isRole(input.role)) throw new Error("BAD_REQUEST: role must be viewer, grader, curator or admin");
+  const days = input.expiresInDays === undefined ? DEFAULT_TTL_DAYS : Number(input.expiresInDays);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_TTL_DAYS) throw new Error(`BAD_REQUEST: expiresInDays must be 1-${MAX_TTL_DAYS}`);
+
+  const keyId = crypto.randomBytes(6).toString("hex");
+  const secret = crypto.randomBytes(32).toString("base64url");
+  const now = new Date();
+  const apiKey: ApiKey = {
+    keyId,
+    name,
+    role: input.role,
+    hash: sha256(secret),
+    createdBy: actor,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + days * 24 * 60 * 60 * 1000),
+    revokedAt: null,
+    revokedBy: null,
+    lastUsedAt: null,
+  };
+  await db.collection("apiKeys").doc(keyId).set(apiKey);
+  return { key: `kbn_${keyId}_${secret}`, apiKey };
+}
+
+export async function revokeApiKey(db: Store, keyId: unknown, actor: string): Promise<ApiKey> {
+  if (!keyId || typeof keyId !== "string") throw new Error("BAD_REQUEST: keyId required");
+  const ref = db.collection("apiKeys").doc(keyId);
+  const snap = await ref.get();
+  if (!snap.exists) throw new Error("NOT_FOUND: api key not found");
+  const cur = snap.data() as ApiKey;
+  if (cur.revokedAt) return cur;
+  const revoked = { revokedAt: new Date(), revokedBy: actor };
+  await ref.update(revoked);
+  return { ...cur, ...revoked };
+}
+
+/** キーを確かめて持ち主を返す（形式違い・不一致・期限切れ・失効は null） */
+export async function verifyApiKey(db: Store, key: string): Promise<ApiKey | null> {
+  const m = KEY_PATTERN.exec(key);
+  if (!m) return null;
+  const [, keyId, secret] = m;
+  const ref = db.collection("apiKeys").doc(keyId);
+  const snap = await ref.get();
+  if (!snap.exists) return null;
+  const k = snap.data() as ApiKey;
+
+  const expected = Buffer.from(k.hash, "hex");
+  const actual = Buffer.from(sha256(secret), "hex");
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+  if (k.revokedAt || toMillis(k.expiresAt) <= Date.now()) return null;
+
+  if (!k.lastUsedAt || Date.now() - toMillis(k.lastUsedAt) > TOUCH_INTERVAL_MS) {
+    await ref.update({ lastUsedAt: new Date() });
+  }
+  return k;
+}
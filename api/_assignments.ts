@@ -0,0 +1,265 @@
+// Server-only: 課題（assignments/{assignmentId}）
+// 教師が出題範囲（qid の集合 or グループ範囲）・出題形式・問題数・受付期間を決め、生徒は課題コードで開いて同じ設定で解く
+import type { Store } from "./_store.js";
+import { loadQuestionsOnce } from "./_questions.js";
+import { allocateCode, normalizeJoinCode, isMember, createRosterLookup, listMembers, type ClassScope } from "./_classes.js";
+
+export type AssignmentMode = "word" | "polysemy";
+
+/** App.tsx の WordQuizType / PolysemyQuizType と同じ値 */
+export const QUIZ_TYPES: Record<AssignmentMode, readonly string[]> = {
+  word: ["word-meaning", "word-reverse", "sentence-meaning", "meaning-writing"],
+  polysemy: ["example-comprehension", "true-false", "context-writing"],
+};
+
+export interface Assignment {
+  assignmentId: string;
+  code: string;
+  title: string;
+  /** 対象クラス（null = クラスを問わない。全クラスを扱えるキーだけが作れる） */
+  classId: string | null;
+  mode: AssignmentMode;
+  quizType: string;
+  /** 出題する qid（null ならグループ範囲） */
+  qids: string[] | null;
+  groupFrom: number | null;
+  groupTo: number | null;
+  /** 問題数（単語モードは qid 数、多義語モードは単語数） */
+  count: number;
+  opensAt: Date;
+  closesAt: Date;
+  archived: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type AssignmentInput = Pick<Assignment, "title" | "classId" | "quizType" | "qids" | "groupFrom" | "groupTo" | "count"> & {
+  opensAt: unknown;
+  closesAt: unknown;
+};
+
+export type AssignmentStatus = "upcoming" | "open" | "closed";
+
+const MAX_GROUP = 330;
+
+/** Firestore の Timestamp / Date / ISO 文字列を Date に */
+export const toDate = (v: any): Date => (v && typeof v.toDate === "function" ? v.toDate() : new Date(v));
+
+function parseDate(v: unknown, field: string): Date {
+  const d = v instanceof Date ? v : new Date(String(v ?? ""));
+  if (v === undefined || v === null || v === "" || Number.isNaN(d.getTime())) throw new Error(`BAD_REQUEST: ${field} must be a date`);
+  return d;
+}
+
+function parseGroup(v: unknown, field: string): number {
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < 1 || n > MAX_GROUP) throw new Error(`BAD_REQUEST: ${field} must be 1-${MAX_GROUP}`);
+  return n;
+}
+
+export const modeOfQuizType = (quizType: string): AssignmentMode | null =>
+  QUIZ_TYPES.word.includes(quizType) ? "word" : QUIZ_TYPES.polysemy.includes(quizType) ? "polysemy" : null;
+
+/** 入力を検証して保存する形に揃える（不正な値は "BAD_REQUEST: ..." で throw） */
+export function validateAssignment(input: Partial<AssignmentInput>) {
+  const title = String(input.title ?? "").trim();
+  if (!title || title.length > 80) throw new Error("BAD_REQUEST: title must be 1-80 characters");
+
+  const quizType = String(input.quizType ?? "");
+  const mode = modeOfQuizType(quizType);
+  if (!mode) throw new Error(`BAD_REQUEST: unknown quizType: ${quizType}`);
+
+  let qids: string[] | null = null;
+  let groupFrom: number | null = null;
+  let groupTo: number | null = null;
+  if (Array.isArray(input.qids) && input.qids.length) {
+    const questions = loadQuestionsOnce();
+    qids = [...new Set(input.qids.map(q => String(q).trim()).filter(Boolean))];
+    const unknown = qids.filter(q => !questions.has(q));
+    if (unknown.length) throw new Error(`BAD_REQUEST: unknown qid: ${unknown.slice(0, 5).join(",")}`);
+  } else {
+    groupFrom = parseGroup(input.groupFrom ?? 1, "groupFrom");
+    groupTo = parseGroup(input.groupTo ?? MAX_GROUP, "groupTo");
+    if (groupFrom > groupTo) throw new Error("BAD_REQUEST: groupFrom must be <= groupTo");
+  }
+
+  const count = Number(input.count);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_GROUP) throw new Error(`BAD_REQUEST: count must be 1-${MAX_GROUP}`);
+
+  const opensAt = parseDate(input.opensAt, "opensAt");
+  const closesAt = parseDate(input.closesAt, "closesAt");
+  if (opensAt >= closesAt) throw new Error("BAD_REQUEST: opensAt must be before closesAt");
+
+  const classId = input.classId ? String(input.classId) : null;
+  return { title, classId, mode, quizType, qids, groupFrom, groupTo, count, opensAt, closesAt };
+}
+
+/**
+ * 課題で解いてよい qid
+ * 多義語モードは単語（lemma）単位で出題されるので、指定 qid と同じ lemma の qid もすべて含める
+ */
+export function assignmentQids(a: Pick<Assignment, "mode" | "qids" | "groupFrom" | "groupTo">): Set<string> {
+  const questions = loadQuestionsOnce();
+  if (!a.qids) {
+    const from = a.groupFrom ?? 1;
+    const to = a.groupTo ?? MAX_GROUP;
+    const inRange = [...questions].filter(([, q]) => Number(q.group) >= from && Number(q.group) <= to).map(([qid]) => qid);
+    if (a.mode === "word") return new Set(inRange);
+    // 多義語モードは意味が2つ以上ある単語だけ（App.tsx の getPolysemyWords と同じ）
+    const meanings = new Map<string, number>();
+    for (const qid of inRange) meanings.set(questions.get(qid).lemma, (meanings.get(questions.get(qid).lemma) ?? 0) + 1);
+    return new Set(inRange.filter(qid => (meanings.get(questions.get(qid).lemma) ?? 0) >= 2));
+  }
+  if (a.mode === "word") return new Set(a.qids);
+  const lemmas = new Set(a.qids.map(q => questions.get(q)?.lemma).filter(Boolean));
+  return new Set([...questions].filter(([, q]) => lemmas.has(q.lemma)).map(([qid]) => qid));
+}
+
+/** 進捗の単位（単語モードは qid、多義語モードは単語） */
+const unitOf = (mode: AssignmentMode, qid: string) =>
+  mode === "word" ? qid : String(loadQuestionsOnce().get(qid)?.lemma ?? qid);
+
+/** 完了に必要な単位数（範囲に問題数より少ない単語しか無ければその数） */
+export function expectedUnits(a: Assignment): number {
+  const units = new Set([...assignmentQids(a)].map(q => unitOf(a.mode, q)));
+  return Math.min(a.count, units.size);
+}
+
+export function assignmentStatus(a: Pick<Assignment, "opensAt" | "closesAt">, at = new Date()): AssignmentStatus {
+  if (at < toDate(a.opensAt)) return "upcoming";
+  if (at > toDate(a.closesAt)) return "closed";
+  return "open";
+}
+
+/** レスポンス用（日時は ISO 文字列にして受付状況を付ける） */
+export const assignmentView = (a: Assignment, at = new Date()) => ({
+  ...a,
+  opensAt: toDate(a.opensAt).toISOString(),
+  closesAt: toDate(a.closesAt).toISOString(),
+  createdAt: toDate(a.createdAt).toISOString(),
+  updatedAt: toDate(a.updatedAt).toISOString(),
+  status: assignmentStatus(a, at),
+});
+
+export async function getAssignment(db: Store, assignmentId: string): Promise<Assignment> {
+  const snap = await db.collection("assignments").doc(assignmentId).get();
+  if (!snap.exists) throw new Error("NOT_FOUND: assignment not found");
+  return snap.data() as Assignment;
+}
+
+export async function findAssignmentByCode(db: Store, code: unknown): Promise<Assignment> {
+  const c = normalizeJoinCode(code);
+  if (!c) throw new Error("BAD_REQUEST: code required");
+  const snap = await db.collection("assignments").where("code", "==", c).limit(1).get();
+  const a = snap.empty ? null : (snap.docs[0].data() as Assignment);
+  if (!a || a.archived) throw new Error("NOT_FOUND: unknown assignment code");
+  return a;
+}
+
+export async function createAssignment(db: Store, input: Partial<AssignmentInput>, actor: string): Promise<Assignment> {
+  const ref = db.collection("assignments").doc();
+  const now = new Date();
+  const doc: Assignment = {
+    assignmentId: ref.id,
+    code: await allocateCode(db, "assignments", "code"),
+    ...validateAssignment(input),
+    archived: false,
+    createdBy: actor,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await ref.set(doc);
+  return doc;
+}
+
+/** 教師が見られる課題か（担当クラスの課題と、自分が作った課題） */
+export const canSeeAssignment = (scope: ClassScope, actor: string, a: Assignment) =>
+  scope === null || a.createdBy === actor || (a.classId !== null && scope.includes(a.classId));
+
+/**
+ * 回答に付ける assignmentId を決める（付けられなければ null）
+ * 受付期間内・出題範囲内の qid・対象クラスの名簿にいる生徒、のすべてを満たすときだけ
+ */
+export async function resolveAssignmentTag(
+  db: Store,
+  assignmentId: unknown,
+  answer: { qid: string; anonId?: string | null; answeredAt: Date },
+): Promise<string | null> {
+  if (!assignmentId || typeof assignmentId !== "string") return null;
+  const snap = await db.collection("assignments").doc(assignmentId).get();
+  if (!snap.exists) return null;
+  const a = snap.data() as Assignment;
+  if (a.archived || assignmentStatus(a, answer.answeredAt) !== "open") return null;
+  if (!assignmentQids(a).has(answer.qid)) return null;
+  if (a.classId && !(answer.anonId && await isMember(db, a.classId, answer.anonId))) return null;
+  return a.assignmentId;
+}
+
+export interface AssignmentProgress {
+  uid: string | null;
+  anonId: string | null;
+  displayName: string | null;
+  answers: number;
+  correct: number;
+  /** OK / (OK + NG)。判定保留だけなら null */
+  accuracy: number | null;
+  /** 解いた単位数（単語モードは qid、多義語モードは単語） */
+  done: number;
+  completed: boolean;
+  lastAnswerAt: Date | null;
+}
+
+/** 課題の提出状況（生徒ごと。対象クラスがあれば未着手の生徒も並べる） */
+export async function assignmentReport(db: Store, a: Assignment) {
+  const expected = expectedUnits(a);
+  const snap = await db.collection("answers").where("raw.assignmentId", "==", a.assignmentId).get();
+  const lookup = createRosterLookup(db);
+
+  const byStudent = new Map<string, { row: AssignmentProgress; units: Set<string>; ok: number; ng: number }>();
+  for (const d of snap.docs) {
+    const raw = d.data().raw ?? {};
+    const final = d.data().final ?? {};
+    const key = raw.uid || raw.anonId || `answer:${d.id}`;
+    let s = byStudent.get(key);
+    if (!s) {
+      s = {
+        row: { uid: raw.uid ?? null, anonId: raw.anonId ?? null, displayName: await lookup(a.classId ?? raw.classId, raw.anonId), answers: 0, correct: 0, accuracy: null, done: 0, completed: false, lastAnswerAt: null },
+        units: new Set(),
+        ok: 0,
+        ng: 0,
+      };
+      byStudent.set(key, s);
+    }
+    s.row.answers++;
+    if (final.result === "OK") s.ok++;
+    if (final.result === "NG") s.ng++;
+    s.units.add(unitOf(a.mode, String(raw.qid)));
+    const ts = raw.ts ? toDate(raw.ts) : null;
+    if (ts && (!s.row.lastAnswerAt || ts > s.row.lastAnswerAt)) s.row.lastAnswerAt = ts;
+  }
+
+  const students: AssignmentProgress[] = [...byStudent.values()].map(({ row, units, ok, ng }) => ({
+    ...row,
+    correct: ok,
+    accuracy: ok + ng ? Math.round((ok / (ok + ng)) * 1000) / 1000 : null,
+    done: units.size,
+    completed: units.size >= expected,
+  }));
+
+  if (a.classId) {
+    const started = new Set(students.map(s => s.anonId));
+    for (const m of await listMembers(db, a.classId)) {
+      if (started.has(m.anonId)) continue;
+      students.push({ uid: null, anonId: m.anonId, displayName: m.displayName, answers: 0, correct: 0, accuracy: null, done: 0, completed: false, lastAnswerAt: null });
+    }
+  }
+  students.sort((x, y) => (x.displayName ?? "\uFFFF").localeCompare(y.displayName ?? "\uFFFF", "ja") || String(x.anonId).localeCompare(String(y.anonId)));
+
+  return {
+    expected,
+    started: students.filter(s => s.answers > 0).length,
+    completed: students.filter(s => s.completed).length,
+    students,
+  };
+}
@@ -0,0 +1,169 @@
+// Server-only: クラスと名簿（classes/{classId}, classMembers/{classId::anonId}）
+// 生徒は参加コードでクラスに入り、anonId に表示名を結びつける。教師は teachers に載っているクラスだけを見る
+import crypto from "crypto";
+import type { Store } from "./_store.js";
+import type { Staff } from "./_requireStaff.js";
+
+export interface ClassDoc {
+  classId: string;
+  name: string;
+  joinCode: string;
+  /** 担当教師（requireStaff の actor = メールアドレス or uid） */
+  teachers: string[];
+  archived: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ClassMember {
+  classId: string;
+  anonId: string;
+  displayName: string;
+  joinedAt: Date;
+  updatedAt: Date;
+}
+
+/** 見られるクラス（null = すべて、空 = 無し） */
+export type ClassScope = string[] | null;
+
+export const memberKey = (classId: string, anonId: string) => `${classId}::${anonId}`;
+
+// 読み間違えやすい文字（0/O, 1/I/L）は使わない
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+
+function randomCode(): string {
+  let s = "";
+  for (let i = 0; i < CODE_LENGTH; i++) s += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+  return s;
+}
+
+/** 参加コード・課題コードの表記ゆれ（小文字・空白・ハイフン）を吸収 */
+export const normalizeJoinCode = (code: unknown) => String(code ?? "").toUpperCase().replace(/[\s-]/g, "");
+
+/** collection の field と重ならないコードを採番（クラスの参加コード・課題コード） */
+export async function allocateCode(db: Store, collection: string, field: string): Promise<string> {
+  for (let i = 0; i < 10; i++) {
+    const code = randomCode();
+    const dup = await db.collection(collection).where(field, "==", code).limit(1).get();
+    if (dup.empty) return code;
+  }
+  throw new Error(`failed to allocate ${field}`);
+}
+
+export function validateClassName(name: unknown): string {
+  const s = String(name ?? "").trim();
+  if (!s || s.length > 60) throw new Error("BAD_REQUEST: name must be 1-60 characters");
+  return s;
+}
+
+/** 表示名（制御文字を除いて 1〜40 文字） */
+export function validateDisplayName(name: unknown): string {
+  const s = String(name ?? "").replace(/[\x00-\x1F\x7F]/g, "").trim();
+  if (!s || s.length > 40) throw new Error("BAD_REQUEST: displayName must be 1-40 characters");
+  return s;
+}
+
+/** 教師が見られるクラス（teachers に actor が載っているもの）。全クラスを見られる admin は null */
+export async function classScope(db: Store, staff: Staff): Promise<ClassScope> {
+  if (staff.allClasses) return null;
+  const snap = await db.collection("classes").where("teachers", "array-contains", staff.actor).get();
+  return snap.docs.map(d => d.id);
+}
+
+export const inClassScope = (scope: ClassScope, classId: unknown) =>
+  scope === null || (typeof classId === "string" && scope.includes(classId));
+
+/** 指定クラス（?classId=）があれば権限を確かめて絞り、無ければ見られるクラス全体 */
+export function narrowScope(scope: ClassScope, classId: unknown): ClassScope {
+  if (classId === undefined || classId === null || classId === "") return scope;
+  const id = String(classId);
+  if (!inClassScope(scope, id)) throw new Error("PERMISSION_DENIED: not your class");
+  return [id];
+}
+
+export async function getClass(db: Store, classId: string): Promise<ClassDoc> {
+  const snap = await db.collection("classes").doc(classId).get();
+  if (!snap.exists) throw new Error("NOT_FOUND: class not found");
+  return snap.data() as ClassDoc;
+}
+
+export async function createClass(db: Store, name: unknown, teachers: string[], actor: string): Promise<ClassDoc> {
+  const ref = db.collection("classes").doc();
+  const now = new Date();
+  const doc: ClassDoc = {
+    classId: ref.id,
+    name: validateClassName(name),
+    joinCode: await allocateCode(db, "classes", "joinCode"),
+    teachers: [...new Set(teachers.filter(Boolean))],
+    archived: false,
+    createdBy: actor,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await ref.set(doc);
+  return doc;
+}
+
+export async function rotateJoinCode(db: Store, classId: string): Promise<string> {
+  await getClass(db, classId);
+  const joinCode = await allocateCode(db, "classes", "joinCode");
+  await db.collection("classes").doc(classId).update({ joinCode, updatedAt: new Date() });
+  return joinCode;
+}
+
+/** 参加（同じ anonId でもう一度参加すると表示名を更新） */
+export async function joinClass(db: Store, code: unknown, anonId: unknown, displayName: unknown): Promise<{ cls: ClassDoc; member: ClassMember }> {
+  const joinCode = normalizeJoinCode(code);
+  if (!anonId || typeof anonId !== "string") throw new Error("BAD_REQUEST: anonId required");
+  const name = validateDisplayName(displayName);
+  if (!joinCode) throw new Error("BAD_REQUEST: joinCode required");
+
+  const snap = await db.collection("classes").where("joinCode", "==", joinCode).limit(1).get();
+  const cls = snap.empty ? null : (snap.docs[0].data() as ClassDoc);
+  if (!cls || cls.archived) throw new Error("NOT_FOUND: unknown join code");
+
+  const ref = db.collection("classMembers").doc(memberKey(cls.classId, anonId));
+  const now = new Date();
+  const member = await db.runTransaction(async tx => {
+    const cur = await tx.get(ref);
+    const next: ClassMember = cur.exists
+      ? { ...(cur.data() as ClassMember), displayName: name, updatedAt: now }
+      : { classId: cls.classId, anonId, displayName: name, joinedAt: now, updatedAt: now };
+    tx.set(ref, next);
+    return next;
+  });
+  return { cls, member };
+}
+
+export async function isMember(db: Store, classId: string, anonId: string): Promise<boolean> {
+  const snap = await db.collection("classMembers").doc(memberKey(classId, anonId)).get();
+  return snap.exists;
+}
+
+export async function listMembers(db: Store, classId: string): Promise<ClassMember[]> {
+  const snap = await db.collection("classMembers").where("classId", "==", classId).get();
+  return snap.docs.map(d => d.data() as ClassMember).sort((a, b) => a.displayName.localeCompare(b.displayName, "ja"));
+}
+
+/** 回答の classId + anonId から表示名を引く（名簿はクラスごとに1回だけ読む） */
+export function createRosterLookup(db: Store) {
+  const rosters = new Map<string, Promise<Map<string, string>>>();
+  const roster = (classId: string) => {
+    if (!rosters.has(classId)) {
+      rosters.set(classId, listMembers(db, classId).then(ms => new Map(ms.map(m => [m.anonId, m.displayName]))));
+    }
+    return rosters.get(classId)!;
+  };
+  return async (classId: unknown, anonId: unknown): Promise<string | null> => {
+    if (typeof classId !== "string" || typeof anonId !== "string") return null;
+    return (await roster(classId)).get(anonId) ?? null;
+  };
+}
+
+/** 回答の行に表示名（displayName）を付ける */
+export async function attachDisplayNames<T extends { raw?: any }>(db: Store, rows: T[]): Promise<Array<T & { displayName: string | null }>> {
+  const lookup = createRosterLookup(db);
+  return Promise.all(rows.map(async r => ({ ...r, displayName: await lookup(r.raw?.classId, r.raw?.anonId) })));
+}
@@ -0,0 +1,105 @@
+// Server-only: 正解辞書 accepted / 不正解辞書 negatives
+// ドキュメントID は overrides と同じ `${qid}::${normalize(phrase)}`（同じ回答は1件にまとまる）
+import type { Store } from "./_store.js";
+import { normalize, makeKey } from "./_normalize.js";
+
+export const CURATED_COLLECTIONS = ["accepted", "negatives"] as const;
+export type CuratedCollection = typeof CURATED_COLLECTIONS[number];
+
+export interface CuratedEntry {
+  qid: string;
+  phrase: string;
+  phraseNorm: string;
+  addedBy: string;
+  addedAt: Date;
+  note?: string;
+  /** 昇格元の candidates のキー */
+  source?: string;
+}
+
+export function isCuratedCollection(v: unknown): v is CuratedCollection {
+  return typeof v === "string" && (CURATED_COLLECTIONS as readonly string[]).includes(v);
+}
+
+const other = (c: CuratedCollection): CuratedCollection => (c === "accepted" ? "negatives" : "accepted");
+
+/**
+ * 辞書に登録（もう一方の辞書にある同じ回答は削除 = 移動）
+ * 変更は history に CREATE / UPDATE / DELETE として残す
+ */
+export async function putCuratedEntry(
+  db: Store,
+  collection: CuratedCollection,
+  input: { qid: string; phrase: string; note?: string; source?: string },
+  actor: string
+): Promise<{ key: string; entry: CuratedEntry }> {
+  const key = makeKey(input.qid, input.phrase);
+  const ref = db.collection(collection).doc(key);
+  const otherRef = db.collection(other(collection)).doc(key);
+  const now = new Date();
+
+  const entry = await db.runTransaction(async tx => {
+    const [cur, opp] = await Promise.all([tx.get(ref), tx.get(otherRef)]);
+    const before = cur.exists ? cur.data() : null;
+    const next: CuratedEntry = {
+      qid: input.qid,
+      phrase: input.phrase,
+      phraseNorm: normalize(input.phrase),
+      addedBy: before?.addedBy ?? actor,
+      addedAt: before?.addedAt ?? now,
+      ...(input.note ? { note: input.note } : {}),
+      ...(input.source ? { source: input.source } : {}),
+    };
+    tx.set(ref, next);
+    tx.set(db.collection("history").doc(), {
+      collection, qid: input.qid, entryId: key,
+      action: before ? "UPDATE" : "CREATE",
+      before, after: next, by: actor, at: now,
+    });
+    if (opp.exists) {
+      tx.delete(otherRef);
+      tx.set(db.collection("history").doc(), {
+        collection: other(collection), qid: input.qid, entryId: key,
+        action: "DELETE", before: opp.data(), after: null, by: actor, at: now,
+      });
+    }
+    return next;
+  });
+
+  return { key, entry };
+}
+
+export async function deleteCuratedEntry(db: Store, collection: CuratedCollection, key: string, actor: string): Promise<boolean> {
+  const ref = db.collection(collection).doc(key);
+  return db.runTransaction(async tx => {
+    const cur = await tx.get(ref);
+    if (!cur.exists) return false;
+    const before = cur.data();
+    tx.delete(ref);
+    tx.set(db.collection("history").doc(), {
+      collection, qid: before.qid, entryId: key,
+      action: "DELETE", before, after: null, by: actor, at: new Date(),
+    });
+    return true;
+  });
+}
+
+/**
+ * 提出時の辞書引き。negatives を accepted より優先（登録時に移動するので通常は片方だけ）
+ * 該当なしなら null
+ */
+export async function lookupCurated(db: Store, qid: string, answerRaw: string): Promise<{
+  result: "OK" | "NG";
+  collection: CuratedCollection;
+  key: string;
+  note?: string;
+} | null> {
+  const key = makeKey(qid, answerRaw);
+  const [neg, acc] = await Promise.all([
+    db.collection("negatives").doc(key).get(),
+    db.collection("accepted").doc(key).get(),
+  ]);
+  if (neg.exists) return { result: "NG", collection: "negatives", key, note: neg.data()?.note };
+  if (acc.exists) return { result: "OK", collection: "accepted", key, note: acc.data()?.note };
+  return null;
+}
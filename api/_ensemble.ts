@@ -0,0 +1,20 @@
+// Server-only: meta/ensemble（アンサンブル採点の構成と判定方式）の読み込み
+import type { Store } from "./_store.js";
+import { resolveEnsembleConfig, type EnsembleConfig } from "../src/scoring/ensemble.js";
+
+const FIELDS = ["engines", "weights", "mode", "passScore", "maxSpread", "minAgreement"] as const;
+
+/** 保存されている項目だけ（ドキュメントが無ければ null） */
+export async function findEnsembleConfig(db: Store): Promise<Partial<EnsembleConfig> | null> {
+  const snap = await db.collection("meta").doc("ensemble").get();
+  if (!snap.exists) return null;
+  const data: any = snap.data();
+  const out: any = {};
+  for (const f of FIELDS) if (data[f] !== undefined) out[f] = data[f];
+  return out;
+}
+
+/** 採点に使う設定（未設定の項目は DEFAULT_ENSEMBLE） */
+export async function getEnsembleConfig(db: Store): Promise<EnsembleConfig> {
+  return resolveEnsembleConfig(await findEnsembleConfig(db));
+}
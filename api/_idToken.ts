@@ -0,0 +1,14 @@
+// Server-only: ログインした生徒の uid の本人確認（Authorization: Bearer <Firebase ID token>）
+import { getAuth } from "firebase-admin/auth";
+
+/** uid の本人確認：Authorization: Bearer <Firebase ID token> の uid と一致するか */
+export async function isUidOwner(req: any, uid: string): Promise<boolean> {
+  const auth = (req.headers?.authorization || "").split(" ");
+  if (auth[0] !== "Bearer" || !auth[1]) return false;
+  try {
+    const decoded = await getAuth().verifyIdToken(auth[1], true);
+    return decoded.uid === uid;
+  } catch {
+    return false;
+  }
+}
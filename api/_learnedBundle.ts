@@ -0,0 +1,152 @@
+// Server-only: 学習済み正解バンドル（learnedBundles/{version}）
+// candidates の正解候補を qid → LearnedCandidate[] にまとめ、版番号と内容ハッシュ付きで保存する
+// 公開中の版は meta/learnedBundle が指す。ロールバックは古い版の中身を新しい版として公開し直す
+import crypto from "crypto";
+import type { Store } from "./_store.js";
+import { getAllLearnedCandidates } from "./_questions.js";
+import type { LearnedCandidate } from "../src/utils/matchSense.js";
+
+export type LearnedMap = Record<string, LearnedCandidate[]>;
+
+export interface LearnedBundle {
+  version: number;
+  hash: string;
+  createdAt: Date;
+  createdBy: string;
+  qidsCount: number;
+  candidatesCount: number;
+  /** ロールバックで公開し直した場合の元の版 */
+  restoredFrom?: number;
+  note?: string;
+  learned: LearnedMap;
+}
+
+/** 保持する版の数（これより古い版は公開時に削除） */
+export const KEEP_BUNDLE_VERSIONS = 10;
+
+/** 1版 = 1ドキュメントなので Firestore の上限（1 MiB）より余裕を持たせた上限 */
+export const MAX_BUNDLE_BYTES = 900 * 1024;
+
+const metaRef = (db: Store) => db.collection("meta").doc("learnedBundle");
+const bundleRef = (db: Store, version: number) => db.collection("learnedBundles").doc(String(version));
+
+/** 正解候補（proposedRole=accept、不正解辞書へ昇格したものを除く）から qid 別の一覧を作る */
+export async function buildLearnedMap(db: Store): Promise<LearnedMap> {
+  const snap = await db.collection("candidates").where("proposedRole", "==", "accept").get();
+  const map: LearnedMap = {};
+  for (const doc of snap.docs) {
+    const c = doc.data();
+    if (!c.qid || !c.answerNorm || c.promotedTo === "negatives") continue;
+    (map[c.qid] ??= []).push({ answerNorm: c.answerNorm, freq: c.freq || 0, avgScore: c.avgScore || 0 });
+  }
+  return map;
+}
+
+/** 内容ハッシュ（qid・回答の順序に依存しない sha256） */
+export function hashLearned(learned: LearnedMap): string {
+  const canonical = Object.keys(learned).sort().map(qid => [
+    qid,
+    [...learned[qid]]
+      .sort((a, b) => (a.answerNorm < b.answerNorm ? -1 : a.answerNorm > b.answerNorm ? 1 : 0))
+      .map(c => [c.answerNorm, c.freq, c.avgScore]),
+  ]);
+  return crypto.createHash("sha256").update(JSON.stringify(canonical)).digest("hex");
+}
+
+/**
+ * 新しい版として公開。公開中の版と内容が同じなら何もしない（unchanged: true）
+ * 大きすぎる版は書き込まずに BAD_REQUEST（候補を絞ってから公開し直す）
+ */
+export async function publishBundle(
+  db: Store,
+  learned: LearnedMap,
+  actor: string,
+  extra: { note?: string; restoredFrom?: number } = {}
+): Promise<{ bundle: Omit<LearnedBundle, "learned">; unchanged: boolean }> {
+  const hash = hashLearned(learned);
+  const now = new Date();
+  const bytes = Buffer.byteLength(JSON.stringify(learned), "utf8");
+  if (bytes > MAX_BUNDLE_BYTES) {
+    throw new Error(`BAD_REQUEST: bundle too large (${bytes} bytes > ${MAX_BUNDLE_BYTES})`);
+  }
+
+  const result = await db.runTransaction(async tx => {
+    const meta = await tx.get(metaRef(db));
+    const cur = meta.exists ? meta.data() : null;
+    if (cur && cur.hash === hash) {
+      const { learned: _, ...head } = (await tx.get(bundleRef(db, cur.current))).data() as LearnedBundle;
+      return { bundle: head, unchanged: true };
+    }
+    const version = (cur?.latest ?? 0) + 1;
+    const head: Omit<LearnedBundle, "learned"> = {
+      version,
+      hash,
+      createdAt: now,
+      createdBy: actor,
+      qidsCount: Object.keys(learned).length,
+      candidatesCount: Object.values(learned).reduce((n, list) => n + list.length, 0),
+      ...(extra.restoredFrom !== undefined ? { restoredFrom: extra.restoredFrom } : {}),
+      ...(extra.note ? { note: extra.note } : {}),
+    };
+    tx.set(bundleRef(db, version), { ...head, learned });
+    tx.set(metaRef(db), { current: version, latest: version, hash, updatedAt: now, updatedBy: actor });
+    return { bundle: head, unchanged: false };
+  });
+
+  if (!result.unchanged) await pruneBundles(db);
+  LOADED = null;
+  return result;
+}
+
+async function pruneBundles(db: Store) {
+  const snap = await db.collection("learnedBundles").orderBy("version", "desc").get();
+  const stale = snap.docs.slice(KEEP_BUNDLE_VERSIONS);
+  if (stale.length === 0) return;
+  const batch = db.batch();
+  for (const d of stale) batch.delete(d.ref);
+  await batch.commit();
+}
+
+/** 版を指定して取得（省略時は公開中の版、無ければ null） */
+export async function getBundle(db: Store, version?: number): Promise<LearnedBundle | null> {
+  let v = version;
+  if (v === undefined) {
+    const meta = await metaRef(db).get();
+    if (!meta.exists) return null;
+    v = meta.data().current as number;
+  }
+  const snap = await bundleRef(db, v).get();
+  return snap.exists ? (snap.data() as LearnedBundle) : null;
+}
+
+/** 保持している版の一覧（新しい順、中身は含まない） */
+export async function listBundles(db: Store): Promise<Array<Omit<LearnedBundle, "learned">>> {
+  const snap = await db.collection("learnedBundles").orderBy("version", "desc").get();
+  return snap.docs.map(d => {
+    const { learned: _, ...head } = d.data() as LearnedBundle;
+    return head;
+  });
+}
+
+/**
+ * 配信・サーバー採点で使う版（公開中の版、未公開なら同梱の public/candidates.json を版 0 として扱う）
+ * クライアント（GET /api/learnedBundle）とサーバー採点が同じ中身を使うよう、どちらもここを通す
+ */
+export async function getServedBundle(db: Store): Promise<Pick<LearnedBundle, "version" | "hash" | "learned"> & { createdAt?: Date }> {
+  const bundle = await getBundle(db);
+  if (bundle) return bundle;
+  const learned = getAllLearnedCandidates();
+  return { version: 0, hash: hashLearned(learned), learned };
+}
+
+// サーバー採点用のキャッシュ（関数インスタンス内で TTL の間だけ使い回す）
+const LOADED_TTL_MS = 60_000;
+let LOADED: { db: Store; at: number; learned: LearnedMap } | null = null;
+
+/** サーバー採点で使う qid の学習済み正解候補（getServedBundle と同じ版） */
+export async function getLearnedFor(db: Store, qid: string): Promise<LearnedCandidate[]> {
+  if (!LOADED || LOADED.db !== db || Date.now() - LOADED.at > LOADED_TTL_MS) {
+    LOADED = { db, at: Date.now(), learned: (await getServedBundle(db)).learned };
+  }
+  return LOADED.learned[qid] ?? [];
+}
@@ -0,0 +1,313 @@
+// Server-only: ファイルに保存するローカル実装（STORAGE_BACKEND=local）
+// 1プロセス前提。書き込みのたびに JSON ファイル全体を書き出す
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import type {
+  Store, StoreCollection, StoreDocRef, StoreDocSnapshot, StoreQuery,
+  StoreQuerySnapshot, StoreBatch, StoreTransaction, WhereOp,
+} from "./_store.js";
+
+/** Firestore の Timestamp 相当（JSON 化すると同じ {_seconds,_nanoseconds} になる） */
+export class LocalTimestamp {
+  _seconds: number;
+  _nanoseconds: number;
+  constructor(millis: number) {
+    this._seconds = Math.floor(millis / 1000);
+    this._nanoseconds = (millis % 1000) * 1e6;
+  }
+  toMillis() { return this._seconds * 1000 + Math.floor(this._nanoseconds / 1e6); }
+  toDate() { return new Date(this.toMillis()); }
+  valueOf() { return this.toMillis(); }
+}
+
+class DeleteSentinel {}
+const DELETE = new DeleteSentinel();
+
+type Row = Record<string, any>;
+type Data = Record<string, Record<string, Row>>;  // collection → docId → data
+
+export function defaultLocalStorePath() {
+  return path.join(process.cwd(), ".data", "local-store.json");
+}
+
+/* ---------- 値の変換 ---------- */
+
+/** 書き込み用: Date → {_seconds,_nanoseconds}（DeleteSentinel は呼び出し側で処理済み） */
+function encode(value: any): any {
+  return JSON.parse(JSON.stringify(value, function (this: any, key) {
+    const original = this[key];
+    if (original instanceof Date) return { _seconds: Math.floor(original.getTime() / 1000), _nanoseconds: (original.getTime() % 1000) * 1e6 };
+    return original instanceof LocalTimestamp ? { _seconds: original._seconds, _nanoseconds: original._nanoseconds } : original;
+  }));
+}
+
+/** 読み出し用: {_seconds,_nanoseconds} → LocalTimestamp（毎回複製して返す） */
+function decode(value: any): any {
+  if (Array.isArray(value)) return value.map(decode);
+  if (value && typeof value === "object") {
+    const keys = Object.keys(value);
+    if (keys.length === 2 && "_seconds" in value && "_nanoseconds" in value) {
+      return new LocalTimestamp(value._seconds * 1000 + Math.floor(value._nanoseconds / 1e6));
+    }
+    const out: Row = {};
+    for (const k of keys) out[k] = decode(value[k]);
+    return out;
+  }
+  return value;
+}
+
+/** 比較用のプリミティブ化（日時はミリ秒） */
+function comparable(v: any): any {
+  if (v instanceof Date) return v.getTime();
+  if (v instanceof LocalTimestamp) return v.toMillis();
+  return v;
+}
+
+function compare(a: any, b: any): number {
+  const x = comparable(a);
+  const y = comparable(b);
+  if (x === y) return 0;
+  if (x === undefined || x === null) return -1;
+  if (y === undefined || y === null) return 1;
+  return x < y ? -1 : 1;
+}
+
+function getPath(obj: any, field: string): any {
+  return field.split(".").reduce((o, k) => (o == null ? undefined : o[k]), obj);
+}
+
+function setPath(obj: Row, field: string, value: any) {
+  const keys = field.split(".");
+  let cur = obj;
+  for (const k of keys.slice(0, -1)) {
+    if (cur[k] == null || typeof cur[k] !== "object") cur[k] = {};
+    cur = cur[k];
+  }
+  const last = keys[keys.length - 1];
+  if (value instanceof DeleteSentinel) delete cur[last];
+  else cur[last] = value;
+}
+
+/** set(..., {merge:true}) 用の深いマージ */
+function deepMerge(target: Row, patch: Row): Row {
+  const out: Row = { ...target };
+  for (const [k, v] of Object.entries(patch)) {
+    if (v instanceof DeleteSentinel) delete out[k];
+    else if (v && typeof v === "object" && !Array.isArray(v) && !(v instanceof Date) && !(v instanceof LocalTimestamp)
+      && out[k] && typeof out[k] === "object" && !Array.isArray(out[k])) {
+      out[k] = deepMerge(out[k], v);
+    } else out[k] = v;
+  }
+  return out;
+}
+
+function stripDeletes(data: Row): Row {
+  return deepMerge({}, data);
+}
+
+function matches(row: Row, field: string, op: WhereOp, value: any): boolean {
+  const v = getPath(row, field);
+  switch (op) {
+    case "==": return compare(v, value) === 0 && v !== undefined;
+    case "!=": return v !== undefined && compare(v, value) !== 0;
+    case "<": return v != null && compare(v, value) < 0;
+    case "<=": return v != null && compare(v, value) <= 0;
+    case ">": return v != null && compare(v, value) > 0;
+    case ">=": return v != null && compare(v, value) >= 0;
+    case "in": return Array.isArray(value) && value.some(x => compare(v, x) === 0);
+    case "array-contains": return Array.isArray(v) && v.some(x => compare(x, value) === 0);
+  }
+}
+
+/* ---------- ストア本体 ---------- */
+
+class LocalDb {
+  private data: Data;
+
+  constructor(private file: string) {
+    this.data = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf-8")) : {};
+  }
+
+  read(col: string, id: string): Row | undefined {
+    const row = this.data[col]?.[id];
+    return row ? decode(row) : undefined;
+  }
+
+  list(col: string): Array<[string, Row]> {
+    return Object.entries(this.data[col] ?? {}).map(([id, row]) => [id, decode(row)]);
+  }
+
+  /** 複数の書き込みをまとめて反映して1回だけ保存 */
+  apply(writes: Array<() => void>) {
+    const backup = JSON.stringify(this.data);
+    try {
+      for (const w of writes) w();
+    } catch (e) {
+      this.data = JSON.parse(backup);  // 途中で失敗したら全体を取り消す
+      throw e;
+    }
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(this.data));
+  }
+
+  put(col: string, id: string, row: Row) {
+    (this.data[col] ??= {})[id] = encode(row);
+  }
+
+  remove(col: string, id: string) {
+    if (this.data[col]) delete this.data[col][id];
+  }
+}
+
+type Write = { kind: "set"; data: Row; merge: boolean } | { kind: "update"; patch: Row } | { kind: "delete" };
+
+function planWrite(db: LocalDb, ref: LocalDocRef, w: Write): () => void {
+  return () => {
+    const cur = db.read(ref.col, ref.id);
+    if (w.kind === "delete") return db.remove(ref.col, ref.id);
+    if (w.kind === "set") return db.put(ref.col, ref.id, w.merge ? deepMerge(cur ?? {}, w.data) : stripDeletes(w.data));
+    if (!cur) throw new Error(`NOT_FOUND: ${ref.col}/${ref.id}`);
+    const next = { ...cur };
+    for (const [field, value] of Object.entries(w.patch)) setPath(next, field, value);
+    db.put(ref.col, ref.id, next);
+  };
+}
+
+class LocalDocRef implements StoreDocRef {
+  constructor(private db: LocalDb, public col: string, public id: string) {}
+
+  async get(): Promise<StoreDocSnapshot> {
+    return snapshot(this, this.db.read(this.col, this.id));
+  }
+  async set(data: any, options?: { merge?: boolean }) {
+    this.db.apply([planWrite(this.db, this, { kind: "set", data, merge: !!options?.merge })]);
+  }
+  async update(patch: Record<string, any>) {
+    this.db.apply([planWrite(this.db, this, { kind: "update", patch })]);
+  }
+  async delete() {
+    this.db.apply([planWrite(this.db, this, { kind: "delete" })]);
+  }
+}
+
+function snapshot(ref: LocalDocRef, row: Row | undefined): StoreDocSnapshot {
+  return { id: ref.id, ref, exists: !!row, data: () => row };
+}
+
+class LocalQuery implements StoreQuery {
+  constructor(
+    protected db: LocalDb,
+    protected col: string,
+    private filters: Array<[string, WhereOp, any]> = [],
+    private orders: Array<[string, "asc" | "desc"]> = [],
+    private max: number | null = null,
+    private cursor: any[] | null = null,
+  ) {}
+
+  private clone(patch: Partial<{ filters: Array<[string, WhereOp, any]>; orders: Array<[string, "asc" | "desc"]>; max: number | null; cursor: any[] | null }>) {
+    return new LocalQuery(
+      this.db, this.col,
+      patch.filters ?? this.filters, patch.orders ?? this.orders,
+      patch.max !== undefined ? patch.max : this.max, patch.cursor !== undefined ? patch.cursor : this.cursor,
+    );
+  }
+
+  where(field: string, op: WhereOp, value: any) { return this.clone({ filters: [...this.filters, [field, op, value]] }); }
+  orderBy(field: string, direction: "asc" | "desc" = "asc") { return this.clone({ orders: [...this.orders, [field, direction]] }); }
+  limit(n: number) { return this.clone({ max: n }); }
+  startAfter(...cursor: any[]) { return this.clone({ cursor }); }
+
+  async get(): Promise<StoreQuerySnapshot> {
+    let rows = this.db.list(this.col).filter(([, row]) => this.filters.every(([f, op, v]) => matches(row, f, op, v)));
+
+    // Firestore と同様、orderBy したフィールドが無いドキュメントは除外
+    rows = rows.filter(([, row]) => this.orders.every(([f]) => getPath(row, f) !== undefined));
+    const byOrders = (a: Row, b: Row) => {
+      for (const [f, dir] of this.orders) {
+        const c = compare(getPath(a, f), getPath(b, f));
+        if (c !== 0) return dir === "desc" ? -c : c;
+      }
+      return 0;
+    };
+    rows.sort((a, b) => byOrders(a[1], b[1]) || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+
+    if (this.cursor) {
+      // カーソルはドキュメントスナップショット or orderBy の値
+      const [first] = this.cursor;
+      if (first && typeof first === "object" && typeof first.data === "function") {
+        const afterId: string = first.id;
+        const afterRow: Row = first.data() ?? {};
+        rows = rows.filter(([id, row]) => {
+          const c = byOrders(row, afterRow);
+          return c > 0 || (c === 0 && id > afterId);
+        });
+      } else {
+        const afterRow: Row = {};
+        this.orders.forEach(([f], i) => setPath(afterRow, f, this.cursor![i]));
+        rows = rows.filter(([, row]) => byOrders(row, afterRow) > 0);
+      }
+    }
+
+    if (this.max !== null) rows = rows.slice(0, this.max);
+    const docs = rows.map(([id, row]) => snapshot(new LocalDocRef(this.db, this.col, id), row));
+    return { docs, empty: docs.length === 0, size: docs.length };
+  }
+}
+
+class LocalCollection extends LocalQuery implements StoreCollection {
+  doc(id?: string): StoreDocRef {
+    return new LocalDocRef(this.db, this.col, id ?? crypto.randomBytes(10).toString("hex"));
+  }
+  async add(data: any) {
+    const ref = this.doc();
+    await ref.set(data);
+    return { id: ref.id };
+  }
+}
+
+function asLocal(ref: StoreDocRef): LocalDocRef {
+  if (!(ref instanceof LocalDocRef)) throw new Error("foreign document reference");
+  return ref;
+}
+
+export function createLocalStore(file: string): Store {
+  const db = new LocalDb(file);
+  let txQueue: Promise<unknown> = Promise.resolve();
+
+  return {
+    collection: name => new LocalCollection(db, name),
+
+    batch(): StoreBatch {
+      const writes: Array<() => void> = [];
+      const batch: StoreBatch = {
+        set: (ref, data, options) => { writes.push(planWrite(db, asLocal(ref), { kind: "set", data, merge: !!options?.merge })); return batch; },
+        update: (ref, patch) => { writes.push(planWrite(db, asLocal(ref), { kind: "update", patch })); return batch; },
+        delete: ref => { writes.push(planWrite(db, asLocal(ref), { kind: "delete" })); return batch; },
+        commit: async () => db.apply(writes.splice(0)),
+      };
+      return batch;
+    },
+
+    // 読み取りはその場、書き込みは fn 完了後にまとめて反映（1プロセス前提なので再試行はせず、トランザクションは1つずつ順に実行する）
+    runTransaction(fn) {
+      const run = async () => {
+        const writes: Array<() => void> = [];
+        const tx: StoreTransaction = {
+          get: ref => asLocal(ref).get(),
+          set: (ref, data, options) => { writes.push(planWrite(db, asLocal(ref), { kind: "set", data, merge: !!options?.merge })); return tx; },
+          update: (ref, patch) => { writes.push(planWrite(db, asLocal(ref), { kind: "update", patch })); return tx; },
+          delete: ref => { writes.push(planWrite(db, asLocal(ref), { kind: "delete" })); return tx; },
+        };
+        const result = await fn(tx);
+        db.apply(writes);
+        return result;
+      };
+      const next = txQueue.then(run, run);
+      txQueue = next.catch(() => undefined);
+      return next;
+    },
+
+    deleteField: () => DELETE,
+  };
+}
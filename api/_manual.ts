@@ -0,0 +1,28 @@
+// Server-only: answers.manual の読み取り
+// 教師の訂正（overrideAnswer）は { by: string, at }、生徒の訂正（userCorrectAnswer）は { by: { userId, at } } で保存されている
+export interface ManualCorrection {
+  result?: string;
+  by?: string | { userId?: string | null; at?: unknown } | null;
+  at?: unknown;
+}
+
+/** 訂正日時（どちらの形でも） */
+export function manualAt(manual: ManualCorrection | null | undefined): unknown {
+  if (!manual) return undefined;
+  return manual.at ?? (typeof manual.by === "object" ? manual.by?.at : undefined);
+}
+
+/** 訂正した人（教師は actor、生徒は userId = uid または anonId） */
+export function manualBy(manual: ManualCorrection | null | undefined): string | null {
+  const by = manual?.by;
+  return (typeof by === "string" ? by : by?.userId) ?? null;
+}
+
+/**
+ * 最終判定が教師の訂正で決まった回答か（overrideAnswer は final.reason = "teacher_override"、古いデータは manual.by が文字列）
+ * 生徒の自己訂正（userCorrectAnswer）は final.source = "manual" で manual.by がオブジェクト
+ */
+export function isStaffCorrection(a: { final?: { source?: string; reason?: string } | null; manual?: ManualCorrection | null }): boolean {
+  if (a.final?.reason === "teacher_override") return true;
+  return a.final?.source === "manual" && typeof a.manual?.by === "string";
+}
@@ -13,3 +13,83 @@ export const makeKey = (qid: string, answerRaw: string) =>
 // small guard to prevent ReDoS via huge regex-like strings in phrases
 export const isSafePattern = (s: string) =>
   s.length <= 200 && (s.match(/[.*+?^${}()|[\]\\]/g)?.length ?? 0) / Math.max(1, s.length) < 0.3;
+
+// regex ルール用: isSafePattern はメタ文字の割合で弾くので正規表現には使えない
+// 照合する回答は 200 文字までなので、指数的なバックトラックだけ防げばよい。次のものを拒否する
+// - 繰り返すグループの中に量指定子や選択（| ）がある: (a+)+ / ((a+))+ / (a|aa)+ など
+// - 上限なしの量指定子（* + {n,}）が3つ以上: .*.*.*x のような多項式の爆発
+// - 後方参照・先読み/後読み（バックトラックの見積もりが立たない）
+export const MAX_REGEX_UNBOUNDED = 2;
+
+export const isSafeRegex = (s: string) => {
+  if (s.length > 200 || /\\[1-9]|\\k</.test(s) || /\(\?<?[=!]/.test(s)) return false;
+  try {
+    new RegExp(s, "u");
+  } catch {
+    return false;
+  }
+  return !hasNestedRepetition(s);
+};
+
+// regex ルールは normalize 後の回答と照合するので、字面も同じ向きにそろえる
+// 全角英数字・半角カナは NFKC、カタカナはひらがなにする（記号は正規表現の構文なので触らない）。大文字小文字は i フラグで吸収する
+export const normalizeRegex = (s: string) =>
+  String(s ?? "")
+    .replace(/[０-９Ａ-Ｚａ-ｚｦ-ﾟ]+/g, ch => ch.normalize("NFKC"))
+    .replace(/[ァ-ン]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0x60));
+
+/** normalize が回答から消す文字（regex ルールに書いても当たらない） */
+export const REMOVED_BY_NORMALIZE = /[！-／：-＠［-｀｛-～。、，．・\s]/;
+
+interface RegexGroup { quantified: boolean; alternation: boolean }
+
+/** u フラグでコンパイルできる正規表現を前提に、グループの入れ子と量指定子を数える */
+function hasNestedRepetition(s: string): boolean {
+  const stack: RegexGroup[] = [{ quantified: false, alternation: false }];
+  let unbounded = 0;
+  let last: RegexGroup | "atom" | null = null;  // 直前の量指定できる要素（閉じたグループなら中身）
+
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i];
+    const top = stack[stack.length - 1];
+    if (ch === "\\") {
+      // \p{...} \u{...} は {} ごと1文字
+      i += /[pPu]/.test(s[i + 1] ?? "") && s[i + 2] === "{" ? s.indexOf("}", i) - i : 1;
+      last = "atom";
+    } else if (ch === "[") {
+      for (i++; i < s.length && s[i] !== "]"; i++) if (s[i] === "\\") i++;
+      last = "atom";
+    } else if (ch === "(") {
+      if (s[i + 1] === "?") i = s[i + 2] === "<" ? s.indexOf(">", i) : i + 2;
+      stack.push({ quantified: false, alternation: false });
+      last = null;
+    } else if (ch === ")") {
+      const inner = stack.pop()!;
+      const parent = stack[stack.length - 1];
+      parent.quantified ||= inner.quantified;
+      parent.alternation ||= inner.alternation;
+      last = inner;
+    } else if (ch === "|") {
+      top.alternation = true;
+      last = null;
+    } else if (ch === "*" || ch === "+" || ch === "?" || ch === "{") {
+      let repeats = ch !== "?";
+      if (ch === "{") {
+        const m = /^\{(\d+)(,(\d*))?\}/.exec(s.slice(i))!;
+        i += m[0].length - 1;
+        const max = m[2] === undefined ? Number(m[1]) : m[3] === "" ? Infinity : Number(m[3]);
+        repeats = max > 1;
+        if (max === Infinity) unbounded++;
+      } else if (ch !== "?") {
+        unbounded++;
+      }
+      if (s[i + 1] === "?") i++;  // 最短一致の ?
+      if (repeats && last && last !== "atom" && (last.quantified || last.alternation)) return true;
+      top.quantified = true;
+      last = null;
+    } else {
+      last = "atom";
+    }
+  }
+  return unbounded > MAX_REGEX_UNBOUNDED;
+}
@@ -0,0 +1,145 @@
+// Server-only: 一括訂正の操作記録（overrideOps/{opId}）
+// upsertOverride / overrideRules が書き換えた回答ごとに final の before/after を残し、操作単位で取り消せるようにする
+import type { Store, StoreBatch, StoreDocRef, StoreTransaction } from "./_store.js";
+import { manualAt } from "./_manual.js";
+import { inClassScope, type ClassScope } from "./_classes.js";
+
+/** 1操作で書き換える回答の上限（操作記録・ルール文書と合わせて Firestore の batch 500 件に収める） */
+export const MAX_OP_ANSWERS = 450;
+
+export interface AnswerChange {
+  answerId: string;
+  before: any;
+  after: any;
+}
+
+export interface OverrideOp {
+  opId: string;
+  ts: Date;
+  action: string;
+  actor: string;
+  qid: string | null;
+  /** 操作で書き換えたルール文書（取り消し時に before に戻す。before が null なら削除） */
+  target: { collection: "overrides" | "overrideRules"; id: string; before: any; after: any } | null;
+  changes: AnswerChange[];
+  /** 取り消し操作の場合、取り消した元の opId */
+  revertOf?: string;
+  revertedAt?: Date;
+  revertedBy?: string;
+  revertOpId?: string;
+}
+
+/** 操作ID を先に採番（final.reason などに埋める前に使う） */
+export function newOpId(db: Store): string {
+  return db.collection("overrideOps").doc().id;
+}
+
+/** 操作を記録（answers の更新と同じ batch / トランザクションに載せる） */
+export function recordOp(db: Store, batch: StoreBatch | StoreTransaction, op: OverrideOp) {
+  batch.set(db.collection("overrideOps").doc(op.opId), op);
+}
+
+// 時刻は保存先で型が変わる（Date / Timestamp）ので、判定の中身だけで比べる
+const sameFinal = (a: any, b: any) =>
+  (a?.result ?? null) === (b?.result ?? null) &&
+  (a?.source ?? null) === (b?.source ?? null) &&
+  (a?.reason ?? null) === (b?.reason ?? null);
+
+const toMillis = (v: any): number =>
+  v instanceof Date ? v.getTime()
+    : typeof v?.toMillis === "function" ? v.toMillis()
+    : typeof v === "string" || typeof v === "number" ? new Date(v).getTime()
+    : NaN;
+
+export interface RevertResult {
+  opId: string;
+  revertOpId: string | null;
+  restored: number;
+  /** 操作の後に manual で訂正された回答（触らない） */
+  skippedManual: number;
+  /** 操作の後に別の操作で final が変わった回答（触らない） */
+  skippedChanged: number;
+  /** 担当クラスの外の回答（触らない） */
+  skippedScope: number;
+  missing: number;
+}
+
+/**
+ * 操作を取り消す。操作直後の final のままの回答だけを before に戻し、ルール文書も元に戻す
+ * 取り消し自体も操作として記録する（action: "revert"）
+ * 全クラスを扱えない教師（scope が null でない）は自分の操作だけ、担当クラスの回答だけを戻せる
+ */
+export async function revertOp(db: Store, opId: string, by: { actor: string; scope: ClassScope }, dryRun = false): Promise<RevertResult> {
+  const { actor, scope } = by;
+  const opRef = db.collection("overrideOps").doc(opId);
+  const now = new Date();
+  const revertOpId = dryRun ? null : newOpId(db);
+
+  // 取り消し済みかの確認から revertedAt の記録までを1つのトランザクションで行う（同時に取り消すと片方は CONFLICT）
+  const result = await db.runTransaction(async tx => {
+    const snap = await tx.get(opRef);
+    if (!snap.exists) throw new Error("NOT_FOUND: operation not found");
+    const op = snap.data() as OverrideOp;
+    if (scope !== null && op.actor !== actor) throw new Error("PERMISSION_DENIED: not your operation");
+    if (op.revertedAt) throw new Error("CONFLICT: operation already reverted");
+
+    const opTime = toMillis(op.ts);
+    const changes: AnswerChange[] = [];
+    const restore: Array<{ ref: StoreDocRef; final: any }> = [];
+    let skippedManual = 0;
+    let skippedChanged = 0;
+    let skippedScope = 0;
+    let missing = 0;
+
+    // 読み取りを先に済ませる（Firestore のトランザクションは書き込みの後に読めない）
+    for (const c of op.changes ?? []) {
+      const ref = db.collection("answers").doc(c.answerId);
+      const cur = await tx.get(ref);
+      if (!cur.exists) { missing++; continue; }
+      const a = cur.data();
+      if (!inClassScope(scope, a.raw?.classId)) { skippedScope++; continue; }
+      if (a.manual && !(toMillis(manualAt(a.manual)) < opTime)) { skippedManual++; continue; }
+      if (!sameFinal(a.final, c.after)) { skippedChanged++; continue; }
+      changes.push({ answerId: c.answerId, before: a.final ?? null, after: c.before });
+      restore.push({ ref, final: c.before });
+    }
+    const targetRef = op.target ? db.collection(op.target.collection).doc(op.target.id) : null;
+    const curTarget = targetRef && !dryRun ? await tx.get(targetRef) : null;
+
+    if (!dryRun) {
+      for (const r of restore) tx.update(r.ref, { final: r.final });
+      let target: OverrideOp["target"] = null;
+      if (op.target && targetRef) {
+        target = { ...op.target, before: curTarget?.exists ? curTarget.data() : null, after: op.target.before };
+        if (op.target.before) tx.set(targetRef, op.target.before);
+        else tx.delete(targetRef);
+      }
+      recordOp(db, tx, {
+        opId: revertOpId!,
+        ts: now,
+        action: "revert",
+        actor,
+        qid: op.qid,
+        target,
+        changes,
+        revertOf: opId,
+      });
+      tx.update(opRef, { revertedAt: now, revertedBy: actor, revertOpId });
+    }
+    return { opId, revertOpId, restored: changes.length, skippedManual, skippedChanged, skippedScope, missing };
+  });
+
+  if (!dryRun) {
+    // audit event
+    await db.collection("overrides").add({
+      ts: now,
+      action: "override_revert",
+      actor,
+      opId: revertOpId,
+      revertOf: opId,
+      affected: result.restored,
+    });
+  }
+
+  return result;
+}
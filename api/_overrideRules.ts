@@ -0,0 +1,162 @@
+// Server-only: パターンによる一括訂正ルール（overrideRules/{ruleId}）
+// overrides/{key} は正規化後の完全一致だけなので、表記ゆれをまとめて判定したいときに使う
+//
+// 優先順位（提出時・適用時とも同じ）
+//   1. overrides/{qid::answerNorm}（完全一致、active のもの）
+//   2. overrideRules（active のもの。compareRules の順で最初に当たったルール）
+//   3. 自動採点（正解辞書 / 不正解辞書・閾値を含む）
+import type { Store } from "./_store.js";
+import { normalize, normalizeRegex, isSafePattern, isSafeRegex, REMOVED_BY_NORMALIZE } from "./_normalize.js";
+import { morphKey } from "../src/utils/morphTokenizer.js";
+import { normalizeSense } from "../src/utils/normalizeSense.js";
+
+export const RULE_KINDS = ["prefix", "suffix", "contains", "morph", "regex"] as const;
+export type RuleKind = typeof RULE_KINDS[number];
+
+export type RuleLabel = "OK" | "NG" | "ABSTAIN";
+
+export interface OverrideRule {
+  id: string;
+  qid: string;
+  kind: RuleKind;
+  /** prefix / suffix / contains / regex: 正規化後の回答と照合する文字列・正規表現（regex は normalizeRegex でそろえ、大文字小文字を区別しない） */
+  pattern?: string;
+  /** morph: 語幹（morphKey の content にこの文字列を含めば一致。例: "気づ"） */
+  lemma?: string;
+  /** morph: 含むべき助動詞タグ（すべて含めば一致） */
+  auxTags?: string[];
+  label: RuleLabel;
+  /** 大きいほど優先（既定 0） */
+  priority: number;
+  active: boolean;
+  reason: string;
+  by: string;
+  createdAt: any;
+  updatedAt: any;
+}
+
+export type RuleInput = Pick<OverrideRule, "qid" | "kind" | "pattern" | "lemma" | "auxTags" | "label"> &
+  Partial<Pick<OverrideRule, "priority" | "active" | "reason">>;
+
+// 同じ priority なら、固定文字列 → 形態素 → 正規表現 の順に具体的とみなす
+const KIND_RANK: Record<RuleKind, number> = { prefix: 0, suffix: 0, contains: 1, morph: 2, regex: 3 };
+
+export function isRuleKind(v: unknown): v is RuleKind {
+  return typeof v === "string" && (RULE_KINDS as readonly string[]).includes(v);
+}
+
+/** 入力検証。問題があればエラーメッセージを返す */
+export function validateRule(r: Partial<RuleInput>): string | null {
+  if (!r.qid) return "qid required";
+  if (!isRuleKind(r.kind)) return `kind must be one of ${RULE_KINDS.join(", ")}`;
+  if (!["OK", "NG", "ABSTAIN"].includes(String(r.label))) return "invalid label";
+  if (r.priority !== undefined && !Number.isInteger(r.priority)) return "priority must be an integer";
+  if (r.reason && String(r.reason).length > 500) return "reason too long";
+
+  if (r.kind === "morph") {
+    if (!r.lemma || !String(r.lemma).trim()) return "lemma required";
+    if (r.auxTags !== undefined && (!Array.isArray(r.auxTags) || r.auxTags.some(t => typeof t !== "string"))) {
+      return "auxTags must be an array of strings";
+    }
+    return null;
+  }
+
+  if (!r.pattern || !String(r.pattern).trim()) return "pattern required";
+  if (r.kind === "regex") {
+    const src = normalizeRegex(String(r.pattern));
+    if (!isSafeRegex(src)) return "regex too long, unsafe or invalid";
+    // 空白・句読点・全角記号は回答側で消えるので、書いても当たらない（\s などのエスケープは可）
+    if (REMOVED_BY_NORMALIZE.test(src.replace(/\\./g, ""))) return "regex contains spaces or punctuation removed by normalization";
+    return null;
+  }
+  if (!isSafePattern(String(r.pattern))) return "pattern too long or unsafe";
+  if (!normalize(String(r.pattern))) return "pattern is empty after normalization";
+  return null;
+}
+
+/** 照合の優先順（先頭ほど優先） */
+export function compareRules(a: OverrideRule, b: OverrideRule): number {
+  return (b.priority ?? 0) - (a.priority ?? 0)
+    || KIND_RANK[a.kind] - KIND_RANK[b.kind]
+    || specificity(b) - specificity(a)
+    || String(a.id).localeCompare(String(b.id));
+}
+
+function specificity(r: OverrideRule): number {
+  return r.kind === "morph" ? (r.auxTags?.length ?? 0) : String(r.pattern ?? "").length;
+}
+
+const regexCache = new Map<string, RegExp>();
+
+/**
+ * 1回の照合にこれ以上かかった regex ルールは、この関数インスタンスでは以後照合しない
+ * 遅い照合が一度起きた後で外すだけで（その1回は待つ）、外したことは他のインスタンスや再起動後には引き継がない
+ */
+export const REGEX_SLOW_MS = 50;
+/** regex ルールと照合する回答の最大長（curated.flags.tooLong と同じ 200 文字） */
+export const REGEX_MAX_INPUT = 200;
+// 照合しない regex（今の isSafeRegex を通らない既存ルールと、照合が遅かったもの）
+const disabledRegex = new Set<string>();
+
+/** 1件の回答がルールに当たるか */
+export function ruleMatches(rule: OverrideRule, answerRaw: string): boolean {
+  const norm = normalize(answerRaw);
+  if (!norm) return false;
+  switch (rule.kind) {
+    case "prefix":
+      return norm.startsWith(normalize(rule.pattern ?? ""));
+    case "suffix":
+      return norm.endsWith(normalize(rule.pattern ?? ""));
+    case "contains":
+      return norm.includes(normalize(rule.pattern ?? ""));
+    case "regex": {
+      const src = normalizeRegex(rule.pattern ?? "");
+      if (norm.length > REGEX_MAX_INPUT || disabledRegex.has(src)) return false;
+      let re = regexCache.get(src);
+      if (!re) {
+        if (!isSafeRegex(src)) {
+          disabledRegex.add(src);
+          return false;
+        }
+        re = new RegExp(src, "iu");
+        regexCache.set(src, re);
+      }
+      // isSafeRegex をすり抜けて遅かったものは外す（提出のたびに同じ時間を使わせない）
+      const started = Date.now();
+      const hit = re.test(norm);
+      if (Date.now() - started > REGEX_SLOW_MS) {
+        disabledRegex.add(src);
+        console.warn(`overrideRules: regex rule ${rule.id} took over ${REGEX_SLOW_MS}ms and is disabled`);
+      }
+      return hit;
+    }
+    case "morph": {
+      // morphKey の語幹は活用語尾の扱いが粗い（気づかない → 気づか）ので、語幹に lemma を含めば一致とする
+      const lemma = normalizeSense(rule.lemma ?? "");
+      const answer = morphKey(answerRaw);
+      if (!lemma || !(answer.content.surface.includes(lemma) || answer.content.lemma.includes(lemma))) return false;
+      return (rule.auxTags ?? []).every(tag => answer.aux.includes(tag));
+    }
+  }
+}
+
+/** 優先順位に従って最初に当たるルール（無ければ null） */
+export function findMatchingRule(rules: OverrideRule[], answerRaw: string): OverrideRule | null {
+  for (const rule of [...rules].sort(compareRules)) {
+    if (rule.active && ruleMatches(rule, answerRaw)) return rule;
+  }
+  return null;
+}
+
+/** qid の active なルール */
+export async function loadActiveRules(db: Store, qid: string): Promise<OverrideRule[]> {
+  const snap = await db.collection("overrideRules").where("qid", "==", qid).get();
+  return snap.docs
+    .map(d => ({ ...d.data(), id: d.id }) as OverrideRule)
+    .filter(r => r.active);
+}
+
+/** final.reason に残す文字列（rule:{id} で始まる） */
+export function ruleReason(rule: OverrideRule): string {
+  return `rule:${rule.id}${rule.reason ? " - " + rule.reason : ""}`;
+}
@@ -0,0 +1,52 @@
+// Server-only: 問題データ（data/kobun_q.jsonl.txt）と学習済み正解候補の読み込み
+import fs from "fs";
+import path from "path";
+import { buildSenseIndex } from "../src/lib/buildSenseIndex.js";
+import type { SenseCandidate, LearnedCandidate } from "../src/utils/matchSense.js";
+
+// キャッシュ用
+let QMAP: Map<string, any> | null = null;
+let SENSE_INDEX: Map<string, SenseCandidate[]> | null = null;
+let LEARNED: Record<string, LearnedCandidate[]> | null = null;
+
+export function loadQuestionsOnce() {
+  if (QMAP) return QMAP;
+  const p = path.join(process.cwd(), "data", "kobun_q.jsonl.txt");
+  if (!fs.existsSync(p)) throw new Error("Data file not found");
+
+  const lines = fs.readFileSync(p, "utf-8").split(/\r?\n/).filter(Boolean);
+  QMAP = new Map();
+  for (const line of lines) {
+    try {
+      const obj = JSON.parse(line);
+      if (obj.qid) QMAP.set(String(obj.qid), obj);
+    } catch {}
+  }
+  return QMAP!;
+}
+
+/** qid → 正解sense候補（クライアントの buildSenseIndex と同じ） */
+export function getSenseCandidates(qid: string): SenseCandidate[] {
+  if (!SENSE_INDEX) {
+    SENSE_INDEX = buildSenseIndex(Array.from(loadQuestionsOnce().values()));
+  }
+  return SENSE_INDEX.get(qid) ?? [];
+}
+
+/** 同梱の学習済み正解候補 public/candidates.json（qid → 候補。無ければ空） */
+export function getAllLearnedCandidates(): Record<string, LearnedCandidate[]> {
+  if (!LEARNED) {
+    try {
+      const p = path.join(process.cwd(), "public", "candidates.json");
+      LEARNED = JSON.parse(fs.readFileSync(p, "utf-8"));
+    } catch {
+      LEARNED = {};
+    }
+  }
+  return LEARNED!;
+}
+
+/** qid → 学習済み正解候補（public/candidates.json が無ければ空） */
+export function getLearnedCandidates(qid: string): LearnedCandidate[] {
+  return getAllLearnedCandidates()[qid] ?? [];
+}
@@ -0,0 +1,135 @@
+// Server-only: 生徒向け（認証なし）エンドポイントのレート制限
+// IP ごと・anonId ごとのトークンバケット。バケットの保存先は差し替えられる
+// - RATE_LIMIT_BACKEND=memory: 関数インスタンス内の Map（ローカル・テスト用。インスタンスをまたぐと共有されない）
+// - RATE_LIMIT_BACKEND=store: rateLimits/{sha1(key)} をトランザクションで更新（インスタンス間で共有）
+// - 未指定: STORAGE_BACKEND=local なら memory、それ以外は store
+import crypto from "crypto";
+import { getStore, storageBackend, type Store } from "./_store.js";
+
+export interface BucketRule {
+  /** バケットの容量（連続して受け付ける回数） */
+  capacity: number;
+  /** 1秒あたりに戻るトークン数 */
+  refillPerSec: number;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  /** 拒否したとき、次の1トークンが貯まるまでのミリ秒 */
+  retryAfterMs: number;
+}
+
+/** バケットの保存先。key ごとに1トークン取り出せるか判定して状態を更新する */
+export interface RateLimitStore {
+  take(key: string, rule: BucketRule, now: number): Promise<TakeResult>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/** 経過時間分を補充してから1トークン取り出す */
+function refill(bucket: Bucket | null, rule: BucketRule, now: number): { bucket: Bucket; result: TakeResult } {
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) / 1000 : 0;
+  const tokens = bucket ? Math.min(rule.capacity, bucket.tokens + elapsed * rule.refillPerSec) : rule.capacity;
+  if (tokens >= 1) return { bucket: { tokens: tokens - 1, updatedAt: now }, result: { allowed: true, retryAfterMs: 0 } };
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: { allowed: false, retryAfterMs: Math.ceil(((1 - tokens) / rule.refillPerSec) * 1000) },
+  };
+}
+
+// 満タンに戻ったバケットは持っていても意味がないので、この件数を超えたら捨てる
+const MEMORY_MAX_KEYS = 10_000;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, Bucket>();
+  return {
+    async take(key, rule, now) {
+      const { bucket, result } = refill(buckets.get(key) ?? null, rule, now);
+      buckets.delete(key);
+      buckets.set(key, bucket);
+      if (buckets.size > MEMORY_MAX_KEYS) buckets.delete(buckets.keys().next().value as string);
+      return result;
+    },
+  };
+}
+
+export function createStoreRateLimitStore(db: Store): RateLimitStore {
+  return {
+    take(key, rule, now) {
+      // anonId に "/" などが入ってもドキュメントIDにできるようハッシュする
+      const ref = db.collection("rateLimits").doc(crypto.createHash("sha1").update(key).digest("hex"));
+      return db.runTransaction(async tx => {
+        const snap = await tx.get(ref);
+        const cur = snap.exists ? (snap.data() as Bucket) : null;
+        const { bucket, result } = refill(cur, rule, now);
+        // 満タンまで戻る時刻を過ぎたら消してよい（TTL ポリシー用）
+        const expiresAt = new Date(now + (rule.capacity / rule.refillPerSec) * 1000);
+        tx.set(ref, { key, ...bucket, expiresAt });
+        return result;
+      });
+    },
+  };
+}
+
+let cached: { backend: string; store: RateLimitStore } | null = null;
+
+async function getRateLimitStore(): Promise<RateLimitStore> {
+  const env = process.env.RATE_LIMIT_BACKEND;
+  const backend = env === "memory" || env === "store" ? env : storageBackend() === "local" ? "memory" : "store";
+  if (cached?.backend === backend) return cached.store;
+  const store = backend === "memory" ? createMemoryRateLimitStore() : createStoreRateLimitStore(await getStore());
+  cached = { backend, store };
+  return store;
+}
+
+/** 保存先を差し替える（テスト用。null で環境変数の選択に戻す） */
+export function setRateLimitStore(store: RateLimitStore | null) {
+  cached = store ? { backend: process.env.RATE_LIMIT_BACKEND ?? "", store } : null;
+}
+
+export type LimitedEndpoint = "submitAnswer" | "userCorrectAnswer" | "myAnswers";
+
+/**
+ * エンドポイントごとの上限
+ * IP は教室の NAT で1クラス分がまとまるので広めに取る。anonId はオフラインキューの一括再送が通る程度
+ */
+export const RATE_LIMITS: Record<LimitedEndpoint, { ip: BucketRule; anonId: BucketRule }> = {
+  submitAnswer: { ip: { capacity: 300, refillPerSec: 10 }, anonId: { capacity: 60, refillPerSec: 1 } },
+  userCorrectAnswer: { ip: { capacity: 150, refillPerSec: 5 }, anonId: { capacity: 30, refillPerSec: 0.5 } },
+  // 履歴の同期は /progress を開いたときだけ
+  myAnswers: { ip: { capacity: 60, refillPerSec: 1 }, anonId: { capacity: 10, refillPerSec: 0.1 } },
+};
+
+/** 呼び出し元の IP（Vercel は x-forwarded-for の先頭がクライアント） */
+export function clientIp(req: any): string {
+  const forwarded = req.headers?.["x-forwarded-for"];
+  const first = String(Array.isArray(forwarded) ? forwarded[0] : forwarded ?? "").split(",")[0].trim();
+  return first || String(req.headers?.["x-real-ip"] ?? "") || req.socket?.remoteAddress || "unknown";
+}
+
+export interface RateLimitResult {
+  ok: boolean;
+  /** 拒否したとき Retry-After に入れる秒数 */
+  retryAfterSec: number;
+}
+
+/** IP と anonId の両方のバケットから1トークンずつ取り出す（どちらかが空なら拒否） */
+export async function checkRateLimit(req: any, endpoint: LimitedEndpoint, ids: { anonId?: unknown }): Promise<RateLimitResult> {
+  const store = await getRateLimitStore();
+  const rules = RATE_LIMITS[endpoint];
+  const now = Date.now();
+  const takes = [store.take(`${endpoint}:ip:${clientIp(req)}`, rules.ip, now)];
+  if (typeof ids.anonId === "string" && ids.anonId) takes.push(store.take(`${endpoint}:anon:${ids.anonId}`, rules.anonId, now));
+  const results = await Promise.all(takes);
+  const retryAfterMs = Math.max(0, ...results.filter(r => !r.allowed).map(r => r.retryAfterMs));
+  return { ok: results.every(r => r.allowed), retryAfterSec: Math.max(1, Math.ceil(retryAfterMs / 1000)) };
+}
+
+/** 429 を返す */
+export function sendRateLimited(res: any, limit: RateLimitResult) {
+  res.setHeader?.("Retry-After", String(limit.retryAfterSec));
+  return res.status(429).json({ error: "RATE_LIMITED", retryAfter: limit.retryAfterSec });
+}
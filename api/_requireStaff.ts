@@ -1,31 +1,62 @@
 // api/_requireStaff.ts
+import crypto from "crypto";
 import { getAuth } from "firebase-admin/auth";
+import { getStore } from "./_store.js";
+import { verifyApiKey } from "./_apiKeys.js";
+import { hasPermission, isRole, type Permission, type Role } from "./_roles.js";
 
-/**
- * 共有トークン or 教師ログインのどちらかで通す。
- * 戻り値 actor は監査ログに使う。
- */
-export async function requireStaff(req: any): Promise<{ actor: string }> {
-  const tokenEnv = process.env.ADMIN_VIEW_TOKEN;
-  // A) 共有トークン（推奨ヘッダ: x-admin-token。無ければ ?token= も許可）
-  const headerTok = req.headers?.["x-admin-token"] || req.headers?.["X-Admin-Token"];
-  const queryTok = (req.query && (req.query.token as string)) || undefined;
-  const token = (headerTok || queryTok)?.toString();
-  if (tokenEnv && token && token === tokenEnv) {
-    return { actor: "admin-token" };
+export type { Permission, Role } from "./_roles.js";
+
+export interface Staff {
+  /** 監査ログに残す操作者 */
+  actor: string;
+  role: Role;
+  /** 全クラスを見られるか（admin だけ）。それ以外は担当クラスだけ（_classes.ts の classScope。API キーは actor の key:<name> で担当に載せる） */
+  allClasses: boolean;
+}
+
+const safeEqual = (a: string, b: string) => {
+  const x = Buffer.from(a);
+  const y = Buffer.from(b);
+  return x.length === y.length && crypto.timingSafeEqual(x, y);
+};
+
+async function authenticate(req: any): Promise<Staff | null> {
+  // A) API キー（ヘッダ x-api-key / x-admin-token。URL のクエリはログに残るので受け付けない）
+  const headerTok = req.headers?.["x-api-key"] || req.headers?.["x-admin-token"] || req.headers?.["X-Admin-Token"];
+  const token = headerTok ? String(headerTok) : "";
+  if (token) {
+    const key = await verifyApiKey(await getStore(), token);
+    if (key) return { actor: `key:${key.name}`, role: key.role, allClasses: key.role === "admin" };
+
+    // 初期設定用: 環境変数 ADMIN_VIEW_TOKEN は admin として通す（最初のキーを発行したら外す）
+    const bootstrap = process.env.ADMIN_VIEW_TOKEN;
+    if (bootstrap && safeEqual(token, bootstrap)) return { actor: "admin-token", role: "admin", allClasses: true };
   }
 
-  // B) 既存の教師ログイン（任意）：Authorization: Bearer <Firebase ID token>
+  // B) 教師ログイン：Authorization: Bearer <Firebase ID token>（カスタムクレーム role）
   const auth = (req.headers?.authorization || "").split(" ");
   if (auth[0] === "Bearer" && auth[1]) {
     try {
       const decoded = await getAuth().verifyIdToken(auth[1], true);
-      const role = (decoded as any).role || (decoded as any)["https://claims.example/role"];
-      if (role === "teacher") return { actor: decoded.email || decoded.uid };
+      const claim = (decoded as any).role || (decoded as any)["https://claims.example/role"];
+      // 従来の role=teacher は curator 扱い
+      const role: Role | null = claim === "teacher" ? "curator" : isRole(claim) ? claim : null;
+      if (role) return { actor: decoded.email || decoded.uid, role, allClasses: role === "admin" };
     } catch (e) {
       // Invalid token, fall through to error
     }
   }
+  return null;
+}
 
-  throw new Error("PERMISSION_DENIED");
+/**
+ * API キー or 教師ログインで通し、permission を持つロールか確かめる。
+ * 戻り値 actor は監査ログに使う。
+ */
+export async function requireStaff(req: any, permission: Permission): Promise<Staff> {
+  const staff = await authenticate(req);
+  if (!staff) throw new Error("PERMISSION_DENIED");
+  if (!hasPermission(staff.role, permission)) throw new Error(`PERMISSION_DENIED: ${staff.role} cannot ${permission}`);
+  return staff;
 }
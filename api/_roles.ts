@@ -0,0 +1,25 @@
+// Server-only: 教員側のロールと権限
+// エンドポイントは requireStaff(req, 権限) で必要な権限を宣言し、ロールごとに持つ権限はここで決める
+
+export type Role = "viewer" | "grader" | "curator" | "admin";
+
+export type Permission =
+  | "answers:read"      // 回答・候補・クラス・課題・辞書の閲覧、書き出し
+  | "answers:grade"     // 1回答の訂正、再採点
+  | "classes:manage"    // クラス・名簿・課題の作成と変更
+  | "curation:write"    // 正解/不正解辞書・一括訂正・閾値・学習済みバンドル・候補集計
+  | "keys:manage"       // API キーの発行と失効
+  | "data:delete";      // 全データ削除
+
+export const ROLES: readonly Role[] = ["viewer", "grader", "curator", "admin"];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  viewer: ["answers:read"],
+  grader: ["answers:read", "answers:grade", "classes:manage"],
+  curator: ["answers:read", "answers:grade", "classes:manage", "curation:write"],
+  admin: ["answers:read", "answers:grade", "classes:manage", "curation:write", "keys:manage", "data:delete"],
+};
+
+export const isRole = (v: unknown): v is Role => typeof v === "string" && (ROLES as readonly string[]).includes(v);
+
+export const hasPermission = (role: Role, permission: Permission) => ROLE_PERMISSIONS[role].includes(permission);
@@ -0,0 +1,98 @@
+// Server-only: 保存先の抽象化（Firestore / ローカルファイル）
+// STORAGE_BACKEND=local のとき Firebase プロジェクトなしで api/ を動かせる（開発・デモ・結合テスト用）
+
+/* ハンドラが使う Firestore API のサブセット。Firestore 実装はそのまま満たす */
+
+export type WhereOp = "==" | "!=" | "<" | "<=" | ">" | ">=" | "in" | "array-contains";
+
+export interface StoreDocSnapshot {
+  id: string;
+  ref: StoreDocRef;
+  exists: boolean;
+  data(): any;
+}
+
+export interface StoreQuerySnapshot {
+  docs: StoreDocSnapshot[];
+  empty: boolean;
+  size: number;
+}
+
+export interface StoreQuery {
+  where(field: string, op: WhereOp, value: any): StoreQuery;
+  orderBy(field: string, direction?: "asc" | "desc"): StoreQuery;
+  limit(n: number): StoreQuery;
+  startAfter(...cursor: any[]): StoreQuery;
+  get(): Promise<StoreQuerySnapshot>;
+}
+
+export interface StoreDocRef {
+  id: string;
+  get(): Promise<StoreDocSnapshot>;
+  set(data: any, options?: { merge?: boolean }): Promise<unknown>;
+  update(patch: Record<string, any>): Promise<unknown>;
+  delete(): Promise<unknown>;
+}
+
+export interface StoreCollection extends StoreQuery {
+  doc(id?: string): StoreDocRef;
+  add(data: any): Promise<{ id: string }>;
+}
+
+export interface StoreBatch {
+  set(ref: StoreDocRef, data: any, options?: { merge?: boolean }): StoreBatch;
+  update(ref: StoreDocRef, patch: Record<string, any>): StoreBatch;
+  delete(ref: StoreDocRef): StoreBatch;
+  commit(): Promise<unknown>;
+}
+
+export interface StoreTransaction {
+  get(ref: StoreDocRef): Promise<StoreDocSnapshot>;
+  set(ref: StoreDocRef, data: any, options?: { merge?: boolean }): StoreTransaction;
+  update(ref: StoreDocRef, patch: Record<string, any>): StoreTransaction;
+  delete(ref: StoreDocRef): StoreTransaction;
+}
+
+export interface Store {
+  collection(name: string): StoreCollection;
+  batch(): StoreBatch;
+  runTransaction<T>(fn: (tx: StoreTransaction) => Promise<T>): Promise<T>;
+  /** update/merge でフィールドを削除する値（FieldValue.delete() 相当） */
+  deleteField(): unknown;
+}
+
+export type StorageBackend = "firestore" | "local";
+
+export function storageBackend(): StorageBackend {
+  return process.env.STORAGE_BACKEND === "local" ? "local" : "firestore";
+}
+
+let cached: { key: string; store: Store } | null = null;
+
+/**
+ * 環境変数で選んだ保存先を返す
+ * - STORAGE_BACKEND=local: LOCAL_STORE_PATH（既定 .data/local-store.json）の JSON ファイル
+ * - それ以外: Firestore（_firebaseAdmin は初期化に認証情報が要るので遅延 import）
+ */
+export async function getStore(): Promise<Store> {
+  const backend = storageBackend();
+  const key = backend === "local" ? `local:${process.env.LOCAL_STORE_PATH ?? ""}` : "firestore";
+  if (cached?.key === key) return cached.store;
+
+  let store: Store;
+  if (backend === "local") {
+    const { createLocalStore, defaultLocalStorePath } = await import("./_localStore.js");
+    store = createLocalStore(process.env.LOCAL_STORE_PATH || defaultLocalStorePath());
+  } else {
+    const { db, FieldValue } = await import("./_firebaseAdmin.js");
+    store = {
+      collection: name => db.collection(name) as unknown as StoreCollection,
+      batch: () => db.batch() as unknown as StoreBatch,
+      runTransaction: fn => db.runTransaction(tx => fn(tx as unknown as StoreTransaction)),
+      deleteField: () => FieldValue.delete(),
+    };
+  }
+
+  cached = { key, store };
+  return store;
+}
@@ -0,0 +1,41 @@
+// テスト専用: ハンドラをモックなしで STORAGE_BACKEND=local のファイルストアに対して呼ぶための共通部品
+// （先頭 "_" なので Vercel のエンドポイントにはならない）
+import os from "os";
+import path from "path";
+import { getStore, type Store } from "./_store.js";
+
+/** 初期設定用の ADMIN_VIEW_TOKEN（テストでは admin として通る） */
+export const ADMIN_TOKEN = "t";
+export const admin = { "x-admin-token": ADMIN_TOKEN };
+
+export const post = (body: any, headers: any = admin) => ({ method: "POST", headers, body, query: {} } as any);
+export const get = (query: any = {}, headers: any = admin) => ({ method: "GET", headers, query } as any);
+
+/** VercelResponse の代わり（ヘッダ名は小文字で記録、write したバイト列は body() で取り出す） */
+export const res = () => {
+  const r: any = { code: 200, jsonBody: null, headers: {}, chunks: [] as Buffer[], headersSent: false, ended: false };
+  r.status = (c: number) => { r.code = c; return r; };
+  r.json = (b: any) => { r.jsonBody = b; return r; };
+  r.setHeader = (k: string, v: string) => { r.headers[k.toLowerCase()] = v; return r; };
+  r.write = (c: string | Buffer) => { r.headersSent = true; r.chunks.push(Buffer.from(c)); return true; };
+  r.end = () => { r.ended = true; return r; };
+  r.body = () => Buffer.concat(r.chunks);
+  return r;
+};
+
+export type Handler = (req: any, res: any) => Promise<unknown>;
+
+/** ハンドラを呼んでレスポンスを返す */
+export async function call(handler: Handler, req: any) {
+  const r: any = res();
+  await handler(req, r);
+  return r;
+}
+
+/** テストごとに空のローカルストアに切り替える（beforeEach で呼ぶ） */
+export async function freshLocalStore(name: string): Promise<Store> {
+  process.env.STORAGE_BACKEND = "local";
+  process.env.ADMIN_VIEW_TOKEN = ADMIN_TOKEN;
+  process.env.LOCAL_STORE_PATH = path.join(os.tmpdir(), `kobun-${name}-${Date.now()}-${Math.random()}.json`);
+  return getStore();
+}
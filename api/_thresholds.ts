@@ -0,0 +1,29 @@
+// Server-only: thresholds/{qid} の読み込み
+import type { Store } from "./_store.js";
+import { DEFAULT_THRESHOLDS, type Thresholds } from "../src/scoring/thresholds.js";
+
+function pick(data: any): Thresholds {
+  return { hi: data.hi, lo: data.lo, ...(data.autoResolve !== undefined ? { autoResolve: !!data.autoResolve } : {}) };
+}
+
+/** qid の閾値（ドキュメントが無ければ null） */
+export async function findThresholds(db: Store, qid: string): Promise<Thresholds | null> {
+  const snap = await db.collection("thresholds").doc(qid).get();
+  return snap.exists ? pick(snap.data()) : null;
+}
+
+/** qid の閾値（ドキュメントが無ければ既定値） */
+export async function getThresholds(db: Store, qid: string): Promise<Thresholds> {
+  return (await findThresholds(db, qid)) ?? DEFAULT_THRESHOLDS;
+}
+
+/** 全問題の閾値（qid → 閾値、既定値のものは含まない） */
+export async function listThresholds(db: Store): Promise<Record<string, Thresholds & { updatedBy?: string; updatedAt?: any }>> {
+  const snap = await db.collection("thresholds").get();
+  const out: Record<string, Thresholds & { updatedBy?: string; updatedAt?: any }> = {};
+  for (const d of snap.docs) {
+    const data = d.data();
+    out[d.id] = { ...pick(data), updatedBy: data.updatedBy, updatedAt: data.updatedAt };
+  }
+  return out;
+}
@@ -0,0 +1,200 @@
+// Server-only: 書き出し用の最小限の XLSX（SpreadsheetML）ライター
+// シートは行ごとに deflate して出力に流す（ZIP はデータディスクリプタ形式。中央ディレクトリは最後に書く）
+// 文字列はインライン文字列（共有文字列表を持たないので全件をメモリに溜めない）
+import zlib from "zlib";
+import { once } from "events";
+
+export type Cell = string | number | null | undefined;
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+function crc32(buf: Buffer, crc = 0): number {
+  let c = ~crc >>> 0;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  return ~c >>> 0;
+}
+
+/** ZIP（MS-DOS 形式）の日時 */
+function dosDateTime(d: Date) {
+  const time = (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1);
+  const date = ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate();
+  return { time, date };
+}
+
+// bit 3: サイズと CRC はデータの後（データディスクリプタ）、bit 11: ファイル名は UTF-8
+const FLAGS = 0x0808;
+const DEFLATE = 8;
+
+interface ZipEntry { name: Buffer; crc: number; csize: number; usize: number; offset: number }
+
+function createZipStream(out: (chunk: Buffer) => void) {
+  const entries: ZipEntry[] = [];
+  const { time, date } = dosDateTime(new Date());
+  let offset = 0;
+  const emit = (b: Buffer) => { offset += b.length; out(b); };
+
+  /** 1ファイル分を開始。返り値の write で中身を流し、close で閉じる */
+  function open(name: string) {
+    const entry: ZipEntry = { name: Buffer.from(name, "utf-8"), crc: 0, csize: 0, usize: 0, offset };
+    const h = Buffer.alloc(30);
+    h.writeUInt32LE(0x04034b50, 0);
+    h.writeUInt16LE(20, 4);
+    h.writeUInt16LE(FLAGS, 6);
+    h.writeUInt16LE(DEFLATE, 8);
+    h.writeUInt16LE(time, 10);
+    h.writeUInt16LE(date, 12);
+    h.writeUInt16LE(entry.name.length, 26);
+    emit(Buffer.concat([h, entry.name]));
+
+    const deflate = zlib.createDeflateRaw();
+    deflate.on("data", (c: Buffer) => { entry.csize += c.length; emit(c); });
+
+    return {
+      write(s: string) {
+        const b = Buffer.from(s, "utf-8");
+        entry.crc = crc32(b, entry.crc);
+        entry.usize += b.length;
+        deflate.write(b);
+      },
+      async close() {
+        const ended = once(deflate, "end");
+        deflate.end();
+        await ended;
+        const d = Buffer.alloc(16);
+        d.writeUInt32LE(0x08074b50, 0);
+        d.writeUInt32LE(entry.crc, 4);
+        d.writeUInt32LE(entry.csize, 8);
+        d.writeUInt32LE(entry.usize, 12);
+        emit(d);
+        entries.push(entry);
+      },
+    };
+  }
+
+  async function file(name: string, content: string) {
+    const f = open(name);
+    f.write(content);
+    await f.close();
+  }
+
+  /** 中央ディレクトリと終端レコード */
+  function finish() {
+    const start = offset;
+    for (const e of entries) {
+      const h = Buffer.alloc(46);
+      h.writeUInt32LE(0x02014b50, 0);
+      h.writeUInt16LE(20, 4);
+      h.writeUInt16LE(20, 6);
+      h.writeUInt16LE(FLAGS, 8);
+      h.writeUInt16LE(DEFLATE, 10);
+      h.writeUInt16LE(time, 12);
+      h.writeUInt16LE(date, 14);
+      h.writeUInt32LE(e.crc, 16);
+      h.writeUInt32LE(e.csize, 20);
+      h.writeUInt32LE(e.usize, 24);
+      h.writeUInt16LE(e.name.length, 28);
+      h.writeUInt32LE(e.offset, 42);
+      emit(Buffer.concat([h, e.name]));
+    }
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    emit(end);
+  }
+
+  return { open, file, finish };
+}
+
+const NS_MAIN = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const NS_REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const NS_PKG_REL = "http://schemas.openxmlformats.org/package/2006/relationships";
+const XML_DECL = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// XML 1.0 で使えない制御文字は落とす
+const xmlEscape = (s: string) =>
+  s.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "")
+    .replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** 0 始まりの列番号 → A, B, ..., Z, AA, ... */
+function columnName(i: number): string {
+  let s = "";
+  for (let n = i + 1; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  return s;
+}
+
+function cellXml(ref: string, v: Cell): string {
+  if (v === null || v === undefined || v === "") return "";
+  if (typeof v === "number") return Number.isFinite(v) ? `<c r="${ref}"><v>${v}</v></c>` : "";
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(v)}</t></is></c>`;
+}
+
+/** シート名は 31 文字まで、[]:*?/\ は使えない */
+const sheetName = (s: string) => s.replace(/[[\]:*?/\\]/g, "_").slice(0, 31) || "Sheet";
+
+/**
+ * XLSX を out に書き出す。シートは1枚ずつ順に addSheet → addRows → endSheet
+ * 最後に finish で目次（workbook・rels・Content_Types）と ZIP の中央ディレクトリを書く
+ */
+export function createXlsxWriter(out: (chunk: Buffer) => void) {
+  const zip = createZipStream(out);
+  const sheets: string[] = [];
+  let current: { write(s: string): void; close(): Promise<void> } | null = null;
+  let rowNum = 0;
+
+  return {
+    addSheet(name: string) {
+      if (current) throw new Error("previous sheet is not closed");
+      sheets.push(sheetName(name));
+      current = zip.open(`xl/worksheets/sheet${sheets.length}.xml`);
+      current.write(`${XML_DECL}<worksheet xmlns="${NS_MAIN}"><sheetData>`);
+      rowNum = 0;
+    },
+    addRows(rows: Cell[][]) {
+      if (!current) throw new Error("no open sheet");
+      let xml = "";
+      for (const row of rows) {
+        rowNum++;
+        xml += `<row r="${rowNum}">${row.map((v, i) => cellXml(`${columnName(i)}${rowNum}`, v)).join("")}</row>`;
+      }
+      current.write(xml);
+    },
+    async endSheet() {
+      if (!current) return;
+      current.write("</sheetData></worksheet>");
+      await current.close();
+      current = null;
+    },
+    async finish() {
+      await this.endSheet();
+      await zip.file("xl/workbook.xml",
+        `${XML_DECL}<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}"><sheets>` +
+        sheets.map((n, i) => `<sheet name="${xmlEscape(n)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("") +
+        `</sheets></workbook>`);
+      await zip.file("xl/_rels/workbook.xml.rels",
+        `${XML_DECL}<Relationships xmlns="${NS_PKG_REL}">` +
+        sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${NS_REL}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join("") +
+        `</Relationships>`);
+      await zip.file("_rels/.rels",
+        `${XML_DECL}<Relationships xmlns="${NS_PKG_REL}"><Relationship Id="rId1" Type="${NS_REL}/officeDocument" Target="xl/workbook.xml"/></Relationships>`);
+      await zip.file("[Content_Types].xml",
+        `${XML_DECL}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+        `<Default Extension="xml" ContentType="application/xml"/>` +
+        `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+        sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join("") +
+        `</Types>`);
+      zip.finish();
+    },
+  };
+}
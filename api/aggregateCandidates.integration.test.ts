@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Store } from "./_store";
+import { post, res, freshLocalStore } from "./_testHelpers";
+import handler from "./aggregateCandidates";
+
+const req = (query: any = {}) => ({ ...post({}), query });
+
+let db: Store;
+
+const addAnswer = (qid: string, answerNorm: string, score: number, extra: any = {}) =>
+  db.collection("answers").add({
+    raw: { ts: new Date(), qid, answerRaw: answerNorm, questionType: "writing", auto: { result: score >= 60 ? "OK" : "NG", score } },
+    curated: { answerNorm },
+    final: { result: score >= 60 ? "OK" : "NG", source: "auto" },
+    ...extra,
+  });
+
+describe("aggregateCandidates (local store)", () => {
+  beforeEach(async () => {
+    db = await freshLocalStore("aggregate");
+  });
+
+  it("groups by qid::answerNorm, applies minFreq and proposes roles", async () => {
+    for (let i = 0; i < 3; i++) await addAnswer("1-1", "きづく", 100);
+    for (let i = 0; i < 3; i++) await addAnswer("1-1", "おどろく", 0);
+    await addAnswer("1-1", "まれ", 100);                        // minFreq 未満
+    await addAnswer("1-1", "ふるい", 100, { raw: { ts: new Date("2000-01-01"), qid: "1-1", questionType: "writing", auto: { score: 100 } } });
+    await db.collection("answers").add({ raw: { ts: new Date(), qid: "1-1", questionType: "selection" }, curated: { answerNorm: "1-2" } });
+
+    const response: any = res();
+    await handler(req({ minFreq: "3" }), response);
+
+    expect(response.code).toBe(200);
+    expect(response.jsonBody).toMatchObject({ processed: 7, aggregated: 3, saved: 2 });
+
+    const accept = (await db.collection("candidates").doc("1-1::きづく").get()).data();
+    expect(accept).toMatchObject({ qid: "1-1", freq: 3, avgScore: 100, proposedRole: "accept", bandMode: "HIGH" });
+    const negative = (await db.collection("candidates").doc("1-1::おどろく").get()).data();
+    expect(negative.proposedRole).toBe("negative");
+  });
+
+  it("user corrections override auto scores and PARTIAL is skipped", async () => {
+    for (let i = 0; i < 3; i++) await addAnswer("2-1", "あはれ", 0, { manual: { result: "OK" } });
+    await addAnswer("2-1", "あはれ", 0, { manual: { result: "PARTIAL" } });
+
+    const response: any = res();
+    await handler(req({ minFreq: "3" }), response);
+
+    const c = (await db.collection("candidates").doc("2-1::あはれ").get()).data();
+    expect(c).toMatchObject({ freq: 3, avgScore: 100, proposedRole: "accept" });
+  });
+});
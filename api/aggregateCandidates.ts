@@ -1,10 +1,13 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { db } from "./_firebaseAdmin.js";
+import { getStore } from "./_store.js";
 import { requireStaff } from "./_requireStaff.js";
+import { findThresholds } from "./_thresholds.js";
+import { DEFAULT_CANDIDATE_BANDS, type Thresholds } from "../src/scoring/thresholds.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
-    await requireStaff(req);  // 教師のみ実行可能
+    const db = await getStore();
+    await requireStaff(req, "curation:write");  // 教師のみ実行可能
 
     const minFreq = Number(req.query.minFreq || 3);
     const lookbackDays = Number(req.query.lookbackDays || 7);
@@ -26,6 +29,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       lastSeen: Date;
       scores: number[];
       sampleRaw: string;
+      classFreq: Record<string, number>;  // クラスごとの件数（教師ログインの絞り込み用）
     }>();
 
     for (const doc of snap.docs) {
@@ -53,9 +57,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       const key = `${qid}::${answerNorm}`;
       const existing = aggregated.get(key);
+      const classId = typeof data.raw?.classId === "string" ? data.raw.classId : null;
 
       if (existing) {
         existing.freq++;
+        if (classId) existing.classFreq[classId] = (existing.classFreq[classId] ?? 0) + 1;
         existing.scores.push(score);
         if (data.raw.ts.toDate() > existing.lastSeen) {
           existing.lastSeen = data.raw.ts.toDate();
@@ -68,6 +74,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           lastSeen: data.raw.ts.toDate(),
           scores: [score],
           sampleRaw: answerRaw,
+          classFreq: classId ? { [classId]: 1 } : {},
         });
       }
     }
@@ -75,13 +82,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Filter by frequency and save to candidates
     const batch = db.batch();
     let saved = 0;
+    // 帯は thresholds/{qid} があればその hi/lo、無ければ既定の 80/50
+    const bandsByQid = new Map<string, Thresholds>();
 
     for (const [key, agg] of aggregated.entries()) {
       if (agg.freq < minFreq) continue;
 
+      if (!bandsByQid.has(agg.qid)) {
+        bandsByQid.set(agg.qid, (await findThresholds(db, agg.qid)) ?? DEFAULT_CANDIDATE_BANDS);
+      }
+      const { hi, lo } = bandsByQid.get(agg.qid)!;
       const avgScore = agg.scores.reduce((a, b) => a + b, 0) / agg.scores.length;
-      const bandMode = avgScore >= 80 ? "HIGH" : avgScore >= 50 ? "MID" : "LOW";
-      const proposedRole = avgScore >= 80 ? "accept" : avgScore < 50 ? "negative" : "review";
+      const bandMode = avgScore >= hi ? "HIGH" : avgScore >= lo ? "MID" : "LOW";
+      const proposedRole = avgScore >= hi ? "accept" : avgScore < lo ? "negative" : "review";
 
       const candidateDoc = {
         qid: agg.qid,
@@ -92,6 +105,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         proposedRole,
         avgScore: Math.round(avgScore),
         sampleAny: agg.sampleRaw,
+        classIds: Object.keys(agg.classFreq),
+        classFreq: agg.classFreq,
         updatedAt: new Date(),
       };
 
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Store } from "./_store";
+import { admin, post, get, call, freshLocalStore } from "./_testHelpers";
+import apiKeys from "./apiKeys";
+import browseAnswers from "./browseAnswers";
+import overrideAnswer from "./overrideAnswer";
+import curated from "./curated";
+import deleteAllData from "./deleteAllData";
+
+const bootstrap = admin;
+const withKey = (key: string) => ({ "x-api-key": key });
+
+let db: Store;
+
+const issue = async (name: string, role: string, headers: any = bootstrap) =>
+  (await call(apiKeys, post({ action: "issue", name, role }, headers))).jsonBody;
+
+describe("api keys and roles (local store)", () => {
+  beforeEach(async () => {
+    db = await freshLocalStore("apikeys");
+    // admin 以外のキーは担当クラス（teachers に key:<name>）の回答だけ扱える
+    await db.collection("classes").doc("c1").set({ classId: "c1", name: "A組", teachers: ["key:山田先生"], archived: false });
+    await db.collection("answers").doc("a1").set({ raw: { ts: new Date(), qid: "1-1", answerRaw: "驚く", classId: "c1", questionType: "writing", auto: { result: "NG" } }, final: { result: "NG", source: "auto" } });
+  });
+
+  it("checks each endpoint against the role of the key", async () => {
+    const viewer = (await issue("見学用", "viewer")).key;
+    const grader = (await issue("山田先生", "grader")).key;
+    const curator = (await issue("教科主任", "curator")).key;
+
+    expect((await call(browseAnswers, get({}, withKey(viewer)))).code).toBe(200);
+    expect((await call(overrideAnswer, post({ answerId: "a1", result: "OK" }, withKey(viewer)))).code).toBe(403);
+    expect((await call(overrideAnswer, post({ answerId: "a1", result: "OK" }, withKey(grader)))).code).toBe(200);
+
+    const addAccepted = { collection: "accepted", qid: "1-1", phrase: "驚く" };
+    expect((await call(curated, post(addAccepted, withKey(grader)))).code).toBe(403);
+    expect((await call(curated, post(addAccepted, withKey(curator)))).code).toBe(200);
+
+    // 全データ削除と鍵の発行は admin だけ
+    expect((await call(deleteAllData, post({ confirm: "DELETE_ALL_DATA" }, withKey(curator)))).code).toBe(403);
+    expect((await call(apiKeys, post({ action: "issue", name: "x", role: "admin" }, withKey(curator)))).code).toBe(403);
+    const admin = (await issue("管理者", "admin")).key;
+    expect((await call(deleteAllData, post({ confirm: "DELETE_ALL_DATA" }, withKey(admin)))).code).toBe(200);
+  });
+
+  it("stores only hashes, rejects query-string tokens and stops revoked or expired keys", async () => {
+    const issued = await issue("集計スクリプト", "viewer");
+    expect(issued.key).toMatch(/^kbn_[0-9a-f]{12}_/);
+    const stored = (await db.collection("apiKeys").doc(issued.apiKey.keyId).get()).data();
+    expect(JSON.stringify(stored)).not.toContain(issued.key.split("_").pop());
+    expect(issued.apiKey.hash).toBeUndefined();
+
+    // URL のクエリはログに残るので受け付けない
+    expect((await call(browseAnswers, get({ token: "t" }, {}))).code).toBe(403);
+    expect((await call(browseAnswers, get({ token: issued.key }, {}))).code).toBe(403);
+
+    // 似た形の別キーは通らない
+    const forged = issued.key.slice(0, -1) + (issued.key.endsWith("A") ? "B" : "A");
+    expect((await call(browseAnswers, get({}, withKey(forged)))).code).toBe(403);
+
+    await call(apiKeys, post({ action: "revoke", keyId: issued.apiKey.keyId }, bootstrap));
+    expect((await call(browseAnswers, get({}, withKey(issued.key)))).code).toBe(403);
+
+    const expiring = await issue("期限切れ", "viewer");
+    await db.collection("apiKeys").doc(expiring.apiKey.keyId).update({ expiresAt: new Date(Date.now() - 1000) });
+    expect((await call(browseAnswers, get({}, withKey(expiring.key)))).code).toBe(403);
+
+    const list = (await call(apiKeys, get({}, bootstrap))).jsonBody.keys;
+    expect(list.map((k: any) => [k.name, k.status])).toEqual([["期限切れ", "expired"], ["集計スクリプト", "revoked"]]);
+    const audit = (await db.collection("overrides").get()).docs.map(d => d.data().action);
+    expect(audit.filter(a => a.startsWith("apikey_")).sort()).toEqual(["apikey_issue", "apikey_issue", "apikey_revoke"]);
+  });
+});
@@ -0,0 +1,53 @@
+// api/apiKeys.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getStore } from "./_store.js";
+import { requireStaff } from "./_requireStaff.js";
+import { issueApiKey, revokeApiKey, apiKeyView, type ApiKey } from "./_apiKeys.js";
+
+type Action = "issue" | "revoke";
+
+/**
+ * API キーの管理（admin のみ）
+ * GET                                               : キーの一覧（hash は返さない）
+ * POST { action: "issue", name, role, expiresInDays? } : 発行。平文のキーはこのレスポンスでだけ返す
+ * POST { action: "revoke", keyId }                  : 失効（以後そのキーは通らない）
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const db = await getStore();
+    const { actor, role } = await requireStaff(req, "keys:manage");
+
+    if (req.method === "GET") {
+      const snap = await db.collection("apiKeys").get();
+      const keys = snap.docs.map(d => apiKeyView(d.data() as ApiKey));
+      keys.sort((a, b) => a.status.localeCompare(b.status) || a.name.localeCompare(b.name, "ja"));
+      return res.json({ ok: true, keys, me: { actor, role } });
+    }
+
+    if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
+
+    const body = (req.body ?? {}) as { action?: Action; name?: string; role?: string; expiresInDays?: number; keyId?: string };
+    const now = new Date();
+
+    if (body.action === "issue") {
+      const { key, apiKey } = await issueApiKey(db, body, actor);
+      await db.collection("overrides").add({ ts: now, action: "apikey_issue", actor, keyId: apiKey.keyId, name: apiKey.name, role: apiKey.role });
+      return res.json({ ok: true, key, apiKey: apiKeyView(apiKey) });
+    }
+
+    if (body.action === "revoke") {
+      const apiKey = await revokeApiKey(db, body.keyId, actor);
+      await db.collection("overrides").add({ ts: now, action: "apikey_revoke", actor, keyId: apiKey.keyId, name: apiKey.name });
+      return res.json({ ok: true, apiKey: apiKeyView(apiKey) });
+    }
+
+    throw new Error("BAD_REQUEST: unknown action");
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    const code = msg.includes("PERMISSION_DENIED") ? 403
+      : msg.startsWith("BAD_REQUEST") ? 400
+      : msg.startsWith("NOT_FOUND") ? 404
+      : 500;
+    res.status(code).json({ error: msg });
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+vi.mock("firebase-admin/auth", () => ({
+  getAuth: () => ({
+    verifyIdToken: async (token: string) => {
+      if (!token.startsWith("teacher:")) throw new Error("invalid token");
+      const email = token.slice("teacher:".length);
+      return { uid: email, email, role: "teacher" };
+    },
+  }),
+}));
+
+import type { Store } from "./_store";
+import { admin, post, get, call, freshLocalStore } from "./_testHelpers";
+import classes from "./classes";
+import joinClass from "./joinClass";
+import assignments from "./assignments";
+import openAssignment from "./openAssignment";
+import submitAnswer from "./submitAnswer";
+
+const teacher = (email: string) => ({ authorization: `Bearer teacher:${email}` });
+
+let db: Store;
+
+const HOUR = 60 * 60 * 1000;
+
+describe("assignments (local store)", () => {
+  beforeEach(async () => {
+    db = await freshLocalStore("assignments");
+  });
+
+  it("opens by code, tags only in-window in-set answers from members and reports completion", async () => {
+    const cls = (await call(classes, post({ action: "create", name: "2年3組" }, teacher("a@school")))).jsonBody.class;
+    await call(joinClass, post({ joinCode: cls.joinCode, anonId: "anon_1", displayName: "山田" }, { "x-anon-key": "device-1-0123456789abcdefghij" }));
+    await call(joinClass, post({ joinCode: cls.joinCode, anonId: "anon_2", displayName: "佐藤" }, { "x-anon-key": "device-2-0123456789abcdefghij" }));
+
+    const now = Date.now();
+    const created = await call(assignments, post({
+      action: "create", title: "第1回", classId: cls.classId, quizType: "meaning-writing",
+      qids: ["1-1", "1-2"], count: 2,
+      opensAt: new Date(now - HOUR).toISOString(), closesAt: new Date(now + HOUR).toISOString(),
+    }, teacher("a@school")));
+    expect(created.code).toBe(200);
+    const a = created.jsonBody.assignment;
+
+    const opened = await call(openAssignment, get({ code: a.code.toLowerCase() }, {}));
+    expect(opened.jsonBody.assignment).toMatchObject({ assignmentId: a.assignmentId, quizType: "meaning-writing", qids: ["1-1", "1-2"], count: 2, status: "open" });
+    expect(opened.jsonBody.assignment.createdBy).toBeUndefined();
+
+    const answer = (qid: string, anonId: string, extra: any = {}) => call(submitAnswer, post({
+      qid, answerRaw: "驚く", anonId, assignmentId: a.assignmentId,
+      autoScore: 100, autoResult: "OK", autoReason: "t", questionType: "writing", ...extra,
+    }, {}));
+    await answer("1-1", "anon_1");
+    await answer("1-2", "anon_1");
+    await answer("1-1", "anon_2");
+    await answer("2-1", "anon_2");                                 // 出題範囲外
+    await answer("1-2", "anon_3");                                 // 名簿にいない
+    await answer("1-2", "anon_2", { clientTs: now - 2 * HOUR });   // 受付開始前
+
+    const tags = (await db.collection("answers").get()).docs.map(d => d.data().raw.assignmentId);
+    expect(tags.filter(t => t === a.assignmentId)).toHaveLength(3);
+    expect(tags.filter(t => t === null)).toHaveLength(3);
+
+    const report = (await call(assignments, get({ assignmentId: a.assignmentId }, teacher("a@school")))).jsonBody.report;
+    expect(report).toMatchObject({ expected: 2, started: 2, completed: 1 });
+    expect(report.students.map((s: any) => [s.displayName, s.done, s.completed])).toEqual([["佐藤", 1, false], ["山田", 2, true]]);
+
+    // 他の教師からは見えない
+    expect((await call(assignments, get({}, teacher("b@school")))).jsonBody.assignments).toHaveLength(0);
+    expect((await call(assignments, get({ assignmentId: a.assignmentId }, teacher("b@school")))).code).toBe(403);
+  });
+
+  it("validates the configuration and requires teachers to pick one of their classes", async () => {
+    const base = { action: "create", title: "x", quizType: "word-meaning", groupFrom: 1, groupTo: 10, count: 5, opensAt: "2026-04-01T00:00:00Z", closesAt: "2026-04-08T00:00:00Z" };
+    expect((await call(assignments, post(base, teacher("a@school")))).code).toBe(400);
+    expect((await call(assignments, post({ ...base, quizType: "nope" }, admin))).code).toBe(400);
+    expect((await call(assignments, post({ ...base, closesAt: "2026-03-01T00:00:00Z" }, admin))).code).toBe(400);
+    expect((await call(assignments, post({ ...base, qids: ["no-such"] }, admin))).code).toBe(400);
+
+    // 共有トークンはクラスを問わない課題を作れる
+    const ok = await call(assignments, post(base, admin));
+    expect(ok.jsonBody.assignment).toMatchObject({ classId: null, mode: "word", groupFrom: 1, groupTo: 10 });
+    expect((await call(openAssignment, get({ code: "ZZZZZZ" }, {}))).code).toBe(404);
+  });
+});
@@ -0,0 +1,108 @@
+// api/assignments.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getStore } from "./_store.js";
+import { requireStaff } from "./_requireStaff.js";
+import { classScope, narrowScope, getClass } from "./_classes.js";
+import {
+  createAssignment, getAssignment, validateAssignment, assignmentView, assignmentReport, canSeeAssignment,
+  type Assignment, type AssignmentInput,
+} from "./_assignments.js";
+
+type Action = "create" | "update" | "archive";
+
+/**
+ * 課題の管理（教師のみ。教師ログインは担当クラスの課題と自分が作った課題だけ）
+ * GET                    : 見られる課題の一覧（受付状況・着手/完了人数付き）
+ * GET ?assignmentId=     : 課題と生徒ごとの提出状況
+ * POST { action: "create", title, classId?, quizType, qids? | groupFrom+groupTo, count, opensAt, closesAt }
+ * POST { action: "update", assignmentId, ...同じ項目 }  : 設定の変更（課題コードはそのまま）
+ * POST { action: "archive", assignmentId, archived }    : アーカイブした課題は開けない
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const db = await getStore();
+    const staff = await requireStaff(req, req.method === "GET" ? "answers:read" : "classes:manage");
+    const { actor } = staff;
+    const scope = await classScope(db, staff);
+
+    const visible = async (assignmentId: unknown) => {
+      if (!assignmentId) throw new Error("BAD_REQUEST: assignmentId required");
+      const a = await getAssignment(db, String(assignmentId));
+      if (!canSeeAssignment(scope, actor, a)) throw new Error("PERMISSION_DENIED: not your assignment");
+      return a;
+    };
+
+    if (req.method === "GET") {
+      if (req.query.assignmentId) {
+        const a = await visible(req.query.assignmentId);
+        return res.json({ ok: true, assignment: assignmentView(a), report: await assignmentReport(db, a) });
+      }
+      const snap = await db.collection("assignments").get();
+      const list = snap.docs.map(d => d.data() as Assignment).filter(a => canSeeAssignment(scope, actor, a));
+      const assignments = await Promise.all(list.map(async a => {
+        const { expected, started, completed } = await assignmentReport(db, a);
+        return { ...assignmentView(a), expected, started, completed };
+      }));
+      // 締切の新しい順（アーカイブは後ろ）
+      assignments.sort((x, y) => Number(x.archived) - Number(y.archived) || y.closesAt.localeCompare(x.closesAt));
+      return res.json({ ok: true, assignments });
+    }
+
+    if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
+
+    const body = (req.body ?? {}) as Partial<AssignmentInput> & { action?: Action; assignmentId?: string; archived?: boolean };
+    const now = new Date();
+
+    // 対象クラスは担当クラスの中から。クラスを問わない課題は全クラスを扱えるキーだけ
+    const checkClass = async (classId: unknown) => {
+      if (!classId) {
+        if (scope !== null) throw new Error("BAD_REQUEST: classId required");
+        return;
+      }
+      narrowScope(scope, classId);
+      await getClass(db, String(classId));
+    };
+
+    let assignment: Assignment;
+    switch (body.action) {
+      case "create":
+        await checkClass(body.classId);
+        assignment = await createAssignment(db, body, actor);
+        break;
+      case "update": {
+        const cur = await visible(body.assignmentId);
+        await checkClass(body.classId);
+        const next = { ...validateAssignment(body), updatedAt: now };
+        await db.collection("assignments").doc(cur.assignmentId).update(next);
+        assignment = { ...cur, ...next };
+        break;
+      }
+      case "archive": {
+        const cur = await visible(body.assignmentId);
+        await db.collection("assignments").doc(cur.assignmentId).update({ archived: body.archived !== false, updatedAt: now });
+        assignment = { ...cur, archived: body.archived !== false, updatedAt: now };
+        break;
+      }
+      default:
+        throw new Error("BAD_REQUEST: unknown action");
+    }
+
+    // audit event
+    await db.collection("overrides").add({
+      ts: now,
+      action: `assignment_${body.action}`,
+      actor,
+      assignmentId: assignment.assignmentId,
+      classId: assignment.classId,
+    });
+
+    return res.json({ ok: true, assignment: assignmentView(assignment) });
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    const code = msg.includes("PERMISSION_DENIED") ? 403
+      : msg.startsWith("BAD_REQUEST") ? 400
+      : msg.startsWith("NOT_FOUND") ? 404
+      : 500;
+    res.status(code).json({ error: msg });
+  }
+}
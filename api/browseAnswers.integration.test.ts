@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Store } from "./_store";
+import { get, res, freshLocalStore } from "./_testHelpers";
+import handler from "./browseAnswers";
+
+let db: Store;
+
+const browse = async (query: any) => {
+  const r: any = res();
+  await handler(get(query), r);
+  return r;
+};
+
+describe("browseAnswers (local store)", () => {
+  beforeEach(async () => {
+    db = await freshLocalStore("browse");
+
+    const base = Date.parse("2025-10-01T00:00:00Z");
+    const answers = db.collection("answers");
+    for (let i = 0; i < 12; i++) {
+      await answers.doc(`a${String(i).padStart(2, "0")}`).set({
+        raw: {
+          ts: new Date(base + i * 60_000),
+          qid: i % 2 === 0 ? "1-1" : "2-1",
+          anonId: i < 6 ? "anon-a" : "anon-b",
+          answerRaw: `回答${i}`,
+          questionType: "writing",
+          auto: { result: i % 3 === 0 ? "OK" : "NG", score: i * 10 },
+        },
+        final: { result: i % 3 === 0 ? "OK" : "NG", source: i === 4 ? "manual" : "auto" },
+      });
+    }
+    // questionType の無い古い選択式回答（answerRaw に選んだ qid）
+    await answers.doc("legacy").set({ raw: { ts: new Date(base), qid: "1-1", answerRaw: "1-2" }, final: { result: "NG", source: "auto" } });
+  });
+
+  it("pages newest first with a cursor until exhausted", async () => {
+    const first = await browse({ questionType: "writing", limit: "5" });
+    expect(first.jsonBody.rows.map((r: any) => r.id)).toEqual(["a11", "a10", "a09", "a08", "a07"]);
+
+    const second = await browse({ questionType: "writing", limit: "5", cursor: first.jsonBody.nextCursor });
+    expect(second.jsonBody.rows.map((r: any) => r.id)).toEqual(["a06", "a05", "a04", "a03", "a02"]);
+
+    const third = await browse({ questionType: "writing", limit: "5", cursor: second.jsonBody.nextCursor });
+    expect(third.jsonBody.rows.map((r: any) => r.id)).toEqual(["a01", "a00"]);
+    expect(third.jsonBody.nextCursor).toBeNull();
+  });
+
+  it("combines query and in-memory filters", async () => {
+    const byQid = await browse({ qid: "1-1", result: "OK", questionType: "writing" });
+    expect(byQid.jsonBody.rows.map((r: any) => r.id)).toEqual(["a06", "a00"]);
+
+    const byLemma = await browse({ lemma: "おどろく", anonId: "anon-b", scoreMin: "80" });
+    expect(byLemma.jsonBody.rows.map((r: any) => r.id)).toEqual(["a10", "a08"]);
+
+    const bySource = await browse({ source: "manual" });
+    expect(bySource.jsonBody.rows.map((r: any) => r.id)).toEqual(["a04"]);
+
+    const byDate = await browse({ from: "2025-10-01T00:09:00Z", to: "2025-10-01T00:10:00Z" });
+    expect(byDate.jsonBody.rows.map((r: any) => r.id)).toEqual(["a10", "a09"]);
+
+    const selection = await browse({ questionType: "selection" });
+    expect(selection.jsonBody.rows.map((r: any) => r.id)).toEqual(["legacy"]);
+
+    const groups = await browse({ groupFrom: "2", groupTo: "2", limit: "100" });
+    expect(groups.jsonBody.rows.every((r: any) => r.raw.qid === "2-1")).toBe(true);
+  });
+
+  it("rejects bad parameters and non-staff callers", async () => {
+    expect((await browse({ result: "MAYBE" })).code).toBe(400);
+    expect((await browse({ from: "not-a-date" })).code).toBe(400);
+    expect((await browse({ cursor: "missing" })).code).toBe(400);
+
+    const anon: any = res();
+    await handler(get({}, {}), anon);
+    expect(anon.code).toBe(403);
+  });
+});
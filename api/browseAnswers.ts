@@ -0,0 +1,32 @@
+// api/browseAnswers.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getStore } from "./_store.js";
+import { requireStaff } from "./_requireStaff.js";
+import { parseAnswerFilters, scanAnswers } from "./_answerFilters.js";
+import { attachDisplayNames, classScope } from "./_classes.js";
+
+/**
+ * 教師用の回答ブラウザ（カーソルページング）
+ * GET ?classId=&qid=&lemma=&groupFrom=&groupTo=&result=&source=&questionType=&from=&to=&uid=&anonId=&scoreMin=&scoreMax=&limit=50&cursor=
+ * 新しい順。nextCursor を cursor に渡すと続きを返す（null なら終わり）
+ * 教師ログインは担当クラスの回答だけ。行には名簿の表示名（displayName）を付ける
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "GET") return res.status(405).json({ error: "Method Not Allowed" });
+
+    const db = await getStore();
+    const staff = await requireStaff(req, "answers:read");
+
+    const filters = parseAnswerFilters(req.query, await classScope(db, staff));
+    const limit = Math.min(Math.max(Number(req.query.limit || 50), 1), 200);
+    const cursor = req.query.cursor ? String(req.query.cursor) : null;
+
+    const page = await scanAnswers(db, filters, { limit, cursor });
+    return res.json({ ok: true, ...page, rows: await attachDisplayNames(db, page.rows) });
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    const code = msg.includes("PERMISSION_DENIED") ? 403 : msg.startsWith("BAD_REQUEST") ? 400 : 500;
+    res.status(code).json({ error: msg });
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+// 教師ログイン（Firebase ID トークン）だけ差し替え。保存先は STORAGE_BACKEND=local のファイルストア
+vi.mock("firebase-admin/auth", () => ({
+  getAuth: () => ({
+    verifyIdToken: async (token: string) => {
+      if (!token.startsWith("teacher:")) throw new Error("invalid token");
+      const email = token.slice("teacher:".length);
+      return { uid: email, email, role: "teacher" };
+    },
+  }),
+}));
+
+import type { Store } from "./_store";
+import { post, get, call, freshLocalStore } from "./_testHelpers";
+import classes from "./classes";
+import joinClass from "./joinClass";
+import submitAnswer from "./submitAnswer";
+import browseAnswers from "./browseAnswers";
+import overrideAnswer from "./overrideAnswer";
+import apiKeys from "./apiKeys";
+import overrideRules from "./overrideRules";
+import upsertOverride from "./upsertOverride";
+import overrideOps from "./overrideOps";
+
+const teacher = (email: string) => ({ authorization: `Bearer teacher:${email}` });
+const device = (n: number) => ({ "x-anon-key": `device-${n}-0123456789abcdefghij` });
+
+let db: Store;
+
+describe("classes and rosters (local store)", () => {
+  beforeEach(async () => {
+    db = await freshLocalStore("classes");
+  });
+
+  it("joins by code, keeps the display name on the roster and stamps classId on submissions", async () => {
+    const created = await call(classes, post({ action: "create", name: "2年3組" }, teacher("a@school")));
+    const cls = created.jsonBody.class;
+    expect(cls.teachers).toEqual(["a@school"]);
+    expect(cls.joinCode).toMatch(/^[A-Z2-9]{6}$/);
+
+    // 小文字・ハイフン入りでも参加できる
+    const code = `${cls.joinCode.slice(0, 3).toLowerCase()}-${cls.joinCode.slice(3)}`;
+    const joined = await call(joinClass, post({ joinCode: code, anonId: "anon_1", displayName: "山田" }, device(1)));
+    expect(joined.jsonBody).toMatchObject({ classId: cls.classId, className: "2年3組", displayName: "山田" });
+    await call(joinClass, post({ joinCode: cls.joinCode, anonId: "anon_1", displayName: "山田 太郎" }, device(1)));
+    expect((await call(joinClass, post({ joinCode: "ZZZZZZ", anonId: "anon_1", displayName: "x" }, device(1)))).code).toBe(404);
+    // anonId を知っているだけでは名簿の名前を書き換えられない
+    expect((await call(joinClass, post({ joinCode: cls.joinCode, anonId: "anon_1", displayName: "なりすまし" }, {}))).code).toBe(403);
+    expect((await call(joinClass, post({ joinCode: cls.joinCode, anonId: "anon_1", displayName: "なりすまし" }, device(2)))).code).toBe(403);
+
+    const roster = await call(classes, get({ classId: cls.classId }, teacher("a@school")));
+    expect(roster.jsonBody.members.map((m: any) => m.displayName)).toEqual(["山田 太郎"]);
+
+    await call(submitAnswer, post({ qid: "1-1", answerRaw: "驚く", anonId: "anon_1", classId: cls.classId, autoScore: 100, autoResult: "OK", autoReason: "t" }, {}));
+    // 名簿に無い anonId の classId は記録しない
+    await call(submitAnswer, post({ qid: "1-1", answerRaw: "驚く", anonId: "anon_2", classId: cls.classId, autoScore: 100, autoResult: "OK", autoReason: "t" }, {}));
+    const stamped = (await db.collection("answers").get()).docs.map(d => d.data().raw);
+    expect(stamped.find(r => r.anonId === "anon_1").classId).toBe(cls.classId);
+    expect(stamped.find(r => r.anonId === "anon_2").classId).toBeNull();
+
+    const browsed = await call(browseAnswers, get({ classId: cls.classId }, teacher("a@school")));
+    expect(browsed.jsonBody.rows.map((r: any) => r.displayName)).toEqual(["山田 太郎"]);
+
+    // 参加コードを作り直すと古いコードでは入れない
+    await call(classes, post({ action: "rotateCode", classId: cls.classId }, teacher("a@school")));
+    expect((await call(joinClass, post({ joinCode: cls.joinCode, anonId: "anon_3", displayName: "佐藤" }, device(3)))).code).toBe(404);
+  });
+
+  it("scopes teachers to their own classes while the shared token sees everything", async () => {
+    const a = (await call(classes, post({ action: "create", name: "A組" }, teacher("a@school")))).jsonBody.class;
+    const b = (await call(classes, post({ action: "create", name: "B組" }, teacher("b@school")))).jsonBody.class;
+    const answers = db.collection("answers");
+    await answers.doc("in-a").set({ raw: { ts: new Date(), qid: "1-1", anonId: "anon_a", classId: a.classId, questionType: "writing", auto: { result: "NG" } }, final: { result: "NG", source: "auto" } });
+    await answers.doc("in-b").set({ raw: { ts: new Date(), qid: "1-1", anonId: "anon_b", classId: b.classId, questionType: "writing", auto: { result: "NG" } }, final: { result: "NG", source: "auto" } });
+
+    const listA = await call(classes, get({}, teacher("a@school")));
+    expect(listA.jsonBody.classes.map((c: any) => c.name)).toEqual(["A組"]);
+    expect((await call(classes, get({}))).jsonBody.classes).toHaveLength(2);
+
+    const browseA = await call(browseAnswers, get({}, teacher("a@school")));
+    expect(browseA.jsonBody.rows.map((r: any) => r.id)).toEqual(["in-a"]);
+    expect((await call(browseAnswers, get({ classId: b.classId }, teacher("a@school")))).code).toBe(403);
+    expect((await call(browseAnswers, get({}))).jsonBody.rows).toHaveLength(2);
+
+    // 他のクラスの回答は訂正できない
+    expect((await call(overrideAnswer, post({ answerId: "in-b", result: "OK" }, teacher("a@school")))).code).toBe(403);
+    expect((await call(overrideAnswer, post({ answerId: "in-a", result: "OK" }, teacher("a@school")))).code).toBe(200);
+
+    // 担当の追加で B組も見えるようになる（自分を外すことはできない）
+    expect((await call(classes, post({ action: "setTeachers", classId: b.classId, teachers: ["a@school"] }, teacher("b@school")))).code).toBe(400);
+    await call(classes, post({ action: "setTeachers", classId: b.classId, teachers: ["b@school", "a@school"] }, teacher("b@school")));
+    expect((await call(browseAnswers, get({}, teacher("a@school")))).jsonBody.rows).toHaveLength(2);
+  });
+
+  it("scopes non-admin API keys to the classes that list key:<name> as a teacher", async () => {
+    const issue = async (name: string, role: string) =>
+      ({ "x-api-key": (await call(apiKeys, post({ action: "issue", name, role }))).jsonBody.key });
+    const graderA = await issue("grader-a", "grader");
+    const adminKey = await issue("admin-key", "admin");
+    const a = (await call(classes, post({ action: "create", name: "A組", teachers: ["key:grader-a"] }))).jsonBody.class;
+    const b = (await call(classes, post({ action: "create", name: "B組", teachers: ["b@school"] }))).jsonBody.class;
+    const answers = db.collection("answers");
+    await answers.doc("in-a").set({ raw: { ts: new Date(), qid: "1-1", anonId: "anon_a", classId: a.classId, questionType: "writing", auto: { result: "NG" } }, final: { result: "NG", source: "auto" } });
+    await answers.doc("in-b").set({ raw: { ts: new Date(), qid: "1-1", anonId: "anon_b", classId: b.classId, questionType: "writing", auto: { result: "NG" } }, final: { result: "NG", source: "auto" } });
+
+    expect((await call(classes, get({}, graderA))).jsonBody.classes.map((c: any) => c.name)).toEqual(["A組"]);
+    expect((await call(browseAnswers, get({}, graderA))).jsonBody.rows.map((r: any) => r.id)).toEqual(["in-a"]);
+    expect((await call(browseAnswers, get({ classId: b.classId }, graderA))).code).toBe(403);
+    expect((await call(overrideAnswer, post({ answerId: "in-b", result: "OK" }, graderA))).code).toBe(403);
+
+    // admin のキーは全クラス
+    expect((await call(browseAnswers, get({}, adminKey))).jsonBody.rows).toHaveLength(2);
+  });
+
+  it("rewrites only the teacher's classes with rules and dictionary entries and reverts only their own operations", async () => {
+    const a = (await call(classes, post({ action: "create", name: "A組" }, teacher("a@school")))).jsonBody.class;
+    const b = (await call(classes, post({ action: "create", name: "B組" }, teacher("b@school")))).jsonBody.class;
+    const answers = db.collection("answers");
+    const seed = (id: string, classId: string) => answers.doc(id).set({
+      raw: { ts: new Date(), qid: "1-1", answerRaw: "驚く", anonId: `anon_${id}`, classId, questionType: "writing", auto: { result: "NG", reason: "auto" } },
+      curated: { answerNorm: "驚く" },
+      final: { result: "NG", source: "auto", reason: "auto" },
+    });
+    await seed("in-a", a.classId);
+    await seed("in-b", b.classId);
+    const finalOf = async (id: string) => (await answers.doc(id).get()).data()?.final;
+
+    const ruled = await call(overrideRules, post({ qid: "1-1", kind: "contains", pattern: "驚", label: "OK" }, teacher("a@school")));
+    expect(ruled.jsonBody.changed).toBe(1);
+    expect((await finalOf("in-a")).result).toBe("OK");
+    expect((await finalOf("in-b")).result).toBe("NG");
+
+    const dict = await call(upsertOverride, post({ key: "1-1::驚く", label: "OK" }, teacher("b@school")));
+    expect(dict.jsonBody.updated).toBe(1);
+    expect((await finalOf("in-b")).result).toBe("OK");
+
+    // 他の教師の操作は取り消せない
+    const revertOther = await call(overrideOps, post({ opId: dict.jsonBody.opId }, teacher("a@school")));
+    expect(revertOther.code).toBe(403);
+    expect((await finalOf("in-b")).result).toBe("OK");
+    expect((await call(overrideOps, post({ opId: dict.jsonBody.opId }, teacher("b@school")))).jsonBody.restored).toBe(1);
+  });
+});
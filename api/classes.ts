@@ -0,0 +1,119 @@
+// api/classes.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getStore } from "./_store.js";
+import { requireStaff } from "./_requireStaff.js";
+import {
+  classScope, narrowScope, getClass, createClass, rotateJoinCode, listMembers, memberKey,
+  validateClassName, validateDisplayName, type ClassDoc,
+} from "./_classes.js";
+
+type Action = "create" | "rename" | "setTeachers" | "rotateCode" | "archive" | "renameMember" | "removeMember";
+
+const teacherList = (v: unknown): string[] =>
+  Array.isArray(v) ? v.map(t => String(t).trim()).filter(Boolean) : [];
+
+/**
+ * クラスと名簿の管理（教師のみ。教師ログインは担当クラスだけ）
+ * GET                  : 見られるクラスの一覧（人数付き）
+ * GET ?classId=        : クラスと名簿
+ * POST { action: "create", name, teachers? }           : 作成（教師ログインは自分が担当に入る）
+ * POST { action: "rename", classId, name }
+ * POST { action: "setTeachers", classId, teachers }
+ * POST { action: "rotateCode", classId }               : 参加コードを作り直す（古いコードは使えなくなる）
+ * POST { action: "archive", classId, archived }        : アーカイブしたクラスには参加できない
+ * POST { action: "renameMember", classId, anonId, displayName }
+ * POST { action: "removeMember", classId, anonId }
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const db = await getStore();
+    const staff = await requireStaff(req, req.method === "GET" ? "answers:read" : "classes:manage");
+    const { actor } = staff;
+    const scope = await classScope(db, staff);
+
+    if (req.method === "GET") {
+      if (req.query.classId) {
+        const classId = String(req.query.classId);
+        narrowScope(scope, classId);
+        const cls = await getClass(db, classId);
+        return res.json({ ok: true, class: cls, members: await listMembers(db, classId) });
+      }
+      const snap = scope === null
+        ? await db.collection("classes").get()
+        : await db.collection("classes").where("teachers", "array-contains", actor).get();
+      const classes = await Promise.all(snap.docs.map(async d => {
+        const members = await db.collection("classMembers").where("classId", "==", d.id).get();
+        return { ...(d.data() as ClassDoc), memberCount: members.size };
+      }));
+      classes.sort((a, b) => Number(a.archived) - Number(b.archived) || a.name.localeCompare(b.name, "ja"));
+      return res.json({ ok: true, classes });
+    }
+
+    if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
+
+    const body = (req.body ?? {}) as { action?: Action; classId?: string; name?: string; teachers?: unknown; archived?: boolean; anonId?: string; displayName?: string };
+    const now = new Date();
+
+    if (body.action === "create") {
+      // 教師ログインで作ったクラスは本人が必ず担当に入る
+      const teachers = staff.allClasses ? teacherList(body.teachers) : [actor, ...teacherList(body.teachers)];
+      const cls = await createClass(db, body.name, teachers, actor);
+      await db.collection("overrides").add({ ts: now, action: "class_create", actor, classId: cls.classId, name: cls.name });
+      return res.json({ ok: true, class: cls });
+    }
+
+    if (!body.classId) throw new Error("BAD_REQUEST: classId required");
+    const classId = String(body.classId);
+    narrowScope(scope, classId);
+    const ref = db.collection("classes").doc(classId);
+    await getClass(db, classId);
+
+    switch (body.action) {
+      case "rename":
+        await ref.update({ name: validateClassName(body.name), updatedAt: now });
+        break;
+      case "setTeachers": {
+        const teachers = [...new Set(teacherList(body.teachers))];
+        // 教師ログインが自分を外すと以後そのクラスを触れなくなるので止める
+        if (!staff.allClasses && !teachers.includes(actor)) throw new Error("BAD_REQUEST: cannot remove yourself from teachers");
+        await ref.update({ teachers, updatedAt: now });
+        break;
+      }
+      case "rotateCode":
+        await rotateJoinCode(db, classId);
+        break;
+      case "archive":
+        await ref.update({ archived: body.archived !== false, updatedAt: now });
+        break;
+      case "renameMember":
+      case "removeMember": {
+        if (!body.anonId) throw new Error("BAD_REQUEST: anonId required");
+        const memberRef = db.collection("classMembers").doc(memberKey(classId, String(body.anonId)));
+        if (!(await memberRef.get()).exists) throw new Error("NOT_FOUND: member not found");
+        if (body.action === "renameMember") await memberRef.update({ displayName: validateDisplayName(body.displayName), updatedAt: now });
+        else await memberRef.delete();
+        break;
+      }
+      default:
+        throw new Error("BAD_REQUEST: unknown action");
+    }
+
+    // audit event
+    await db.collection("overrides").add({
+      ts: now,
+      action: `class_${body.action}`,
+      actor,
+      classId,
+      ...(body.anonId ? { anonId: String(body.anonId) } : {}),
+    });
+
+    return res.json({ ok: true, class: await getClass(db, classId) });
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    const code = msg.includes("PERMISSION_DENIED") ? 403
+      : msg.startsWith("BAD_REQUEST") ? 400
+      : msg.startsWith("NOT_FOUND") ? 404
+      : 500;
+    res.status(code).json({ error: msg });
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Store } from "./_store";
+import { post, get, res, freshLocalStore } from "./_testHelpers";
+import curated from "./curated";
+import promoteCandidate from "./promoteCandidate";
+import submitAnswer from "./submitAnswer";
+import { makeKey } from "./_normalize";
+
+let db: Store;
+
+describe("curated dictionaries (local store)", () => {
+  beforeEach(async () => {
+    db = await freshLocalStore("curated");
+  });
+
+  it("moves an entry between accepted and negatives and records history", async () => {
+    const put: any = res();
+    await curated(post({ collection: "accepted", qid: "1-1", phrase: "気がつく" }), put);
+    expect(put.code).toBe(200);
+    const key = makeKey("1-1", "気がつく");
+    expect(put.jsonBody.key).toBe(key);
+
+    await curated(post({ collection: "negatives", qid: "1-1", phrase: "気がつく", note: "文脈に合わない" }), res());
+
+    const acc: any = res();
+    await curated(get({ collection: "accepted", qid: "1-1" }), acc);
+    expect(acc.jsonBody.entries).toHaveLength(0);
+    const neg: any = res();
+    await curated(get({ collection: "negatives", qid: "1-1" }), neg);
+    expect(neg.jsonBody.entries[0]).toMatchObject({ key, phrase: "気がつく", note: "文脈に合わない", addedBy: "admin-token" });
+
+    const history = await db.collection("history").where("entryId", "==", key).get();
+    expect(history.docs.map(d => `${d.data().collection}:${d.data().action}`).sort())
+      .toEqual(["accepted:CREATE", "accepted:DELETE", "negatives:CREATE"]);
+
+    const anon: any = res();
+    await curated(post({ collection: "accepted", qid: "1-1", phrase: "x" }, {}), anon);
+    expect(anon.code).toBe(403);
+  });
+
+  it("promotes a candidate and submitAnswer uses the dictionary", async () => {
+    const key = makeKey("1-1", "ほげ");
+    await db.collection("candidates").doc(key).set({ qid: "1-1", sampleAny: "ほげ", freq: 3, avgScore: 20 });
+
+    const promoted: any = res();
+    await promoteCandidate(post({ key, to: "accepted" }), promoted);
+    expect(promoted.code).toBe(200);
+    expect((await db.collection("candidates").doc(key).get()).data()).toMatchObject({ promotedTo: "accepted" });
+    expect((await db.collection("accepted").doc(key).get()).data()).toMatchObject({ source: key });
+
+    const ok: any = res();
+    await submitAnswer(post({ qid: "1-1", answerRaw: "ほげ", autoScore: 0, autoResult: "NG", autoReason: "test" }, {}), ok);
+    expect(ok.jsonBody.final).toMatchObject({ result: "OK", source: "auto" });
+    expect(ok.jsonBody.final.reason).toMatch(/^accepted:/);
+
+    await promoteCandidate(post({ key, to: "negatives" }), res());
+    const ng: any = res();
+    await submitAnswer(post({ qid: "1-1", answerRaw: "ほげ", autoScore: 100, autoResult: "OK", autoReason: "test" }, {}), ng);
+    expect(ng.jsonBody.final.result).toBe("NG");
+    expect(ng.jsonBody.final.reason).toMatch(/^negatives:/);
+  });
+
+  it("returns 404 for unknown candidates and entries", async () => {
+    const missing: any = res();
+    await promoteCandidate(post({ key: "1-1::なし", to: "accepted" }), missing);
+    expect(missing.code).toBe(404);
+
+    const del: any = res();
+    await curated(post({ collection: "accepted", key: "1-1::なし", delete: true }), del);
+    expect(del.code).toBe(404);
+  });
+});
@@ -0,0 +1,60 @@
+// api/curated.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getStore } from "./_store.js";
+import { requireStaff } from "./_requireStaff.js";
+import { isCuratedCollection, putCuratedEntry, deleteCuratedEntry } from "./_curated.js";
+import { isSafePattern } from "./_normalize.js";
+
+/**
+ * 正解辞書 accepted / 不正解辞書 negatives の管理（教師のみ）
+ * GET  ?collection=accepted&qid=1-1 : 一覧
+ * POST { collection, qid, phrase, note? } : 登録・更新（もう一方の辞書からは移動）
+ * POST { collection, key, delete: true } : 削除
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const db = await getStore();
+    const { actor } = await requireStaff(req, req.method === "GET" ? "answers:read" : "curation:write");
+
+    if (req.method === "GET") {
+      const collection = String(req.query.collection || "accepted");
+      if (!isCuratedCollection(collection)) return res.status(400).json({ error: "collection must be accepted or negatives" });
+      const qid = req.query.qid ? String(req.query.qid) : null;
+      const limit = Math.min(Number(req.query.limit || 200), 500);
+
+      let query: any = db.collection(collection);
+      if (qid) query = query.where("qid", "==", qid);
+      const snap = await query.limit(limit).get();
+      const entries = snap.docs.map((d: any) => ({ key: d.id, ...d.data() }));
+      return res.json({ ok: true, collection, entries });
+    }
+
+    if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
+
+    const { collection, qid, phrase, note, key } = (req.body ?? {}) as {
+      collection?: string;
+      qid?: string;
+      phrase?: string;
+      note?: string;
+      key?: string;
+      delete?: boolean;
+    };
+    if (!isCuratedCollection(collection)) return res.status(400).json({ error: "collection must be accepted or negatives" });
+
+    if (req.body?.delete === true) {
+      if (!key) return res.status(400).json({ error: "key required" });
+      const deleted = await deleteCuratedEntry(db, collection, String(key), actor);
+      return deleted ? res.json({ ok: true, key, deleted }) : res.status(404).json({ error: "entry not found" });
+    }
+
+    if (!qid || !phrase || !String(phrase).trim()) return res.status(400).json({ error: "qid and phrase required" });
+    if (!isSafePattern(String(phrase))) return res.status(400).json({ error: "phrase too long or unsafe" });
+    if (note && String(note).length > 500) return res.status(400).json({ error: "note too long (max 500)" });
+
+    const result = await putCuratedEntry(db, collection, { qid: String(qid), phrase: String(phrase), note: note ? String(note) : undefined }, actor);
+    return res.json({ ok: true, collection, ...result });
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    res.status(msg.includes("PERMISSION_DENIED") ? 403 : 500).json({ error: msg });
+  }
+}
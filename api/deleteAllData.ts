@@ -1,11 +1,16 @@
 // api/deleteAllData.ts
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { db } from "./_firebaseAdmin.js";
+import { getStore } from "./_store.js";
 import { requireStaff } from "./_requireStaff.js";
 
+/**
+ * 回答・候補・訂正記録をすべて削除（admin のみ）
+ * POST { confirm: "DELETE_ALL_DATA" }
+ */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
-    await requireStaff(req);
+    const db = await getStore();
+    await requireStaff(req, "data:delete");
 
     if (req.method !== "POST") {
       return res.status(405).json({ error: "Method Not Allowed" });
@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Store } from "./_store";
+import { post, get, res, call, freshLocalStore } from "./_testHelpers";
+import handler from "./ensemble";
+import submitAnswer from "./submitAnswer";
+
+let db: Store;
+
+describe("ensemble (local store)", () => {
+  beforeEach(async () => {
+    db = await freshLocalStore("ensemble");
+  });
+
+  it("returns defaults until set, merges partial updates and is used by submitAnswer", async () => {
+    const before = await call(handler, get({}, {}));
+    expect(before.jsonBody).toMatchObject({ isDefault: true, config: { mode: "weighted" } });
+
+    expect((await call(handler, post({ mode: "vote", minAgreement: 0.6 }))).code).toBe(200);
+    expect((await call(handler, post({ engines: ["matchSense", "gradeMeaningSimple"] }))).code).toBe(200);
+    const after = await call(handler, get({}, {}));
+    expect(after.jsonBody).toMatchObject({
+      isDefault: false,
+      config: { mode: "vote", minAgreement: 0.6, engines: ["matchSense", "gradeMeaningSimple"] },
+    });
+
+    await submitAnswer(post({ qid: "1-1", answerRaw: "驚く", engine: "ensemble", questionType: "writing" }, {}), res());
+    const answers = await db.collection("answers").get();
+    const auto = answers.docs[0].data().raw.auto;
+    expect(auto.engine).toBe("ensemble");
+    expect(auto.breakdown.map((m: any) => m.engine)).toEqual(["matchSense", "gradeMeaningSimple"]);
+
+    const audit = await db.collection("overrides").where("action", "==", "ensemble_set").get();
+    expect(audit.size).toBe(2);
+  });
+
+  it("rejects invalid configs and non-staff writes, and resets", async () => {
+    expect((await call(handler, post({ engines: ["kuromoji"] }))).code).toBe(400);
+    expect((await call(handler, post({ mode: "vote" }, {}))).code).toBe(403);
+
+    await call(handler, post({ mode: "vote" }));
+    await call(handler, post({ reset: true }));
+    expect((await call(handler, get({}, {}))).jsonBody.isDefault).toBe(true);
+  });
+});
@@ -0,0 +1,65 @@
+// api/ensemble.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getStore } from "./_store.js";
+import { requireStaff } from "./_requireStaff.js";
+import { findEnsembleConfig } from "./_ensemble.js";
+import { resolveEnsembleConfig, validateEnsembleConfig, type EnsembleConfig } from "../src/scoring/ensemble.js";
+
+/**
+ * アンサンブル採点の設定（meta/ensemble）
+ * GET: 誰でも参照可（クライアント採点でサーバーと同じ構成を使う）
+ * POST: 教師のみ。{ engines?, weights?, mode?, passScore?, maxSpread?, minAgreement? } で設定、{ reset: true } で既定値に戻す
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const db = await getStore();
+
+    if (req.method === "GET") {
+      const found = await findEnsembleConfig(db);
+      return res.json({ ok: true, config: resolveEnsembleConfig(found), isDefault: !found });
+    }
+
+    if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
+
+    const { actor } = await requireStaff(req, "curation:write");
+    const { reset, ...body } = (req.body ?? {}) as Partial<EnsembleConfig> & { reset?: boolean };
+    const ref = db.collection("meta").doc("ensemble");
+    const before = await findEnsembleConfig(db);
+    const now = new Date();
+
+    if (reset) {
+      if (before) await ref.delete();
+    } else {
+      const error = validateEnsembleConfig(body);
+      if (error) return res.status(400).json({ error });
+      const { engines, weights, mode, passScore, maxSpread, minAgreement } = body;
+      await ref.set({
+        ...before,
+        ...(engines !== undefined ? { engines } : {}),
+        ...(weights !== undefined ? { weights } : {}),
+        ...(mode !== undefined ? { mode } : {}),
+        ...(passScore !== undefined ? { passScore } : {}),
+        ...(maxSpread !== undefined ? { maxSpread } : {}),
+        ...(minAgreement !== undefined ? { minAgreement } : {}),
+        updatedBy: actor,
+        updatedAt: now,
+      });
+    }
+
+    const after = reset ? null : await findEnsembleConfig(db);
+
+    // audit event
+    await db.collection("overrides").add({
+      ts: now,
+      action: reset ? "ensemble_reset" : "ensemble_set",
+      actor,
+      before,
+      after,
+    });
+
+    return res.json({ ok: true, config: resolveEnsembleConfig(after), isDefault: !after });
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    res.status(msg.includes("PERMISSION_DENIED") ? 403 : 500).json({ error: msg });
+  }
+}
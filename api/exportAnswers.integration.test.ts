@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import zlib from "zlib";
+import type { Store } from "./_store";
+import { get, res, freshLocalStore } from "./_testHelpers";
+import handler from "./exportAnswers";
+
+/** ZIP の中央ディレクトリから各ファイルを取り出す */
+function unzip(buf: Buffer): Record<string, string> {
+  const eocd = buf.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = buf.readUInt16LE(eocd + 10);
+  let p = buf.readUInt32LE(eocd + 16);
+  const files: Record<string, string> = {};
+  for (let i = 0; i < count; i++) {
+    const csize = buf.readUInt32LE(p + 20);
+    const nameLen = buf.readUInt16LE(p + 28);
+    const local = buf.readUInt32LE(p + 42);
+    const name = buf.subarray(p + 46, p + 46 + nameLen).toString("utf-8");
+    const start = local + 30 + buf.readUInt16LE(local + 26) + buf.readUInt16LE(local + 28);
+    files[name] = zlib.inflateRawSync(buf.subarray(start, start + csize)).toString("utf-8");
+    p += 46 + nameLen;
+  }
+  return files;
+}
+
+let db: Store;
+
+const exportWith = async (query: any) => {
+  const r: any = res();
+  await handler(get(query), r);
+  return r;
+};
+
+describe("exportAnswers (local store)", () => {
+  beforeEach(async () => {
+    db = await freshLocalStore("export");
+
+    const base = Date.parse("2025-10-01T00:00:00Z");
+    const answers = db.collection("answers");
+    const seed = [
+      { id: "e1", qid: "1-1", uid: "u1", result: "OK", source: "auto", quizType: "meaning-writing", answerRaw: "驚く" },
+      { id: "e2", qid: "2-1", uid: "u1", result: "OK", source: "manual", quizType: "meaning-writing", answerRaw: "=はっとする, \"目が覚める\"" },
+      { id: "e3", qid: "1-1", uid: "u1", result: "NG", source: "override", quizType: "context-writing", answerRaw: "あきれる" },
+      { id: "e4", qid: "1-1", anonId: "anon-b", result: "ABSTAIN", source: "auto", quizType: "meaning-writing", answerRaw: "気づく" },
+    ];
+    for (const [i, s] of seed.entries()) {
+      await answers.doc(s.id).set({
+        raw: { ts: new Date(base + i * 60_000), qid: s.qid, uid: s.uid ?? null, anonId: s.anonId ?? null, answerRaw: s.answerRaw, questionType: "writing", quizType: s.quizType, auto: { result: "NG", score: 40 } },
+        manual: s.source === "manual" ? { result: s.result, by: "teacher-1" } : null,
+        final: { result: s.result, source: s.source, reason: s.source === "manual" ? "先生が確認" : "auto" },
+      });
+    }
+  });
+
+  it("writes the per-answer CSV with the final judgment and escapes student input", async () => {
+    const r = await exportWith({ format: "csv", uid: "u1" });
+    expect(r.headers["content-type"]).toContain("text/csv");
+    expect(r.headers["content-disposition"]).toMatch(/attachment; filename="kobun-answers-\d{8}\.csv"/);
+
+    const lines: string[] = r.body().toString("utf-8").replace(/^\uFEFF/, "").trim().split("\r\n");
+    expect(lines[0]).toBe("answerId,ts,uid,anonId,classId,displayName,qid,lemma,group,questionType,quizType,answerRaw,auto.result,auto.score,final.result,final.source,final.reason,manual.by");
+    expect(lines.map(l => l.split(",")[0])).toEqual(["answerId", "e3", "e2", "e1"]);
+    // 数式扱いされないよう ' を付け、カンマと引用符は RFC 4180 でくくる
+    expect(lines[2]).toContain(`"'=はっとする, ""目が覚める"""`);
+    expect(lines[2]).toContain("OK,manual,先生が確認,teacher-1");
+    expect(r.ended).toBe(true);
+  });
+
+  it("writes the student id for corrections made with userCorrectAnswer", async () => {
+    // 生徒の訂正は manual.by が { userId, at }（教師の訂正は文字列）
+    await db.collection("answers").doc("e4").update({
+      manual: { result: "OK", by: { userId: "anon-b", at: new Date() } },
+      final: { result: "OK", source: "manual", reason: "user_correction:OK" },
+    });
+    const r = await exportWith({ format: "csv", anonId: "anon-b" });
+    const lines: string[] = r.body().toString("utf-8").replace(/^\uFEFF/, "").trim().split("\r\n");
+    expect(lines[1].endsWith(",OK,manual,user_correction:OK,anon-b")).toBe(true);
+  });
+
+  it("summarizes accuracy per student, group and quiz type", async () => {
+    const r = await exportWith({ format: "csv", sheet: "students" });
+    const [header, ...rows]: string[][] = r.body().toString("utf-8").replace(/^\uFEFF/, "").trim().split("\r\n").map((l: string) => l.split(","));
+    const col = (row: string[], name: string) => row[header.indexOf(name)];
+
+    const u1 = rows.find(row => row[0] === "u1")!;
+    expect(col(u1, "answers")).toBe("3");
+    expect(col(u1, "accuracy")).toBe("0.667");
+    expect(col(u1, "manualCorrections")).toBe("1");
+    expect(col(u1, "overrides")).toBe("1");
+    expect(col(u1, "group1.accuracy")).toBe("0.5");
+    expect(col(u1, "group2.accuracy")).toBe("1");
+    expect(col(u1, "context-writing.accuracy")).toBe("0");
+
+    // 保留だけの生徒は正答率が空欄
+    const anon = rows.find(row => row[1] === "anon-b")!;
+    expect(col(anon, "ABSTAIN")).toBe("1");
+    expect(col(anon, "accuracy")).toBe("");
+  });
+
+  it("counts teacher corrections, student self-corrections and bulk overrides in separate columns", async () => {
+    const answers = db.collection("answers");
+    const raw = { ts: new Date(), qid: "1-1", uid: "u2", questionType: "writing", quizType: "meaning-writing", auto: { result: "NG", score: 40 } };
+    // overrideAnswer の形（教師）
+    await answers.doc("t1").set({ raw, manual: { result: "OK", by: "teacher-1", at: new Date() }, final: { result: "OK", source: "override", reason: "teacher_override", by: "teacher-1" } });
+    // userCorrectAnswer の形（生徒本人）
+    await answers.doc("s1").set({ raw, manual: { result: "OK", by: { userId: "u2", at: new Date() } }, final: { result: "OK", source: "manual", reason: "user_correction:OK" } });
+    await answers.doc("s2").set({ raw, manual: { result: "NG", by: { userId: "u2", at: new Date() } }, final: { result: "NG", source: "manual", reason: "user_correction:NG" } });
+    // 一括訂正ルール
+    await answers.doc("r1").set({ raw, final: { result: "OK", source: "override", reason: "rule:r1" } });
+
+    const r = await exportWith({ format: "csv", sheet: "students", uid: "u2" });
+    const [header, row]: string[][] = r.body().toString("utf-8").replace(/^\uFEFF/, "").trim().split("\r\n").map((l: string) => l.split(","));
+    const col = (name: string) => row[header.indexOf(name)];
+    expect(col("manualCorrections")).toBe("1");
+    expect(col("selfCorrections")).toBe("2");
+    expect(col("overrides")).toBe("1");
+  });
+
+  it("writes an XLSX workbook with answer and student sheets", async () => {
+    const r = await exportWith({ format: "xlsx", qid: "1-1" });
+    expect(r.headers["content-type"]).toBe("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+
+    const files = unzip(r.body());
+    expect(Object.keys(files).sort()).toEqual([
+      "[Content_Types].xml", "_rels/.rels", "xl/_rels/workbook.xml.rels", "xl/workbook.xml", "xl/worksheets/sheet1.xml", "xl/worksheets/sheet2.xml",
+    ]);
+    expect(files["xl/workbook.xml"]).toContain('<sheet name="回答" sheetId="1"');
+    expect(files["xl/workbook.xml"]).toContain('<sheet name="生徒別" sheetId="2"');
+    // qid=1-1 の3件 + 見出し
+    expect(files["xl/worksheets/sheet1.xml"].match(/<row /g)).toHaveLength(4);
+    expect(files["xl/worksheets/sheet1.xml"]).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">e4</t></is></c>');
+    expect(files["xl/worksheets/sheet2.xml"]).toContain("manualCorrections");
+
+    const audit = await db.collection("overrides").where("action", "==", "answers_export").get();
+    expect(audit.docs[0].data()).toMatchObject({ format: "xlsx", exported: 3, actor: "admin-token" });
+  });
+
+  it("rejects bad parameters and non-staff callers", async () => {
+    expect((await exportWith({ format: "pdf" })).code).toBe(400);
+    expect((await exportWith({ result: "MAYBE" })).code).toBe(400);
+
+    const anon: any = res();
+    await handler(get({}, {}), anon);
+    expect(anon.code).toBe(403);
+  });
+});
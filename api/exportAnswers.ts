@@ -0,0 +1,95 @@
+// api/exportAnswers.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getStore } from "./_store.js";
+import { requireStaff } from "./_requireStaff.js";
+import { iterateAnswers, parseAnswerFilters } from "./_answerFilters.js";
+import { ANSWER_HEADER, answerRow, createStudentSummary, csvLine } from "./_answerExport.js";
+import { createXlsxWriter } from "./_xlsx.js";
+import { classScope, createRosterLookup } from "./_classes.js";
+
+const XLSX_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/**
+ * 回答の書き出し（成績処理用）
+ * GET ?format=csv|xlsx&sheet=answers|students + browseAnswers と同じ絞り込み
+ * - xlsx: 「回答」「生徒別」の2シート
+ * - csv: sheet で選んだ1表（UTF-8 BOM 付き）
+ * 回答はページ単位で読みながら書き出す（生徒別は最後まで読んでから出す）
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "GET") return res.status(405).json({ error: "Method Not Allowed" });
+
+    const db = await getStore();
+    const staff = await requireStaff(req, "answers:read");
+    const { actor } = staff;
+
+    const filters = parseAnswerFilters(req.query, await classScope(db, staff));
+    const format = String(req.query.format || "csv");
+    const sheet = String(req.query.sheet || "answers");
+    if (format !== "csv" && format !== "xlsx") throw new Error("BAD_REQUEST: format must be csv or xlsx");
+    if (sheet !== "answers" && sheet !== "students") throw new Error("BAD_REQUEST: sheet must be answers or students");
+
+    const stamp = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+    const filename = format === "xlsx" ? `kobun-answers-${stamp}.xlsx` : `kobun-${sheet}-${stamp}.csv`;
+    res.setHeader("Content-Type", format === "xlsx" ? XLSX_TYPE : "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.setHeader("Cache-Control", "no-store");
+    res.status(200);
+
+    const summary = createStudentSummary();
+    const displayName = createRosterLookup(db);
+    // 名簿の表示名を引いてから行にする
+    const withNames = (rows: any[]) => Promise.all(rows.map(async a => ({ ...a, displayName: await displayName(a.raw?.classId, a.raw?.anonId) })));
+    let exported = 0;
+
+    if (format === "csv") {
+      res.write("\uFEFF");
+      if (sheet === "answers") res.write(csvLine(ANSWER_HEADER));
+      for await (const page of iterateAnswers(db, filters)) {
+        const rows = await withNames(page);
+        exported += rows.length;
+        if (sheet === "answers") res.write(rows.map(a => csvLine(answerRow(a))).join(""));
+        else rows.forEach(summary.add);
+      }
+      if (sheet === "students") {
+        res.write(csvLine(summary.header()));
+        res.write(summary.rows().map(csvLine).join(""));
+      }
+    } else {
+      const xlsx = createXlsxWriter(chunk => res.write(chunk));
+      xlsx.addSheet("回答");
+      xlsx.addRows([ANSWER_HEADER]);
+      for await (const page of iterateAnswers(db, filters)) {
+        const rows = await withNames(page);
+        exported += rows.length;
+        xlsx.addRows(rows.map(answerRow));
+        rows.forEach(summary.add);
+      }
+      await xlsx.endSheet();
+      xlsx.addSheet("生徒別");
+      xlsx.addRows([summary.header(), ...summary.rows()]);
+      await xlsx.finish();
+    }
+
+    // audit event
+    await db.collection("overrides").add({
+      ts: new Date(),
+      action: "answers_export",
+      actor,
+      format,
+      sheet: format === "xlsx" ? "answers+students" : sheet,
+      exported,
+    });
+    res.end();
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    // 書き出しを始めた後のエラーはステータスを変えられないので打ち切るだけ
+    if (res.headersSent) {
+      console.error("[exportAnswers]", msg);
+      return res.end();
+    }
+    const code = msg.includes("PERMISSION_DENIED") ? 403 : msg.startsWith("BAD_REQUEST") ? 400 : 500;
+    res.status(code).json({ error: msg });
+  }
+}
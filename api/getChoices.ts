@@ -1,27 +1,7 @@
 // api/getChoices.ts
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { db } from "./_firebaseAdmin.js";
-import fs from "fs";
-import path from "path";
-
-// キャッシュ用
-let QMAP: Map<string, any> | null = null;
-
-function loadQuestionsOnce() {
-  if (QMAP) return QMAP;
-  const p = path.join(process.cwd(), "data", "kobun_q.jsonl.txt");
-  if (!fs.existsSync(p)) throw new Error("Data file not found");
-
-  const lines = fs.readFileSync(p, "utf-8").split(/\r?\n/).filter(Boolean);
-  QMAP = new Map();
-  for (const line of lines) {
-    try {
-      const obj = JSON.parse(line);
-      if (obj.qid) QMAP.set(String(obj.qid), obj);
-    } catch {}
-  }
-  return QMAP!;
-}
+import { getStore } from "./_store.js";
+import { loadQuestionsOnce } from "./_questions.js";
 
 type Choice = {
   qid: string;
@@ -52,6 +32,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     // 1. candidates から正解・誤答候補を取得
+    const db = await getStore();
     const correctCandidates = await db
       .collection("candidates")
       .where("qid", "==", qidStr)
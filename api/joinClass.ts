@@ -0,0 +1,29 @@
+// api/joinClass.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getStore } from "./_store.js";
+import { joinClass } from "./_classes.js";
+import { isAnonOwner } from "./_anonKeys.js";
+
+/**
+ * 生徒のクラス参加（認証なし。参加コードを知っていることが条件）
+ * POST { joinCode, anonId, displayName }（x-anon-key: 端末の鍵）
+ * 参加済みなら表示名だけ更新する。名簿の名前を他人に書き換えられないよう、anonId は端末の鍵で本人確認する
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
+
+    const db = await getStore();
+    const { joinCode, anonId, displayName } = (req.body ?? {}) as { joinCode?: string; anonId?: string; displayName?: string };
+    if (typeof anonId === "string" && anonId && !(await isAnonOwner(db, req, anonId))) {
+      return res.status(403).json({ error: "PERMISSION_DENIED: anon key does not match" });
+    }
+    const { cls, member } = await joinClass(db, joinCode, anonId, displayName);
+
+    return res.json({ ok: true, classId: cls.classId, className: cls.name, displayName: member.displayName });
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    const code = msg.startsWith("BAD_REQUEST") ? 400 : msg.startsWith("NOT_FOUND") ? 404 : 500;
+    res.status(code).json({ error: msg });
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Store } from "./_store";
+import { admin, post, get, res, freshLocalStore } from "./_testHelpers";
+import handler from "./learnedBundle";
+import { hashLearned, getLearnedFor, publishBundle, KEEP_BUNDLE_VERSIONS, MAX_BUNDLE_BYTES } from "./_learnedBundle";
+import { getAllLearnedCandidates } from "./_questions";
+
+let db: Store;
+const candidate = (qid: string, answerNorm: string, extra: any = {}) =>
+  db.collection("candidates").doc(`${qid}::${answerNorm}`).set({ qid, answerNorm, freq: 3, avgScore: 85, proposedRole: "accept", ...extra });
+
+describe("learnedBundle (local store)", () => {
+  beforeEach(async () => {
+    db = await freshLocalStore("learned");
+  });
+
+  it("publishes accept candidates and serves them with an ETag", async () => {
+    await candidate("1-1", "きづく");
+    await candidate("1-1", "ほげ", { promotedTo: "negatives" });
+    await candidate("1-2", "だめ", { proposedRole: "negative" });
+
+    const published: any = res();
+    await handler(post({ action: "publish" }), published);
+    expect(published.jsonBody).toMatchObject({ unchanged: false, bundle: { version: 1, qidsCount: 1, candidatesCount: 1 } });
+
+    const first: any = res();
+    await handler(get({}, {}), first);
+    expect(first.jsonBody.learned).toEqual({ "1-1": [{ answerNorm: "きづく", freq: 3, avgScore: 85 }] });
+    expect(first.headers.etag).toBe(`"${first.jsonBody.hash}"`);
+
+    const again: any = res();
+    await handler(get({}, { "if-none-match": first.headers.etag }), again);
+    expect(again.code).toBe(304);
+
+    expect(await getLearnedFor(db, "1-1")).toHaveLength(1);
+  });
+
+  it("serves the bundled candidates.json as version 0 until a bundle is published", async () => {
+    const fallback: any = res();
+    await handler(get({}, {}), fallback);
+    expect(fallback.jsonBody).toMatchObject({ version: 0, hash: hashLearned(getAllLearnedCandidates()) });
+    expect(fallback.jsonBody.learned).toEqual(getAllLearnedCandidates());
+    expect(fallback.headers.etag).toBe(`"${fallback.jsonBody.hash}"`);
+  });
+
+  it("refuses to publish a bundle over the document size limit", async () => {
+    const entries = Math.ceil(MAX_BUNDLE_BYTES / 100);
+    const learned = { "1-1": Array.from({ length: entries }, (_, i) => ({ answerNorm: `回答${i}`.padEnd(30, "あ"), freq: 1, avgScore: 80 })) };
+    await expect(publishBundle(db, learned, "t")).rejects.toThrow(/^BAD_REQUEST: bundle too large/);
+    expect((await db.collection("learnedBundles").get()).size).toBe(0);
+  });
+
+  it("skips unchanged publishes and rolls back by republishing an old version", async () => {
+    await candidate("1-1", "きづく");
+    await handler(post({ action: "publish" }), res());
+    const same: any = res();
+    await handler(post({ action: "publish" }), same);
+    expect(same.jsonBody).toMatchObject({ unchanged: true, bundle: { version: 1 } });
+
+    await candidate("1-1", "おもう");
+    await handler(post({ action: "publish" }), res());
+
+    const rolled: any = res();
+    await handler(post({ action: "rollback", version: 1 }), rolled);
+    expect(rolled.jsonBody.bundle).toMatchObject({ version: 3, restoredFrom: 1 });
+
+    const current: any = res();
+    await handler(get({}, {}), current);
+    expect(current.jsonBody.version).toBe(3);
+    expect(current.jsonBody.learned["1-1"]).toHaveLength(1);
+    expect(current.jsonBody.hash).toBe(hashLearned({ "1-1": [{ answerNorm: "きづく", freq: 3, avgScore: 85 }] }));
+  });
+
+  it("keeps only the newest versions and requires staff for list and publish", async () => {
+    for (let i = 0; i < KEEP_BUNDLE_VERSIONS + 2; i++) {
+      await candidate("1-1", `回答${i}`);
+      await handler(post({ action: "publish" }), res());
+    }
+    const list: any = res();
+    await handler(get({ list: "1" }, admin), list);
+    expect(list.jsonBody.versions).toHaveLength(KEEP_BUNDLE_VERSIONS);
+    expect(list.jsonBody.versions[0].version).toBe(KEEP_BUNDLE_VERSIONS + 2);
+
+    const gone: any = res();
+    await handler(get({ version: "1" }, {}), gone);
+    expect(gone.code).toBe(404);
+
+    const anonList: any = res();
+    await handler(get({ list: "1" }, {}), anonList);
+    expect(anonList.code).toBe(403);
+    const anonPublish: any = res();
+    await handler(post({ action: "publish" }, {}), anonPublish);
+    expect(anonPublish.code).toBe(403);
+  });
+});
@@ -0,0 +1,65 @@
+// api/learnedBundle.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getStore } from "./_store.js";
+import { requireStaff } from "./_requireStaff.js";
+import { buildLearnedMap, getBundle, getServedBundle, listBundles, publishBundle } from "./_learnedBundle.js";
+
+/**
+ * 学習済み正解バンドル
+ * GET                : 公開中の版（ETag = 内容ハッシュ。If-None-Match が一致すれば 304）
+ *                      未公開なら同梱の public/candidates.json を版 0 として返す（サーバー採点と同じ）
+ * GET ?version=3     : 保持している版を指定して取得
+ * GET ?list=1        : 保持している版の一覧（教師のみ）
+ * POST { action: "publish", note? }      : candidates から作り直して公開（教師のみ）
+ * POST { action: "rollback", version }   : 古い版の中身を新しい版として公開し直す（教師のみ）
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const db = await getStore();
+
+    if (req.method === "GET") {
+      if (req.query.list) {
+        await requireStaff(req, "answers:read");
+        return res.json({ ok: true, versions: await listBundles(db) });
+      }
+
+      const version = req.query.version !== undefined ? Number(req.query.version) : undefined;
+      if (version !== undefined && !Number.isInteger(version)) return res.status(400).json({ error: "version must be an integer" });
+
+      const bundle = version !== undefined ? await getBundle(db, version) : await getServedBundle(db);
+      if (!bundle) return res.status(404).json({ error: "version not found" });
+
+      const etag = `"${bundle.hash}"`;
+      res.setHeader("ETag", etag);
+      res.setHeader("Cache-Control", "public, max-age=0, must-revalidate");
+      if (req.headers["if-none-match"] === etag) return res.status(304).end();
+      return res.json({ ok: true, version: bundle.version, hash: bundle.hash, createdAt: bundle.createdAt, learned: bundle.learned });
+    }
+
+    if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
+
+    const { actor } = await requireStaff(req, "curation:write");
+    const { action, version, note } = (req.body ?? {}) as { action?: string; version?: number; note?: string };
+    if (note && String(note).length > 500) return res.status(400).json({ error: "note too long (max 500)" });
+
+    if (action === "publish") {
+      const learned = await buildLearnedMap(db);
+      const result = await publishBundle(db, learned, actor, { note: note ? String(note) : undefined });
+      return res.json({ ok: true, ...result });
+    }
+
+    if (action === "rollback") {
+      if (!Number.isInteger(version)) return res.status(400).json({ error: "version required" });
+      const old = await getBundle(db, version);
+      if (!old) return res.status(404).json({ error: "version not found" });
+      const result = await publishBundle(db, old.learned, actor, { restoredFrom: old.version, note: note ? String(note) : undefined });
+      return res.json({ ok: true, ...result });
+    }
+
+    return res.status(400).json({ error: "action must be publish or rollback" });
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    const status = msg.includes("PERMISSION_DENIED") ? 403 : msg.startsWith("BAD_REQUEST") ? 400 : 500;
+    res.status(status).json({ error: msg });
+  }
+}
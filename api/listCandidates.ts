@@ -1,11 +1,15 @@
 // api/listCandidates.ts
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { db } from "./_firebaseAdmin.js";
+import { getStore } from "./_store.js";
 import { requireStaff } from "./_requireStaff.js";
+import { classScope, narrowScope } from "./_classes.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
-    await requireStaff(req);
+    const db = await getStore();
+    const staff = await requireStaff(req, "answers:read");
+    // 教師ログインは担当クラスの生徒が出した候補だけ（?classId= で1クラスに絞れる）
+    const scope = narrowScope(await classScope(db, staff), req.query.classId);
 
     const limit = Number(req.query.limit || 100);
     const qid = req.query.qid ? String(req.query.qid) : null;
@@ -21,15 +25,23 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       query = query.where("proposedRole", "==", role);
     }
 
-    const snap = await query
-      .orderBy("freq", "desc")
-      .limit(limit)
-      .get();
-
-    const candidates = snap.docs.map((doc: any) => ({
-      id: doc.id,
-      ...doc.data(),
-    }));
+    // 1クラスならクエリで、複数クラスなら取得後に絞る
+    if (scope && scope.length === 1) {
+      query = query.where("classIds", "array-contains", scope[0]);
+    }
+    query = query.orderBy("freq", "desc");
+    if (!scope || scope.length === 1) query = query.limit(limit);
+
+    const snap = scope && scope.length === 0 ? { docs: [] } : await query.get();
+
+    const candidates = snap.docs
+      .map((doc: any) => ({
+        id: doc.id,
+        ...doc.data(),
+      }))
+      .filter((c: any) => !scope || scope.some(id => (c.classIds ?? []).includes(id)))
+      .slice(0, limit)
+      .map((c: any) => scope ? { ...c, freqInClasses: scope.reduce((n, id) => n + (c.classFreq?.[id] ?? 0), 0) } : c);
 
     return res.json({
       ok: true,
@@ -1,12 +1,21 @@
 // api/listRecentAnswers.ts
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { db } from "./_firebaseAdmin.js";
+import { getStore } from "./_store.js";
 import { requireStaff } from "./_requireStaff.js";
+import { scanAnswers } from "./_answerFilters.js";
+import { classScope } from "./_classes.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
-    await requireStaff(req);  // 共有トークン or 教師のみ
+    const db = await getStore();
+    const staff = await requireStaff(req, "answers:read");  // API キー or 教師ログイン
     const limit = Math.min(Number(req.query.limit || 50), 200);
+    const scope = await classScope(db, staff);
+    if (scope) {
+      // 教師ログインは担当クラスの回答だけ
+      const page = await scanAnswers(db, { qids: null, classIds: scope }, { limit });
+      return res.json(page.rows);
+    }
     const snap = await db.collection("answers").orderBy("raw.ts", "desc").limit(limit).get();
     const rows = snap.docs.map(d => ({ id: d.id, ...d.data() }));
     res.json(rows);
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+// 生徒の Firebase ID トークンだけ差し替え。保存先は STORAGE_BACKEND=local のファイルストア
+vi.mock("firebase-admin/auth", () => ({
+  getAuth: () => ({
+    verifyIdToken: async (token: string) => {
+      if (!token.startsWith("student:")) throw new Error("invalid token");
+      return { uid: token.slice("student:".length) };
+    },
+  }),
+}));
+
+import type { Store } from "./_store";
+import { post, get, res, freshLocalStore } from "./_testHelpers";
+import { createMemoryRateLimitStore, setRateLimitStore, RATE_LIMITS } from "./_rateLimit";
+import submitAnswer from "./submitAnswer";
+import handler from "./myAnswers";
+
+const KEY = "k".repeat(43);
+const OTHER_KEY = "x".repeat(43);
+const call = async (req: any) => { const r: any = res(); await handler(req, r); return r; };
+
+let db: Store;
+
+const answer = (body: any) =>
+  submitAnswer(post({ answerRaw: "驚く", autoScore: 100, autoResult: "OK", autoReason: "t", questionType: "writing", ...body }, { "x-anon-key": KEY }), res());
+
+describe("myAnswers (local store)", () => {
+  beforeEach(async () => {
+    db = await freshLocalStore("myanswers");
+    setRateLimitStore(createMemoryRateLimitStore());
+  });
+
+  afterEach(() => setRateLimitStore(null));
+
+  it("returns the latest answers only with the anonId's key", async () => {
+    const now = Date.now();
+    await answer({ qid: "1-1", anonId: "anon_a", clientTs: now - 3000 });
+    await answer({ qid: "1-2", anonId: "anon_a", clientTs: now - 1000 });
+    await answer({ qid: "1-3", anonId: "anon_a", clientTs: now - 2000 });
+
+    const own = await call(get({ anonId: "anon_a", limit: "2" }, { "x-anon-key": KEY }));
+    expect(own.code).toBe(200);
+    expect(own.jsonBody.answers.map((a: any) => a.qid)).toEqual(["1-2", "1-3"]);
+    expect(own.jsonBody.answers[0].clientTs).toBe(now - 1000);
+
+    expect((await call(get({ anonId: "anon_a" }, { "x-anon-key": OTHER_KEY }))).code).toBe(403);
+    expect((await call(get({ anonId: "anon_a" }, {}))).code).toBe(403);
+    // 鍵が結び付いた後は、別の鍵での送信で上書きされない
+    await submitAnswer(post({ qid: "1-5", answerRaw: "驚く", anonId: "anon_a", autoScore: 0, autoResult: "NG", autoReason: "t" }, { "x-anon-key": OTHER_KEY }), res());
+    expect((await call(get({ anonId: "anon_a" }, { "x-anon-key": OTHER_KEY }))).code).toBe(403);
+  });
+
+  it("requires a matching ID token for uid", async () => {
+    await answer({ qid: "1-1", uid: "u1", anonId: "anon_u" });
+
+    expect((await call(get({ uid: "u1" }, {}))).code).toBe(403);
+    expect((await call(get({ uid: "u1" }, { authorization: "Bearer student:u2" }))).code).toBe(403);
+    const own = await call(get({ uid: "u1" }, { authorization: "Bearer student:u1" }));
+    expect(own.jsonBody.answers).toHaveLength(1);
+  });
+
+  it("rate limits each anonId", async () => {
+    const { capacity } = RATE_LIMITS.myAnswers.anonId;
+    for (let i = 0; i < capacity; i++) await call(get({ anonId: "anon_r" }, { "x-anon-key": KEY }));
+    expect((await call(get({ anonId: "anon_r" }, { "x-anon-key": KEY }))).code).toBe(429);
+  });
+});
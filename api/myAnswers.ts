@@ -0,0 +1,62 @@
+// api/myAnswers.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getStore } from "./_store.js";
+import { checkRateLimit, sendRateLimited } from "./_rateLimit.js";
+import { isAnonOwner } from "./_anonKeys.js";
+import { isUidOwner } from "./_idToken.js";
+
+/**
+ * 生徒本人の回答履歴（/progress の同期用）
+ * uid は Firebase ID token、anonId は端末の鍵（x-anon-key）で本人確認し、新しい順に final の正誤を返す
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "GET") return res.status(405).json({ error: "Method Not Allowed" });
+
+    const db = await getStore();
+    const uid = req.query.uid ? String(req.query.uid) : null;
+    const anonId = req.query.anonId ? String(req.query.anonId) : null;
+    const limit = Math.min(Math.max(Number(req.query.limit || 500) || 500, 1), 1000);
+
+    const rate = await checkRateLimit(req, "myAnswers", { anonId: anonId ?? undefined });
+    if (!rate.ok) return sendRateLimited(res, rate);
+
+    if (!uid && !anonId) {
+      return res.status(400).json({ error: "uid or anonId required" });
+    }
+
+    if (uid) {
+      if (!(await isUidOwner(req, uid))) return res.status(403).json({ error: "PERMISSION_DENIED: ID token required for uid" });
+    } else if (!(await isAnonOwner(db, req, anonId!))) {
+      return res.status(403).json({ error: "PERMISSION_DENIED: anon key does not match" });
+    }
+
+    // Require composite index: ["raw.uid" or "raw.anonId" ASC, "raw.ts" DESC]
+    const snap = await db
+      .collection("answers")
+      .where(uid ? "raw.uid" : "raw.anonId", "==", uid ?? anonId)
+      .orderBy("raw.ts", "desc")
+      .limit(limit)
+      .get();
+
+    const answers = snap.docs.map(d => {
+      const a: any = d.data();
+      const ts = a.raw?.ts?.toDate ? a.raw.ts.toDate() : new Date(a.raw?.ts);
+      return {
+        answerId: d.id,
+        qid: a.raw?.qid,
+        quizType: a.raw?.quizType ?? null,
+        questionType: a.raw?.questionType ?? "writing",
+        answerRaw: a.raw?.answerRaw ?? "",
+        score: a.raw?.auto?.score ?? null,
+        result: a.final?.result ?? null,
+        ts: ts.getTime(),
+        clientTs: a.raw?.clientTs ?? null,
+      };
+    });
+
+    return res.json({ ok: true, answers });
+  } catch (e: any) {
+    return res.status(500).json({ error: String(e?.message || e) });
+  }
+}
@@ -0,0 +1,25 @@
+// api/openAssignment.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getStore } from "./_store.js";
+import { findAssignmentByCode, assignmentView } from "./_assignments.js";
+
+/**
+ * 生徒が課題コードで課題を開く（認証なし。コードを知っていることが条件）
+ * GET ?code=
+ * 出題設定と受付状況（upcoming / open / closed）を返す。作成者などの管理用の項目は返さない
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "GET") return res.status(405).json({ error: "Method Not Allowed" });
+
+    const db = await getStore();
+    const a = assignmentView(await findAssignmentByCode(db, req.query.code));
+    const { assignmentId, code, title, classId, mode, quizType, qids, groupFrom, groupTo, count, opensAt, closesAt, status } = a;
+
+    return res.json({ ok: true, assignment: { assignmentId, code, title, classId, mode, quizType, qids, groupFrom, groupTo, count, opensAt, closesAt, status } });
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    const code = msg.startsWith("BAD_REQUEST") ? 400 : msg.startsWith("NOT_FOUND") ? 404 : 500;
+    res.status(code).json({ error: msg });
+  }
+}
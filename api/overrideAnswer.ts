@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { db, FieldValue } from "./_firebaseAdmin.js";
+import { getStore } from "./_store.js";
 import { requireStaff } from "./_requireStaff.js";
+import { classScope, inClassScope } from "./_classes.js";
 
 type ResultLabel = "OK" | "NG";
 type FinalSource = "auto" | "manual" | "override";
@@ -9,7 +10,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
 
-    const { actor } = await requireStaff(req);  // 権限チェック＆actor取得
+    const db = await getStore();
+    const staff = await requireStaff(req, "answers:grade");  // 権限チェック＆actor取得
+    const { actor } = staff;
+    const scope = await classScope(db, staff);
 
     const { answerId, result, note } = req.body as {
       answerId: string;
@@ -27,6 +31,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       const snap = await tx.get(ref);
       if (!snap.exists) throw new Error("answer not found");
       const cur: any = snap.data();
+      // 教師ログインは担当クラスの回答だけ訂正できる
+      if (!inClassScope(scope, cur.raw?.classId)) throw new Error("PERMISSION_DENIED: not your class");
       const now = new Date();
 
       // next manual
@@ -54,7 +60,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           : { result, source: "override", reason: "teacher_override", by: actor, at: now };
 
       const payload: any = { final: nextFinal };
-      if (result === null) payload.manual = FieldValue.delete();
+      if (result === null) payload.manual = db.deleteField();
       else payload.manual = nextManual;
 
       tx.update(ref, payload);
@@ -73,6 +79,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const updated = (await ref.get()).data();
     return res.json({ ok: true, final: updated?.final, manual: updated?.manual ?? null });
   } catch (e: any) {
-    return res.status(500).json({ error: String(e?.message || e) });
+    const msg = String(e?.message || e);
+    return res.status(msg.includes("PERMISSION_DENIED") ? 403 : 500).json({ error: msg });
   }
 }
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Store } from "./_store";
+import { post, get, res, freshLocalStore } from "./_testHelpers";
+import { makeKey } from "./_normalize";
+import handler from "./overrideOps";
+import upsertOverride from "./upsertOverride";
+import overrideRules from "./overrideRules";
+import userCorrectAnswer from "./userCorrectAnswer";
+
+let db: Store;
+const answer = async (id: string) => (await db.collection("answers").doc(id).get()).data();
+
+describe("overrideOps (local store)", () => {
+  const key = makeKey("4-2", "はっと目が覚めた");
+  const norm = key.split("::")[1];
+
+  beforeEach(async () => {
+    db = await freshLocalStore("ops");
+
+    const answers = db.collection("answers");
+    for (const id of ["x1", "x2", "x3"]) {
+      await answers.doc(id).set({ raw: { qid: "4-2", answerRaw: "はっと目が覚めた", auto: { result: "NG", reason: "auto" } }, curated: { answerNorm: norm }, final: { result: "NG", source: "auto", reason: "auto" } });
+    }
+  });
+
+  it("records before/after per answer and restores them, skipping later manual edits", async () => {
+    const applied: any = res();
+    await upsertOverride(post({ key, label: "OK", active: true }), applied);
+    const opId = applied.jsonBody.opId;
+    expect(opId).toBeTruthy();
+
+    const op: any = res();
+    await handler(get({ opId }), op);
+    expect(op.jsonBody.op.changes).toHaveLength(3);
+    expect(op.jsonBody.op.changes[0]).toMatchObject({ before: { result: "NG", source: "auto" }, after: { result: "OK", source: "override" } });
+
+    // 操作の後に manual 訂正された回答
+    await db.collection("answers").doc("x3").update({
+      manual: { result: "OK", at: new Date(Date.now() + 1000) },
+      final: { result: "OK", source: "manual", reason: "先生が確認" },
+    });
+
+    const preview: any = res();
+    await handler(post({ opId, dryRun: true }), preview);
+    expect(preview.jsonBody).toMatchObject({ restored: 2, skippedManual: 1 });
+    expect((await answer("x1")).final.source).toBe("override");
+
+    const reverted: any = res();
+    await handler(post({ opId }), reverted);
+    expect(reverted.jsonBody).toMatchObject({ restored: 2, skippedManual: 1, skippedChanged: 0 });
+    expect((await answer("x1")).final).toMatchObject({ result: "NG", source: "auto", reason: "auto" });
+    expect((await answer("x3")).final.source).toBe("manual");
+    // override 文書も操作前（存在しない）に戻る
+    expect((await db.collection("overrides").doc(key).get()).exists).toBe(false);
+
+    const again: any = res();
+    await handler(post({ opId }), again);
+    expect(again.code).toBe(409);
+
+    const list: any = res();
+    await handler(get(), list);
+    expect(list.jsonBody.ops.map((o: any) => o.action).sort()).toEqual(["override_apply", "revert"]);
+  });
+
+  it("lets only one of two simultaneous reverts through", async () => {
+    const applied: any = res();
+    await upsertOverride(post({ key, label: "OK", active: true }), applied);
+    const opId = applied.jsonBody.opId;
+
+    const [first, second]: any[] = [res(), res()];
+    await Promise.all([handler(post({ opId }), first), handler(post({ opId }), second)]);
+    expect([first.code, second.code].sort()).toEqual([200, 409]);
+    const reverts = (await db.collection("overrideOps").get()).docs.filter(d => d.data().revertOf === opId);
+    expect(reverts).toHaveLength(1);
+  });
+
+  it("reads the student correction time from manual.by.at", async () => {
+    const applied: any = res();
+    await upsertOverride(post({ key, label: "OK", active: true }), applied);
+
+    // 操作の後の生徒の訂正（userCorrectAnswer の形）は残す
+    await db.collection("answers").doc("x2").update({ "raw.anonId": "anon_s" });
+    const corrected: any = res();
+    await userCorrectAnswer(post({ answerId: "x2", userCorrection: "NG", anonId: "anon_s" }, { "x-anon-key": "ks-0123456789abcdefghijk" }), corrected);
+    expect(corrected.code).toBe(200);
+    // 操作より前の日時の訂正は、操作の後に手を入れたものではないので戻す
+    await db.collection("answers").doc("x3").update({ manual: { result: "OK", by: { userId: "anon_t", at: new Date(0) } } });
+
+    const reverted: any = res();
+    await handler(post({ opId: applied.jsonBody.opId }), reverted);
+    expect(reverted.jsonBody).toMatchObject({ restored: 2, skippedManual: 1 });
+    expect((await answer("x2")).final).toMatchObject({ result: "NG", source: "manual" });
+    expect((await answer("x3")).final).toMatchObject({ result: "NG", source: "auto" });
+  });
+
+  it("skips answers changed by a later operation and restores rule documents", async () => {
+    const first: any = res();
+    await overrideRules(post({ qid: "4-2", kind: "contains", pattern: "目が覚め", label: "OK" }), first);
+    // 後の完全一致 override が同じ回答を書き換える
+    await upsertOverride(post({ key, label: "NG", active: true }), res());
+
+    const reverted: any = res();
+    await handler(post({ opId: first.jsonBody.opId }), reverted);
+    expect(reverted.jsonBody).toMatchObject({ restored: 0, skippedChanged: 3 });
+    expect((await answer("x1")).final).toMatchObject({ result: "NG", source: "override" });
+    expect((await db.collection("overrideRules").doc(first.jsonBody.rule.id).get()).exists).toBe(false);
+
+    const missing: any = res();
+    await handler(post({ opId: "nope" }), missing);
+    expect(missing.code).toBe(404);
+  });
+});
@@ -0,0 +1,52 @@
+// api/overrideOps.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getStore } from "./_store.js";
+import { requireStaff } from "./_requireStaff.js";
+import { revertOp } from "./_overrideOps.js";
+import { classScope } from "./_classes.js";
+
+/**
+ * 一括訂正の操作履歴と取り消し（教師のみ）
+ * GET  ?limit=20            : 新しい順の操作一覧（回答ごとの before/after は件数のみ）
+ * GET  ?opId=xxx            : 1件の操作（before/after 付き）
+ * POST { opId, dryRun? }    : 操作前の状態に戻す。操作後に manual 訂正・別の操作で変わった回答は触らない
+ *                             admin 以外は自分の操作だけ、担当クラスの回答だけを戻せる
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const db = await getStore();
+    const staff = await requireStaff(req, req.method === "GET" ? "answers:read" : "curation:write");
+    const { actor } = staff;
+
+    if (req.method === "GET") {
+      if (req.query.opId) {
+        const snap = await db.collection("overrideOps").doc(String(req.query.opId)).get();
+        if (!snap.exists) return res.status(404).json({ error: "operation not found" });
+        return res.json({ ok: true, op: snap.data() });
+      }
+      const limit = Math.min(Number(req.query.limit || 20), 100);
+      const snap = await db.collection("overrideOps").orderBy("ts", "desc").limit(limit).get();
+      const ops = snap.docs.map(d => {
+        const { changes, target, ...op } = d.data();
+        return { ...op, targetId: target?.id ?? null, affected: Array.isArray(changes) ? changes.length : 0 };
+      });
+      return res.json({ ok: true, ops });
+    }
+
+    if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
+
+    const { opId, dryRun } = (req.body ?? {}) as { opId?: string; dryRun?: boolean };
+    if (!opId) return res.status(400).json({ error: "opId required" });
+
+    const scope = await classScope(db, staff);
+    const result = await revertOp(db, String(opId), { actor, scope }, dryRun === true);
+    return res.json({ ok: true, dryRun: dryRun === true, ...result });
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    const code = msg.includes("PERMISSION_DENIED") ? 403
+      : msg.startsWith("NOT_FOUND") ? 404
+      : msg.startsWith("CONFLICT") ? 409
+      : 500;
+    res.status(code).json({ error: msg });
+  }
+}
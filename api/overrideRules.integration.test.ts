@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { Store } from "./_store";
+import { post, res, freshLocalStore } from "./_testHelpers";
+import handler from "./overrideRules";
+import submitAnswer from "./submitAnswer";
+import { validateRule, findMatchingRule, REGEX_SLOW_MS, type OverrideRule } from "./_overrideRules";
+import { isSafeRegex, normalize } from "./_normalize";
+
+const rule = (id: string, extra: Partial<OverrideRule>): OverrideRule =>
+  ({ id, qid: "1-1", kind: "contains", label: "OK", priority: 0, active: true, reason: "", by: "t", createdAt: 0, updatedAt: 0, ...extra }) as OverrideRule;
+
+describe("override rule matching", () => {
+  it("validates patterns and rejects unsafe regex", () => {
+    expect(validateRule({ qid: "1-1", kind: "contains", pattern: "気づ", label: "OK" })).toBeNull();
+    expect(validateRule({ qid: "1-1", kind: "regex", pattern: "^(気|き)づ(く|いた)$", label: "OK" })).toBeNull();
+    expect(validateRule({ qid: "1-1", kind: "regex", pattern: "(a+)+$", label: "OK" })).toMatch(/unsafe/);
+    expect(validateRule({ qid: "1-1", kind: "regex", pattern: "(", label: "OK" })).toMatch(/invalid/);
+    for (const unsafe of ["((a+))+$", "(a|aa)+$", "(?:a|b)*c", "(a?){2,}b", "(\\p{L}+)*x", ".*.*.*x", "(a)\\1", "(?=a)a"]) {
+      expect(isSafeRegex(unsafe), unsafe).toBe(false);
+    }
+    for (const safe of ["づ.*た$", "[あ-ん]+る$", "^(く|いた)?$", "^(?:気づ){1,2}", "[(|+]+", "\\p{Script=Han}+づ"]) {
+      expect(isSafeRegex(safe), safe).toBe(true);
+    }
+    expect(validateRule({ qid: "1-1", kind: "morph", label: "NG" })).toBe("lemma required");
+  });
+
+  it("matches regex literals after the same normalization as answers", () => {
+    expect(findMatchingRule([rule("kata", { kind: "regex", pattern: "^ハッと" })], normalize("はっと目が覚めた"))?.id).toBe("kata");
+    expect(findMatchingRule([rule("wide", { kind: "regex", pattern: "^ＯＫ$" })], normalize("ok"))?.id).toBe("wide");
+    expect(findMatchingRule([rule("case", { kind: "regex", pattern: "^Ok$" })], normalize("OK"))?.id).toBe("case");
+    expect(validateRule({ qid: "1-1", kind: "regex", pattern: "気づ、た", label: "OK" })).toMatch(/normalization/);
+    expect(validateRule({ qid: "1-1", kind: "regex", pattern: "気 づ", label: "OK" })).toMatch(/normalization/);
+    expect(validateRule({ qid: "1-1", kind: "regex", pattern: "^\\S+づ\\.?$", label: "OK" })).toBeNull();
+  });
+
+  it("skips regex rules on long answers and disables rules that match slowly", () => {
+    const re = rule("slow", { kind: "regex", pattern: "づ" });
+    expect(findMatchingRule([re], "気づ" + "あ".repeat(200))).toBeNull();
+    // 以前の検査を通って保存されたルールも照合しない
+    expect(findMatchingRule([rule("legacy", { kind: "regex", pattern: "(a|aa)+$" })], "aa")).toBeNull();
+
+    const now = vi.spyOn(Date, "now");
+    now.mockReturnValueOnce(0).mockReturnValueOnce(REGEX_SLOW_MS + 1);
+    expect(findMatchingRule([re], "気づいた")?.id).toBe("slow");
+    now.mockRestore();
+    expect(findMatchingRule([re], "気づいた")).toBeNull();
+  });
+
+  it("resolves precedence by priority, then kind, then specificity", () => {
+    const rules = [
+      rule("re", { kind: "regex", pattern: "づ", label: "NG" }),
+      rule("short", { pattern: "気", label: "NG" }),
+      rule("long", { pattern: "気づい" }),
+      rule("morph", { kind: "morph", lemma: "気づ", auxTags: ["打消"], label: "NG" }),
+    ];
+    expect(findMatchingRule(rules, "気づいた")?.id).toBe("long");
+    expect(findMatchingRule(rules, "気づかない")?.id).toBe("short");
+    expect(findMatchingRule([...rules, rule("top", { kind: "suffix", pattern: "ない", priority: 5 })], "気づかない")?.id).toBe("top");
+    expect(findMatchingRule(rules.slice(3), "気づかない")?.id).toBe("morph");
+    expect(findMatchingRule(rules.slice(3), "気づいた")).toBeNull();
+  });
+});
+
+let db: Store;
+
+describe("overrideRules (local store)", () => {
+  beforeEach(async () => {
+    db = await freshLocalStore("rules");
+  });
+
+  const seed = async () => {
+    const answers = db.collection("answers");
+    await answers.doc("a1").set({ raw: { qid: "1-1", answerRaw: "はっと気づく", auto: { result: "NG", reason: "x" } }, manual: null, final: { result: "NG", source: "auto", reason: "x" } });
+    await answers.doc("a2").set({ raw: { qid: "1-1", answerRaw: "気づく", auto: { result: "NG", reason: "x" } }, manual: { result: "NG" }, final: { result: "NG", source: "manual" } });
+    await answers.doc("a3").set({ raw: { qid: "1-1", answerRaw: "はっと気づく", auto: { result: "NG", reason: "x" } }, manual: null, final: { result: "NG", source: "override", reason: "override:1-1::はっと気づく" } });
+    await answers.doc("a4").set({ raw: { qid: "1-1", answerRaw: "驚く", auto: { result: "NG", reason: "x" } }, manual: null, final: { result: "NG", source: "auto", reason: "x" } });
+  };
+  const final = async (id: string) => (await db.collection("answers").doc(id).get()).data().final;
+
+  it("previews without writing, then applies skipping manual and exact overrides", async () => {
+    await seed();
+    const body = { qid: "1-1", kind: "contains", pattern: "気づ", label: "OK", reason: "表記ゆれ" };
+
+    const preview: any = res();
+    await handler(post({ ...body, dryRun: true }), preview);
+    expect(preview.jsonBody).toMatchObject({ dryRun: true, matched: 2, changed: 1, shadowed: 1 });
+    expect(preview.jsonBody.preview[0]).toMatchObject({ answerId: "a1", before: "NG", after: "OK" });
+    expect((await final("a1")).result).toBe("NG");
+    expect((await db.collection("overrideRules").get()).size).toBe(0);
+
+    const applied: any = res();
+    await handler(post(body), applied);
+    expect(applied.jsonBody.changed).toBe(1);
+    expect(await final("a1")).toMatchObject({ result: "OK", source: "override" });
+    expect((await final("a1")).reason).toMatch(/^rule:/);
+    expect((await final("a2")).source).toBe("manual");
+    expect((await final("a3")).reason).toMatch(/^override:/);
+    expect((await final("a4")).result).toBe("NG");
+
+    // 無効化すると自動採点に戻る
+    const cancel: any = res();
+    await handler(post({ ...body, id: applied.jsonBody.rule.id, active: false }), cancel);
+    expect(await final("a1")).toMatchObject({ result: "NG", source: "auto" });
+    const audit = await db.collection("overrides").where("action", "==", "rule_cancel").get();
+    expect(audit.size).toBe(1);
+  });
+
+  it("submitAnswer applies rules after exact overrides", async () => {
+    await handler(post({ qid: "1-1", kind: "suffix", pattern: "ない", label: "NG" }), res());
+    await db.collection("overrides").doc("1-1::気づかない").set({ key: "1-1::気づかない", label: "OK", active: true, reason: "" });
+
+    const submit = async (answerRaw: string) => {
+      const r: any = res();
+      await submitAnswer(post({ qid: "1-1", answerRaw, autoScore: 100, autoResult: "OK", autoReason: "test" }, {}), r);
+      return r.jsonBody.final;
+    };
+    expect(await submit("驚かない")).toMatchObject({ result: "NG", source: "override" });
+    expect(await submit("気づかない")).toMatchObject({ result: "OK", source: "override" });
+    expect((await submit("気づかない")).reason).toMatch(/^override:/);
+    expect(await submit("驚く")).toMatchObject({ result: "OK", source: "auto" });
+  });
+});
@@ -0,0 +1,177 @@
+// api/overrideRules.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getStore } from "./_store.js";
+import { requireStaff } from "./_requireStaff.js";
+import { classScope, inClassScope } from "./_classes.js";
+import { whereClassScope } from "./_answerFilters.js";
+import {
+  validateRule, findMatchingRule, ruleMatches, ruleReason,
+  type OverrideRule, type RuleInput,
+} from "./_overrideRules.js";
+import { newOpId, recordOp, MAX_OP_ANSWERS, type AnswerChange } from "./_overrideOps.js";
+
+type Body = Partial<RuleInput> & {
+  id?: string;
+  dryRun?: boolean;
+  limit?: number;
+};
+
+/**
+ * パターンによる一括訂正ルール（教師のみ）
+ * GET  ?qid=1-1 : ルール一覧（無効化したものも含む）
+ * POST { qid, kind, pattern | lemma+auxTags, label, priority?, reason?, active?, id? } : 作成・更新して既存回答に適用
+ * POST { ..., dryRun: true } : 保存せず、既存回答のうちどれに当たり判定がどう変わるかを返す
+ *
+ * 適用時は qid の全ルールで優先順位を解決し直す（完全一致の override と manual は書き換えない）
+ * ルールは学校全体で共有するが、既存回答を書き換えるのは担当クラスの分だけ（admin は全クラス）
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const db = await getStore();
+    const staff = await requireStaff(req, req.method === "GET" ? "answers:read" : "curation:write");
+    const { actor } = staff;
+
+    if (req.method === "GET") {
+      let query: any = db.collection("overrideRules");
+      if (req.query.qid) query = query.where("qid", "==", String(req.query.qid));
+      const snap = await query.get();
+      const rules = snap.docs.map((d: any) => ({ ...d.data(), id: d.id }));
+      return res.json({ ok: true, rules });
+    }
+
+    if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
+
+    const body = (req.body ?? {}) as Body;
+    const invalid = validateRule(body);
+    if (invalid) return res.status(400).json({ error: invalid });
+
+    const qid = String(body.qid);
+    const dryRun = body.dryRun === true;
+    const limit = Math.min(Number(body.limit ?? MAX_OP_ANSWERS), MAX_OP_ANSWERS);
+    const now = new Date();
+
+    const rulesCol = db.collection("overrideRules");
+    const ref = body.id ? rulesCol.doc(String(body.id)) : rulesCol.doc();
+    const cur = body.id ? await ref.get() : null;
+    if (cur && !cur.exists) return res.status(404).json({ error: "rule not found" });
+    if (cur && cur.data().qid !== qid) return res.status(400).json({ error: "qid cannot be changed" });
+
+    const prev = cur?.data();
+    const rule: OverrideRule = {
+      id: ref.id,
+      qid,
+      kind: body.kind!,
+      ...(body.kind === "morph"
+        ? { lemma: String(body.lemma), auxTags: (body.auxTags ?? []).map(String) }
+        : { pattern: String(body.pattern) }),
+      label: body.label!,
+      priority: body.priority ?? 0,
+      active: body.active ?? true,
+      reason: String(body.reason ?? ""),
+      by: actor,
+      createdAt: prev?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    // このルールを差し替えた後の qid の active ルール
+    const snap = await rulesCol.where("qid", "==", qid).get();
+    const rules = snap.docs
+      .map(d => ({ ...d.data(), id: d.id }) as OverrideRule)
+      .filter(r => r.id !== rule.id && r.active)
+      .concat(rule.active ? [rule] : []);
+
+    // 書き換えるのは担当クラスの回答だけ（担当が無ければルールの保存だけ）
+    // Require index: ["raw.qid" ASC, "raw.classId" ASC]
+    const scope = await classScope(db, staff);
+    const answers = scope?.length === 0
+      ? { docs: [] as any[] }
+      : await whereClassScope(db.collection("answers").where("raw.qid", "==", qid), scope).limit(limit).get();
+    const batch = db.batch();
+    const opId = dryRun ? null : newOpId(db);
+    const changes: AnswerChange[] = [];
+    let matched = 0;
+    let changed = 0;
+    let shadowed = 0;
+    const preview: Array<{ answerId: string; answerRaw: string; before: string; after: string; rule: string | null }> = [];
+
+    for (const doc of answers.docs) {
+      const a: any = doc.data();
+      if ((a.raw?.questionType ?? "writing") !== "writing" || a.manual) continue;
+      if (!inClassScope(scope, a.raw?.classId)) continue;
+      const answerRaw = String(a.raw?.answerRaw ?? "");
+      const hit = ruleMatches(rule, answerRaw);
+      if (hit) matched++;
+
+      const finalReason = String(a.final?.reason ?? "");
+      // 完全一致の override が優先
+      if (a.final?.source === "override" && finalReason.startsWith("override:")) {
+        if (hit) shadowed++;
+        continue;
+      }
+
+      const winner = findMatchingRule(rules, answerRaw);
+      let next: any = null;
+      if (winner) {
+        const reason = ruleReason(winner);
+        if (a.final?.result !== winner.label || finalReason !== reason) {
+          next = { result: winner.label, source: "override", reason, by: actor, at: now };
+        }
+      } else if (finalReason.startsWith("rule:")) {
+        // どのルールにも当たらなくなった回答は自動採点に戻す
+        const auto = a.raw?.auto ?? { result: "ABSTAIN", reason: "auto_missing" };
+        next = { result: auto.result, source: "auto", reason: auto.reason };
+      }
+      if (!next) continue;
+
+      changed++;
+      if (preview.length < 100) {
+        preview.push({ answerId: doc.id, answerRaw, before: a.final?.result ?? "ABSTAIN", after: next.result, rule: winner?.id ?? null });
+      }
+      if (!dryRun) {
+        batch.update(doc.ref, { final: next });
+        changes.push({ answerId: doc.id, before: a.final ?? null, after: next });
+      }
+    }
+
+    if (!dryRun) {
+      const saved = {
+        ...rule,
+        history: [
+          ...(Array.isArray(prev?.history) ? prev!.history : []),
+          { label: rule.label, at: now, by: actor, note: rule.reason, active: rule.active },
+        ],
+      };
+      batch.set(ref, saved);
+      // 取り消し用に回答ごとの before/after を操作単位で記録
+      recordOp(db, batch, {
+        opId: opId!,
+        ts: now,
+        action: rule.active ? "rule_apply" : "rule_cancel",
+        actor,
+        qid,
+        target: { collection: "overrideRules", id: rule.id, before: prev ?? null, after: saved },
+        changes,
+      });
+      await batch.commit();
+
+      // audit event
+      await db.collection("overrides").add({
+        ts: now,
+        action: rule.active ? "rule_apply" : "rule_cancel",
+        actor,
+        ruleId: rule.id,
+        qid,
+        kind: rule.kind,
+        label: rule.label,
+        reason: rule.reason,
+        affected: changed,
+        opId,
+      });
+    }
+
+    return res.json({ ok: true, dryRun, rule, matched, changed, shadowed, preview, ...(opId ? { opId } : {}) });
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    res.status(msg.includes("PERMISSION_DENIED") ? 403 : 500).json({ error: msg });
+  }
+}
@@ -0,0 +1,36 @@
+// api/promoteCandidate.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getStore } from "./_store.js";
+import { requireStaff } from "./_requireStaff.js";
+import { isCuratedCollection, putCuratedEntry } from "./_curated.js";
+
+/**
+ * candidates/{key} を正解辞書 accepted / 不正解辞書 negatives に昇格（教師のみ）
+ * body: { key, to: "accepted" | "negatives", note? }
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
+
+    const db = await getStore();
+    const { actor } = await requireStaff(req, "curation:write");
+
+    const { key, to, note } = (req.body ?? {}) as { key?: string; to?: string; note?: string };
+    if (!key) return res.status(400).json({ error: "key required" });
+    if (!isCuratedCollection(to)) return res.status(400).json({ error: "to must be accepted or negatives" });
+
+    const candRef = db.collection("candidates").doc(String(key));
+    const cand = await candRef.get();
+    if (!cand.exists) return res.status(404).json({ error: "candidate not found" });
+    const c = cand.data();
+    if (!c.qid || !c.sampleAny) return res.status(400).json({ error: "candidate has no qid or sample answer" });
+
+    const result = await putCuratedEntry(db, to, { qid: c.qid, phrase: c.sampleAny, note: note ? String(note) : undefined, source: String(key) }, actor);
+    await candRef.set({ promotedTo: to, promotedAt: new Date(), promotedBy: actor }, { merge: true });
+
+    return res.json({ ok: true, collection: to, ...result });
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    res.status(msg.includes("PERMISSION_DENIED") ? 403 : 500).json({ error: msg });
+  }
+}
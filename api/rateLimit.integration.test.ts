@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { Store } from "./_store";
+import { post, call, freshLocalStore } from "./_testHelpers";
+import { createMemoryRateLimitStore, setRateLimitStore, RATE_LIMITS } from "./_rateLimit";
+import submitAnswer from "./submitAnswer";
+import userCorrectAnswer from "./userCorrectAnswer";
+
+const IP = "203.0.113.1";
+const fromIp = (ip: string, headers: any = {}) => ({ "x-forwarded-for": `${ip}, 10.0.0.1`, ...headers });
+const KEY_1 = "k1-0123456789abcdefghijk";
+const KEY_2 = "k2-0123456789abcdefghijk";
+
+let db: Store;
+
+const answer = (anonId: string, ip = IP) =>
+  call(submitAnswer, post({ qid: "1-1", answerRaw: "驚く", anonId, autoScore: 100, autoResult: "OK", autoReason: "t", questionType: "writing" }, fromIp(ip)));
+
+describe("rate limiting and answer ownership (local store)", () => {
+  beforeEach(async () => {
+    db = await freshLocalStore("ratelimit");
+    setRateLimitStore(createMemoryRateLimitStore());
+  });
+
+  afterEach(() => setRateLimitStore(null));
+
+  it("limits each anonId and each IP with token buckets", async () => {
+    const { anonId: perAnon, ip: perIp } = RATE_LIMITS.submitAnswer;
+    for (let i = 0; i < perAnon.capacity; i++) expect((await answer("anon_flood")).code).toBe(200);
+    const limited = await answer("anon_flood");
+    expect(limited.code).toBe(429);
+    expect(Number(limited.headers["retry-after"])).toBeGreaterThanOrEqual(1);
+
+    // 同じ IP の別の生徒は通る（IP のバケットはまだ残っている）
+    expect((await answer("anon_other")).code).toBe(200);
+
+    // anonId を毎回変えても IP のバケットで止まる（制限は入力チェックより先なので、空の回答でもトークンを使う）
+    for (let i = 0; i < perIp.capacity; i++) await call(submitAnswer, post({ anonId: `anon_${i}` }, fromIp("198.51.100.7")));
+    expect((await answer("anon_new", "198.51.100.7")).code).toBe(429);
+
+    const stored = (await db.collection("answers").get()).docs.filter(d => d.data().raw.anonId === "anon_flood");
+    expect(stored).toHaveLength(perAnon.capacity);
+  });
+
+  it("lets only the student who answered correct the answer", async () => {
+    const { answerId } = (await call(submitAnswer, post({ qid: "1-1", answerRaw: "驚く", anonId: "anon_1", autoScore: 100, autoResult: "OK", autoReason: "t", questionType: "writing" }, fromIp(IP, { "x-anon-key": KEY_1 })))).jsonBody;
+    const correct = (body: any, key?: string) => call(userCorrectAnswer, post(body, fromIp(IP, key ? { "x-anon-key": key } : {})));
+
+    expect((await correct({ answerId, userCorrection: "NG", userId: "anon_2", anonId: "anon_2" }, KEY_2)).code).toBe(403);
+    expect((await correct({ answerId, userCorrection: "NG" })).code).toBe(403);
+    // anonId を知っていても端末の鍵が無い・違うなら本人とみなさない
+    expect((await correct({ answerId, userCorrection: "NG", anonId: "anon_1" })).code).toBe(403);
+    expect((await correct({ answerId, userCorrection: "NG", anonId: "anon_1" }, KEY_2)).code).toBe(403);
+    // uid は ID token が無ければ本人とみなさない
+    await db.collection("answers").doc(answerId).update({ "raw.uid": "u1" });
+    expect((await correct({ answerId, userCorrection: "NG", uid: "u1" })).code).toBe(403);
+    expect((await db.collection("answers").doc(answerId).get()).data()?.final.result).toBe("OK");
+
+    // 送信待ちキューに残っていた旧形式（userId に anonId）も本人なら通る
+    const byOwner = await correct({ answerId, userCorrection: "NG", userId: "anon_1" }, KEY_1);
+    expect(byOwner.code).toBe(200);
+    const saved = (await db.collection("answers").doc(answerId).get()).data();
+    expect(saved?.final).toMatchObject({ result: "NG", source: "manual" });
+    expect(saved?.manual.by.userId).toBe("anon_1");
+  });
+});
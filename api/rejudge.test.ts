@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Store } from "./_store";
+import { post, res, freshLocalStore } from "./_testHelpers";
+
+vi.mock("./_questions", () => ({
+  getSenseCandidates: () => [{ surface: "〔 気づい 〕", norm: "気づい" }],
+  getAllLearnedCandidates: () => ({}),
+}));
+
+import handler from "./rejudge";
+
+let db: Store;
+const answer = async (id: string) => (await db.collection("answers").doc(id).get()).data();
+
+describe("rejudge", () => {
+  beforeEach(async () => {
+    db = await freshLocalStore("rejudge");
+  });
+
+  it("dryRun returns OK/NG flips without writing", async () => {
+    await db.collection("answers").doc("r1").set({ raw: { qid: "1-1", answerRaw: "気づい", questionType: "writing", ts: new Date(1000), auto: { result: "NG", score: 0 } }, manual: null, final: { result: "NG", source: "auto" } });
+
+    const response: any = res();
+    await handler(post({ qid: "1-1", dryRun: true }), response);
+
+    expect(response.code).toBe(200);
+    expect(response.jsonBody.changed).toBe(1);
+    expect(response.jsonBody.preview[0]).toMatchObject({ answerId: "r1", before: "NG", after: "OK" });
+    expect((await answer("r1")).final.result).toBe("NG");
+  });
+
+  it("rewrites auto finals, keeps overrides and skips manual", async () => {
+    const answers = db.collection("answers");
+    await answers.doc("r1").set({ raw: { qid: "1-1", answerRaw: "気づい", ts: new Date(1000), auto: { result: "NG", score: 0 } }, final: { result: "NG", source: "auto" } });
+    await answers.doc("r2").set({ raw: { qid: "1-1", answerRaw: "驚く", ts: new Date(2000), auto: { result: "OK", score: 60 } }, final: { result: "OK", source: "override" } });
+    await answers.doc("r3").set({ raw: { qid: "1-1", answerRaw: "驚く", ts: new Date(3000), auto: { result: "NG", score: 0 } }, manual: { result: "OK" }, final: { result: "OK", source: "manual" } });
+
+    const response: any = res();
+    await handler(post({ qid: "1-1" }), response);
+
+    expect(response.jsonBody).toMatchObject({ rejudged: 2, changed: 1, skippedManual: 1 });
+    expect((await answer("r1")).final).toMatchObject({ result: "OK", source: "auto" });
+    expect((await answer("r1")).raw.auto.version).toBeTruthy();
+    expect((await answer("r2")).final.source).toBe("override");
+    expect((await answer("r3")).final.source).toBe("manual");
+
+    const audit = await db.collection("overrides").where("action", "==", "rejudge").get();
+    expect(audit.size).toBe(1);
+  });
+
+  it("pages through answers with nextCursor", async () => {
+    for (let i = 1; i <= 3; i++) {
+      await db.collection("answers").doc(`p${i}`).set({ raw: { qid: "1-1", answerRaw: "気づい", ts: new Date(i * 1000), auto: { result: "NG", score: 0 } }, final: { result: "NG", source: "auto" } });
+    }
+
+    const first: any = res();
+    await handler(post({ qid: "1-1", limit: 2 }), first);
+    expect(first.jsonBody).toMatchObject({ rejudged: 2, nextCursor: "p2" });
+
+    const second: any = res();
+    await handler(post({ qid: "1-1", limit: 2, cursor: first.jsonBody.nextCursor }), second);
+    expect(second.jsonBody).toMatchObject({ rejudged: 1, nextCursor: null });
+    expect((await answer("p1")).final.result).toBe("OK");
+  });
+});
@@ -0,0 +1,164 @@
+// api/rejudge.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getStore } from "./_store.js";
+import { requireStaff } from "./_requireStaff.js";
+import { classScope, inClassScope } from "./_classes.js";
+import { buildAnswerQuery } from "./_answerFilters.js";
+import { getSenseCandidates } from "./_questions.js";
+import { getLearnedFor } from "./_learnedBundle.js";
+import { getThresholds } from "./_thresholds.js";
+import { lookupCurated } from "./_curated.js";
+import { judgeWriting, JUDGE_VERSION } from "../src/lib/judgeWriting.js";
+import { resolveLabel, type Thresholds } from "../src/scoring/thresholds.js";
+
+type Body = {
+  qid?: string;
+  from?: string;  // ISO日時（raw.ts >= from）
+  to?: string;    // ISO日時（raw.ts <= to）
+  dryRun?: boolean;
+  limit?: number;
+  cursor?: string; // 前回の nextCursor（続きから再採点）
+};
+
+/**
+ * ルール・辞書の更新後に、manual のない記述式回答を再採点する。
+ * final.source が auto のものだけ final を書き換え、override 済みは raw.auto のみ更新。
+ * 1回で読むのは limit 件（新しい順）。nextCursor が null でなければ cursor に渡して続きを呼ぶ
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
+
+    const db = await getStore();
+    const staff = await requireStaff(req, "answers:grade");  // 権限チェック＆actor取得
+    const { actor } = staff;
+    const scope = await classScope(db, staff);
+
+    const body = (req.body ?? {}) as Body;
+    const qid = body.qid ? String(body.qid) : null;
+    const from = body.from ? new Date(body.from) : null;
+    const to = body.to ? new Date(body.to) : null;
+    const dryRun = body.dryRun === true;
+    const limit = Math.min(Math.max(Math.floor(Number(body.limit ?? 500)) || 500, 1), 500);
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({ error: "invalid from/to" });
+    }
+
+    // 担当クラス・qid・期間はクエリで絞る（読み取り件数を対象外の回答に使わない）
+    // Require composite index: [条件のフィールド ASC, "raw.ts" DESC]（specs/INDEXES.md）
+    let query = buildAnswerQuery(db, { qids: qid ? [qid] : null, classIds: scope, from: from ?? undefined, to: to ?? undefined });
+    if (body.cursor) {
+      const last = await db.collection("answers").doc(String(body.cursor)).get();
+      if (!last.exists) return res.status(400).json({ error: "invalid cursor" });
+      query = query.startAfter(last);
+    }
+
+    const snap = await query.limit(limit).get();
+    const nextCursor = snap.size === limit ? snap.docs[snap.docs.length - 1].id : null;
+    const now = new Date();
+    const batch = db.batch();
+    const thresholdsByQid = new Map<string, Thresholds>();
+
+    let rejudged = 0;
+    let changed = 0;
+    let skippedManual = 0;
+    const preview: Array<{
+      answerId: string;
+      qid: string;
+      answerRaw: string;
+      before: string;
+      after: string;
+      scoreBefore: number | null;
+      scoreAfter: number;
+    }> = [];
+
+    for (const doc of snap.docs) {
+      const a: any = doc.data();
+      // 選択式は再採点対象外
+      if ((a.raw?.questionType ?? "writing") !== "writing") continue;
+      // 教師ログインは担当クラスの回答だけ（31クラス以上はクエリで絞れない）
+      if (!inClassScope(scope, a.raw?.classId)) continue;
+      // manual があるものは尊重して除外
+      if (a.manual) { skippedManual++; continue; }
+
+      const aQid = String(a.raw?.qid ?? "");
+      const answerRaw = String(a.raw?.answerRaw ?? "");
+      if (!aQid || !answerRaw) continue;
+
+      const judgment = judgeWriting(answerRaw, getSenseCandidates(aQid), await getLearnedFor(db, aQid));
+      if (!thresholdsByQid.has(aQid)) thresholdsByQid.set(aQid, await getThresholds(db, aQid));
+      // 辞書登録済みの回答は提出時と同じく辞書の判定を優先
+      const dictionaryHit = await lookupCurated(db, aQid, answerRaw);
+      const result = dictionaryHit?.result ?? resolveLabel(judgment.score, judgment.result, thresholdsByQid.get(aQid));
+      const score = dictionaryHit ? (dictionaryHit.result === "OK" ? 100 : 0) : judgment.score;
+      const reason = dictionaryHit ? `${dictionaryHit.collection}:${dictionaryHit.key}` : judgment.feedback;
+      const nextAuto = {
+        result,
+        score,
+        reason,
+        version: JUDGE_VERSION,
+        ...(dictionaryHit ? { dictionary: dictionaryHit.collection } : {}),
+      };
+
+      // override 済みの final はそのまま（auto のみ差し替え）
+      const finalIsAuto = (a.final?.source ?? "auto") === "auto";
+      const before = a.final?.result ?? "ABSTAIN";
+      const after = finalIsAuto ? result : before;
+
+      rejudged++;
+      if (before !== after) {
+        changed++;
+        preview.push({
+          answerId: doc.id,
+          qid: aQid,
+          answerRaw,
+          before,
+          after,
+          scoreBefore: a.raw?.auto?.score ?? null,
+          scoreAfter: score,
+        });
+      }
+
+      if (!dryRun) {
+        const payload: any = { "raw.auto": nextAuto, "raw.autoAt": now };
+        if (finalIsAuto) {
+          payload.final = { result, source: "auto", reason, at: now };
+        }
+        batch.update(doc.ref, payload);
+      }
+    }
+
+    if (!dryRun) {
+      if (rejudged) await batch.commit();
+
+      // audit event
+      await db.collection("overrides").add({
+        ts: now,
+        action: "rejudge",
+        actor,
+        qid,
+        from,
+        to,
+        cursor: body.cursor ?? null,
+        version: JUDGE_VERSION,
+        rejudged,
+        changed,
+      });
+    }
+
+    return res.json({
+      ok: true,
+      dryRun,
+      version: JUDGE_VERSION,
+      rejudged,
+      changed,
+      skippedManual,
+      nextCursor,
+      ...(dryRun ? { preview } : {}),
+    });
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    res.status(msg.includes("PERMISSION_DENIED") ? 403 : 500).json({ error: msg });
+  }
+}
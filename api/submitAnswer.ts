@@ -1,6 +1,18 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { db } from "./_firebaseAdmin.js";
+import { getStore } from "./_store.js";
 import { normalize } from "./_normalize.js";
+import { getSenseCandidates } from "./_questions.js";
+import { getLearnedFor } from "./_learnedBundle.js";
+import { getThresholds } from "./_thresholds.js";
+import { getEnsembleConfig } from "./_ensemble.js";
+import { lookupCurated } from "./_curated.js";
+import { loadActiveRules, findMatchingRule, ruleReason } from "./_overrideRules.js";
+import { isMember } from "./_classes.js";
+import { resolveAssignmentTag } from "./_assignments.js";
+import { checkRateLimit, sendRateLimited } from "./_rateLimit.js";
+import { anonKeyFrom, claimAnonKey } from "./_anonKeys.js";
+import { gradeWith, getGrader, isGraderName, DEFAULT_GRADER } from "../src/scoring/graders.js";
+import { applyThresholds, resolveLabel } from "../src/scoring/thresholds.js";
 import crypto from "crypto";
 
 type ResultLabel = "OK" | "NG" | "ABSTAIN";
@@ -9,39 +21,120 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
 
-    const { qid, answerRaw, uid, anonId, autoScore, autoResult, autoReason, questionType } = req.body as {
+    const db = await getStore();
+    const { qid, answerRaw, uid, anonId, classId, assignmentId, autoVersion, questionType, quizType, clientTs, engine, autoBreakdown } = req.body as {
       qid: string;
       answerRaw: string;
       uid?: string | null;
       anonId?: string;
-      autoScore: number;
-      autoResult: ResultLabel;
-      autoReason: string;
+      classId?: string;   // 参加中のクラス（名簿に anonId があるときだけ記録）
+      assignmentId?: string;  // 解いている課題（受付期間内・出題範囲内のときだけ記録）
+      autoScore?: number;
+      autoResult?: ResultLabel;
+      autoReason?: string;
+      autoVersion?: string;
       questionType?: 'writing' | 'selection';
+      quizType?: string;
+      clientTs?: number;  // オフライン再送時の解答日時（epoch ms）
+      engine?: string;    // auto を出した採点エンジン名
+      autoBreakdown?: Array<{ engine: string; score: number; label: ResultLabel }>;  // ensemble の各エンジン結果
     };
+    let { autoScore, autoResult, autoReason } = req.body as { autoScore?: number; autoResult?: ResultLabel; autoReason?: string };
+
+    const limit = await checkRateLimit(req, "submitAnswer", { anonId });
+    if (!limit.ok) return sendRateLimited(res, limit);
 
     if (!qid || !answerRaw) {
       return res.status(400).json({ error: "qid and answerRaw required" });
     }
+    if (engine !== undefined && !isGraderName(engine)) {
+      return res.status(400).json({ error: `unknown engine: ${engine}` });
+    }
+
+    // 端末の鍵を anonId に結び付ける（/api/myAnswers の本人確認に使う。登録済みなら何もしない）
+    const anonKey = anonKeyFrom(req);
+    if (anonId && anonKey) await claimAnonKey(db, String(anonId), anonKey);
+
+    // 名簿に無い anonId からの classId は記録しない（他クラスへの紛れ込み防止）
+    const memberClassId = classId && anonId && await isMember(db, String(classId), anonId) ? String(classId) : null;
+
+    const isWriting = (questionType || "writing") === "writing";
+    const thresholds = isWriting ? await getThresholds(db, qid) : null;
+
+    // auto が送られてこなければサーバーで採点（engine 省略時は既定エンジン）
+    let engineName = isGraderName(engine) ? engine : null;
+    let version = autoVersion || null;
+    let breakdown = Array.isArray(autoBreakdown)
+      ? autoBreakdown.slice(0, 10).map((m: any) => ({
+          engine: String(m?.engine ?? ""),
+          score: Number(m?.score) || 0,
+          label: m?.label === "OK" || m?.label === "NG" ? m.label : "ABSTAIN",
+        }))
+      : null;
+    if (!autoResult) {
+      const name = engineName ?? DEFAULT_GRADER;
+      if (!getGrader(name).serverSafe) {
+        return res.status(400).json({ error: `engine ${name} cannot grade on server` });
+      }
+      const candidates = getSenseCandidates(qid);
+      const outcome = applyThresholds(await gradeWith(name, {
+        answer: answerRaw,
+        gold: candidates[0]?.surface ?? "",
+        candidates,
+        learned: await getLearnedFor(db, qid),
+        ensemble: name === "ensemble" ? await getEnsembleConfig(db) : undefined,
+      }), thresholds ?? undefined);
+      autoScore = outcome.score;
+      autoResult = outcome.label;
+      autoReason = outcome.reasons[0] ?? outcome.code;
+      version = outcome.version;
+      engineName = name;
+      breakdown = outcome.members?.map(m => ({ engine: m.engine, score: m.score, label: m.label })) ?? null;
+    } else if (thresholds && typeof autoScore === "number") {
+      // クライアントの閾値キャッシュが古くても、記録する判定はサーバーの thresholds/{qid} に揃える
+      autoResult = resolveLabel(autoScore, autoResult, thresholds);
+    }
+
+    // 正解辞書 / 不正解辞書に登録済みの回答はエンジンの判定より優先（教師の承認を即反映）
+    const dictionaryHit = isWriting ? await lookupCurated(db, qid, answerRaw) : null;
+    if (dictionaryHit) {
+      autoResult = dictionaryHit.result;
+      autoScore = dictionaryHit.result === "OK" ? 100 : 0;
+      autoReason = `${dictionaryHit.collection}:${dictionaryHit.key}${dictionaryHit.note ? " - " + dictionaryHit.note : ""}`;
+    }
 
     const now = new Date();
+    // オフラインで溜めた回答は解答時刻で記録（未来・30日より前は無視）
+    const answeredAt =
+      typeof clientTs === "number" && clientTs <= now.getTime() && clientTs >= now.getTime() - 30 * 24 * 60 * 60 * 1000
+        ? new Date(clientTs)
+        : now;
     const answerNorm = normalize(answerRaw);
+    const assignmentTag = await resolveAssignmentTag(db, assignmentId, { qid, anonId, answeredAt });
     const dedupeKey = crypto.createHash("sha1").update(`${qid}::${answerNorm}`).digest("hex");
 
     // Build answer document
     const answerDoc = {
       raw: {
-        ts: now,
+        ts: answeredAt,
+        clientTs: typeof clientTs === "number" ? clientTs : null,  // 端末内履歴との照合用
         qid,
         uid: uid || null,
         anonId: anonId || null,
+        classId: memberClassId,
+        assignmentId: assignmentTag,
         answerRaw,
         autoAt: now,
         questionType: questionType || 'writing', // デフォルトは記述式
+        quizType: quizType || null,               // meaning-writing / context-writing など
         auto: {
           result: autoResult,
-          score: autoScore,
-          reason: autoReason,
+          score: autoScore ?? null,
+          reason: autoReason ?? null,
+          version,
+          engine: engineName,
+          ...(breakdown ? { breakdown } : {}),
+          ...(dictionaryHit ? { dictionary: dictionaryHit.collection } : {}),
         },
       },
       curated: {
@@ -80,6 +173,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
     }
 
+    // 完全一致の override が無ければパターンルール（overrideRules）
+    if (isWriting && answerDoc.final.source !== "override") {
+      const rule = findMatchingRule(await loadActiveRules(db, qid), answerRaw);
+      if (rule) {
+        answerDoc.final = { result: rule.label, source: "override", reason: ruleReason(rule), by: rule.by || "system", at: now };
+      }
+    }
+
     // Save to answers collection
     const docRef = await db.collection("answers").add(answerDoc);
 
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Store } from "./_store";
+import { post, get, res, freshLocalStore } from "./_testHelpers";
+import handler from "./thresholds";
+import submitAnswer from "./submitAnswer";
+
+let db: Store;
+
+describe("thresholds (local store)", () => {
+  beforeEach(async () => {
+    db = await freshLocalStore("thresholds");
+  });
+
+  it("returns defaults until set, then the stored document", async () => {
+    const before: any = res();
+    await handler(get({ qid: "1-1" }, {}), before);
+    expect(before.jsonBody).toMatchObject({ isDefault: true, thresholds: { hi: 60, lo: 60 } });
+
+    const set: any = res();
+    await handler(post({ qid: "1-1", hi: 90, lo: 70 }), set);
+    expect(set.code).toBe(200);
+
+    const after: any = res();
+    await handler(get({}, {}), after);
+    expect(after.jsonBody.thresholds["1-1"]).toMatchObject({ hi: 90, lo: 70, updatedBy: "admin-token" });
+
+    const audit = await db.collection("overrides").where("action", "==", "threshold_set").get();
+    expect(audit.size).toBe(1);
+  });
+
+  it("rejects invalid ranges and non-staff writes", async () => {
+    const bad: any = res();
+    await handler(post({ qid: "1-1", hi: 50, lo: 70 }), bad);
+    expect(bad.code).toBe(400);
+
+    const anon: any = res();
+    await handler(post({ qid: "1-1", hi: 90, lo: 70 }, {}), anon);
+    expect(anon.code).toBe(403);
+  });
+
+  it("submitAnswer applies per-question cutoffs and reset restores defaults", async () => {
+    await handler(post({ qid: "1-1", hi: 90, lo: 70 }), res());
+
+    const submit = async (autoScore: number) => {
+      const r: any = res();
+      await submitAnswer(post({ qid: "1-1", answerRaw: `回答${autoScore}`, autoScore, autoResult: "OK", autoReason: "test" }, {}), r);
+      return r.jsonBody.final.result;
+    };
+    expect(await submit(95)).toBe("OK");
+    expect(await submit(75)).toBe("ABSTAIN");
+    expect(await submit(65)).toBe("NG");
+
+    await handler(post({ qid: "1-1", reset: true }), res());
+    expect(await submit(65)).toBe("OK");
+  });
+});
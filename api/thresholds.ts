@@ -0,0 +1,73 @@
+// api/thresholds.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getStore } from "./_store.js";
+import { requireStaff } from "./_requireStaff.js";
+import { findThresholds, listThresholds } from "./_thresholds.js";
+import { DEFAULT_THRESHOLDS, validateThresholds } from "../src/scoring/thresholds.js";
+
+/**
+ * 問題ごとの採点閾値
+ * GET: 誰でも参照可（クライアント採点で使う）
+ * POST: 教師のみ。{ qid, hi, lo, autoResolve? } で設定、{ qid, reset: true } で既定値に戻す
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const db = await getStore();
+
+    if (req.method === "GET") {
+      const qid = req.query.qid ? String(req.query.qid) : null;
+      if (qid) {
+        const found = await findThresholds(db, qid);
+        return res.json({ ok: true, qid, thresholds: found ?? DEFAULT_THRESHOLDS, isDefault: !found });
+      }
+      return res.json({ ok: true, defaults: DEFAULT_THRESHOLDS, thresholds: await listThresholds(db) });
+    }
+
+    if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
+
+    const { actor } = await requireStaff(req, "curation:write");
+    const { qid, hi, lo, autoResolve, reset } = (req.body ?? {}) as {
+      qid?: string;
+      hi?: number;
+      lo?: number;
+      autoResolve?: boolean;
+      reset?: boolean;
+    };
+    if (!qid) return res.status(400).json({ error: "qid required" });
+
+    const ref = db.collection("thresholds").doc(String(qid));
+    const before = await findThresholds(db, String(qid));
+    const now = new Date();
+
+    if (reset) {
+      if (before) await ref.delete();
+    } else {
+      const error = validateThresholds({ hi, lo, autoResolve });
+      if (error) return res.status(400).json({ error });
+      await ref.set({
+        hi,
+        lo,
+        ...(autoResolve !== undefined ? { autoResolve } : {}),
+        updatedBy: actor,
+        updatedAt: now,
+      });
+    }
+
+    const after = reset ? null : await findThresholds(db, String(qid));
+
+    // audit event
+    await db.collection("overrides").add({
+      ts: now,
+      action: reset ? "threshold_reset" : "threshold_set",
+      actor,
+      qid: String(qid),
+      before,
+      after,
+    });
+
+    return res.json({ ok: true, qid, thresholds: after ?? DEFAULT_THRESHOLDS, isDefault: !after });
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    res.status(msg.includes("PERMISSION_DENIED") ? 403 : 500).json({ error: msg });
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Store } from "./_store";
+import { get, post, res, call, freshLocalStore } from "./_testHelpers";
+import handler from "./top-abstain";
+import apiKeys from "./apiKeys";
+
+let db: Store;
+const daysAgo = (d: number) => new Date(Date.now() - d * 86400000);
+const answer = (id: string, qid: string, answerNorm: string, ts: Date, extra: any = {}) =>
+  db.collection("answers").doc(id).set({
+    raw: { qid, answerRaw: answerNorm, questionType: "writing", ts, auto: { result: "ABSTAIN", score: 40 } },
+    curated: { answerNorm },
+    final: { result: "ABSTAIN", source: "auto" },
+    ...extra,
+  });
+
+describe("top-abstain (local store)", () => {
+  beforeEach(async () => {
+    db = await freshLocalStore("top-abstain");
+  });
+
+  it("groups recent abstains by qid::answerNorm and skips handled answers", async () => {
+    await answer("a1", "1-1", "きづく", daysAgo(1));
+    await answer("a2", "1-1", "きづく", daysAgo(2));
+    await answer("a3", "1-1", "おどろく", daysAgo(3));
+    await answer("a4", "1-1", "おどろく", daysAgo(3), { manual: { result: "OK" } });
+    await answer("a5", "1-1", "ふるい", daysAgo(60));
+    await answer("a6", "2-1", "きづく", daysAgo(1));
+
+    const response: any = res();
+    await handler(get({ qid: "1-1" }), response);
+
+    expect(response.code).toBe(200);
+    expect(response.jsonBody.processed).toBe(4);
+    expect(response.jsonBody.truncated).toBe(false);
+    expect(response.jsonBody.candidates.map((c: any) => [c.key, c.count])).toEqual([["1-1::きづく", 2], ["1-1::おどろく", 1]]);
+  });
+
+  it("scans only the grader's classes, so other classes do not use up the scan limit", async () => {
+    const key = (await call(apiKeys, post({ action: "issue", name: "grader-a", role: "grader" }))).jsonBody.key;
+    await db.collection("classes").doc("c1").set({ name: "A組", teachers: ["key:grader-a"] });
+    await answer("a1", "1-1", "きづく", daysAgo(1), { raw: { qid: "1-1", answerRaw: "きづく", questionType: "writing", ts: daysAgo(1), classId: "c1", auto: { result: "ABSTAIN", score: 40 } } });
+    await answer("b1", "1-1", "おどろく", daysAgo(1), { raw: { qid: "1-1", answerRaw: "おどろく", questionType: "writing", ts: daysAgo(1), classId: "c2", auto: { result: "ABSTAIN", score: 40 } } });
+    await answer("n1", "1-1", "おどろく", daysAgo(1));
+
+    const scoped = await call(handler, get({}, { "x-api-key": key }));
+    expect(scoped.jsonBody.processed).toBe(1);
+    expect(scoped.jsonBody.candidates.map((c: any) => c.sampleAnswerIds)).toEqual([["a1"]]);
+
+    // 担当クラスが無ければ何も走査しない
+    await db.collection("classes").doc("c1").delete();
+    expect((await call(handler, get({}, { "x-api-key": key }))).jsonBody).toMatchObject({ processed: 0, candidates: [] });
+  });
+
+  it("clamps lookbackDays and rejects non-numbers", async () => {
+    await answer("a1", "1-1", "きづく", daysAgo(300));
+
+    const wide: any = res();
+    await handler(get({ lookbackDays: "100000" }), wide);
+    expect(wide.jsonBody.processed).toBe(1);
+
+    const bad: any = res();
+    await handler(get({ lookbackDays: "abc" }), bad);
+    expect(bad.code).toBe(400);
+  });
+});
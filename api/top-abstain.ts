@@ -0,0 +1,113 @@
+// api/top-abstain.ts
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getStore } from "./_store.js";
+import { requireStaff } from "./_requireStaff.js";
+import { classScope, inClassScope } from "./_classes.js";
+import { whereClassScope } from "./_answerFilters.js";
+
+/** 低確信とみなす自動採点スコア帯（両端含む） */
+const LOW_CONFIDENCE_MIN = 60;
+const LOW_CONFIDENCE_MAX = 75;
+/** 対象期間の上限（日） */
+const MAX_LOOKBACK_DAYS = 365;
+/** 1回に走査する回答の上限（新しい順） */
+const MAX_SCAN = 5000;
+
+/**
+ * ABSTAIN・低確信の記述式回答を qid::answerNorm で束ね、頻度順に返す。
+ * manual / override 済みの回答は処理済みとして除外。
+ * 走査は新しい順に MAX_SCAN 件まで（超えたら truncated: true）。
+ * admin 以外は担当クラスをクエリで絞ってから走査する（31クラス以上は取得後に絞る）。
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const db = await getStore();
+    const staff = await requireStaff(req, "answers:read");  // 教師のみ実行可能
+    const scope = await classScope(db, staff);
+
+    const qid = req.query.qid ? String(req.query.qid) : null;
+    const limit = Math.min(Math.max(Number(req.query.limit || 20) || 20, 1), 100);
+    const lookbackDays = Number(req.query.lookbackDays || 30);
+    if (!Number.isFinite(lookbackDays)) throw new Error("BAD_REQUEST: lookbackDays must be a number");
+
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - Math.min(Math.max(lookbackDays, 1), MAX_LOOKBACK_DAYS));
+
+    if (scope && scope.length === 0) {
+      return res.json({ ok: true, processed: 0, truncated: false, candidates: [] });
+    }
+
+    // Require composite index: [("raw.classId" ASC,) ("raw.qid" ASC,) "raw.questionType" ASC, "raw.ts" DESC]
+    let query = db.collection("answers").where("raw.questionType", "==", "writing");
+    if (qid) query = query.where("raw.qid", "==", qid);
+    const snap = await whereClassScope(query, scope)
+      .where("raw.ts", ">=", cutoff)
+      .orderBy("raw.ts", "desc")
+      .limit(MAX_SCAN)
+      .get();
+
+    const groups = new Map<string, {
+      key: string;
+      qid: string;
+      answerNorm: string;
+      answerRaw: string;
+      count: number;
+      abstainCount: number;
+      scores: number[];
+      sampleAnswerIds: string[];
+    }>();
+
+    for (const doc of snap.docs) {
+      const data = doc.data();
+      const aQid = data.raw?.qid;
+      const answerNorm = data.curated?.answerNorm;
+      if (!aQid || !answerNorm) continue;
+      if (!inClassScope(scope, data.raw?.classId)) continue;
+      if (data.manual || data.final?.source === "override") continue;
+
+      const score = Number(data.raw?.auto?.score ?? 0);
+      const isAbstain = data.final?.result === "ABSTAIN" || data.raw?.auto?.result === "ABSTAIN";
+      const isLowConfidence = score >= LOW_CONFIDENCE_MIN && score <= LOW_CONFIDENCE_MAX;
+      if (!isAbstain && !isLowConfidence) continue;
+
+      const key = `${aQid}::${answerNorm}`;
+      const existing = groups.get(key);
+      if (existing) {
+        existing.count++;
+        if (isAbstain) existing.abstainCount++;
+        existing.scores.push(score);
+        if (existing.sampleAnswerIds.length < 5) existing.sampleAnswerIds.push(doc.id);
+      } else {
+        groups.set(key, {
+          key,
+          qid: aQid,
+          answerNorm,
+          answerRaw: data.raw?.answerRaw ?? "",
+          count: 1,
+          abstainCount: isAbstain ? 1 : 0,
+          scores: [score],
+          sampleAnswerIds: [doc.id],
+        });
+      }
+    }
+
+    const candidates = Array.from(groups.values())
+      .sort((a, b) => b.count - a.count || b.abstainCount - a.abstainCount)
+      .slice(0, limit)
+      .map(({ scores, ...g }) => ({
+        ...g,
+        avgScore: Math.round(scores.reduce((a, b) => a + b, 0) / scores.length),
+      }));
+
+    return res.json({
+      ok: true,
+      processed: snap.docs.length,
+      truncated: snap.docs.length === MAX_SCAN,
+      candidates,
+    });
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    const code = msg.includes("PERMISSION_DENIED") ? 403 : msg.startsWith("BAD_REQUEST") ? 400 : 500;
+    res.status(code).json({ error: msg });
+  }
+}
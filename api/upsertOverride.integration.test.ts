@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Store } from "./_store";
+import { post, res, freshLocalStore } from "./_testHelpers";
+import { makeKey } from "./_normalize";
+import handler from "./upsertOverride";
+
+let db: Store;
+const answer = async (id: string) => (await db.collection("answers").doc(id).get()).data();
+
+describe("upsertOverride (local store)", () => {
+  const key = makeKey("4-2", "はっと目が覚めた");
+  const norm = key.split("::")[1];
+
+  beforeEach(async () => {
+    db = await freshLocalStore("upsert");
+
+    const answers = db.collection("answers");
+    await answers.doc("x1").set({ raw: { qid: "4-2", auto: { result: "NG", reason: "auto" } }, curated: { answerNorm: norm }, final: { result: "NG", source: "auto" } });
+    await answers.doc("x2").set({ raw: { qid: "4-2", auto: { result: "NG", reason: "auto" } }, curated: { answerNorm: norm }, manual: { result: "NG" }, final: { result: "NG", source: "manual" } });
+    await answers.doc("x3").set({ raw: { qid: "4-3", auto: { result: "NG", reason: "auto" } }, curated: { answerNorm: norm }, final: { result: "NG", source: "auto" } });
+  });
+
+  it("applies to matching answers only, skipping manual", async () => {
+    const response: any = res();
+    await handler(post({ key, label: "OK", active: true, reason: "同義表現" }), response);
+
+    expect(response.code).toBe(200);
+    expect(response.jsonBody.updated).toBe(1);
+    expect((await answer("x1")).final).toMatchObject({ result: "OK", source: "override", by: "admin-token" });
+    expect((await answer("x2")).final.source).toBe("manual");
+    expect((await answer("x3")).final.source).toBe("auto");
+
+    const ov = (await db.collection("overrides").doc(key).get()).data();
+    expect(ov).toMatchObject({ key, label: "OK", active: true });
+    expect(ov.history).toHaveLength(1);
+    expect(ov.createdAt.toDate()).toBeInstanceOf(Date);
+  });
+
+  it("cancel reverts finals to auto and keeps history", async () => {
+    await handler(post({ key, label: "OK", active: true }), res());
+    const response: any = res();
+    await handler(post({ key, label: "OK", active: false }), response);
+
+    expect(response.jsonBody.updated).toBe(1);
+    expect((await answer("x1")).final).toMatchObject({ result: "NG", source: "auto" });
+
+    const ov = (await db.collection("overrides").doc(key).get()).data();
+    expect(ov.active).toBe(false);
+    expect(ov.history).toHaveLength(2);
+
+    const audit = await db.collection("overrides").where("action", "in", ["override_apply", "override_cancel"]).get();
+    expect(audit.size).toBe(2);
+  });
+
+  it("rejects requests without staff token", async () => {
+    const response: any = res();
+    await handler(post({ key, label: "OK" }, {}), response);
+    expect(response.jsonBody.error).toContain("PERMISSION_DENIED");
+    expect((await answer("x1")).final.source).toBe("auto");
+  });
+});
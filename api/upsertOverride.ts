@@ -1,7 +1,10 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { db } from "./_firebaseAdmin.js";
+import { getStore } from "./_store.js";
 import { makeKey } from "./_normalize.js";
 import { requireStaff } from "./_requireStaff.js";
+import { classScope, inClassScope } from "./_classes.js";
+import { whereClassScope } from "./_answerFilters.js";
+import { newOpId, recordOp, MAX_OP_ANSWERS, type AnswerChange } from "./_overrideOps.js";
 
 type Label = "OK" | "NG" | "ABSTAIN";
 
@@ -20,14 +23,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     if (req.method !== "POST") return res.status(405).json({ error: "Method Not Allowed" });
 
-    const { actor } = await requireStaff(req);  // 権限チェック＆actor取得
+    const db = await getStore();
+    const staff = await requireStaff(req, "curation:write");  // 権限チェック＆actor取得
+    const { actor } = staff;
 
     const body = req.body as Body;
     const key = deriveKey(body);
     const label = ((body as any).label ?? "OK") as Label;
     const reason = ((body as any).reason ?? "") as string;
     const active = ((body as any).active ?? true) as boolean;
-    const limit = Number((body as any).limit ?? 500);
+    const limit = Math.min(Number((body as any).limit ?? MAX_OP_ANSWERS), MAX_OP_ANSWERS);
 
     if (!key) return res.status(400).json({ error: "key(or qid+answerRaw) required" });
     if (!["OK", "NG", "ABSTAIN"].includes(label)) return res.status(400).json({ error: "invalid label" });
@@ -36,7 +41,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // upsert override doc (docId=key 推奨でもOK / ここは新規docで履歴も保存)
     const ovDoc = db.collection("overrides").doc(key);
     const now = new Date();
-    await db.runTransaction(async tx => {
+    const { before: ovBefore, after: ovAfter } = await db.runTransaction(async tx => {
       const s = await tx.get(ovDoc);
       const cur = s.exists ? s.data() : null;
       const next = {
@@ -53,6 +58,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         ],
       };
       tx.set(ovDoc, next);
+      return { before: cur, after: next };
     });
 
     // split key "qid::norm"
@@ -62,39 +68,53 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const norm = key.slice(sep + 2);
 
     // batch update attempts (manual があるものは尊重して除外)
-    // Require composite index: ["raw.qid" ASC, "curated.answerNorm" ASC]
-    const q = db
-      .collection("answers")
-      .where("raw.qid", "==", qid)
-      .where("curated.answerNorm", "==", norm)
-      .limit(limit);
-
-    const snap = await q.get();
+    // 辞書は学校全体で共有するが、既存回答を書き換えるのは担当クラスの分だけ（admin は全クラス）
+    // Require composite index: ["raw.qid" ASC, "curated.answerNorm" ASC, "raw.classId" ASC]
+    const scope = await classScope(db, staff);
+    const q = whereClassScope(
+      db.collection("answers").where("raw.qid", "==", qid).where("curated.answerNorm", "==", norm),
+      scope
+    ).limit(limit);
+
+    const snap = scope?.length === 0 ? { docs: [] as any[] } : await q.get();
     const batch = db.batch();
+    const opId = newOpId(db);
+    const changes: AnswerChange[] = [];
     let updated = 0;
 
     for (const doc of snap.docs) {
       const a: any = doc.data();
-      if (a.manual) continue;
+      if (a.manual || !inClassScope(scope, a.raw?.classId)) continue;
 
+      let final: any;
       if (active) {
-        batch.update(doc.ref, {
-          final: {
-            result: label,
-            source: "override",
-            reason: `override:${key}${reason ? " - " + reason : ""}`,
-            by: actor,
-            at: now,
-          },
-        });
+        final = {
+          result: label,
+          source: "override",
+          reason: `override:${key}${reason ? " - " + reason : ""}`,
+          by: actor,
+          at: now,
+        };
       } else {
         const auto = a.raw?.auto ?? { result: "ABSTAIN", reason: "auto_missing" };
-        batch.update(doc.ref, { final: { result: auto.result, source: "auto", reason: auto.reason } });
+        final = { result: auto.result, source: "auto", reason: auto.reason };
       }
+      batch.update(doc.ref, { final });
+      changes.push({ answerId: doc.id, before: a.final ?? null, after: final });
       updated++;
     }
 
-    if (updated) await batch.commit();
+    // 取り消し用に回答ごとの before/after を操作単位で記録
+    recordOp(db, batch, {
+      opId,
+      ts: now,
+      action: active ? "override_apply" : "override_cancel",
+      actor,
+      qid,
+      target: { collection: "overrides", id: key, before: ovBefore, after: ovAfter },
+      changes,
+    });
+    await batch.commit();
 
     // audit event
     await db.collection("overrides").add({
@@ -105,10 +125,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       label,
       reason,
       affected: updated,
+      opId,
     });
 
-    res.json({ ok: true, key, active, label, updated });
+    res.json({ ok: true, key, active, label, updated, opId });
   } catch (e: any) {
-    res.status(500).json({ error: String(e?.message || e) });
+    const msg = String(e?.message || e);
+    res.status(msg.includes("PERMISSION_DENIED") ? 403 : 500).json({ error: msg });
   }
 }
@@ -1,21 +1,35 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { db } from "./_firebaseAdmin.js";
+import { getStore } from "./_store.js";
+import { checkRateLimit, sendRateLimited } from "./_rateLimit.js";
+import { isAnonOwner } from "./_anonKeys.js";
+import { isUidOwner } from "./_idToken.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
+    const db = await getStore();
     if (req.method !== "POST") {
       return res.status(405).json({ error: "Method Not Allowed" });
     }
 
-    const { answerId, userCorrection, userId } = req.body as {
+    const { answerId, userCorrection, userId, uid, anonId: bodyAnonId } = req.body as {
       answerId: string;
       userCorrection: "OK" | "NG" | "PARTIAL" | null;
       userId: string;
+      uid?: string | null;
+      anonId?: string;
     };
+    // 旧クライアント（送信待ちキューに残っている分）は anonId を userId で送ってくる
+    const anonId = bodyAnonId || userId;
+
+    const limit = await checkRateLimit(req, "userCorrectAnswer", { anonId });
+    if (!limit.ok) return sendRateLimited(res, limit);
 
     if (!answerId) {
       return res.status(400).json({ error: "answerId required" });
     }
+    if (userCorrection !== null && !["OK", "NG", "PARTIAL"].includes(userCorrection)) {
+      return res.status(400).json({ error: "userCorrection must be OK, NG, PARTIAL or null" });
+    }
 
     const answerRef = db.collection("answers").doc(answerId);
     const answerDoc = await answerRef.get();
@@ -24,6 +38,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(404).json({ error: "Answer not found" });
     }
 
+    // 訂正できるのは回答した本人だけ（回答時の uid / anonId と一致し、uid は ID token、anonId は x-anon-key で確かめる）
+    const raw = answerDoc.data()?.raw ?? {};
+    const owner =
+      (uid && raw.uid === uid && (await isUidOwner(req, uid))) ||
+      (raw.anonId && anonId === raw.anonId && (await isAnonOwner(db, req, anonId)));
+    if (!owner) {
+      return res.status(403).json({ error: "PERMISSION_DENIED: not the owner of this answer" });
+    }
+
     const now = new Date();
     const updateData: any = {};
 
@@ -39,7 +62,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       updateData.manual = {
         result: userCorrection,
         by: {
-          userId: userId,
+          userId: uid || anonId,
           at: now,
         },
       };
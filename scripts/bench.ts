@@ -0,0 +1,160 @@
+#!/usr/bin/env node
+/**
+ * 採点エンジンの回帰ベンチマーク CLI
+ *
+ * 使い方:
+ *   npx tsx scripts/bench.ts run --corpus scripts/bench-sample.jsonl [--engine matchSense]
+ *        [--worst 20] [--save report.json] [--baseline report.json] [--max-regressions 0] [--no-learned]
+ *   npx tsx scripts/bench.ts export --out corpus.jsonl [--limit 5000]
+ *
+ * コーパスは1行1件の JSONL: {"qid":"1-1","answer":"気づいた","label":"OK"}
+ * （qid の代わりに "gold" で正解訳を直接指定してもよい）
+ * export は answers のうち final.source が manual / override のものを書き出す（STORAGE_BACKEND に従う）
+ */
+import fs from "fs";
+import { gradeWith, getGrader, isGraderName, DEFAULT_GRADER, type GraderName } from "../src/scoring/graders";
+import {
+  parseCorpus, toResult, summarize, compareToBaseline,
+  type BenchItem, type BenchReport, type BenchResult,
+} from "../src/lib/gradingBench";
+import { getSenseCandidates, getLearnedCandidates } from "../api/_questions";
+import { getStore } from "../api/_store";
+
+function parseArgs(argv: string[]) {
+  const [command = "", ...rest] = argv;
+  const opts: Record<string, string | boolean> = {};
+  for (let i = 0; i < rest.length; i++) {
+    const a = rest[i];
+    if (!a.startsWith("--")) continue;
+    const next = rest[i + 1];
+    if (next !== undefined && !next.startsWith("--")) {
+      opts[a.slice(2)] = next;
+      i++;
+    } else {
+      opts[a.slice(2)] = true;
+    }
+  }
+  return { command, opts };
+}
+
+const pct = (v: number | null) => (v === null ? "   -  " : `${(v * 100).toFixed(1).padStart(5)}%`);
+
+function printReport(report: BenchReport) {
+  console.log(`=== ${report.engine} (${report.version}) ===`);
+  console.log(`件数: ${report.total}  正解率: ${pct(report.accuracy)}  判定率: ${pct(report.coverage)}  判定分の正解率: ${pct(report.decidedAccuracy)}\n`);
+
+  console.log("--- 混同行列（行: 人手 / 列: 判定）---");
+  console.log("        OK     NG     ABSTAIN");
+  for (const human of ["OK", "NG"] as const) {
+    const row = report.confusion[human];
+    console.log(`${human.padEnd(4)} ${String(row.OK).padStart(5)}  ${String(row.NG).padStart(5)}  ${String(row.ABSTAIN).padStart(7)}`);
+  }
+
+  console.log("\n--- reason 別 ---");
+  console.log("reason                    件数   precision  recall");
+  for (const [code, s] of Object.entries(report.byReason)) {
+    console.log(`${code.padEnd(24)} ${String(s.support).padStart(5)}   ${pct(s.precision)}   ${pct(s.recall)}`);
+  }
+
+  if (report.worst.length > 0) {
+    console.log(`\n--- 誤判定ワースト ${report.worst.length} 件 ---`);
+    for (const r of report.worst) console.log(formatResult(r));
+  }
+}
+
+function formatResult(r: BenchResult) {
+  return `  [${r.qid ?? "-"}] "${r.answer}" 人手=${r.label} 判定=${r.predicted} ${r.score}点 (${r.code})`;
+}
+
+async function gradeCorpus(items: BenchItem[], engine: GraderName, useLearned: boolean): Promise<BenchResult[]> {
+  const results: BenchResult[] = [];
+  for (const item of items) {
+    const candidates = item.qid ? getSenseCandidates(item.qid) : [];
+    const outcome = await gradeWith(engine, {
+      answer: item.answer,
+      gold: item.gold ?? candidates[0]?.surface ?? "",
+      candidates: item.gold ? undefined : candidates,
+      learned: useLearned && item.qid ? getLearnedCandidates(item.qid) : [],
+      ba_condition: item.ba_condition,
+    });
+    results.push(toResult(item, outcome));
+  }
+  return results;
+}
+
+async function run(opts: Record<string, string | boolean>) {
+  const corpusPath = opts.corpus;
+  if (typeof corpusPath !== "string") {
+    console.error("使い方: npx tsx scripts/bench.ts run --corpus <file.jsonl> [--engine <name>] [--baseline <report.json>]");
+    process.exit(1);
+  }
+  const engine = typeof opts.engine === "string" ? opts.engine : DEFAULT_GRADER;
+  if (!isGraderName(engine)) throw new Error(`unknown engine: ${engine}`);
+  if (!getGrader(engine).serverSafe) throw new Error(`engine ${engine} はブラウザ専用です（/test-grading で確認してください）`);
+  const items = parseCorpus(fs.readFileSync(corpusPath, "utf-8"));
+  if (items.length === 0) throw new Error(`ラベル付きの行がありません: ${corpusPath}`);
+
+  const results = await gradeCorpus(items, engine, !opts["no-learned"]);
+  const report = summarize(engine, getGrader(engine).version, results, Number(opts.worst ?? 20));
+  printReport(report);
+
+  if (typeof opts.save === "string") {
+    fs.writeFileSync(opts.save, JSON.stringify(report, null, 2));
+    console.log(`\nレポートを保存: ${opts.save}`);
+  }
+
+  if (typeof opts.baseline === "string") {
+    const baseline: BenchReport = JSON.parse(fs.readFileSync(opts.baseline, "utf-8"));
+    const diff = compareToBaseline(report, baseline);
+    const maxRegressions = Number(opts["max-regressions"] ?? 0);
+
+    console.log(`\n=== ベースライン比較（${baseline.engine} ${baseline.version}）===`);
+    console.log(`正解率: ${pct(baseline.accuracy)} → ${pct(report.accuracy)} (${diff.accuracyDelta >= 0 ? "+" : ""}${(diff.accuracyDelta * 100).toFixed(1)}pt)`);
+    console.log(`改善: ${diff.fixes.length} 件 / 悪化: ${diff.regressions.length} 件`);
+    for (const { base, now } of diff.regressions) {
+      console.log(`${formatResult(now)}  ← 以前は ${base.predicted} ${base.score}点`);
+    }
+    if (diff.regressions.length > maxRegressions) {
+      console.error(`\n✗ 悪化が ${diff.regressions.length} 件あります（許容 ${maxRegressions} 件）`);
+      process.exit(1);
+    }
+  }
+}
+
+async function exportCorpus(opts: Record<string, string | boolean>) {
+  if (typeof opts.out !== "string") {
+    console.error("使い方: npx tsx scripts/bench.ts export --out <file.jsonl> [--limit 5000]");
+    process.exit(1);
+  }
+  const db = await getStore();
+  const snap = await db.collection("answers")
+    .where("raw.questionType", "==", "writing")
+    .limit(Number(opts.limit ?? 5000))
+    .get();
+
+  const lines: string[] = [];
+  for (const d of snap.docs) {
+    const a: any = d.data();
+    const source = a.final?.source;
+    const label = a.final?.result;
+    if ((source !== "manual" && source !== "override") || (label !== "OK" && label !== "NG")) continue;
+    if (!a.raw?.qid || !a.raw?.answerRaw) continue;
+    const item: BenchItem = { qid: a.raw.qid, answer: a.raw.answerRaw, label, source: `${source}:${d.id}` };
+    lines.push(JSON.stringify(item));
+  }
+  fs.writeFileSync(opts.out, lines.join("\n") + (lines.length ? "\n" : ""));
+  console.log(`${lines.length} 件を書き出しました: ${opts.out}`);
+}
+
+async function main() {
+  const { command, opts } = parseArgs(process.argv.slice(2));
+  if (command === "run") return run(opts);
+  if (command === "export") return exportCorpus(opts);
+  console.error("使い方: npx tsx scripts/bench.ts <run|export> [options]");
+  process.exit(1);
+}
+
+main().catch(e => {
+  console.error(e?.message || e);
+  process.exit(1);
+});
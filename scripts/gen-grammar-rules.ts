@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+/**
+ * 助動詞・助詞の規則モジュールと活用表モジュールを生成
+ * 使い方: npm run gen:grammar-rules
+ *   src/assets/kobun-grammar.json と src/assets/grammar-rules.overrides.json から
+ *   src/lib/grammarRules.generated.ts と src/lib/conjugationTables.generated.ts を書き出す（どちらかを変えたら作り直す）
+ */
+import fs from "fs";
+import path from "path";
+import { buildGrammarRules, type GrammarRulesOverrides } from "../src/lib/grammarRulesBuilder";
+import { buildGrammarIndex } from "../src/lib/grammarLoader";
+import { buildConjugationTables } from "../src/lib/conjugation";
+
+const root = path.resolve(path.dirname(new URL(import.meta.url).pathname), "..");
+const readJson = (p: string) => JSON.parse(fs.readFileSync(path.join(root, p), "utf-8"));
+
+const grammar = readJson("src/assets/kobun-grammar.json");
+const overrides: GrammarRulesOverrides = readJson("src/assets/grammar-rules.overrides.json");
+const rules = buildGrammarRules(grammar, overrides);
+
+const out = `/**
+ * 助動詞・助詞の規則（自動生成・直接編集しない）
+ * kobun-grammar.json と grammar-rules.overrides.json から npm run gen:grammar-rules で作る
+ */
+import type { GrammarRulesData } from "./grammarRulesBuilder";
+
+export const GRAMMAR_RULES: GrammarRulesData = ${JSON.stringify(rules, null, 2)};
+`;
+
+const target = path.join(root, "src/lib/grammarRules.generated.ts");
+fs.writeFileSync(target, out);
+console.log(`wrote ${path.relative(root, target)}: 助動詞 ${rules.auxiliaries.length} / 助詞 ${rules.particles.length}`);
+
+// 活用表（formGuesser の既定。採点経路では JSON を import しないので、表を定数にして持つ）
+const tables = buildConjugationTables(buildGrammarIndex(grammar));
+const tablesOut = `/**
+ * 活用表（自動生成・直接編集しない）
+ * kobun-grammar.json から npm run gen:grammar-rules で作る
+ */
+import type { ConjugationTables } from "./conjugation";
+
+export const CONJUGATION_TABLES: ConjugationTables = ${JSON.stringify(tables, null, 2)};
+`;
+
+const tablesTarget = path.join(root, "src/lib/conjugationTables.generated.ts");
+fs.writeFileSync(tablesTarget, tablesOut);
+console.log(`wrote ${path.relative(root, tablesTarget)}: 活用の種類 ${tables.classes.length} / 助動詞 ${tables.auxiliaries.length}`);
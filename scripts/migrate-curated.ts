@@ -0,0 +1,75 @@
+#!/usr/bin/env node
+/**
+ * accepted / negatives を旧レイアウトから新レイアウトへ移す一回限りのスクリプト
+ *
+ * 旧: /accepted/{qid}/{サブコレクション}/{entryId}（specs の旧版。コンソールから手で入れたデータ）
+ * 新: /accepted/{qid::normalize(phrase)}（api/_curated.ts が読み書きするフラットなコレクション）
+ *
+ * 使い方:
+ *   npx tsx scripts/migrate-curated.ts            # 移す予定の件数と衝突を表示するだけ
+ *   npx tsx scripts/migrate-curated.ts --apply    # 新レイアウトに書き込み、旧ドキュメントを削除
+ *
+ * Firestore 専用（サブコレクションの列挙は Store に無いため firebase-admin を直接使う）
+ * 新レイアウトに同じキーが既にあればそちらを優先し、旧ドキュメントは残す
+ */
+import { db } from "../api/_firebaseAdmin";
+import { normalize, makeKey } from "../api/_normalize";
+import { CURATED_COLLECTIONS } from "../api/_curated";
+
+async function main() {
+  const apply = process.argv.includes("--apply");
+  const now = new Date();
+  let moved = 0;
+  let conflicts = 0;
+
+  for (const collection of CURATED_COLLECTIONS) {
+    const parents = await db.collection(collection).listDocuments();
+    for (const parent of parents) {
+      const qid = parent.id;
+      for (const sub of await parent.listCollections()) {
+        const snap = await sub.get();
+        for (const doc of snap.docs) {
+          const data = doc.data();
+          const phrase = String(data.phrase ?? "").trim();
+          if (!phrase) {
+            console.warn(`skip ${doc.ref.path}: phrase がありません`);
+            continue;
+          }
+          const key = makeKey(qid, phrase);
+          const target = db.collection(collection).doc(key);
+          if ((await target.get()).exists) {
+            conflicts++;
+            console.warn(`conflict ${doc.ref.path} -> ${collection}/${key}（新レイアウト側を残す）`);
+            continue;
+          }
+          moved++;
+          console.log(`${apply ? "move" : "would move"} ${doc.ref.path} -> ${collection}/${key}`);
+          if (!apply) continue;
+          const entry = {
+            qid,
+            phrase,
+            phraseNorm: normalize(phrase),
+            addedBy: data.addedBy ?? "migration",
+            addedAt: data.addedAt ?? now,
+            ...(data.note ? { note: data.note } : {}),
+          };
+          const batch = db.batch();
+          batch.set(target, entry);
+          batch.set(db.collection("history").doc(), {
+            collection, qid, entryId: key, action: "CREATE",
+            before: null, after: entry, by: "migration", at: now, migratedFrom: doc.ref.path,
+          });
+          batch.delete(doc.ref);
+          await batch.commit();
+        }
+      }
+    }
+  }
+
+  console.log(`${apply ? "moved" : "to move"}: ${moved}, conflicts: ${conflicts}${apply ? "" : "（--apply で実行）"}`);
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -1,16 +1,28 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { dataParser } from './utils/dataParser';
 import { Word, MultiMeaningWord } from './types';
 import ExampleDisplay from './components/ExampleDisplay';
+import GrammarDrill from './components/GrammarDrill';
 import RangeField from './components/RangeField';
 import { useFullSelectInput } from './hooks/useFullSelectInput';
 import { buildSenseIndex } from './lib/buildSenseIndex';
-import { matchSense, type LearnedCandidate } from './utils/matchSense';
+import { matchSense } from './utils/matchSense';
+import { gradeWith, listGraders, isGraderName, DEFAULT_GRADER, type GraderName } from './scoring/graders';
+import { applyThresholds } from './scoring/thresholds';
+import { getCachedThresholds, loadThresholds, thresholdsFor } from './lib/questionThresholds';
+import { getCachedEnsembleConfig, loadEnsembleConfig } from './lib/ensembleConfig';
+import { recordReview, answerQuality, getDueQids } from './lib/reviewScheduler';
+import { logAnswer, updateAnswer } from './lib/answerLog';
+import { submitAnswer, attachUserCorrection, postUserCorrection } from './lib/answerQueue';
 import { validateConnections, describeIssues } from './lib/validateConnectionsFromFile';
-import learnedCandidatesData from '../public/candidates.json';
+import { getCachedLearned, loadLearned } from './lib/learnedBundle';
+import { getAnonId } from './lib/studentIdentity';
+import { getActiveAssignment, openAssignment, leaveAssignment, assignmentStatus, type ActiveAssignment, type QuizSettingsSnapshot } from './lib/assignment';
 
-type AppMode = 'word' | 'polysemy';
+type AppMode = 'word' | 'polysemy' | 'grammar';
 type WordQuizType = 'word-meaning' | 'word-reverse' | 'sentence-meaning' | 'meaning-writing';
+type WordQuizSource = 'range' | 'review-due';
 type PolysemyQuizType = 'example-comprehension' | 'true-false' | 'context-writing';
 
 interface QuizQuestion {
@@ -87,6 +99,16 @@ function App() {
     const saved = localStorage.getItem('kobun-wordQuizType');
     return (saved as WordQuizType) || 'word-meaning';
   });
+  const [wordQuizSource, setWordQuizSource] = useState<WordQuizSource>(() => {
+    const saved = localStorage.getItem('kobun-wordQuizSource');
+    return (saved as WordQuizSource) || 'range';
+  });
+  // 意味記述の採点エンジン（切り替えは開発時と教員の端末だけ。生徒は常に既定のエンジン）
+  const canPickEngine = import.meta.env.DEV || !!localStorage.getItem('ADMIN_VIEW_TOKEN');
+  const [writingEngine, setWritingEngine] = useState<GraderName>(() => {
+    const saved = localStorage.getItem('kobun-writingEngine');
+    return canPickEngine && isGraderName(saved) ? saved : DEFAULT_GRADER;
+  });
   const [wordNumQuestions, setWordNumQuestions] = useState(() => {
     const saved = localStorage.getItem('kobun-wordNumQuestions');
     return saved ? parseInt(saved, 10) : 10;
@@ -139,11 +161,16 @@ function App() {
   const [showResults, setShowResults] = useState(false);
   const [nextButtonVisible, setNextButtonVisible] = useState(false);
   const [showWritingResult, setShowWritingResult] = useState(false);
-  const [writingResult, setWritingResult] = useState<{score: number; feedback: string; reason?: string}>({ score: 0, feedback: '' });
+  const [writingResult, setWritingResult] = useState<{score: number; feedback: string; reason?: string; result?: 'OK' | 'NG' | 'ABSTAIN'}>({ score: 0, feedback: '' });
   const [showCorrectCircle, setShowCorrectCircle] = useState(false);
   const [writingUserJudgment, setWritingUserJudgment] = useState<boolean | 'partial' | undefined>(undefined);
   const [currentWritingQid, setCurrentWritingQid] = useState<string>('');
   const [currentWritingAnswerId, setCurrentWritingAnswerId] = useState<string>('');
+  const writingLogIdRef = useRef<Promise<number | null> | null>(null);
+  const writingQueueIdRef = useRef<string | null>(null);  // オフラインで送信待ちの場合
+
+  // 復習期限切れの件数（出題元セレクタ表示用、問題切替ごとに再計算）
+  const dueCount = useMemo(() => getDueQids().length, [currentQuestionIndex, isQuizActive]);
 
   // Index modal state
   const [showIndexModal, setShowIndexModal] = useState(false);
@@ -189,13 +216,103 @@ function App() {
     return buildSenseIndex(allWords as any);
   }, [allWords]);
 
-  // Learned candidates from Firestore aggregation
-  const learnedCandidates = useMemo(() => {
-    return learnedCandidatesData as Record<string, LearnedCandidate[]>;
+  // 開いている課題（課題中は出題設定を課題のものに固定する）
+  const [assignment, setAssignment] = useState<ActiveAssignment | null>(getActiveAssignment);
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const applyAssignment = useCallback((a: ActiveAssignment) => {
+    setShowResults(false);
+    setCurrentMode(a.mode);
+    const range = a.groupFrom !== null && a.groupTo !== null ? { from: a.groupFrom, to: a.groupTo } : { from: 1, to: 330 };
+    if (a.mode === 'word') {
+      setWordQuizType(a.quizType as WordQuizType);
+      setWordQuizSource('range');
+      setWordNumQuestions(a.count);
+      setWordRange(range);
+    } else {
+      setPolysemyQuizType(a.quizType as PolysemyQuizType);
+      setPolysemyNumQuestions(a.count);
+      setPolysemyRange(range);
+    }
   }, []);
 
+  const handleOpenAssignment = async (code: string) => {
+    const current: QuizSettingsSnapshot = {
+      currentMode, wordQuizType, wordQuizSource, wordNumQuestions, wordRange,
+      polysemyQuizType, polysemyNumQuestions, polysemyRange,
+    };
+    try {
+      const opened = await openAssignment(code, current);
+      setAssignment(opened);
+      applyAssignment(opened);
+    } catch (e) {
+      showErrorMessage(e instanceof Error ? e.message : '課題を開けませんでした。');
+    }
+  };
+
+  const handleLeaveAssignment = () => {
+    const previous = leaveAssignment() as Partial<{
+      currentMode: AppMode; wordQuizType: WordQuizType; wordQuizSource: WordQuizSource; wordNumQuestions: number;
+      wordRange: { from?: number; to?: number }; polysemyQuizType: PolysemyQuizType; polysemyNumQuestions: number;
+      polysemyRange: { from?: number; to?: number };
+    }> | null;
+    setAssignment(null);
+    setShowResults(false);
+    if (!previous) return;
+    if (previous.currentMode) setCurrentMode(previous.currentMode);
+    if (previous.wordQuizType) setWordQuizType(previous.wordQuizType);
+    if (previous.wordQuizSource) setWordQuizSource(previous.wordQuizSource);
+    if (previous.wordNumQuestions) setWordNumQuestions(previous.wordNumQuestions);
+    if (previous.wordRange) setWordRange(previous.wordRange);
+    if (previous.polysemyQuizType) setPolysemyQuizType(previous.polysemyQuizType);
+    if (previous.polysemyNumQuestions) setPolysemyNumQuestions(previous.polysemyNumQuestions);
+    if (previous.polysemyRange) setPolysemyRange(previous.polysemyRange);
+  };
+
+  // /?assignment=CODE で開かれたら課題を読み込む
+  useEffect(() => {
+    const code = searchParams.get('assignment');
+    if (!code) return;
+    setSearchParams(params => { params.delete('assignment'); return params; }, { replace: true });
+    handleOpenAssignment(code);
+  }, []);
+
+  // 課題中は端末に残っている設定に関係なく課題の設定で出題する
+  useEffect(() => {
+    if (assignment) applyAssignment(assignment);
+  }, [assignment, applyAssignment]);
+
+  // 課題中は選択式の回答もサーバーに送る（先生の提出状況の集計に使う）
+  const submitAssignmentSelection = (qid: string, answerRaw: string, correct: boolean, quizType: string) => {
+    if (!assignment) return;
+    submitAnswer({
+      qid,
+      answerRaw,
+      anonId: getAnonId(),
+      autoScore: correct ? 100 : 0,
+      autoResult: correct ? 'OK' : 'NG',
+      autoReason: 'selection',
+      questionType: 'selection',
+      quizType,
+    }).catch(e => {
+      console.error('Failed to submit answer:', e);
+    });
+  };
+
+  // 学習済み正解バンドル（/api/learnedBundle、前回取得分を localStorage にキャッシュ）
+  const [learnedCandidates, setLearnedCandidates] = useState(() => getCachedLearned().learned);
+
+  // 問題ごとの採点閾値（thresholds/{qid}）
+  const [thresholds, setThresholds] = useState(getCachedThresholds);
+
+  // アンサンブル採点の構成（meta/ensemble、サーバーと同じ設定で採点する）
+  const [ensembleConfig, setEnsembleConfig] = useState(getCachedEnsembleConfig);
+
   useEffect(() => {
     loadData();
+    loadThresholds().then(setThresholds);
+    loadEnsembleConfig().then(setEnsembleConfig);
+    loadLearned().then(bundle => setLearnedCandidates(bundle.learned));
   }, []);
 
   // Persist settings to localStorage
@@ -211,6 +328,14 @@ function App() {
     localStorage.setItem('kobun-wordNumQuestions', wordNumQuestions.toString());
   }, [wordNumQuestions]);
 
+  useEffect(() => {
+    localStorage.setItem('kobun-wordQuizSource', wordQuizSource);
+  }, [wordQuizSource]);
+
+  useEffect(() => {
+    localStorage.setItem('kobun-writingEngine', writingEngine);
+  }, [writingEngine]);
+
   useEffect(() => {
     localStorage.setItem('kobun-wordRange', JSON.stringify(wordRange));
   }, [wordRange]);
@@ -251,8 +376,9 @@ function App() {
     }
   }, [
     currentMode,
-    wordQuizType, wordNumQuestions, wordRange.from, wordRange.to,
+    wordQuizType, wordQuizSource, wordNumQuestions, wordRange.from, wordRange.to,
     polysemyQuizType, polysemyNumQuestions, polysemyRange.from, polysemyRange.to,
+    assignment?.assignmentId,
     allWords.length
   ]);
 
@@ -335,20 +461,33 @@ function App() {
 
     if (currentMode === 'word') {
       await setupWordQuiz();
-    } else {
+    } else if (currentMode === 'polysemy') {
       setupPolysemyQuiz();
     }
+    // grammar は GrammarDrill が自分で出題する
   };
 
   const setupWordQuiz = async () => {
     const start = wordRange.from ?? 1;
     const end = wordRange.to ?? 330;
+    // 課題で qid が決まっていればその中から出題
+    const assignedQids = assignment?.qids ? new Set(assignment.qids) : null;
     const targetWords = allWords.filter(word =>
-      word.group >= start && word.group <= end
+      assignedQids ? assignedQids.has(word.qid) : word.group >= start && word.group <= end
     );
 
+    // 復習モード: 期限切れの qid（期限超過の長い順）を先に出題
+    const dueWords: Word[] = [];
+    if (wordQuizSource === 'review-due') {
+      const wordByQid = new Map(allWords.map(w => [w.qid, w]));
+      for (const qid of getDueQids()) {
+        const w = wordByQid.get(qid);
+        if (w) dueWords.push(w);
+      }
+    }
+
     // 記述式は1単語以上でOK、選択式も1単語以上（前後5単語から選択肢を選ぶ）
-    if (targetWords.length < 1) {
+    if (targetWords.length < 1 && dueWords.length < 1) {
       if (allWords.length > 0) {
         showErrorMessage('出題範囲に単語が見つかりません。');
       }
@@ -357,7 +496,8 @@ function App() {
 
     const quizData: QuizQuestion[] = [];
     const usedIndexes = new Set();
-    const maxQuestions = new Set(targetWords.map(w => w.qid)).size;
+    const maxQuestions = dueWords.length +
+      new Set(targetWords.filter(w => !dueWords.some(d => d.qid === w.qid)).map(w => w.qid)).size;
     const actualNumQuestions = Math.min(wordNumQuestions, maxQuestions);
 
     // 重複回避用に最近使った選択肢を追跡
@@ -366,13 +506,19 @@ function App() {
     // 問題データを事前準備
     const questionPrepData = [];
     for (let i = 0; i < actualNumQuestions; i++) {
-      let correctWordIndex;
-      do {
-        correctWordIndex = Math.floor(Math.random() * targetWords.length);
-      } while (usedIndexes.has(targetWords[correctWordIndex].qid));
+      let correctWord: Word;
+      if (i < dueWords.length) {
+        correctWord = dueWords[i];
+      } else {
+        // 期限切れが足りない分は範囲からランダムに補充
+        let correctWordIndex;
+        do {
+          correctWordIndex = Math.floor(Math.random() * targetWords.length);
+        } while (usedIndexes.has(targetWords[correctWordIndex].qid));
+        correctWord = targetWords[correctWordIndex];
+      }
 
-      usedIndexes.add(targetWords[correctWordIndex].qid);
-      const correctWord = targetWords[correctWordIndex];
+      usedIndexes.add(correctWord.qid);
 
       // Get examples for the correct word (sense-priority)
       const multiMeaningWord = dataParser.getWordByLemma(correctWord.lemma);
@@ -538,7 +684,13 @@ function App() {
   const setupPolysemyQuiz = () => {
     const start = polysemyRange.from ?? 1;
     const end = polysemyRange.to ?? 330;
-    const polysemyWords = getPolysemyWords(allWords, start, end);
+    // 課題で qid が決まっていれば、その qid の単語から出題
+    const assignedLemmas = assignment?.qids
+      ? new Set(allWords.filter(w => assignment.qids!.includes(w.qid)).map(w => w.lemma))
+      : null;
+    const polysemyWords = assignedLemmas
+      ? getPolysemyWords(allWords, 1, 330).filter(w => assignedLemmas.has(w.lemma))
+      : getPolysemyWords(allWords, start, end);
 
     if (polysemyWords.length === 0) {
       if (allWords.length > 0) {
@@ -637,42 +789,30 @@ function App() {
     setCurrentQuizData(questions.sort(() => Math.random() - 0.5));
   };
 
-  const evaluateWritingAnswer = (userAnswer: string, correctQid: string) => {
+  const evaluateWritingAnswer = async (userAnswer: string, correctQid: string) => {
     const candidates = senseIndex.get(correctQid) ?? [];
     const learned = learnedCandidates[correctQid] ?? [];
-    const result = matchSense(userAnswer, candidates, learned);
-
-    // matchSense.ts の新しいスコアシステムを使用
-    const scoreToFeedback: Record<number, string> = {
-      100: '完全一致！',
-      85: '接続部分（〜て、〜で）のみ訳し忘れ',
-      75: '余分な意味を付け加えています',
-      70: '活用形の違い',
-      65: '必須要素が欠落しています',
-      60: '意味的に近い',
-      0: '意味が異なります'
-    };
-
-    if (result.ok && result.score >= 60) {
-      const feedback = scoreToFeedback[result.score] || `${result.score}% - ${result.detail || ''}`;
-      return {
-        score: result.score,
-        feedback: feedback,
-        reason: result.reason,
-        detail: result.detail
-      };
-    }
-
+    const graded = await gradeWith(writingEngine, {
+      answer: userAnswer,
+      gold: candidates[0]?.surface ?? '',
+      candidates,
+      learned,
+      ensemble: ensembleConfig,
+    });
+    const outcome = applyThresholds(graded, thresholdsFor(thresholds, correctQid));
     return {
-      score: 0,
-      feedback: scoreToFeedback[0],
-      reason: result.reason,
-      detail: result.detail
+      ...outcome,
+      result: outcome.label,
+      feedback: outcome.label === 'ABSTAIN' ? outcome.reasons.join(' / ') : outcome.reasons[0] ?? '',
+      reason: outcome.code,
     };
   };
 
   const handleAnswer = (selectedOption: Word, correctOption: Word, isReverse = false) => {
     const isCorrect = selectedOption.qid === correctOption.qid;
+    recordReview(correctOption.qid, answerQuality(isCorrect));
+    logAnswer({ qid: correctOption.qid, quizType: wordQuizType, correct: isCorrect });
+    submitAssignmentSelection(correctOption.qid, selectedOption.qid, isCorrect, wordQuizType);
     if (isCorrect) {
       setScore(prev => prev + 1);
       setShowCorrectCircle(true);
@@ -689,6 +829,9 @@ function App() {
   const handleTrueFalseAnswer = (userAnswer: boolean) => {
     const question = currentQuizData[currentQuestionIndex] as TrueFalseQuestion;
     const isCorrect = userAnswer === question.isCorrect;
+    recordReview(question.correctAnswer.qid, answerQuality(isCorrect));
+    logAnswer({ qid: question.correctAnswer.qid, quizType: 'true-false', correct: isCorrect });
+    submitAssignmentSelection(question.correctAnswer.qid, String(userAnswer), isCorrect, 'true-false');
 
     if (isCorrect) {
       setScore(prev => prev + 1);
@@ -708,14 +851,23 @@ function App() {
       return;
     }
 
-    const evaluation = evaluateWritingAnswer(userAnswer, correctQid);
+    const evaluation = await evaluateWritingAnswer(userAnswer, correctQid);
     setWritingResult(evaluation);
     setCurrentWritingQid(correctQid);
     setWritingUserJudgment(undefined);
+    recordReview(correctQid, answerQuality(evaluation.result === 'OK', evaluation.score));
+    const logIdPromise = logAnswer({
+      qid: correctQid,
+      quizType: 'meaning-writing',
+      correct: evaluation.result === 'OK',
+      score: evaluation.score,
+      answerRaw: userAnswer,
+    });
+    writingLogIdRef.current = logIdPromise;
 
     // スコア更新と結果表示（即座に）
-    // 60点以上で正解扱い（手動判定で変更可能）
-    if (evaluation.score >= 60) {
+    // 問題ごとの閾値で OK のとき正解扱い（手動判定で変更可能）
+    if (evaluation.result === 'OK') {
       setScore(prev => prev + 1);
     }
     setShowWritingResult(true);
@@ -730,28 +882,42 @@ function App() {
     }
 
     // Save to Firestore（バックグラウンド、awaitしない）
-    const anonId = localStorage.getItem('anonId') || `anon_${Date.now()}`;
-    if (!localStorage.getItem('anonId')) {
-      localStorage.setItem('anonId', anonId);
-    }
+    const anonId = getAnonId();
 
-    fetch('/api/submitAnswer', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
+    logIdPromise
+      .then(logId => submitAnswer({
         qid: correctQid,
         answerRaw: userAnswer,
         anonId,
         autoScore: evaluation.score,
-        autoResult: evaluation.score >= 60 ? 'OK' : 'NG',
+        autoResult: evaluation.result,
         autoReason: evaluation.feedback,
+        autoVersion: evaluation.version,
+        engine: evaluation.engine,
+        autoBreakdown: evaluation.members?.map(m => ({ engine: m.engine, score: m.score, label: m.label })),
         questionType: 'writing',
-      }),
-    })
-      .then(response => response.json())
-      .then(data => {
-        if (data.answerId) {
-          setCurrentWritingAnswerId(data.answerId);
+        quizType: 'meaning-writing',
+      }, { logId }))
+      .then(({ answerId, queueId, final }) => {
+        if (answerId) {
+          setCurrentWritingAnswerId(answerId);
+          logIdPromise.then(id => updateAnswer(id, { answerId }));
+          // 正解辞書・閾値・override でサーバーの判定が変わったら、表示中の問題なら結果を差し替える
+          if (final && final.result !== evaluation.result && writingLogIdRef.current === logIdPromise) {
+            const byTeacher = final.source === 'override' || /^(accepted|negatives):/.test(final.reason ?? '');
+            setWritingResult(prev => ({
+              ...prev,
+              result: final.result,
+              feedback: byTeacher
+                ? (final.result === 'OK' ? '先生が正解として登録した回答です' : '先生が不正解として登録した回答です')
+                : final.result === 'ABSTAIN' ? '先生の確認待ちです' : prev.feedback,
+            }));
+            if (final.result === 'OK') setScore(prev => prev + 1);
+            else if (evaluation.result === 'OK') setScore(prev => Math.max(0, prev - 1));
+            logIdPromise.then(id => updateAnswer(id, { correct: final.result === 'OK' }));
+          }
+        } else if (queueId) {
+          writingQueueIdRef.current = queueId;
         }
       })
       .catch(e => {
@@ -764,32 +930,28 @@ function App() {
     setNextButtonVisible(false); // 次へボタンを非表示
 
     // Update score based on user judgment (○表示なし)
-    if (judgment === true && writingResult.score < 60) {
+    if (judgment === true && writingResult.result !== 'OK') {
       // User says correct but auto said wrong
       setScore(prev => prev + 1);
-    } else if (judgment === false && writingResult.score >= 60) {
+    } else if (judgment === false && writingResult.result === 'OK') {
       // User says wrong but auto said correct
       setScore(prev => Math.max(0, prev - 1));
     }
     // judgment === 'partial' の場合はスコアを変更しない
 
-    // Save to Firestore（バックグラウンド）- answerIdがあれば保存
+    // 端末内の履歴にも手動判定を反映
+    writingLogIdRef.current?.then(id => updateAnswer(id, { correct: judgment === true }));
+
+    // Save to Firestore（バックグラウンド）- answerIdがあれば保存、送信待ちならキューに添付
+    const anonId = getAnonId();
+    const userCorrectionValue = judgment === true ? 'OK' : judgment === 'partial' ? 'PARTIAL' : 'NG';
+    if (!currentWritingAnswerId && writingQueueIdRef.current) {
+      attachUserCorrection(writingQueueIdRef.current, userCorrectionValue, anonId);
+    }
     if (currentWritingAnswerId) {
-      const anonId = localStorage.getItem('anonId');
-      if (anonId) {
-        const userCorrectionValue = judgment === true ? 'OK' : judgment === 'partial' ? 'PARTIAL' : 'NG';
-        fetch('/api/userCorrectAnswer', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            answerId: currentWritingAnswerId,
-            userCorrection: userCorrectionValue,
-            userId: anonId,
-          }),
-        }).catch(e => {
-          console.error('Failed to submit user correction:', e);
-        });
-      }
+      postUserCorrection(currentWritingAnswerId, { value: userCorrectionValue, userId: anonId }).catch(e => {
+        console.error('Failed to submit user correction:', e);
+      });
     }
 
     // 判定後0.6秒で自動遷移（常に実行）
@@ -804,6 +966,7 @@ function App() {
     setShowWritingResult(false);
     setWritingUserJudgment(undefined);
     setCurrentWritingAnswerId('');
+    writingQueueIdRef.current = null;
   };
 
   const handleExampleComprehensionCheck = async (answers: {[key: string]: string}) => {
@@ -815,6 +978,8 @@ function App() {
       const userAnswer = answers[meaning.qid];
       const isCorrect = userAnswer === meaning.qid;
       if (isCorrect) correctCount++;
+      logAnswer({ qid: meaning.qid, quizType: 'example-comprehension', correct: isCorrect });
+      submitAssignmentSelection(meaning.qid, userAnswer || '-', isCorrect, 'example-comprehension');
     }
 
     // 全問正解の場合のみスコア加算と○表示
@@ -987,6 +1152,14 @@ function App() {
         索引
       </button>
 
+      {/* Progress Link - Fixed Position */}
+      <Link
+        to="/progress"
+        className="fixed top-4 right-24 z-50 bg-white hover:bg-slate-100 text-blue-600 font-bold py-2 px-4 rounded-lg shadow-lg border border-slate-200 transition-colors"
+      >
+        記録
+      </Link>
+
       {/* Index Modal */}
       {showIndexModal && (
         <div
@@ -1247,171 +1420,234 @@ function App() {
     <div className="bg-slate-50 min-h-screen">
       {indexButton}
       <div className="max-w-2xl mx-auto p-3 md:p-6">
-        {/* Mode Selection Tabs */}
-        <div className="flex justify-center border-b border-slate-200 mb-4 bg-white rounded-t-2xl shadow-sm">
-          <button
-            onClick={() => {
-              setShowResults(false);
-              setCurrentMode('word');
-            }}
-            className={`mode-tab ${currentMode === 'word' ? 'active-tab' : ''}`}
-            style={{
-              padding: '0.75rem 1.5rem',
-              fontWeight: 600,
-              color: currentMode === 'word' ? '#3b82f6' : '#64748b',
-              borderBottom: currentMode === 'word' ? '3px solid #3b82f6' : '3px solid transparent',
-              transition: 'all 0.2s ease-in-out',
-              cursor: 'pointer',
-              minHeight: '44px'
-            }}
-          >
-            単語モード
-          </button>
-          <button
-            onClick={() => {
-              setShowResults(false);
-              setCurrentMode('polysemy');
-            }}
-            className={`mode-tab ${currentMode === 'polysemy' ? 'active-tab' : ''}`}
-            style={{
-              padding: '0.75rem 1.5rem',
-              fontWeight: 600,
-              color: currentMode === 'polysemy' ? '#3b82f6' : '#64748b',
-              borderBottom: currentMode === 'polysemy' ? '3px solid #3b82f6' : '3px solid transparent',
-              transition: 'all 0.2s ease-in-out',
-              cursor: 'pointer',
-              minHeight: '44px'
-            }}
-          >
-            多義語モード
-          </button>
-        </div>
+        {assignment ? (
+          <AssignmentBanner assignment={assignment} onLeave={handleLeaveAssignment} />
+        ) : (
+          <>
+          {/* Mode Selection Tabs */}
+          <div className="flex justify-center border-b border-slate-200 mb-4 bg-white rounded-t-2xl shadow-sm">
+            <button
+              onClick={() => {
+                setShowResults(false);
+                setCurrentMode('word');
+              }}
+              className={`mode-tab ${currentMode === 'word' ? 'active-tab' : ''}`}
+              style={{
+                padding: '0.75rem 1.5rem',
+                fontWeight: 600,
+                color: currentMode === 'word' ? '#3b82f6' : '#64748b',
+                borderBottom: currentMode === 'word' ? '3px solid #3b82f6' : '3px solid transparent',
+                transition: 'all 0.2s ease-in-out',
+                cursor: 'pointer',
+                minHeight: '44px'
+              }}
+            >
+              単語モード
+            </button>
+            <button
+              onClick={() => {
+                setShowResults(false);
+                setCurrentMode('polysemy');
+              }}
+              className={`mode-tab ${currentMode === 'polysemy' ? 'active-tab' : ''}`}
+              style={{
+                padding: '0.75rem 1.5rem',
+                fontWeight: 600,
+                color: currentMode === 'polysemy' ? '#3b82f6' : '#64748b',
+                borderBottom: currentMode === 'polysemy' ? '3px solid #3b82f6' : '3px solid transparent',
+                transition: 'all 0.2s ease-in-out',
+                cursor: 'pointer',
+                minHeight: '44px'
+              }}
+            >
+              多義語モード
+            </button>
+            <button
+              onClick={() => {
+                setShowResults(false);
+                setCurrentMode('grammar');
+              }}
+              className={`mode-tab ${currentMode === 'grammar' ? 'active-tab' : ''}`}
+              style={{
+                padding: '0.75rem 1.5rem',
+                fontWeight: 600,
+                color: currentMode === 'grammar' ? '#3b82f6' : '#64748b',
+                borderBottom: currentMode === 'grammar' ? '3px solid #3b82f6' : '3px solid transparent',
+                transition: 'all 0.2s ease-in-out',
+                cursor: 'pointer',
+                minHeight: '44px'
+              }}
+            >
+              文法モード
+            </button>
+          </div>
 
-        {/* Settings Area */}
-        <div className="bg-white p-3 rounded-b-2xl shadow-sm border-x border-b border-slate-200 mb-2">
-          {currentMode === 'word' ? (
-            <div className="grid grid-cols-2 gap-2">
-              {/* 左列: モードと問題数 */}
-              <div className="space-y-2">
-                <div>
-                  <select
-                    ref={wordQuizTypeRef}
-                    value={wordQuizType}
-                    onChange={(e) => setWordQuizType(e.target.value as WordQuizType)}
-                    className="w-full p-1 bg-slate-100 border border-slate-200 rounded text-xs"
-                  >
-                    <option value="word-meaning">単語→意味</option>
-                    <option value="word-reverse">意味→単語</option>
-                    <option value="sentence-meaning">例文→意味</option>
-                    <option value="meaning-writing">意味記述</option>
-                  </select>
+          {/* Settings Area（文法モードは GrammarDrill が設定と出題を持つ） */}
+          {currentMode === 'grammar' ? (
+            <GrammarDrill />
+          ) : (
+          <div className="bg-white p-3 rounded-b-2xl shadow-sm border-x border-b border-slate-200 mb-2">
+            {currentMode === 'word' ? (
+              <div className="grid grid-cols-2 gap-2">
+                {/* 左列: モードと問題数 */}
+                <div className="space-y-2">
+                  <div>
+                    <select
+                      ref={wordQuizTypeRef}
+                      value={wordQuizType}
+                      onChange={(e) => setWordQuizType(e.target.value as WordQuizType)}
+                      className="w-full p-1 bg-slate-100 border border-slate-200 rounded text-xs"
+                    >
+                      <option value="word-meaning">単語→意味</option>
+                      <option value="word-reverse">意味→単語</option>
+                      <option value="sentence-meaning">例文→意味</option>
+                      <option value="meaning-writing">意味記述</option>
+                    </select>
+                  </div>
+                  <div>
+                    <select
+                      value={wordQuizSource}
+                      onChange={(e) => setWordQuizSource(e.target.value as WordQuizSource)}
+                      className="w-full p-1 bg-slate-100 border border-slate-200 rounded text-xs"
+                    >
+                      <option value="range">範囲から出題</option>
+                      <option value="review-due">復習（期限切れ{dueCount}件）</option>
+                    </select>
+                  </div>
+                  {canPickEngine && wordQuizType === 'meaning-writing' && (
+                    <div>
+                      <select
+                        value={writingEngine}
+                        onChange={(e) => setWritingEngine(e.target.value as GraderName)}
+                        className="w-full p-1 bg-slate-100 border border-slate-200 rounded text-xs"
+                        title="採点エンジン"
+                      >
+                        {listGraders().map(g => (
+                          <option key={g.name} value={g.name}>{g.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  <div className="flex items-center space-x-1">
+                    <label className="text-xs text-slate-600 whitespace-nowrap">問題数</label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      pattern="[0-9]*"
+                      autoComplete="off"
+                      autoCorrect="off"
+                      enterKeyHint="done"
+                      value={wordNumQuestions}
+                      onChange={(e) => {
+                        const v = e.target.value;
+                        if (v === "") return;
+                        const n = parseInt(v, 10);
+                        if (!Number.isNaN(n)) setWordNumQuestions(Math.max(1, Math.min(330, n)));
+                      }}
+                      onBlur={(e) => {
+                        if (e.target.value === "" || Number.isNaN(parseInt(e.target.value, 10))) {
+                          setWordNumQuestions(10);
+                        }
+                      }}
+                      {...fullSelectA}
+                      onWheel={(e) => e.preventDefault()}
+                      min="1"
+                      max="330"
+                      placeholder="数"
+                      className="w-14 p-1 bg-slate-100 border border-slate-200 rounded text-center text-base"
+                      style={{
+                        MozAppearance: 'textfield',
+                        WebkitAppearance: 'none'
+                      }}
+                    />
+                  </div>
                 </div>
-                <div className="flex items-center space-x-1">
-                  <label className="text-xs text-slate-600 whitespace-nowrap">問題数</label>
-                  <input
-                    type="text"
-                    inputMode="numeric"
-                    pattern="[0-9]*"
-                    autoComplete="off"
-                    autoCorrect="off"
-                    enterKeyHint="done"
-                    value={wordNumQuestions}
-                    onChange={(e) => {
-                      const v = e.target.value;
-                      if (v === "") return;
-                      const n = parseInt(v, 10);
-                      if (!Number.isNaN(n)) setWordNumQuestions(Math.max(1, Math.min(330, n)));
-                    }}
-                    onBlur={(e) => {
-                      if (e.target.value === "" || Number.isNaN(parseInt(e.target.value, 10))) {
-                        setWordNumQuestions(10);
-                      }
-                    }}
-                    {...fullSelectA}
-                    onWheel={(e) => e.preventDefault()}
-                    min="1"
-                    max="330"
-                    placeholder="数"
-                    className="w-14 p-1 bg-slate-100 border border-slate-200 rounded text-center text-base"
-                    style={{
-                      MozAppearance: 'textfield',
-                      WebkitAppearance: 'none'
-                    }}
+                {/* 右列: 範囲選択 */}
+                <div>
+                  <RangeField
+                    value={wordRange}
+                    onChange={handleWordRangeChange}
+                    min={1}
+                    max={330}
                   />
                 </div>
               </div>
-              {/* 右列: 範囲選択 */}
-              <div>
-                <RangeField
-                  value={wordRange}
-                  onChange={handleWordRangeChange}
-                  min={1}
-                  max={330}
-                />
-              </div>
-            </div>
-          ) : (
-            <div className="grid grid-cols-2 gap-2">
-              {/* 左列: モードと問題数 */}
-              <div className="space-y-2">
-                <div>
-                  <select
-                    ref={polysemyQuizTypeRef}
-                    value={polysemyQuizType}
-                    onChange={(e) => setPolysemyQuizType(e.target.value as PolysemyQuizType)}
-                    className="w-full p-1 bg-slate-100 border border-slate-200 rounded text-xs"
-                  >
-                    <option value="example-comprehension">例文理解</option>
-                    <option value="true-false">正誤問題</option>
-                    <option value="context-writing">文脈記述</option>
-                  </select>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {/* 左列: モードと問題数 */}
+                <div className="space-y-2">
+                  <div>
+                    <select
+                      ref={polysemyQuizTypeRef}
+                      value={polysemyQuizType}
+                      onChange={(e) => setPolysemyQuizType(e.target.value as PolysemyQuizType)}
+                      className="w-full p-1 bg-slate-100 border border-slate-200 rounded text-xs"
+                    >
+                      <option value="example-comprehension">例文理解</option>
+                      <option value="true-false">正誤問題</option>
+                      <option value="context-writing">文脈記述</option>
+                    </select>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <label className="text-xs text-slate-600 whitespace-nowrap">問題数</label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      pattern="[0-9]*"
+                      autoComplete="off"
+                      autoCorrect="off"
+                      enterKeyHint="done"
+                      value={polysemyNumQuestions}
+                      onChange={(e) => {
+                        const v = e.target.value;
+                        if (v === "") return;
+                        const n = parseInt(v, 10);
+                        if (!Number.isNaN(n)) setPolysemyNumQuestions(Math.max(1, Math.min(330, n)));
+                      }}
+                      onBlur={(e) => {
+                        if (e.target.value === "" || Number.isNaN(parseInt(e.target.value, 10))) {
+                          setPolysemyNumQuestions(5);
+                        }
+                      }}
+                      {...fullSelectB}
+                      onWheel={(e) => e.preventDefault()}
+                      min="1"
+                      max="330"
+                      placeholder="数"
+                      className="w-14 p-1 bg-slate-100 border border-slate-200 rounded text-center text-base"
+                      style={{
+                        MozAppearance: 'textfield',
+                        WebkitAppearance: 'none'
+                      }}
+                    />
+                  </div>
                 </div>
-                <div className="flex items-center space-x-1">
-                  <label className="text-xs text-slate-600 whitespace-nowrap">問題数</label>
-                  <input
-                    type="text"
-                    inputMode="numeric"
-                    pattern="[0-9]*"
-                    autoComplete="off"
-                    autoCorrect="off"
-                    enterKeyHint="done"
-                    value={polysemyNumQuestions}
-                    onChange={(e) => {
-                      const v = e.target.value;
-                      if (v === "") return;
-                      const n = parseInt(v, 10);
-                      if (!Number.isNaN(n)) setPolysemyNumQuestions(Math.max(1, Math.min(330, n)));
-                    }}
-                    onBlur={(e) => {
-                      if (e.target.value === "" || Number.isNaN(parseInt(e.target.value, 10))) {
-                        setPolysemyNumQuestions(5);
-                      }
-                    }}
-                    {...fullSelectB}
-                    onWheel={(e) => e.preventDefault()}
-                    min="1"
-                    max="330"
-                    placeholder="数"
-                    className="w-14 p-1 bg-slate-100 border border-slate-200 rounded text-center text-base"
-                    style={{
-                      MozAppearance: 'textfield',
-                      WebkitAppearance: 'none'
-                    }}
+                {/* 右列: 範囲選択 */}
+                <div>
+                  <RangeField
+                    value={polysemyRange}
+                    onChange={handlePolysemyRangeChange}
+                    min={1}
+                    max={330}
                   />
                 </div>
               </div>
-              {/* 右列: 範囲選択 */}
-              <div>
-                <RangeField
-                  value={polysemyRange}
-                  onChange={handlePolysemyRangeChange}
-                  min={1}
-                  max={330}
-                />
-              </div>
-            </div>
+            )}
+          </div>
           )}
-        </div>
+            <div className="text-right mb-2">
+              <button
+                onClick={() => {
+                  const code = window.prompt('課題コードを入力してください');
+                  if (code) handleOpenAssignment(code);
+                }}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                課題コードを入力
+              </button>
+            </div>
+          </>
+        )}
 
 
         {/* Correct Answer Circle */}
@@ -1514,6 +1750,48 @@ function App() {
   );
 }
 
+// 課題中の表示（出題設定の代わり）
+const QUIZ_TYPE_LABELS: Record<string, string> = {
+  'word-meaning': '単語→意味',
+  'word-reverse': '意味→単語',
+  'sentence-meaning': '例文→意味',
+  'meaning-writing': '意味記述',
+  'example-comprehension': '例文理解',
+  'true-false': '正誤問題',
+  'context-writing': '文脈記述',
+};
+
+function AssignmentBanner({ assignment, onLeave }: { assignment: ActiveAssignment; onLeave: () => void }) {
+  const status = assignmentStatus(assignment);
+  const closesAt = new Date(assignment.closesAt).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  const opensAt = new Date(assignment.opensAt).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  const range = assignment.qids
+    ? `指定の${assignment.mode === 'word' ? '単語' : '多義語'}`
+    : `${assignment.groupFrom}〜${assignment.groupTo}`;
+
+  return (
+    <div className="bg-white p-3 rounded-2xl shadow-sm border border-blue-200 mb-2">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="text-xs text-blue-600 font-bold">課題</div>
+          <div className="font-bold text-slate-800">{assignment.title}</div>
+          <div className="text-xs text-slate-500 mt-1">
+            {QUIZ_TYPE_LABELS[assignment.quizType] ?? assignment.quizType}・{range}・{assignment.count}問
+          </div>
+        </div>
+        <button onClick={onLeave} className="text-xs text-slate-500 hover:text-slate-700 underline whitespace-nowrap">
+          課題をやめる
+        </button>
+      </div>
+      <div className={`text-xs mt-2 ${status === 'open' ? 'text-slate-600' : 'text-red-600'}`}>
+        {status === 'open' && `締切 ${closesAt}`}
+        {status === 'upcoming' && `${opensAt} から受付（それまでの回答は課題に記録されません）`}
+        {status === 'closed' && `締切（${closesAt}）を過ぎたため、回答は課題に記録されません`}
+      </div>
+    </div>
+  );
+}
+
 // Word Quiz Component
 interface WordQuizContentProps {
   question: QuizQuestion;
@@ -2163,43 +2441,39 @@ function ContextWritingContent({
     setUserJudgments(prev => ({ ...prev, [meaningQid]: isCorrect }));
 
     // 判定ボタン押下時に即座に送信
-    const anonId = localStorage.getItem('anonId') || `anon_${Date.now()}`;
-    if (!localStorage.getItem('anonId')) {
-      localStorage.setItem('anonId', anonId);
-    }
+    const anonId = getAnonId();
 
     const result = matchResults[meaningQid];
     const score = result?.score || 0;
     const userAnswer = (answers[meaningQid] || '').trim();
+    const logIdPromise = logAnswer({
+      qid: meaningQid,
+      quizType: 'context-writing',
+      correct: isCorrect,
+      score,
+      answerRaw: userAnswer,
+    });
 
     try {
-      const response = await fetch('/api/submitAnswer', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          qid: meaningQid,
-          answerRaw: userAnswer,
-          anonId,
-          autoScore: score,
-          autoResult: score >= 60 ? 'OK' : 'NG',
-          autoReason: result?.detail || result?.reason || 'auto_grading',
-          questionType: 'writing',
-        }),
-      });
-
-      const data = await response.json();
-
-      // ユーザー訂正を送信
-      if (data.answerId) {
-        await fetch('/api/userCorrectAnswer', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            answerId: data.answerId,
-            userCorrection: isCorrect ? 'OK' : 'NG',
-            userId: anonId,
-          }),
-        });
+      const logId = await logIdPromise;
+      const { answerId, queueId } = await submitAnswer({
+        qid: meaningQid,
+        answerRaw: userAnswer,
+        anonId,
+        autoScore: score,
+        autoResult: score >= 60 ? 'OK' : 'NG',
+        autoReason: result?.detail || result?.reason || 'auto_grading',
+        engine: 'matchSense',
+        questionType: 'writing',
+        quizType: 'context-writing',
+      }, { logId });
+
+      // ユーザー訂正を送信（オフラインなら再送時に送る）
+      if (answerId) {
+        await updateAnswer(logId, { answerId });
+        await postUserCorrection(answerId, { value: isCorrect ? 'OK' : 'NG', userId: anonId });
+      } else if (queueId) {
+        attachUserCorrection(queueId, isCorrect ? 'OK' : 'NG', anonId);
       }
     } catch (e) {
       console.error(`Failed to submit judgment for ${meaningQid}:`, e);
@@ -2211,10 +2485,7 @@ function ContextWritingContent({
 
     try {
       // Save to Firestore with user corrections
-      const anonId = localStorage.getItem('anonId') || `anon_${Date.now()}`;
-      if (!localStorage.getItem('anonId')) {
-        localStorage.setItem('anonId', anonId);
-      }
+      const anonId = getAnonId();
 
       // 並列送信: 未判定の意味のみ送信（判定済みはスキップ）
       const submitPromises = word.meanings
@@ -2223,22 +2494,28 @@ function ContextWritingContent({
           const result = matchResults[meaning.qid];
           const score = result?.score || 0;
           const userAnswer = (answers[meaning.qid] || '').trim();
+          const logIdPromise = logAnswer({
+            qid: meaning.qid,
+            quizType: 'context-writing',
+            correct: score >= 60,
+            score,
+            answerRaw: userAnswer,
+          });
 
           try {
-            // Submit answer (判定なしの回答のみ)
-            await fetch('/api/submitAnswer', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                qid: meaning.qid,
-                answerRaw: userAnswer,
-                anonId,
-                autoScore: score,
-                autoResult: score >= 60 ? 'OK' : 'NG',
-                autoReason: result?.detail || result?.reason || 'auto_grading',
-                questionType: 'writing',
-              }),
-            });
+            // Submit answer (判定なしの回答のみ、オフラインならキューへ)
+            const logId = await logIdPromise;
+            const { answerId } = await submitAnswer({
+              qid: meaning.qid,
+              answerRaw: userAnswer,
+              anonId,
+              autoScore: score,
+              autoResult: score >= 60 ? 'OK' : 'NG',
+              autoReason: result?.detail || result?.reason || 'auto_grading',
+              questionType: 'writing',
+              quizType: 'context-writing',
+            }, { logId });
+            if (answerId) await updateAnswer(logId, { answerId });
           } catch (e) {
             console.error(`Failed to submit answer for ${meaning.qid}:`, e);
           }
@@ -1,4 +1,5 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { analyzeSentence, type GlossToken } from '../lib/sentenceAnalyzer';
 
 interface ExampleDisplayProps {
   exampleKobun?: string;
@@ -7,9 +8,40 @@ interface ExampleDisplayProps {
   showKobun?: boolean;
   showModern?: boolean;
   forceShowModern?: boolean; // phaseに関わらず現代語訳を表示
+  analyzable?: boolean; // 古文をタップで逐語解析を表示
   className?: string;
 }
 
+// 係り結びの組ごとの色
+const KAKARI_COLORS = ['text-rose-600', 'text-violet-600', 'text-amber-600'];
+
+/** 例文の行間注（単語ごとに活用形・助動詞の意味・助詞の種類、係り結びは同じ色で組にする） */
+const InterlinearGloss: React.FC<{ tokens: GlossToken[] }> = ({ tokens }) => (
+  <div className="flex flex-wrap gap-x-1 gap-y-2 mt-1">
+    {tokens.map((t, i) => {
+      const color = t.kakari ? KAKARI_COLORS[t.kakari.pair % KAKARI_COLORS.length] : '';
+      const notes = [
+        t.kind === 'aux' ? '助動詞' : t.kind === 'particle' ? (t.gloss ? null : '助詞') : t.form ? t.pos : null,
+        t.gloss,
+        t.form && t.form !== '不明' ? t.form : null,
+        t.kakari ? (t.kakari.role === 'kakari' ? `係り→${t.kakari.expected}` : `結び（${t.kakari.expected}）`) : null,
+      ].filter(Boolean);
+      return (
+        <div key={i} className="flex flex-col items-center">
+          <span className={`text-sm ${t.kind === 'aux' || t.kind === 'particle' ? 'text-blue-700' : 'text-slate-800'} ${color} ${t.kakari ? 'font-bold' : ''}`}>
+            {t.surface}
+          </span>
+          {t.kind !== 'symbol' && (
+            <span className={`text-[10px] leading-tight text-center text-slate-500 ${color}`}>
+              {notes.map((n, j) => <div key={j}>{n}</div>)}
+            </span>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
 const ExampleDisplay: React.FC<ExampleDisplayProps> = ({
   exampleKobun = '',
   exampleModern = '',
@@ -17,8 +49,46 @@ const ExampleDisplay: React.FC<ExampleDisplayProps> = ({
   showKobun = true,
   showModern = true,
   forceShowModern = false,
+  analyzable = true,
   className = ''
 }) => {
+  const [analysis, setAnalysis] = useState<GlossToken[] | null>(null);
+  const [analysisState, setAnalysisState] = useState<'off' | 'loading' | 'on' | 'error'>('off');
+
+  // 解析の依頼番号。例文が変わったら進め、前の例文の解析結果は捨てる
+  const requestRef = useRef(0);
+
+  // 例文が変わったら解析を閉じる
+  useEffect(() => {
+    requestRef.current++;
+    setAnalysis(null);
+    setAnalysisState('off');
+  }, [exampleKobun]);
+
+  const toggleAnalysis = () => {
+    if (analysisState === 'on') {
+      setAnalysisState('off');
+      return;
+    }
+    if (analysis) {
+      setAnalysisState('on');
+      return;
+    }
+    const request = requestRef.current;
+    setAnalysisState('loading');
+    analyzeSentence(exampleKobun)
+      .then(tokens => {
+        if (request !== requestRef.current) return;
+        setAnalysis(tokens);
+        setAnalysisState('on');
+      })
+      .catch(e => {
+        if (request !== requestRef.current) return;
+        console.error('Failed to analyze example:', e);
+        setAnalysisState('error');
+      });
+  };
+
   if (!exampleKobun && !exampleModern) {
     return null;
   }
@@ -31,9 +101,16 @@ const ExampleDisplay: React.FC<ExampleDisplayProps> = ({
       {/* Classical Japanese text with emphasized lemma */}
       {showKobun && exampleKobun && (
         <div className="mb-1">
-          <div className="text-sm text-slate-800 leading-normal">
+          <div
+            className={`text-sm text-slate-800 leading-normal ${analyzable ? 'cursor-pointer' : ''}`}
+            onClick={analyzable ? toggleAnalysis : undefined}
+            title={analyzable ? 'タップで品詞・活用を表示' : undefined}
+          >
             {exampleKobun}
           </div>
+          {analysisState === 'loading' && <div className="text-xs text-slate-400 mt-1">解析中...</div>}
+          {analysisState === 'error' && <div className="text-xs text-red-500 mt-1">解析できませんでした</div>}
+          {analysisState === 'on' && analysis && <InterlinearGloss tokens={analysis} />}
         </div>
       )}
 
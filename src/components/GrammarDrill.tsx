@@ -0,0 +1,197 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { loadGrammarAsync, type GrammarIndex } from '../lib/grammarLoader';
+import {
+  generateGrammarQuiz,
+  GRAMMAR_QUIZ_LABELS,
+  GRAMMAR_QUIZ_TYPES,
+  type GrammarQuestion,
+  type GrammarQuizType,
+} from '../lib/grammarDrill';
+import IdentificationTrainer from './IdentificationTrainer';
+
+// 4択の問題に加えて、識別フローを1段ずつ答える「識別」
+type DrillType = GrammarQuizType | 'identification';
+const DRILL_TYPES: DrillType[] = [...GRAMMAR_QUIZ_TYPES, 'identification'];
+const DRILL_LABELS: Record<DrillType, string> = { ...GRAMMAR_QUIZ_LABELS, identification: '識別' };
+
+const optionLabels = ['ア', 'イ', 'ウ', 'エ'];
+
+/**
+ * 文法ドリル（活用語尾・助動詞の接続と意味・助詞の種類・識別）
+ * 出題設定・出題・結果をこのコンポーネントだけで持つ
+ */
+const GrammarDrill: React.FC = () => {
+  const [grammar, setGrammar] = useState<GrammarIndex | null>(null);
+  const [quizType, setQuizType] = useState<DrillType>(() => {
+    const saved = localStorage.getItem('kobun-grammarQuizType') as DrillType | null;
+    return saved && DRILL_TYPES.includes(saved) ? saved : 'conjugation';
+  });
+  const [numQuestions, setNumQuestions] = useState(() => {
+    const saved = localStorage.getItem('kobun-grammarNumQuestions');
+    return saved ? parseInt(saved, 10) : 10;
+  });
+  const [questions, setQuestions] = useState<GrammarQuestion[]>([]);
+  const [index, setIndex] = useState(0);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [score, setScore] = useState(0);
+
+  useEffect(() => {
+    loadGrammarAsync().then(setGrammar);
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem('kobun-grammarQuizType', quizType);
+  }, [quizType]);
+
+  useEffect(() => {
+    localStorage.setItem('kobun-grammarNumQuestions', numQuestions.toString());
+  }, [numQuestions]);
+
+  const start = useCallback(() => {
+    if (!grammar || quizType === 'identification') return;
+    setQuestions(generateGrammarQuiz(grammar, quizType, numQuestions));
+    setIndex(0);
+    setSelected(null);
+    setScore(0);
+  }, [grammar, quizType, numQuestions]);
+
+  // 設定を変えたら出し直す
+  useEffect(() => {
+    start();
+  }, [start]);
+
+  const question = questions[index];
+  const finished = questions.length > 0 && index >= questions.length;
+
+  const handleSelect = (option: string) => {
+    if (selected !== null || !question) return;
+    setSelected(option);
+    if (option === question.answer) setScore(prev => prev + 1);
+  };
+
+  const handleNext = () => {
+    setSelected(null);
+    setIndex(prev => prev + 1);
+  };
+
+  return (
+    <div>
+      {/* Settings Area */}
+      <div className="bg-white p-3 rounded-b-2xl shadow-sm border-x border-b border-slate-200 mb-2">
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={quizType}
+            onChange={(e) => setQuizType(e.target.value as DrillType)}
+            className="w-full p-1 bg-slate-100 border border-slate-200 rounded text-xs"
+          >
+            {DRILL_TYPES.map(t => (
+              <option key={t} value={t}>{DRILL_LABELS[t]}</option>
+            ))}
+          </select>
+          <div className="flex items-center space-x-1">
+            <label className="text-xs text-slate-600 whitespace-nowrap">問題数</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              pattern="[0-9]*"
+              autoComplete="off"
+              value={numQuestions}
+              onChange={(e) => {
+                const n = parseInt(e.target.value, 10);
+                if (!Number.isNaN(n)) setNumQuestions(Math.max(1, Math.min(100, n)));
+              }}
+              className="w-14 p-1 bg-slate-100 border border-slate-200 rounded text-center text-base"
+            />
+          </div>
+        </div>
+      </div>
+
+      {!grammar ? (
+        <div className="text-center text-slate-500 py-8">文法データを読み込み中...</div>
+      ) : quizType === 'identification' ? (
+        <IdentificationTrainer grammar={grammar} numQuestions={numQuestions} />
+      ) : finished ? (
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 text-center">
+          <h2 className="text-2xl font-bold text-slate-800 mb-2">結果</h2>
+          <p className="text-4xl font-black text-blue-600 mb-6">
+            {score} / {questions.length}
+          </p>
+          <button
+            onClick={start}
+            className="w-full font-bold py-4 px-4 rounded-lg shadow-md bg-blue-500 hover:bg-blue-600 text-white transition-colors"
+          >
+            もう一度
+          </button>
+        </div>
+      ) : question ? (
+        <div>
+          <div className="text-center mb-4">
+            <p className="text-sm text-slate-500 mb-1">{GRAMMAR_QUIZ_LABELS[question.quizType]}</p>
+            <h2 className="text-xl font-semibold text-slate-800 leading-snug">{question.prompt}</h2>
+          </div>
+
+          <div className="space-y-1">
+            {question.options.map((option, i) => {
+              let buttonClass = 'w-full text-left py-2.5 px-3 border-2 border-slate-200 rounded-md transition text-slate-700 font-medium';
+              if (selected !== null) {
+                buttonClass += ' pointer-events-none opacity-80';
+                if (option === question.answer) {
+                  buttonClass = buttonClass.replace('border-slate-200', 'border-green-400 bg-green-400 text-white');
+                } else if (option === selected) {
+                  buttonClass = buttonClass.replace('border-slate-200', 'border-red-400 bg-red-400 text-white');
+                }
+              } else {
+                buttonClass += ' hover:bg-slate-100 hover:border-blue-400';
+              }
+              return (
+                <button
+                  key={option}
+                  onClick={() => handleSelect(option)}
+                  className={buttonClass}
+                  style={{ minHeight: '44px' }}
+                >
+                  <span className="inline-flex items-center justify-center w-6 h-6 mr-4 rounded-full bg-slate-200 text-slate-600 font-bold">
+                    {optionLabels[i]}
+                  </span>
+                  {option}
+                </button>
+              );
+            })}
+          </div>
+
+          {selected !== null && (
+            <div className="mt-4">
+              <div className="p-3 bg-slate-100 rounded-lg text-sm text-slate-700">{question.explanation}</div>
+              <div className="mt-6 text-center">
+                <button
+                  onClick={handleNext}
+                  className="bg-slate-600 hover:bg-slate-700 text-white font-bold py-3 px-8 rounded-lg transition"
+                >
+                  次の問題へ
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Progress Bar */}
+          <div className="mt-3 pt-2 border-t border-slate-200">
+            <div className="flex justify-between items-center mb-2 text-sm">
+              <span className="font-bold text-slate-700">{index + 1}/{questions.length}</span>
+              <span className="text-xs text-slate-400">スコア: {score}</span>
+            </div>
+            <div className="w-full bg-slate-200 rounded-full h-2.5">
+              <div
+                className="bg-blue-500 h-2.5 rounded-full transition-all duration-300 ease-in-out"
+                style={{ width: `${Math.round(((index + 1) / questions.length) * 100)}%` }}
+              />
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="text-center text-slate-500 py-8">出題できる問題がありません。</div>
+      )}
+    </div>
+  );
+};
+
+export default GrammarDrill;
@@ -0,0 +1,197 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { GrammarIndex } from '../lib/grammarLoader';
+import { answerStep, generateIdentificationQuiz, type IdentificationQuestion } from '../lib/identificationDrill';
+import { logAnswer } from '../lib/answerLog';
+import { submitAnswer } from '../lib/answerQueue';
+import { getAnonId } from '../lib/studentIdentity';
+
+interface IdentificationTrainerProps {
+  grammar: GrammarIndex;
+  numQuestions: number;
+}
+
+interface StepAnswer {
+  yes: boolean;
+  correct: boolean;
+}
+
+/**
+ * 識別トレーナー：例文の〔〕の語について、識別フローの条件に順に「はい／いいえ」で答える
+ * 1問終わるごとに他のクイズと同じく端末内の履歴と /api/submitAnswer に記録する
+ */
+const IdentificationTrainer: React.FC<IdentificationTrainerProps> = ({ grammar, numQuestions }) => {
+  const [questions, setQuestions] = useState<IdentificationQuestion[]>([]);
+  const [index, setIndex] = useState(0);
+  const [answers, setAnswers] = useState<StepAnswer[]>([]);
+  const [done, setDone] = useState(false);
+  const [score, setScore] = useState(0);
+
+  const start = useCallback(() => {
+    setQuestions(generateIdentificationQuiz(grammar, numQuestions));
+    setIndex(0);
+    setAnswers([]);
+    setDone(false);
+    setScore(0);
+  }, [grammar, numQuestions]);
+
+  useEffect(() => {
+    start();
+  }, [start]);
+
+  const question = questions[index];
+  const finished = questions.length > 0 && index >= questions.length;
+
+  const record = async (q: IdentificationQuestion, correct: boolean, chosen: string) => {
+    const logId = await logAnswer({ qid: q.qid, quizType: 'identification', correct, answerRaw: chosen });
+    submitAnswer({
+      qid: q.qid,
+      answerRaw: chosen,
+      anonId: getAnonId(),
+      autoScore: correct ? 100 : 0,
+      autoResult: correct ? 'OK' : 'NG',
+      autoReason: 'identification',
+      questionType: 'selection',
+      quizType: 'identification',
+    }, { logId }).catch(e => {
+      console.error('Failed to submit answer:', e);
+    });
+  };
+
+  const handleStep = (yes: boolean) => {
+    if (!question || done) return;
+    const stepIndex = answers.length;
+    const outcome = answerStep(question, stepIndex, yes);
+    setAnswers(prev => [...prev, { yes, correct: outcome.correct }]);
+    if (!outcome.done) return;
+
+    // 間違えた時点で終わるので、最後の答えが正しければ全条件正解
+    const correct = outcome.correct;
+    setDone(true);
+    if (correct) setScore(prev => prev + 1);
+    record(question, correct, yes ? question.steps[stepIndex].result : '-');
+  };
+
+  const handleNext = () => {
+    setAnswers([]);
+    setDone(false);
+    setIndex(prev => prev + 1);
+  };
+
+  if (finished) {
+    return (
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 text-center">
+        <h2 className="text-2xl font-bold text-slate-800 mb-2">結果</h2>
+        <p className="text-4xl font-black text-blue-600 mb-6">
+          {score} / {questions.length}
+        </p>
+        <button
+          onClick={start}
+          className="w-full font-bold py-4 px-4 rounded-lg shadow-md bg-blue-500 hover:bg-blue-600 text-white transition-colors"
+        >
+          もう一度
+        </button>
+      </div>
+    );
+  }
+
+  if (!question) {
+    return <div className="text-center text-slate-500 py-8">出題できる問題がありません。</div>;
+  }
+
+  const currentStep = done ? null : question.steps[answers.length];
+  const solved = done && answers.every(a => a.correct);
+
+  return (
+    <div>
+      <div className="text-center mb-4">
+        <p className="text-sm text-slate-500 mb-1">「{question.word}」の識別</p>
+        <h2 className="text-xl font-semibold text-slate-800 leading-snug">
+          {question.before}
+          <span className="text-red-600 underline decoration-2 underline-offset-4">{question.target}</span>
+          {question.after}
+        </h2>
+        {question.source && <p className="text-xs text-slate-400 mt-1">（{question.source}）</p>}
+      </div>
+
+      {/* 答えた条件（note を解説として表示） */}
+      <ol className="space-y-1 mb-3">
+        {answers.map((a, i) => {
+          const step = question.steps[i];
+          return (
+            <li
+              key={i}
+              className={`p-2 rounded-md border-2 text-sm ${a.correct ? 'border-green-300 bg-green-50' : 'border-red-300 bg-red-50'}`}
+            >
+              <div className="text-slate-700">
+                {i + 1}. {step.condition}
+                <span className={`ml-2 font-bold ${a.correct ? 'text-green-600' : 'text-red-600'}`}>
+                  {a.yes ? 'はい' : 'いいえ'}
+                </span>
+              </div>
+              <div className="text-xs text-slate-500 mt-1">
+                当てはまれば{step.result}。{step.note}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {currentStep && (
+        <div className="p-3 border-2 border-slate-200 rounded-md">
+          <p className="text-slate-700 font-medium mb-3">
+            {answers.length + 1}. {currentStep.condition}
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => handleStep(true)}
+              className="py-2.5 px-3 border-2 border-slate-200 rounded-md font-medium text-slate-700 hover:bg-slate-100 hover:border-blue-400 transition"
+              style={{ minHeight: '44px' }}
+            >
+              はい
+            </button>
+            <button
+              onClick={() => handleStep(false)}
+              className="py-2.5 px-3 border-2 border-slate-200 rounded-md font-medium text-slate-700 hover:bg-slate-100 hover:border-blue-400 transition"
+              style={{ minHeight: '44px' }}
+            >
+              いいえ
+            </button>
+          </div>
+        </div>
+      )}
+
+      {done && (
+        <div className="mt-2">
+          <div className={`p-3 rounded-lg text-sm ${solved ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+            {solved ? '正解' : '不正解'}：この「{question.target}」は{question.steps[question.answerStep].result}
+            <div className="text-xs mt-1">{question.steps[question.answerStep].note}</div>
+          </div>
+          <div className="mt-6 text-center">
+            <button
+              onClick={handleNext}
+              className="bg-slate-600 hover:bg-slate-700 text-white font-bold py-3 px-8 rounded-lg transition"
+            >
+              次の問題へ
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Progress Bar */}
+      <div className="mt-3 pt-2 border-t border-slate-200">
+        <div className="flex justify-between items-center mb-2 text-sm">
+          <span className="font-bold text-slate-700">{index + 1}/{questions.length}</span>
+          <span className="text-xs text-slate-400">スコア: {score}</span>
+        </div>
+        <div className="w-full bg-slate-200 rounded-full h-2.5">
+          <div
+            className="bg-blue-500 h-2.5 rounded-full transition-all duration-300 ease-in-out"
+            style={{ width: `${Math.round(((index + 1) / questions.length) * 100)}%` }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IdentificationTrainer;
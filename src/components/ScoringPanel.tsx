@@ -3,7 +3,7 @@
  */
 import React, { useState } from 'react';
 import { Item } from '../data/loadItems';
-import { gradeMeaningSimple, GradeResultSimple } from '../scoring/gradeMeaningSimple';
+import { gradeWith, listGraders, GradeOutcome, GraderName } from '../scoring/graders';
 
 interface ScoringPanelProps {
   item: Item;
@@ -11,7 +11,8 @@ interface ScoringPanelProps {
 
 export function ScoringPanel({ item }: ScoringPanelProps) {
   const [answer, setAnswer] = useState('');
-  const [result, setResult] = useState<GradeResultSimple | null>(null);
+  const [engine, setEngine] = useState<GraderName>('gradeMeaningSimple');
+  const [result, setResult] = useState<GradeOutcome | null>(null);
   const [isGrading, setIsGrading] = useState(false);
   const [userCorrection, setUserCorrection] = useState<'OK' | 'NG' | null>(null);
 
@@ -23,7 +24,9 @@ export function ScoringPanel({ item }: ScoringPanelProps) {
 
     setIsGrading(true);
     try {
-      const gradeResult = await gradeMeaningSimple(item.translation, answer, {
+      const gradeResult = await gradeWith(engine, {
+        answer,
+        gold: item.translation,
         ba_condition: item.ba_condition
       });
       setResult(gradeResult);
@@ -51,7 +54,7 @@ export function ScoringPanel({ item }: ScoringPanelProps) {
 
   const getFinalResult = () => {
     if (userCorrection) return userCorrection;
-    return result && result.score >= 60 ? 'OK' : 'NG';
+    return result?.label === 'OK' ? 'OK' : 'NG';
   };
 
   const getBaConditionNote = () => {
@@ -105,6 +108,21 @@ export function ScoringPanel({ item }: ScoringPanelProps) {
         />
       </div>
 
+      {/* 採点エンジン */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-slate-700 mb-2">採点エンジン</label>
+        <select
+          value={engine}
+          onChange={(e) => { setEngine(e.target.value as GraderName); setResult(null); }}
+          className="w-full p-2 border-2 border-slate-300 rounded-lg"
+          disabled={isGrading}
+        >
+          {listGraders().map(g => (
+            <option key={g.name} value={g.name}>{g.name} - {g.description}</option>
+          ))}
+        </select>
+      </div>
+
       {/* 採点ボタン */}
       <div className="mb-6">
         <button
@@ -126,22 +144,21 @@ export function ScoringPanel({ item }: ScoringPanelProps) {
             <p className={`text-5xl font-bold ${getScoreColor(result.score)}`}>
               {result.score}点
             </p>
+            <p className="text-sm text-slate-500 mt-1">
+              {result.label}（{result.engine} / {result.code}）
+            </p>
           </div>
 
           {/* 内訳 */}
           <div className="mb-6">
             <h4 className="text-sm font-medium text-slate-700 mb-2">スコア内訳</h4>
             <div className="space-y-2 text-sm">
-              <div className="flex justify-between">
-                <span>基本類似度:</span>
-                <span className="font-medium">{result.breakdown.baseSimilarity}点</span>
-              </div>
-              {result.breakdown.penalty !== 0 && (
-                <div className="flex justify-between text-red-600">
-                  <span>ペナルティ:</span>
-                  <span className="font-medium">-{result.breakdown.penalty}点</span>
+              {Object.entries(result.features).map(([key, value]) => (
+                <div key={key} className={`flex justify-between ${value < 0 ? 'text-red-600' : ''}`}>
+                  <span>{key}:</span>
+                  <span className="font-medium">{Math.round(value * 100) / 100}</span>
                 </div>
-              )}
+              ))}
               <div className="flex justify-between border-t pt-2 font-bold">
                 <span>最終スコア:</span>
                 <span>{result.score}点</span>
@@ -153,7 +170,7 @@ export function ScoringPanel({ item }: ScoringPanelProps) {
           <div>
             <h4 className="text-sm font-medium text-slate-700 mb-2">フィードバック</h4>
             <ul className="space-y-1 text-sm text-slate-600">
-              {result.feedback.map((fb, idx) => (
+              {result.reasons.map((fb, idx) => (
                 <li key={idx} className="flex items-start">
                   <span className="mr-2">•</span>
                   <span>{fb}</span>
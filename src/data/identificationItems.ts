@@ -0,0 +1,30 @@
+/**
+ * 識別問題の例文（文法モード「識別」）
+ * sentence の〔〕が識別する語。result は kobun-grammar.json の identification_rules_flow の result と同じ表記
+ */
+
+export interface IdentificationItem {
+  id: string;
+  /** identification_rules_flow の語 */
+  word: string;
+  sentence: string;
+  result: string;
+  /** 出典（作例は省略） */
+  source?: string;
+}
+
+export const IDENTIFICATION_ITEMS: IdentificationItem[] = [
+  { id: "namu-1", word: "なむ", sentence: "もと光る竹〔なむ〕一筋ありける。", result: "係助詞", source: "竹取物語" },
+  { id: "namu-2", word: "なむ", sentence: "いつしか梅咲か〔なむ〕。", result: "終助詞", source: "更級日記" },
+  { id: "namu-3", word: "なむ", sentence: "髪もいみじく長くなり〔なむ〕。", result: "助動詞（ぬ＋む）", source: "更級日記" },
+
+  { id: "ni-1", word: "に", sentence: "花の色はうつり〔に〕けりないたづらに", result: "助動詞「ぬ」の連用形", source: "古今和歌集" },
+  { id: "ni-2", word: "に", sentence: "おのが身は、この国の人〔に〕もあらず。", result: "助動詞「なり」の連用形", source: "竹取物語" },
+  { id: "ni-3", word: "に", sentence: "十二月の二十日あまり一日の日の戌の時〔に〕門出す。", result: "格助詞", source: "土佐日記" },
+  { id: "ni-4", word: "に", sentence: "あやしがりて寄りて見る〔に〕、筒の中光りたり。", result: "接続助詞", source: "竹取物語" },
+  { id: "ni-5", word: "に", sentence: "ほのか〔に〕うち光りて行くもをかし。", result: "形容動詞の連用形", source: "枕草子" },
+
+  { id: "nu-1", word: "ぬ", sentence: "京には見え〔ぬ〕鳥なれば、みな人見知らず。", result: "助動詞「ず」の連体形", source: "伊勢物語" },
+  { id: "nu-2", word: "ぬ", sentence: "潮満ち〔ぬ〕。風も吹きぬべし。", result: "助動詞「ぬ」の終止形", source: "土佐日記" },
+  { id: "nu-3", word: "ぬ", sentence: "翁、やまひ重くなりて、つひに死〔ぬ〕。", result: "ナ変動詞「死ぬ／往ぬ」の終止形" },
+];
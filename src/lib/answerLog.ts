@@ -0,0 +1,131 @@
+/**
+ * 端末内の回答履歴（IndexedDB）
+ * 採点済みの回答を qid・クイズ種別つきで保存し、/progress の集計元にする
+ */
+
+const DB_NAME = 'kobun-answer-log';
+const DB_VERSION = 1;
+const STORE = 'answers';
+
+export type LoggedQuizType =
+  | 'word-meaning' | 'word-reverse' | 'sentence-meaning' | 'meaning-writing'
+  | 'example-comprehension' | 'true-false' | 'context-writing'
+  | 'identification';
+
+export interface AnswerLogEntry {
+  id?: number;
+  qid: string;
+  quizType: LoggedQuizType;
+  correct: boolean;
+  ts: number;           // epoch ms
+  score?: number;       // 記述式の自動採点スコア
+  answerRaw?: string;
+  answerId?: string;    // answers コレクションの docId（送信済みの場合）
+  clientTs?: number;    // 送信時の clientTs（answerId が付く前の回答をサーバの回答と突き合わせる）
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      store.createIndex('qid', 'qid');
+      store.createIndex('quizType', 'quizType');
+      store.createIndex('answerId', 'answerId', { unique: true });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+  }));
+}
+
+/** 回答を1件記録し、ローカルIDを返す（IndexedDB が使えない場合は null） */
+export async function logAnswer(entry: Omit<AnswerLogEntry, 'id' | 'ts'> & { ts?: number }): Promise<number | null> {
+  try {
+    const id = await run('readwrite', store => store.add({ ts: Date.now(), ...entry }));
+    return id as number;
+  } catch (e) {
+    console.warn('Failed to log answer:', e);
+    return null;
+  }
+}
+
+/** 記録済みの回答を部分更新（送信後の answerId 付与、手動判定の反映など） */
+export async function updateAnswer(id: number | null, patch: Partial<Omit<AnswerLogEntry, 'id'>>): Promise<void> {
+  if (id === null) return;
+  try {
+    const current = await run<AnswerLogEntry | undefined>('readonly', store => store.get(id));
+    if (!current) return;
+    await run('readwrite', store => store.put({ ...current, ...patch, id }));
+  } catch (e) {
+    console.warn('Failed to update answer log:', e);
+  }
+}
+
+export async function getAllAnswers(): Promise<AnswerLogEntry[]> {
+  try {
+    return await run<AnswerLogEntry[]>('readonly', store => store.getAll());
+  } catch {
+    return [];
+  }
+}
+
+export type RemoteMergeStep =
+  | { type: 'update'; id: number; patch: Partial<Omit<AnswerLogEntry, 'id'>> }
+  | { type: 'add'; entry: Omit<AnswerLogEntry, 'id'> };
+
+/**
+ * サーバの回答をどう取り込むか決める
+ * answerId が既知なら final の正誤で上書き。未知でも、answerId が付かないままの端末の回答と qid・clientTs が
+ * 一致すればその回答に answerId を付ける（オフラインで送った回答を二重に数えない）。どちらでもなければ追加
+ */
+export function planRemoteMerge(local: AnswerLogEntry[], remote: AnswerLogEntry[]): RemoteMergeStep[] {
+  const byAnswerId = new Map(local.filter(e => e.answerId).map(e => [e.answerId!, e]));
+  const unsent = new Map(
+    local.filter(e => !e.answerId && e.clientTs !== undefined && e.id !== undefined).map(e => [`${e.qid}::${e.clientTs}`, e])
+  );
+  const steps: RemoteMergeStep[] = [];
+
+  for (const r of remote) {
+    if (!r.answerId) continue;
+    const existing = byAnswerId.get(r.answerId);
+    if (existing) {
+      if (existing.correct !== r.correct) steps.push({ type: 'update', id: existing.id!, patch: { correct: r.correct } });
+      continue;
+    }
+    const pending = r.clientTs !== undefined ? unsent.get(`${r.qid}::${r.clientTs}`) : undefined;
+    if (pending) {
+      unsent.delete(`${r.qid}::${r.clientTs}`);
+      steps.push({ type: 'update', id: pending.id!, patch: { answerId: r.answerId, correct: r.correct } });
+    } else {
+      const { id: _ignored, ...rest } = r;
+      steps.push({ type: 'add', entry: rest });
+    }
+  }
+  return steps;
+}
+
+/** サーバの回答（answers コレクション）を取り込み、変更した件数を返す */
+export async function mergeRemoteAnswers(remote: AnswerLogEntry[]): Promise<number> {
+  const steps = planRemoteMerge(await getAllAnswers(), remote);
+  for (const step of steps) {
+    if (step.type === 'update') await updateAnswer(step.id, step.patch);
+    else await logAnswer(step.entry);
+  }
+  return steps.length;
+}
@@ -0,0 +1,144 @@
+/**
+ * 回答送信キュー（オフライン対応）
+ * /api/submitAnswer に届かなかった回答を localStorage に溜め、オンライン復帰時に再送する
+ */
+import { updateAnswer } from './answerLog';
+import { getAnonKey, getStudentClass } from './studentIdentity';
+import { getActiveAssignment } from './assignment';
+
+const QUEUE_KEY = 'kobun-pending-answers';
+
+type UserCorrection = 'OK' | 'NG' | 'PARTIAL';
+
+interface PendingAnswer {
+  queueId: string;
+  body: Record<string, unknown>;  // /api/submitAnswer のリクエストボディ（clientTs 付き）
+  logId?: number | null;          // 端末内履歴（answerLog）の ID
+  userCorrection?: { value: UserCorrection; userId: string };
+}
+
+export interface SubmitResult {
+  answerId?: string;
+  queueId?: string;  // オフラインでキューに積まれた場合
+  final?: { result: 'OK' | 'NG' | 'ABSTAIN'; source: string; reason?: string };  // サーバーで確定した判定（辞書・override 反映後）
+}
+
+function loadQueue(): PendingAnswer[] {
+  try {
+    const stored = localStorage.getItem(QUEUE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveQueue(queue: PendingAnswer[]) {
+  try {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  } catch {
+    // localStorage が使えない場合は無視
+  }
+}
+
+/** レート制限（429）。サーバーに拒否されたわけではないので、キューに残して後で送る */
+class RateLimitedError extends Error {}
+
+async function postAnswer(body: Record<string, unknown>): Promise<Pick<SubmitResult, 'answerId' | 'final'>> {
+  const response = await fetch('/api/submitAnswer', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-anon-key': getAnonKey() },
+    body: JSON.stringify(body),
+  });
+  if (response.status === 429) throw new RateLimitedError('submitAnswer rate limited');
+  if (!response.ok) throw new Error(`submitAnswer failed: ${response.status}`);
+  const data = await response.json();
+  return { answerId: data.answerId, final: data.final };
+}
+
+/** 回答への手動判定を送る（本人確認のため anonKey を x-anon-key で付ける） */
+export async function postUserCorrection(answerId: string, correction: NonNullable<PendingAnswer['userCorrection']>) {
+  await fetch('/api/userCorrectAnswer', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-anon-key': getAnonKey() },
+    body: JSON.stringify({ answerId, userCorrection: correction.value, userId: correction.userId, anonId: correction.userId }),
+  });
+}
+
+/** ネットワーク到達不可・レート制限（サーバエラーではない）か */
+function isNetworkError(e: unknown) {
+  return !navigator.onLine || e instanceof TypeError || e instanceof RateLimitedError;
+}
+
+/**
+ * 回答を送信する。オフライン・レート制限中ならキューに積んで queueId を返す
+ * サーバエラー（4xx/5xx）はキューに積まず例外として返す
+ * 参加中のクラス・開いている課題があれば classId / assignmentId を付ける（解答時点のもので記録するためキューにも入れる）
+ */
+export async function submitAnswer(
+  body: Record<string, unknown>,
+  options: { logId?: number | null } = {}
+): Promise<SubmitResult> {
+  const payload = {
+    classId: getStudentClass()?.classId,
+    assignmentId: getActiveAssignment()?.assignmentId,
+    ...body,
+    clientTs: Date.now(),
+  };
+  // 端末内履歴にも clientTs を残す（answerId が付く前に同期しても重複させない）
+  if (options.logId != null) await updateAnswer(options.logId, { clientTs: payload.clientTs });
+  try {
+    return await postAnswer(payload);
+  } catch (e) {
+    if (!isNetworkError(e)) throw e;
+    const queueId = `q_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    saveQueue([...loadQueue(), { queueId, body: payload, logId: options.logId }]);
+    return { queueId };
+  }
+}
+
+/** キュー内の回答に手動判定を付ける（再送後に /api/userCorrectAnswer へ送る） */
+export function attachUserCorrection(queueId: string, value: UserCorrection, userId: string) {
+  saveQueue(loadQueue().map(p => p.queueId === queueId ? { ...p, userCorrection: { value, userId } } : p));
+}
+
+export function pendingCount(): number {
+  return loadQueue().length;
+}
+
+let flushing = false;
+
+/**
+ * キューを先頭から再送する。ネットワークエラー・レート制限で止まったら残りは次回に回す
+ * サーバに拒否された回答は再送しても通らないので破棄する
+ */
+export async function flushQueue(): Promise<number> {
+  if (flushing || !navigator.onLine) return 0;
+  flushing = true;
+  let sent = 0;
+  try {
+    for (const item of loadQueue()) {
+      try {
+        const { answerId } = await postAnswer(item.body);
+        if (answerId) {
+          await updateAnswer(item.logId ?? null, { answerId });
+          if (item.userCorrection) await postUserCorrection(answerId, item.userCorrection);
+        }
+        sent++;
+      } catch (e) {
+        if (isNetworkError(e)) break;
+        console.error('Dropping rejected queued answer:', e);
+      }
+      // 1件ごとに保存（途中で閉じられても二重送信しない）
+      saveQueue(loadQueue().filter(p => p.queueId !== item.queueId));
+    }
+  } finally {
+    flushing = false;
+  }
+  return sent;
+}
+
+/** オンライン復帰時・起動時にキューを再送する */
+export function startQueueSync() {
+  window.addEventListener('online', () => { flushQueue(); });
+  flushQueue();
+}
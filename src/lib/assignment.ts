@@ -0,0 +1,72 @@
+/**
+ * 生徒が開いている課題（/api/openAssignment で課題コードから取得）
+ * 課題を開いている間は出題設定を課題のものに固定し、回答に assignmentId を付けて送る
+ * 開く前の出題設定は一緒に保存しておき、課題を閉じたら戻す
+ */
+
+const ASSIGNMENT_KEY = 'kobun-assignment';
+
+export type AssignmentStatus = 'upcoming' | 'open' | 'closed';
+
+export interface ActiveAssignment {
+  assignmentId: string;
+  code: string;
+  title: string;
+  classId: string | null;
+  mode: 'word' | 'polysemy';
+  quizType: string;
+  qids: string[] | null;
+  groupFrom: number | null;
+  groupTo: number | null;
+  count: number;
+  opensAt: string;
+  closesAt: string;
+}
+
+/** 課題を開く前の出題設定（App.tsx の state をそのまま保存） */
+export type QuizSettingsSnapshot = Record<string, unknown>;
+
+interface Stored {
+  assignment: ActiveAssignment;
+  previous: QuizSettingsSnapshot;
+}
+
+function load(): Stored | null {
+  try {
+    const stored = localStorage.getItem(ASSIGNMENT_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getActiveAssignment(): ActiveAssignment | null {
+  return load()?.assignment ?? null;
+}
+
+/** 受付状況（端末の時計で判定。記録するかどうかはサーバーが決める） */
+export function assignmentStatus(a: Pick<ActiveAssignment, 'opensAt' | 'closesAt'>, at = Date.now()): AssignmentStatus {
+  if (at < Date.parse(a.opensAt)) return 'upcoming';
+  if (at > Date.parse(a.closesAt)) return 'closed';
+  return 'open';
+}
+
+/** 課題コードで課題を開く（別の課題を開いていた場合は、最初に保存した設定を引き継ぐ） */
+export async function openAssignment(code: string, current: QuizSettingsSnapshot): Promise<ActiveAssignment> {
+  const response = await fetch(`/api/openAssignment?code=${encodeURIComponent(code)}`);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(response.status === 404 ? '課題コードが見つかりません' : data.error || `openAssignment failed: ${response.status}`);
+  }
+  const { status: _status, ...assignment } = data.assignment as ActiveAssignment & { status: AssignmentStatus };
+  const previous = load()?.previous ?? current;
+  localStorage.setItem(ASSIGNMENT_KEY, JSON.stringify({ assignment, previous }));
+  return assignment;
+}
+
+/** 課題を閉じて、開く前の出題設定を返す */
+export function leaveAssignment(): QuizSettingsSnapshot | null {
+  const previous = load()?.previous ?? null;
+  localStorage.removeItem(ASSIGNMENT_KEY);
+  return previous;
+}
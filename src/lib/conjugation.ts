@@ -0,0 +1,411 @@
+/**
+ * 活用エンジン（kobun-grammar.json の活用表から語形を作る・語形から逆引きする）
+ * - conjugate: 基本形＋活用の種類（＋助動詞の連なり）から六つの活用形を作る
+ * - analyzeConjugated: 語形から基本形・活用の種類・活用形の候補を返す（候補は conjugate で作り直して確かめる）
+ *
+ * 動詞は表の例の行（書く＝カ行）を他の行に移して使う（読む＝マ行）。
+ * 表の語尾で「（く）」のように括弧付きのものはまれな形として扱い、逆引きの候補で後ろに回す
+ */
+import type { GrammarIndex } from './grammarLoader';
+import type { Form } from '../utils/formGuesser';
+
+export type ConjugatedForm = Exclude<Form, '不明'>;
+
+export const CONJUGATED_FORMS: ConjugatedForm[] = ['未然形', '連用形', '終止形', '連体形', '已然形', '命令形'];
+
+/** 活用形ごとの語形（別形があれば複数、その活用形が無ければ空） */
+export type Paradigm = Record<ConjugatedForm, string[]>;
+
+interface Ending {
+  text: string;
+  rare: boolean;
+}
+
+export interface ConjugationClass {
+  /** 活用の種類（"四段" "上二段" "ク活用" など。助動詞は語そのもの） */
+  name: string;
+  品詞: string;
+  /** 表の例の基本形（"静かナリ" は "静かなり" に直す） */
+  example: string;
+  endings: Record<ConjugatedForm, Ending[]>;
+  /** 表の例の行（動詞のみ。他の行の語はこの行から移す） */
+  row: string | null;
+  /** 語幹と語尾の区別がない語（見る・来 など）の漢字表記 */
+  kanji: string | null;
+  /** 語幹なしで立つ（見る＝みる、来＝く、す） */
+  bare: boolean;
+}
+
+export interface AuxiliaryClass extends ConjugationClass {
+  /** 表の語（"たり（完了・存続）" など） */
+  語: string;
+  接続: string;
+}
+
+export interface ConjugationTables {
+  classes: ConjugationClass[];
+  auxiliaries: AuxiliaryClass[];
+}
+
+export interface Conjugation {
+  基本形: string;
+  分類: string;
+  /** 付けた助動詞（表の語） */
+  助動詞: string[];
+  forms: Paradigm;
+}
+
+export interface ConjugationCandidate {
+  基本形: string;
+  分類: string;
+  品詞: string;
+  助動詞: string[];
+  form: ConjugatedForm;
+  /** まれな形（「（く）」など）として当たった */
+  rare: boolean;
+}
+
+// 行（ア段〜オ段）。い・う・え はワ行・ヤ行を先に見る（植う→植ゑ）
+const ROWS = [
+  'わゐうゑを', 'やいゆえよ', 'あいうえお',
+  'かきくけこ', 'がぎぐげご', 'さしすせそ', 'ざじずぜぞ', 'たちつてと', 'だぢづでど',
+  'なにぬねの', 'はひふへほ', 'ばびぶべぼ', 'まみむめも', 'らりるれろ',
+];
+
+const FORM_KEYS: Record<ConjugatedForm, string> = {
+  '未然形': '未然', '連用形': '連用', '終止形': '終止', '連体形': '連体', '已然形': '已然', '命令形': '命令',
+};
+
+const rowOf = (kana: string) => ROWS.find(r => r.includes(kana)) ?? null;
+
+/** "さしすせそ" と "ざじずぜぞ" は同じ行の清濁 */
+const plainRow = (row: string) => row.normalize('NFD').replace(/[\u3099\u309a]/g, '');
+
+/** 変格活用は清濁の行（す→ず）だけ、それ以外はどの行にも移せる */
+function rowsFor(cls: ConjugationClass): string[] {
+  if (!cls.row) return [];
+  if (!cls.name.endsWith('変')) return ROWS;
+  const plain = plainRow(cls.row);
+  return ROWS.filter(r => plainRow(r) === plain);
+}
+
+const toHiragana = (s: string) => s.replace(/[ァ-ヶ]/g, c => String.fromCharCode(c.charCodeAt(0) - 0x60));
+
+/** 語尾の仮名を from の行から to の行へ移す（行に無い仮名はそのまま） */
+function shiftRow(text: string, from: string, to: string): string {
+  return Array.from(text).map(c => {
+    const i = from.indexOf(c);
+    return i >= 0 ? to[i] : c;
+  }).join('');
+}
+
+/** "せ／し／す" → 3つ、"（く）／から" → まれな「く」と「から」 */
+function parseEndings(cell: string | undefined): Ending[] {
+  if (!cell) return [];
+  return cell.split('／').map(s => s.trim()).filter(Boolean).map(s => {
+    const m = /^（(.+)）$/.exec(s);
+    return m ? { text: m[1], rare: true } : { text: s, rare: false };
+  });
+}
+
+function parseParadigm(table: Record<string, string> | undefined): Record<ConjugatedForm, Ending[]> {
+  const endings = {} as Record<ConjugatedForm, Ending[]>;
+  for (const form of CONJUGATED_FORMS) endings[form] = parseEndings(table?.[FORM_KEYS[form]]);
+  return endings;
+}
+
+const mainEnding = (endings: Ending[]) => endings.find(e => !e.rare) ?? endings[0];
+
+/**
+ * 表の例1つを活用の種類にする
+ * 上一二段・下一二段は例ごとに一段（終止＝未然＋る）か二段かを分ける
+ */
+function classFromExample(分類: string, 品詞: string, ex: { 基本形: string; 語尾: Record<string, string> }): ConjugationClass {
+  const endings = parseParadigm(ex.語尾);
+  const shushi = mainEnding(endings['終止形'])?.text ?? '';
+  const mizen = mainEnding(endings['未然形'])?.text ?? '';
+
+  let name = 分類;
+  const dan = /^([上下])一二段$/.exec(分類);
+  if (dan) name = `${dan[1]}${shushi === `${mizen}る` ? '一' : '二'}段`;
+
+  const row = 品詞 === '動詞' ? rowOf(shushi.charAt(0)) : null;
+  // 見る（みる）・来（く）のように、基本形が終止形の語尾で終わらないものは漢字1字が行の仮名に当たる
+  const rest = shushi.slice(1);
+  const kanji = row && !ex.基本形.endsWith(shushi) && ex.基本形.endsWith(rest)
+    ? ex.基本形.slice(0, ex.基本形.length - rest.length)
+    : null;
+
+  const example = toHiragana(ex.基本形);
+  return { name, 品詞, example, endings, row, kanji, bare: kanji !== null || example === shushi };
+}
+
+/** 文法インデックスから活用表を組み立てる */
+export function buildConjugationTables(grammar: Pick<GrammarIndex, 'verbs' | 'adjectives' | 'auxiliaries'>): ConjugationTables {
+  const classes: ConjugationClass[] = [];
+  const add = (c: ConjugationClass) => {
+    if (!classes.some(x => x.name === c.name)) classes.push(c);
+  };
+  for (const v of grammar.verbs) {
+    for (const ex of v.例) add(classFromExample(v.分類, v.品詞, { 基本形: ex.基本形, 語尾: ex.活用語尾 }));
+  }
+  for (const a of grammar.adjectives) {
+    for (const ex of a.例) add(classFromExample(a.分類, a.品詞, { 基本形: ex.基本形, 語尾: ex.語尾変化 }));
+  }
+
+  const auxiliaries: AuxiliaryClass[] = grammar.auxiliaries
+    .filter(a => a.活用)
+    .map(a => ({
+      name: a.語,
+      品詞: '助動詞',
+      example: a.語,
+      endings: parseParadigm(a.活用),
+      row: null,
+      kanji: null,
+      bare: true,
+      語: a.語,
+      接続: a.接続,
+    }));
+
+  return { classes, auxiliaries };
+}
+
+const tablesCache = new WeakMap<object, ConjugationTables>();
+
+/** 同じ GrammarIndex からは一度だけ組み立てる */
+export function getConjugationTables(grammar: GrammarIndex): ConjugationTables {
+  let tables = tablesCache.get(grammar);
+  if (!tables) {
+    tables = buildConjugationTables(grammar);
+    tablesCache.set(grammar, tables);
+  }
+  return tables;
+}
+
+/** "上二" → "上二段"、"ク" → "ク活用" のような略称も受け付ける */
+function findClass(tables: ConjugationTables, name: string): ConjugationClass | undefined {
+  const names = [name, `${name}段`, `${name}活用`, name.replace(/活用$/, '')];
+  return tables.classes.find(c => names.includes(c.name));
+}
+
+interface Stem {
+  stem: string;
+  /** 語の行（行を移さない種類・漢字表記では null） */
+  row: string | null;
+  kanji: boolean;
+}
+
+/** 語尾1つを語の語幹・行に合わせて語形にする */
+function realize(cls: ConjugationClass, stem: Stem, ending: string): string {
+  if (stem.kanji && cls.row && cls.row.includes(ending.charAt(0))) return stem.stem + ending.slice(1);
+  if (stem.row && cls.row) return stem.stem + shiftRow(ending, cls.row, stem.row);
+  return stem.stem + ending;
+}
+
+/** 語形が活用語尾 ending で終わる読み方をすべて挙げる（語幹と行） */
+function stemsFor(cls: ConjugationClass, word: string, ending: string): Stem[] {
+  const stems: Stem[] = [];
+  // 語幹なしを許すのは「見る」「来」「す」のように語全体が語尾の種類だけ
+  // 「来」のように漢字1字だけの語は、仮名書きでは「く」単独のみ（前に語が付くのは漢字書き）
+  const alone = cls.kanji !== null && cls.kanji === cls.example;
+  const accept = (realized: string) =>
+    word.endsWith(realized) && (alone ? word === realized : cls.bare || word.length > realized.length);
+
+  if (cls.row) {
+    for (const row of rowsFor(cls)) {
+      if (accept(shiftRow(ending, cls.row, row))) {
+        stems.push({ stem: word.slice(0, word.length - ending.length), row, kanji: false });
+      }
+    }
+    if (cls.kanji && cls.row.includes(ending.charAt(0))) {
+      const written = cls.kanji + ending.slice(1);
+      if (word.endsWith(written)) stems.push({ stem: word.slice(0, word.length - written.length + cls.kanji.length), row: null, kanji: true });
+    }
+  } else if (accept(ending)) {
+    stems.push({ stem: word.slice(0, word.length - ending.length), row: null, kanji: false });
+  }
+  return stems;
+}
+
+function paradigmOf(cls: ConjugationClass, stem: Stem): Record<ConjugatedForm, Ending[]> {
+  const out = {} as Record<ConjugatedForm, Ending[]>;
+  for (const form of CONJUGATED_FORMS) {
+    out[form] = cls.endings[form].map(e => ({ text: realize(cls, stem, e.text), rare: e.rare }));
+  }
+  return out;
+}
+
+const toParadigm = (p: Record<ConjugatedForm, Ending[]>): Paradigm => {
+  const out = {} as Paradigm;
+  for (const form of CONJUGATED_FORMS) out[form] = p[form].map(e => e.text);
+  return out;
+};
+
+/** ラ変型（補助活用を含む）：終止形が「り」で終わるか、連体形に「〜る」の別形がある */
+function isRaHenType(p: Record<ConjugatedForm, Ending[]>): boolean {
+  return p['終止形'].some(e => e.text.endsWith('り'))
+    || (p['連体形'].length > 1 && p['連体形'].some(e => e.text.endsWith('る')));
+}
+
+/**
+ * 助動詞の「接続」の書き方から、前の語に求める活用形を決める
+ * "連用形" / "終止形（ラ変は連体形）" / "サ変の未然形・四段の已然形" / "四段・ナ変・ラ変以外の未然形" / "体言、連体形"
+ */
+function connectionForms(接続: string, className: string, p: Record<ConjugatedForm, Ending[]>): ConjugatedForm[] {
+  const forms: ConjugatedForm[] = [];
+  const push = (f: string) => {
+    if ((CONJUGATED_FORMS as string[]).includes(f) && !forms.includes(f as ConjugatedForm)) forms.push(f as ConjugatedForm);
+  };
+  for (const part of 接続.split('、')) {
+    const raHen = /^([^（]+形)（ラ変は([^）]+形)）$/.exec(part);
+    if (raHen) {
+      push(isRaHenType(p) ? raHen[2] : raHen[1]);
+      continue;
+    }
+    // 「〇〇の△形」は活用の種類ごと（「以外」は否定）
+    const specific = Array.from(part.matchAll(/(?:^|・)((?:[^・の]+・)*[^・の]+?)(以外)?の([^・の]+?形)/g));
+    if (specific.length === 0) {
+      push(part);
+      continue;
+    }
+    for (const [, classes, except, form] of specific) {
+      const listed = classes.split('・').some(c => className.startsWith(c));
+      if (listed !== Boolean(except)) push(form);
+    }
+  }
+  return forms;
+}
+
+/** 助動詞を付けるときの形（補助活用「から・かり・かる」などラ変型の別形を優先、まれな形は使わない） */
+function attachingForm(endings: Ending[]): string | null {
+  const usual = endings.filter(e => !e.rare);
+  const pool = usual.length > 0 ? usual : endings;
+  if (pool.length === 0) return null;
+  const auxiliary = pool.length > 1 ? pool.find(e => /[らりるれ]$/.test(e.text)) : undefined;
+  return (auxiliary ?? pool[0]).text;
+}
+
+/** "む" "ん" "たり" "たり（完了・存続）" のどれでも表の助動詞を引く */
+function auxCandidates(tables: ConjugationTables, name: string): AuxiliaryClass[] {
+  const exact = tables.auxiliaries.filter(a => a.語 === name);
+  if (exact.length > 0) return exact;
+  return tables.auxiliaries.filter(a => {
+    const m = /^([^（]+)(?:（([^）]+)）)?$/.exec(a.語);
+    return m !== null && (m[1] === name || m[2] === name);
+  });
+}
+
+interface Link {
+  name: string;
+  paradigm: Record<ConjugatedForm, Ending[]>;
+}
+
+/** 前の語に助動詞を1つ付ける（接続できなければ null） */
+function attach(tables: ConjugationTables, prev: Link, auxName: string): { aux: AuxiliaryClass; link: Link } | null {
+  for (const aux of auxCandidates(tables, auxName)) {
+    for (const form of connectionForms(aux.接続, prev.name, prev.paradigm)) {
+      const prefix = attachingForm(prev.paradigm[form]);
+      if (prefix === null) continue;
+      return { aux, link: { name: aux.name, paradigm: paradigmOf(aux, { stem: prefix, row: null, kanji: false }) } };
+    }
+  }
+  return null;
+}
+
+/**
+ * 基本形と活用の種類から六つの活用形を作る
+ * 助動詞を渡すと順に付けた形（書く＋る＋たり＋けり → 書かれたりけり）の活用形を返す
+ * 基本形が種類に合わない・接続できない助動詞があるときは null
+ */
+export function conjugate(tables: ConjugationTables, 基本形: string, 分類: string, 助動詞: string[] = []): Conjugation | null {
+  const cls = findClass(tables, 分類);
+  if (!cls) return null;
+  const shushi = mainEnding(cls.endings['終止形']);
+  if (!shushi) return null;
+  const stem = stemsFor(cls, 基本形, shushi.text)[0];
+  if (!stem) return null;
+
+  let link: Link = { name: cls.name, paradigm: paradigmOf(cls, stem) };
+  const attached: string[] = [];
+  for (const name of 助動詞) {
+    const next = attach(tables, link, name);
+    if (!next) return null;
+    attached.push(next.aux.語);
+    link = next.link;
+  }
+  return { 基本形, 分類: cls.name, 助動詞: attached, forms: toParadigm(link.paradigm) };
+}
+
+/** 助動詞の語形から、どの助動詞のどの活用形かを引く */
+export function analyzeAuxiliary(tables: ConjugationTables, surface: string): ConjugationCandidate[] {
+  const out: ConjugationCandidate[] = [];
+  for (const aux of tables.auxiliaries) {
+    for (const form of CONJUGATED_FORMS) {
+      const hit = aux.endings[form].find(e => e.text === surface);
+      if (hit) out.push({ 基本形: aux.語, 分類: aux.name, 品詞: '助動詞', 助動詞: [], form, rare: hit.rare });
+    }
+  }
+  return sortCandidates(out);
+}
+
+const sortCandidates = (cs: ConjugationCandidate[]) =>
+  cs.map((c, i) => ({ c, i })).sort((a, b) => Number(a.c.rare) - Number(b.c.rare) || a.i - b.i).map(x => x.c);
+
+const candidateKey = (c: ConjugationCandidate) => `${c.基本形}|${c.分類}|${c.助動詞.join('+')}|${c.form}`;
+
+function analyzeWord(tables: ConjugationTables, surface: string): ConjugationCandidate[] {
+  const out: ConjugationCandidate[] = [];
+  for (const cls of tables.classes) {
+    const shushi = mainEnding(cls.endings['終止形']);
+    if (!shushi) continue;
+    for (const form of CONJUGATED_FORMS) {
+      for (const ending of cls.endings[form]) {
+        for (const stem of stemsFor(cls, surface, ending.text)) {
+          out.push({
+            基本形: realize(cls, stem, shushi.text),
+            分類: cls.name,
+            品詞: cls.品詞,
+            助動詞: [],
+            form,
+            rare: ending.rare,
+          });
+        }
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * 語形から「基本形＋活用の種類（＋助動詞）＋活用形」の候補を挙げる
+ * 候補はどれも conjugate で作り直すと surface になる。まれな形の候補は後ろ、それ以外は表の順
+ */
+export function analyzeConjugated(tables: ConjugationTables, surface: string, maxAux = 3): ConjugationCandidate[] {
+  const seen = new Set<string>();
+  const out: ConjugationCandidate[] = [];
+  const push = (c: ConjugationCandidate) => {
+    const key = candidateKey(c);
+    if (seen.has(key)) return;
+    const made = conjugate(tables, c.基本形, c.分類, c.助動詞);
+    if (!made || !made.forms[c.form].includes(surface)) return;
+    seen.add(key);
+    out.push(c);
+  };
+
+  for (const c of analyzeWord(tables, surface)) push(c);
+
+  if (maxAux > 0) {
+    for (const aux of tables.auxiliaries) {
+      for (const form of CONJUGATED_FORMS) {
+        for (const ending of aux.endings[form]) {
+          if (!surface.endsWith(ending.text) || surface.length === ending.text.length) continue;
+          const left = surface.slice(0, surface.length - ending.text.length);
+          for (const prev of analyzeConjugated(tables, left, maxAux - 1)) {
+            push({ ...prev, 助動詞: [...prev.助動詞, aux.語], form, rare: prev.rare || ending.rare });
+          }
+        }
+      }
+    }
+  }
+  return sortCandidates(out);
+}
@@ -0,0 +1,1938 @@
+/**
+ * 活用表（自動生成・直接編集しない）
+ * kobun-grammar.json から npm run gen:grammar-rules で作る
+ */
+import type { ConjugationTables } from "./conjugation";
+
+export const CONJUGATION_TABLES: ConjugationTables = {
+  "classes": [
+    {
+      "name": "四段",
+      "品詞": "動詞",
+      "example": "書く",
+      "endings": {
+        "未然形": [
+          {
+            "text": "か",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "き",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "く",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "く",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "け",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "け",
+            "rare": false
+          }
+        ]
+      },
+      "row": "かきくけこ",
+      "kanji": null,
+      "bare": false
+    },
+    {
+      "name": "上一段",
+      "品詞": "動詞",
+      "example": "見る",
+      "endings": {
+        "未然形": [
+          {
+            "text": "み",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "み",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "みる",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "みる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "みれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "みよ",
+            "rare": false
+          }
+        ]
+      },
+      "row": "まみむめも",
+      "kanji": "見",
+      "bare": true
+    },
+    {
+      "name": "上二段",
+      "品詞": "動詞",
+      "example": "起く",
+      "endings": {
+        "未然形": [
+          {
+            "text": "き",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "き",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "く",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "くる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "くれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "きよ",
+            "rare": false
+          }
+        ]
+      },
+      "row": "かきくけこ",
+      "kanji": null,
+      "bare": false
+    },
+    {
+      "name": "下一段",
+      "品詞": "動詞",
+      "example": "蹴る",
+      "endings": {
+        "未然形": [
+          {
+            "text": "け",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "け",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "ける",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "ける",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "けれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "けよ",
+            "rare": false
+          }
+        ]
+      },
+      "row": "かきくけこ",
+      "kanji": "蹴",
+      "bare": true
+    },
+    {
+      "name": "下二段",
+      "品詞": "動詞",
+      "example": "受く",
+      "endings": {
+        "未然形": [
+          {
+            "text": "け",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "け",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "く",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "くる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "くれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "けよ",
+            "rare": false
+          }
+        ]
+      },
+      "row": "かきくけこ",
+      "kanji": null,
+      "bare": false
+    },
+    {
+      "name": "カ変",
+      "品詞": "動詞",
+      "example": "来",
+      "endings": {
+        "未然形": [
+          {
+            "text": "こ",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "き",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "く",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "くる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "くれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "こ",
+            "rare": false
+          }
+        ]
+      },
+      "row": "かきくけこ",
+      "kanji": "来",
+      "bare": true
+    },
+    {
+      "name": "サ変",
+      "品詞": "動詞",
+      "example": "す",
+      "endings": {
+        "未然形": [
+          {
+            "text": "せ",
+            "rare": false
+          },
+          {
+            "text": "し",
+            "rare": false
+          },
+          {
+            "text": "す",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "し",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "す",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "する",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "すれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "せよ",
+            "rare": false
+          }
+        ]
+      },
+      "row": "さしすせそ",
+      "kanji": null,
+      "bare": true
+    },
+    {
+      "name": "ナ変",
+      "品詞": "動詞",
+      "example": "死ぬ",
+      "endings": {
+        "未然形": [
+          {
+            "text": "な",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "に",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "ぬ",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "ぬる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "ぬれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "ね",
+            "rare": false
+          }
+        ]
+      },
+      "row": "なにぬねの",
+      "kanji": null,
+      "bare": false
+    },
+    {
+      "name": "ラ変",
+      "品詞": "動詞",
+      "example": "あり",
+      "endings": {
+        "未然形": [
+          {
+            "text": "ら",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "り",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "り",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "る",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "れ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "れ",
+            "rare": false
+          }
+        ]
+      },
+      "row": "らりるれろ",
+      "kanji": null,
+      "bare": false
+    },
+    {
+      "name": "ク活用",
+      "品詞": "形容詞",
+      "example": "高し",
+      "endings": {
+        "未然形": [
+          {
+            "text": "く",
+            "rare": true
+          },
+          {
+            "text": "から",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "く",
+            "rare": false
+          },
+          {
+            "text": "かり",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "し",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "き",
+            "rare": false
+          },
+          {
+            "text": "かる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "けれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "かれ",
+            "rare": false
+          }
+        ]
+      },
+      "row": null,
+      "kanji": null,
+      "bare": false
+    },
+    {
+      "name": "シク活用",
+      "品詞": "形容詞",
+      "example": "美し",
+      "endings": {
+        "未然形": [
+          {
+            "text": "しく",
+            "rare": true
+          },
+          {
+            "text": "しから",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "しく",
+            "rare": false
+          },
+          {
+            "text": "しかり",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "し",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "しき",
+            "rare": false
+          },
+          {
+            "text": "しかる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "しけれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "しかれ",
+            "rare": false
+          }
+        ]
+      },
+      "row": null,
+      "kanji": null,
+      "bare": false
+    },
+    {
+      "name": "ナリ活用",
+      "品詞": "形容動詞",
+      "example": "静かなり",
+      "endings": {
+        "未然形": [
+          {
+            "text": "なら",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "に",
+            "rare": false
+          },
+          {
+            "text": "なり",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "なり",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "なる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "なれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "なれ",
+            "rare": false
+          }
+        ]
+      },
+      "row": null,
+      "kanji": null,
+      "bare": false
+    },
+    {
+      "name": "タリ活用",
+      "品詞": "形容動詞",
+      "example": "堂々たり",
+      "endings": {
+        "未然形": [
+          {
+            "text": "たら",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "と",
+            "rare": false
+          },
+          {
+            "text": "たり",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "たり",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "たる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "たれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "たれ",
+            "rare": false
+          }
+        ]
+      },
+      "row": null,
+      "kanji": null,
+      "bare": false
+    }
+  ],
+  "auxiliaries": [
+    {
+      "name": "き",
+      "品詞": "助動詞",
+      "example": "き",
+      "endings": {
+        "未然形": [
+          {
+            "text": "せ",
+            "rare": true
+          }
+        ],
+        "連用形": [],
+        "終止形": [
+          {
+            "text": "き",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "し",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "しか",
+            "rare": false
+          }
+        ],
+        "命令形": []
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "き",
+      "接続": "連用形"
+    },
+    {
+      "name": "けり",
+      "品詞": "助動詞",
+      "example": "けり",
+      "endings": {
+        "未然形": [
+          {
+            "text": "けら",
+            "rare": true
+          }
+        ],
+        "連用形": [],
+        "終止形": [
+          {
+            "text": "けり",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "ける",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "けれ",
+            "rare": false
+          }
+        ],
+        "命令形": []
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "けり",
+      "接続": "連用形"
+    },
+    {
+      "name": "つ",
+      "品詞": "助動詞",
+      "example": "つ",
+      "endings": {
+        "未然形": [
+          {
+            "text": "て",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "て",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "つ",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "つる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "つれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "てよ",
+            "rare": false
+          }
+        ]
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "つ",
+      "接続": "連用形"
+    },
+    {
+      "name": "ぬ",
+      "品詞": "助動詞",
+      "example": "ぬ",
+      "endings": {
+        "未然形": [
+          {
+            "text": "な",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "に",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "ぬ",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "ぬる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "ぬれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "ね",
+            "rare": false
+          }
+        ]
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "ぬ",
+      "接続": "連用形"
+    },
+    {
+      "name": "たり（完了・存続）",
+      "品詞": "助動詞",
+      "example": "たり（完了・存続）",
+      "endings": {
+        "未然形": [
+          {
+            "text": "たら",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "たり",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "たり",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "たる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "たれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "たれ",
+            "rare": false
+          }
+        ]
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "たり（完了・存続）",
+      "接続": "連用形"
+    },
+    {
+      "name": "り",
+      "品詞": "助動詞",
+      "example": "り",
+      "endings": {
+        "未然形": [
+          {
+            "text": "ら",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "り",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "り",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "る",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "れ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "れ",
+            "rare": false
+          }
+        ]
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "り",
+      "接続": "サ変の未然形・四段の已然形"
+    },
+    {
+      "name": "む（ん）",
+      "品詞": "助動詞",
+      "example": "む（ん）",
+      "endings": {
+        "未然形": [
+          {
+            "text": "ま",
+            "rare": true
+          }
+        ],
+        "連用形": [],
+        "終止形": [
+          {
+            "text": "む",
+            "rare": false
+          },
+          {
+            "text": "ん",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "む",
+            "rare": false
+          },
+          {
+            "text": "ん",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "め",
+            "rare": false
+          }
+        ],
+        "命令形": []
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "む（ん）",
+      "接続": "未然形"
+    },
+    {
+      "name": "らむ",
+      "品詞": "助動詞",
+      "example": "らむ",
+      "endings": {
+        "未然形": [],
+        "連用形": [],
+        "終止形": [
+          {
+            "text": "らむ",
+            "rare": false
+          },
+          {
+            "text": "らん",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "らむ",
+            "rare": false
+          },
+          {
+            "text": "らん",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "らめ",
+            "rare": false
+          }
+        ],
+        "命令形": []
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "らむ",
+      "接続": "終止形（ラ変は連体形）"
+    },
+    {
+      "name": "けむ",
+      "品詞": "助動詞",
+      "example": "けむ",
+      "endings": {
+        "未然形": [],
+        "連用形": [],
+        "終止形": [
+          {
+            "text": "けむ",
+            "rare": false
+          },
+          {
+            "text": "けん",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "けむ",
+            "rare": false
+          },
+          {
+            "text": "けん",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "けめ",
+            "rare": false
+          }
+        ],
+        "命令形": []
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "けむ",
+      "接続": "連用形"
+    },
+    {
+      "name": "べし",
+      "品詞": "助動詞",
+      "example": "べし",
+      "endings": {
+        "未然形": [
+          {
+            "text": "べく",
+            "rare": false
+          },
+          {
+            "text": "べから",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "べく",
+            "rare": false
+          },
+          {
+            "text": "べかり",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "べし",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "べき",
+            "rare": false
+          },
+          {
+            "text": "べかる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "べけれ",
+            "rare": false
+          }
+        ],
+        "命令形": []
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "べし",
+      "接続": "終止形（ラ変は連体形）"
+    },
+    {
+      "name": "まじ",
+      "品詞": "助動詞",
+      "example": "まじ",
+      "endings": {
+        "未然形": [
+          {
+            "text": "まじく",
+            "rare": false
+          },
+          {
+            "text": "まじから",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "まじく",
+            "rare": false
+          },
+          {
+            "text": "まじかり",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "まじ",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "まじき",
+            "rare": false
+          },
+          {
+            "text": "まじかる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "まじけれ",
+            "rare": false
+          }
+        ],
+        "命令形": []
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "まじ",
+      "接続": "終止形（ラ変は連体形）"
+    },
+    {
+      "name": "らし",
+      "品詞": "助動詞",
+      "example": "らし",
+      "endings": {
+        "未然形": [],
+        "連用形": [],
+        "終止形": [
+          {
+            "text": "らし",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "らし",
+            "rare": false
+          },
+          {
+            "text": "らしき",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "らし",
+            "rare": false
+          }
+        ],
+        "命令形": []
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "らし",
+      "接続": "終止形（ラ変は連体形）"
+    },
+    {
+      "name": "めり",
+      "品詞": "助動詞",
+      "example": "めり",
+      "endings": {
+        "未然形": [],
+        "連用形": [
+          {
+            "text": "めり",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "めり",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "める",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "めれ",
+            "rare": false
+          }
+        ],
+        "命令形": []
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "めり",
+      "接続": "終止形（ラ変は連体形）"
+    },
+    {
+      "name": "なり（伝聞・推定）",
+      "品詞": "助動詞",
+      "example": "なり（伝聞・推定）",
+      "endings": {
+        "未然形": [],
+        "連用形": [
+          {
+            "text": "なり",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "なり",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "なる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "なれ",
+            "rare": false
+          }
+        ],
+        "命令形": []
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "なり（伝聞・推定）",
+      "接続": "終止形（ラ変は連体形）"
+    },
+    {
+      "name": "ず",
+      "品詞": "助動詞",
+      "example": "ず",
+      "endings": {
+        "未然形": [
+          {
+            "text": "ず",
+            "rare": true
+          },
+          {
+            "text": "ざら",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "ず",
+            "rare": false
+          },
+          {
+            "text": "ざり",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "ず",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "ぬ",
+            "rare": false
+          },
+          {
+            "text": "ざる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "ね",
+            "rare": false
+          },
+          {
+            "text": "ざれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "ざれ",
+            "rare": false
+          }
+        ]
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "ず",
+      "接続": "未然形"
+    },
+    {
+      "name": "じ",
+      "品詞": "助動詞",
+      "example": "じ",
+      "endings": {
+        "未然形": [],
+        "連用形": [],
+        "終止形": [
+          {
+            "text": "じ",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "じ",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "じ",
+            "rare": false
+          }
+        ],
+        "命令形": []
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "じ",
+      "接続": "未然形"
+    },
+    {
+      "name": "る",
+      "品詞": "助動詞",
+      "example": "る",
+      "endings": {
+        "未然形": [
+          {
+            "text": "れ",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "れ",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "る",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "るる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "るれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "れよ",
+            "rare": false
+          }
+        ]
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "る",
+      "接続": "四段・ナ変・ラ変の未然形"
+    },
+    {
+      "name": "らる",
+      "品詞": "助動詞",
+      "example": "らる",
+      "endings": {
+        "未然形": [
+          {
+            "text": "られ",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "られ",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "らる",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "らるる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "らるれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "られよ",
+            "rare": false
+          }
+        ]
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "らる",
+      "接続": "四段・ナ変・ラ変以外の未然形"
+    },
+    {
+      "name": "す",
+      "品詞": "助動詞",
+      "example": "す",
+      "endings": {
+        "未然形": [
+          {
+            "text": "せ",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "せ",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "す",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "する",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "すれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "せよ",
+            "rare": false
+          }
+        ]
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "す",
+      "接続": "四段・ナ変・ラ変の未然形"
+    },
+    {
+      "name": "さす",
+      "品詞": "助動詞",
+      "example": "さす",
+      "endings": {
+        "未然形": [
+          {
+            "text": "させ",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "させ",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "さす",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "さする",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "さすれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "させよ",
+            "rare": false
+          }
+        ]
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "さす",
+      "接続": "四段・ナ変・ラ変以外の未然形"
+    },
+    {
+      "name": "しむ",
+      "品詞": "助動詞",
+      "example": "しむ",
+      "endings": {
+        "未然形": [
+          {
+            "text": "しめ",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "しめ",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "しむ",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "しむる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "しむれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "しめよ",
+            "rare": false
+          }
+        ]
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "しむ",
+      "接続": "未然形"
+    },
+    {
+      "name": "まし",
+      "品詞": "助動詞",
+      "example": "まし",
+      "endings": {
+        "未然形": [
+          {
+            "text": "ませ",
+            "rare": true
+          },
+          {
+            "text": "ましか",
+            "rare": false
+          }
+        ],
+        "連用形": [],
+        "終止形": [
+          {
+            "text": "まし",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "まし",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "ましか",
+            "rare": false
+          }
+        ],
+        "命令形": []
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "まし",
+      "接続": "未然形"
+    },
+    {
+      "name": "まほし",
+      "品詞": "助動詞",
+      "example": "まほし",
+      "endings": {
+        "未然形": [
+          {
+            "text": "まほしく",
+            "rare": false
+          },
+          {
+            "text": "まほしから",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "まほしく",
+            "rare": false
+          },
+          {
+            "text": "まほしかり",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "まほし",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "まほしき",
+            "rare": false
+          },
+          {
+            "text": "まほしかる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "まほしけれ",
+            "rare": false
+          }
+        ],
+        "命令形": []
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "まほし",
+      "接続": "未然形"
+    },
+    {
+      "name": "たし",
+      "品詞": "助動詞",
+      "example": "たし",
+      "endings": {
+        "未然形": [
+          {
+            "text": "たく",
+            "rare": false
+          },
+          {
+            "text": "たから",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "たく",
+            "rare": false
+          },
+          {
+            "text": "たかり",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "たし",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "たき",
+            "rare": false
+          },
+          {
+            "text": "たかる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "たけれ",
+            "rare": false
+          }
+        ],
+        "命令形": []
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "たし",
+      "接続": "連用形"
+    },
+    {
+      "name": "なり（断定）",
+      "品詞": "助動詞",
+      "example": "なり（断定）",
+      "endings": {
+        "未然形": [
+          {
+            "text": "なら",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "なり",
+            "rare": false
+          },
+          {
+            "text": "に",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "なり",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "なる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "なれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "なれ",
+            "rare": false
+          }
+        ]
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "なり（断定）",
+      "接続": "体言、連体形"
+    },
+    {
+      "name": "たり（断定）",
+      "品詞": "助動詞",
+      "example": "たり（断定）",
+      "endings": {
+        "未然形": [
+          {
+            "text": "たら",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "たり",
+            "rare": false
+          },
+          {
+            "text": "と",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "たり",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "たる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "たれ",
+            "rare": false
+          }
+        ],
+        "命令形": [
+          {
+            "text": "たれ",
+            "rare": false
+          }
+        ]
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "たり（断定）",
+      "接続": "体言"
+    },
+    {
+      "name": "ごとし",
+      "品詞": "助動詞",
+      "example": "ごとし",
+      "endings": {
+        "未然形": [
+          {
+            "text": "ごとく",
+            "rare": false
+          }
+        ],
+        "連用形": [
+          {
+            "text": "ごとく",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "ごとし",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "ごとき",
+            "rare": false
+          }
+        ],
+        "已然形": [],
+        "命令形": []
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "ごとし",
+      "接続": "体言、連体形"
+    },
+    {
+      "name": "べらなり",
+      "品詞": "助動詞",
+      "example": "べらなり",
+      "endings": {
+        "未然形": [],
+        "連用形": [
+          {
+            "text": "べらに",
+            "rare": false
+          }
+        ],
+        "終止形": [
+          {
+            "text": "べらなり",
+            "rare": false
+          }
+        ],
+        "連体形": [
+          {
+            "text": "べらなる",
+            "rare": false
+          }
+        ],
+        "已然形": [
+          {
+            "text": "べらなれ",
+            "rare": false
+          }
+        ],
+        "命令形": []
+      },
+      "row": null,
+      "kanji": null,
+      "bare": true,
+      "語": "べらなり",
+      "接続": "終止形（ラ変は連体形）"
+    }
+  ]
+};
@@ -0,0 +1,32 @@
+/**
+ * アンサンブル採点の設定（/api/ensemble）のクライアント側キャッシュ
+ * サーバー（submitAnswer）と同じ構成・判定方式で採点するため、前回取得した設定を localStorage に保存する
+ */
+import { DEFAULT_ENSEMBLE, resolveEnsembleConfig, validateEnsembleConfig, type EnsembleConfig } from '../scoring/ensemble';
+
+const CACHE_KEY = 'kobun-ensemble';
+
+export function getCachedEnsembleConfig(): EnsembleConfig {
+  try {
+    const stored = localStorage.getItem(CACHE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed && !validateEnsembleConfig(parsed) ? resolveEnsembleConfig(parsed) : DEFAULT_ENSEMBLE;
+  } catch {
+    return DEFAULT_ENSEMBLE;
+  }
+}
+
+/** サーバーから取得してキャッシュを更新（失敗時はキャッシュを返す） */
+export async function loadEnsembleConfig(): Promise<EnsembleConfig> {
+  try {
+    const response = await fetch('/api/ensemble');
+    if (!response.ok) throw new Error(`ensemble failed: ${response.status}`);
+    const data = await response.json();
+    if (validateEnsembleConfig(data.config ?? {})) throw new Error('invalid ensemble config');
+    const config = resolveEnsembleConfig(data.config);
+    localStorage.setItem(CACHE_KEY, JSON.stringify(config));
+    return config;
+  } catch {
+    return getCachedEnsembleConfig();
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * 採点エンジンの回帰ベンチマーク（集計部分）
+ * ラベル付き解答コーパスに対する正解率・混同行列・reason 別の適合率/再現率を出す
+ * CLI は scripts/bench.ts
+ */
+import type { GradeLabel, GradeOutcome } from "../scoring/grader";
+
+export type HumanLabel = "OK" | "NG";
+
+/** コーパス1行（JSONL） */
+export interface BenchItem {
+  /** 問題ID（gold 省略時は問題データの語義を正解にする） */
+  qid?: string;
+  answer: string;
+  /** 人手の判定（manual / override の final.result） */
+  label: HumanLabel;
+  /** 正解訳を直接指定する場合 */
+  gold?: string;
+  ba_condition?: "" | "確定" | "仮定";
+  /** 出典（answerId など） */
+  source?: string;
+}
+
+export interface BenchResult {
+  key: string;
+  qid: string | null;
+  answer: string;
+  label: HumanLabel;
+  predicted: GradeLabel;
+  score: number;
+  code: string;
+  correct: boolean;
+}
+
+export interface ReasonStats {
+  support: number;
+  /** この reason で OK と判定したうち、人手も OK の割合 */
+  precision: number | null;
+  /** この reason に振られた人手 OK のうち、OK と判定できた割合 */
+  recall: number | null;
+}
+
+export interface BenchReport {
+  engine: string;
+  version: string;
+  total: number;
+  accuracy: number;
+  /** ABSTAIN 以外の割合 */
+  coverage: number;
+  /** ABSTAIN を除いた正解率 */
+  decidedAccuracy: number;
+  /** confusion[人手][判定] */
+  confusion: Record<HumanLabel, Record<GradeLabel, number>>;
+  byReason: Record<string, ReasonStats>;
+  worst: BenchResult[];
+  results: BenchResult[];
+}
+
+export interface BaselineDiff {
+  accuracyDelta: number;
+  /** ベースラインでは正しく、今回誤った回答 */
+  regressions: Array<{ base: BenchResult; now: BenchResult }>;
+  /** ベースラインでは誤り、今回正しくなった回答 */
+  fixes: Array<{ base: BenchResult; now: BenchResult }>;
+}
+
+/** 回答の同一性キー（ベースライン比較用） */
+export function benchKey(item: BenchItem): string {
+  return `${item.qid ?? item.gold ?? ""}::${item.answer}`;
+}
+
+/** JSONL を読み、label が OK/NG の行だけ返す（壊れた行は無視） */
+export function parseCorpus(text: string): BenchItem[] {
+  const items: BenchItem[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    try {
+      const obj = JSON.parse(line);
+      if (typeof obj.answer !== "string" || (obj.label !== "OK" && obj.label !== "NG")) continue;
+      if (!obj.qid && !obj.gold) continue;
+      items.push(obj);
+    } catch {}
+  }
+  return items;
+}
+
+export function toResult(item: BenchItem, outcome: GradeOutcome): BenchResult {
+  return {
+    key: benchKey(item),
+    qid: item.qid ?? null,
+    answer: item.answer,
+    label: item.label,
+    predicted: outcome.label,
+    score: outcome.score,
+    code: outcome.code,
+    correct: outcome.label === item.label,
+  };
+}
+
+const ratio = (num: number, den: number) => (den === 0 ? null : num / den);
+
+/** 採点結果を集計（worstN: 人手ラベルから最も遠いスコアの誤判定を何件出すか） */
+export function summarize(
+  engine: string,
+  version: string,
+  results: BenchResult[],
+  worstN = 20
+): BenchReport {
+  const confusion: BenchReport["confusion"] = {
+    OK: { OK: 0, NG: 0, ABSTAIN: 0 },
+    NG: { OK: 0, NG: 0, ABSTAIN: 0 },
+  };
+  const reasonCounts = new Map<string, { support: number; tp: number; fp: number; fn: number }>();
+
+  for (const r of results) {
+    confusion[r.label][r.predicted]++;
+    const c = reasonCounts.get(r.code) ?? { support: 0, tp: 0, fp: 0, fn: 0 };
+    c.support++;
+    if (r.predicted === "OK" && r.label === "OK") c.tp++;
+    else if (r.predicted === "OK") c.fp++;
+    else if (r.label === "OK") c.fn++;
+    reasonCounts.set(r.code, c);
+  }
+
+  const byReason: Record<string, ReasonStats> = {};
+  for (const [code, c] of [...reasonCounts].sort((a, b) => b[1].support - a[1].support)) {
+    byReason[code] = { support: c.support, precision: ratio(c.tp, c.tp + c.fp), recall: ratio(c.tp, c.tp + c.fn) };
+  }
+
+  const total = results.length;
+  const correct = results.filter(r => r.correct).length;
+  const decided = results.filter(r => r.predicted !== "ABSTAIN");
+  const distance = (r: BenchResult) => Math.abs(r.score - (r.label === "OK" ? 100 : 0));
+  const worst = results
+    .filter(r => !r.correct)
+    .sort((a, b) => distance(b) - distance(a))
+    .slice(0, worstN);
+
+  return {
+    engine,
+    version,
+    total,
+    accuracy: ratio(correct, total) ?? 0,
+    coverage: ratio(decided.length, total) ?? 0,
+    decidedAccuracy: ratio(decided.filter(r => r.correct).length, decided.length) ?? 0,
+    confusion,
+    byReason,
+    worst,
+    results,
+  };
+}
+
+/** ベースライン（以前の report の JSON）と比べ、正誤が入れ替わった回答を挙げる */
+export function compareToBaseline(report: BenchReport, baseline: BenchReport): BaselineDiff {
+  const baseByKey = new Map(baseline.results.map(r => [r.key, r]));
+  const regressions: BaselineDiff["regressions"] = [];
+  const fixes: BaselineDiff["fixes"] = [];
+  for (const now of report.results) {
+    const base = baseByKey.get(now.key);
+    if (!base) continue;
+    if (base.correct && !now.correct) regressions.push({ base, now });
+    if (!base.correct && now.correct) fixes.push({ base, now });
+  }
+  return { accuracyDelta: report.accuracy - baseline.accuracy, regressions, fixes };
+}
@@ -0,0 +1,205 @@
+/**
+ * 文法ドリル（AppMode 'grammar'）の問題生成
+ * すべて GrammarIndex（kobun-grammar.json）から作る4択問題
+ * - conjugation: 基本形と活用形から活用語尾を答える
+ * - aux-connection: 助動詞の接続を答える
+ * - aux-meaning: 助動詞の意味を選ぶ
+ * - particle-type: 助詞の種類を答える
+ * - aux-chain: 動詞に助動詞を付けた形を答える（活用エンジンで正解と誤答を作る）
+ */
+import type { GrammarIndex } from './grammarLoader';
+import { conjugate, getConjugationTables, CONJUGATED_FORMS } from './conjugation';
+
+export type GrammarQuizType = 'conjugation' | 'aux-connection' | 'aux-meaning' | 'particle-type' | 'aux-chain';
+
+export const GRAMMAR_QUIZ_TYPES: GrammarQuizType[] = ['conjugation', 'aux-connection', 'aux-meaning', 'particle-type', 'aux-chain'];
+
+export const GRAMMAR_QUIZ_LABELS: Record<GrammarQuizType, string> = {
+  'conjugation': '活用語尾',
+  'aux-connection': '助動詞の接続',
+  'aux-meaning': '助動詞の意味',
+  'particle-type': '助詞の種類',
+  'aux-chain': '助動詞の付け方',
+};
+
+export interface GrammarQuestion {
+  /** 問題の識別子（"conjugation:書く:未然" など） */
+  id: string;
+  quizType: GrammarQuizType;
+  prompt: string;
+  /** 問題文で強調する語 */
+  target: string;
+  options: string[];
+  answer: string;
+  /** 解答後に見せる解説 */
+  explanation: string;
+}
+
+const OPTION_COUNT = 4;
+
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const a = [...items];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
+
+/** 正解1つと誤答候補から4択を作る（候補は先に並べたものを優先） */
+function buildOptions(answer: string, preferred: string[], fallback: string[], random: () => number): string[] {
+  const distractors: string[] = [];
+  for (const pool of [shuffle(preferred, random), shuffle(fallback, random)]) {
+    for (const d of pool) {
+      if (distractors.length >= OPTION_COUNT - 1) break;
+      if (d && d !== answer && !distractors.includes(d)) distractors.push(d);
+    }
+  }
+  return shuffle([answer, ...distractors], random);
+}
+
+/** "なむ（願望）" → "なむ" */
+const bareWord = (w: string) => w.replace(/（[^）]*）$/, '');
+
+function conjugationQuestions(grammar: GrammarIndex, random: () => number): GrammarQuestion[] {
+  const tables = [
+    ...grammar.verbs.map(v => ({ 分類: v.分類, 品詞: v.品詞, 活用形: v.活用形, 例: v.例.map(e => ({ 基本形: e.基本形, 語尾: e.活用語尾 })) })),
+    ...grammar.adjectives.map(a => ({ 分類: a.分類, 品詞: a.品詞, 活用形: a.活用形, 例: a.例.map(e => ({ 基本形: e.基本形, 語尾: e.語尾変化 })) })),
+  ];
+  const questions: GrammarQuestion[] = [];
+  for (const table of tables) {
+    for (const ex of table.例) {
+      const row = table.活用形.map(form => ex.語尾[form] ?? '').filter(Boolean);
+      for (const form of table.活用形) {
+        const answer = ex.語尾[form];
+        if (!answer) continue;
+        // 同じ活用形の他の活用の語尾も誤答に使う
+        const sameForm = tables.flatMap(t => t.例.map(e => e.語尾[form] ?? ''));
+        questions.push({
+          id: `conjugation:${ex.基本形}:${form}`,
+          quizType: 'conjugation',
+          prompt: `「${ex.基本形}」（${table.分類}）の${form}形の活用語尾は？`,
+          target: ex.基本形,
+          options: buildOptions(answer, row, sameForm, random),
+          answer,
+          explanation: `${ex.基本形}（${table.分類}${table.品詞}）：${table.活用形.map(f => `${f}「${ex.語尾[f]}」`).join('・')}`,
+        });
+      }
+    }
+  }
+  return questions;
+}
+
+function auxConnectionQuestions(grammar: GrammarIndex, random: () => number): GrammarQuestion[] {
+  const connections = grammar.auxiliaries.map(a => a.接続);
+  return grammar.auxiliaries.map(aux => ({
+    id: `aux-connection:${aux.語}`,
+    quizType: 'aux-connection' as const,
+    prompt: `助動詞「${aux.語}」の接続は？`,
+    target: aux.語,
+    options: buildOptions(aux.接続, connections, [], random),
+    answer: aux.接続,
+    explanation: `${aux.語}：${aux.接続}に付く。意味は${aux.意味.join('・')}（${aux.訳例.join('、')}）`,
+  }));
+}
+
+function auxMeaningQuestions(grammar: GrammarIndex, random: () => number): GrammarQuestion[] {
+  const allMeanings = grammar.auxiliaries.flatMap(a => a.意味);
+  return grammar.auxiliaries.map(aux => {
+    // 正解は意味のうち1つ。誤答にはこの助動詞の他の意味を入れない
+    const answer = aux.意味[Math.floor(random() * aux.意味.length)];
+    const others = allMeanings.filter(m => !aux.意味.includes(m));
+    return {
+      id: `aux-meaning:${aux.語}`,
+      quizType: 'aux-meaning' as const,
+      prompt: `助動詞「${aux.語}」の意味として正しいものは？`,
+      target: aux.語,
+      options: buildOptions(answer, others, [], random),
+      answer,
+      explanation: `${aux.語}の意味：${aux.意味.join('・')}（${aux.訳例.join('、')}）`,
+    };
+  });
+}
+
+function particleTypeQuestions(grammar: GrammarIndex, random: () => number): GrammarQuestion[] {
+  const kinds = Array.from(new Set(grammar.particles.map(p => p.種類)));
+  // 同じ語が複数の種類にある（が・に・なむ など）ものは文脈なしでは決まらないので出さない
+  const kindsByWord = new Map<string, Set<string>>();
+  for (const p of grammar.particles) {
+    const w = bareWord(p.語);
+    if (!kindsByWord.has(w)) kindsByWord.set(w, new Set());
+    kindsByWord.get(w)!.add(p.種類);
+  }
+  return grammar.particles
+    .filter(p => kindsByWord.get(bareWord(p.語))!.size === 1)
+    .map(p => {
+      const meaning = [p.意味?.join('・'), p.訳?.length ? `（${p.訳.join('、')}）` : '', p.呼応 ? `、結びは${p.呼応}` : '']
+        .filter(Boolean)
+        .join('');
+      return {
+        id: `particle-type:${p.語}`,
+        quizType: 'particle-type' as const,
+        prompt: `助詞「${bareWord(p.語)}」の種類は？`,
+        target: bareWord(p.語),
+        options: buildOptions(p.種類, kinds, [], random),
+        answer: p.種類,
+        explanation: `${bareWord(p.語)}：${p.種類}。${meaning}`,
+      };
+    });
+}
+
+function auxChainQuestions(grammar: GrammarIndex, random: () => number): GrammarQuestion[] {
+  const tables = getConjugationTables(grammar);
+  const questions: GrammarQuestion[] = [];
+  for (const cls of tables.classes.filter(c => c.品詞 === '動詞')) {
+    const base = conjugate(tables, cls.example, cls.name);
+    if (!base) continue;
+    for (const aux of tables.auxiliaries) {
+      const made = conjugate(tables, cls.example, cls.name, [aux.語]);
+      const answer = made?.forms['終止形'][0];
+      const ending = aux.endings['終止形'][0]?.text;
+      if (!made || !answer || !ending) continue;
+      // 誤答は別の活用形に付けたもの、足りなければ助動詞の別の活用形
+      const wrongForms = CONJUGATED_FORMS.flatMap(f => base.forms[f]).map(p => p + ending);
+      const otherForms = CONJUGATED_FORMS.flatMap(f => made.forms[f]);
+      const options = buildOptions(answer, wrongForms, otherForms, random);
+      if (options.length < OPTION_COUNT) continue;
+      questions.push({
+        id: `aux-chain:${cls.example}:${aux.語}`,
+        quizType: 'aux-chain',
+        prompt: `「${cls.example}」（${cls.name}）に助動詞「${aux.語}」を付けると？（終止形）`,
+        target: cls.example,
+        options,
+        answer,
+        explanation: `${aux.語}は${aux.接続}に付く：${cls.example} → ${answer}`,
+      });
+    }
+  }
+  return questions;
+}
+
+/** 出題可能な問題をすべて作る */
+export function buildGrammarQuestions(grammar: GrammarIndex, quizType: GrammarQuizType, random: () => number = Math.random): GrammarQuestion[] {
+  switch (quizType) {
+    case 'conjugation':
+      return conjugationQuestions(grammar, random);
+    case 'aux-connection':
+      return auxConnectionQuestions(grammar, random);
+    case 'aux-meaning':
+      return auxMeaningQuestions(grammar, random);
+    case 'particle-type':
+      return particleTypeQuestions(grammar, random);
+    case 'aux-chain':
+      return auxChainQuestions(grammar, random);
+  }
+}
+
+/** count 問をランダムに選ぶ（作れる数より多ければ全問） */
+export function generateGrammarQuiz(
+  grammar: GrammarIndex,
+  quizType: GrammarQuizType,
+  count: number,
+  random: () => number = Math.random
+): GrammarQuestion[] {
+  return shuffle(buildGrammarQuestions(grammar, quizType, random), random).slice(0, Math.max(1, count));
+}
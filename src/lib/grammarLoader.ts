@@ -2,13 +2,14 @@
  * kobun-grammar.json を読み込み、接続規則をインデックス化
  */
 // NO module-level imports to avoid TDZ
-let grammarDataCache: any = null;
 
 export interface AuxiliaryRule {
   語: string;
   意味: string[];
   接続: string;
   訳例: string[];
+  /** 活用表（"未然"〜"命令"、別形は "／"、まれな形は括弧付き、無い形は空文字） */
+  活用?: Record<string, string>;
 }
 
 export interface ParticleRule {
@@ -75,106 +76,105 @@ export interface GrammarIndex {
 }
 
 let cachedGrammar: GrammarIndex | null = null;
+let loadedGrammar: Promise<GrammarIndex> | null = null;
+
+const emptyGrammar = (): GrammarIndex => ({
+  auxConn: new Map(),
+  kakari: new Map(),
+  disamb: new Map(),
+  flows: new Map(),
+  verbs: [],
+  adjectives: [],
+  auxiliaries: [],
+  particles: [],
+});
 
 /**
- * 文法データをロードし、高速検索用のMapに変換
- * TDZ回避: requireによる遅延ロード
+ * kobun-grammar.json の中身を高速検索用の Map に変換
  */
-export function loadGrammar(): GrammarIndex {
-  if (cachedGrammar) return cachedGrammar;
-
-  // TEMPORARY: Disable to avoid TDZ - return minimal grammar
-  console.warn("Grammar loading temporarily disabled to avoid TDZ");
-  cachedGrammar = {
-    auxConn: new Map(),
-    kakari: new Map(),
-    disamb: new Map(),
-    flows: new Map(),
-    verbs: [],
-    adjectives: [],
-    auxiliaries: [],
-    particles: [],
-  };
-  return cachedGrammar;
-
-  /* TDZ-CAUSING CODE DISABLED
-  try {
-    // Lazy load JSON on first call using require (synchronous, TDZ-safe)
-    if (!grammarDataCache) {
-      grammarDataCache = require("../assets/kobun-grammar.json");
-    }
-    const grammarData = grammarDataCache;
-
-    const auxConn = new Map<string, string>();
-    const kakari = new Map<string, "連体形" | "已然形">();
-    const disamb = new Map<string, DisambPattern[]>();
-    const flows = new Map<string, DisambFlow[]>();
-
-    // 助動詞→左接続のマッピング
-    if (grammarData.auxiliaries && Array.isArray(grammarData.auxiliaries)) {
-      for (const aux of grammarData.auxiliaries) {
-        // 括弧付き部分を除去（例: "む（ん）" → "む"、"たり（完了・存続）" → "たり"）
-        const cleanWord = aux.語.replace(/[（）\(\)][^（）\(\)]*$/g, "").trim();
-        auxConn.set(cleanWord, aux.接続);
-        // 「ん」などの別表記も登録
-        if (aux.語.includes("（")) {
-          const alt = aux.語.match(/[（\(]([^）\)]+)[）\)]/)?.[1];
-          if (alt) auxConn.set(alt, aux.接続);
-        }
+export function buildGrammarIndex(grammarData: any): GrammarIndex {
+  const auxConn = new Map<string, string>();
+  const kakari = new Map<string, "連体形" | "已然形">();
+  const disamb = new Map<string, DisambPattern[]>();
+  const flows = new Map<string, DisambFlow[]>();
+
+  // 助動詞→左接続のマッピング
+  if (grammarData.auxiliaries && Array.isArray(grammarData.auxiliaries)) {
+    for (const aux of grammarData.auxiliaries) {
+      // 括弧付き部分を除去（例: "む（ん）" → "む"、"たり（完了・存続）" → "たり"）
+      const cleanWord = aux.語.replace(/[（）\(\)][^（）\(\)]*$/g, "").trim();
+      auxConn.set(cleanWord, aux.接続);
+      // 「ん」などの別表記も登録
+      if (aux.語.includes("（")) {
+        const alt = aux.語.match(/[（\(]([^）\)]+)[）\)]/)?.[1];
+        if (alt) auxConn.set(alt, aux.接続);
       }
     }
+  }
 
-    // 係助詞→呼応の形
-    if (grammarData.particles && Array.isArray(grammarData.particles)) {
-      for (const prt of grammarData.particles) {
-        if (prt.呼応) {
-          kakari.set(prt.語, prt.呼応);
-        }
+  // 係助詞→呼応の形
+  if (grammarData.particles && Array.isArray(grammarData.particles)) {
+    for (const prt of grammarData.particles) {
+      if (prt.呼応) {
+        kakari.set(prt.語, prt.呼応);
       }
     }
+  }
 
-    // 識別ルール（パターンリスト形式）
-    if (grammarData.identification_rules && Array.isArray(grammarData.identification_rules)) {
-      for (const rule of grammarData.identification_rules) {
-        disamb.set(rule.語, rule.パターン);
-      }
+  // 識別ルール（パターンリスト形式）
+  if (grammarData.identification_rules && Array.isArray(grammarData.identification_rules)) {
+    for (const rule of grammarData.identification_rules) {
+      disamb.set(rule.語, rule.パターン);
     }
+  }
 
-    // 識別ルール（フロー形式）
-    if (grammarData.identification_rules_flow && Array.isArray(grammarData.identification_rules_flow)) {
-      for (const rule of grammarData.identification_rules_flow) {
-        flows.set(rule.語, rule.flow);
-      }
+  // 識別ルール（フロー形式）
+  if (grammarData.identification_rules_flow && Array.isArray(grammarData.identification_rules_flow)) {
+    for (const rule of grammarData.identification_rules_flow) {
+      flows.set(rule.語, rule.flow);
     }
+  }
 
-    cachedGrammar = {
-      auxConn,
-      kakari,
-      disamb,
-      flows,
-      verbs: grammarData.verbs || [],
-      adjectives: grammarData.adjectives || [],
-      auxiliaries: grammarData.auxiliaries || [],
-      particles: grammarData.particles || [],
-    };
-
-    return cachedGrammar;
-  } catch (e) {
-    console.warn("Failed to load grammar data:", e);
-    // Fallback to empty grammar
-    cachedGrammar = {
-      auxConn: new Map(),
-      kakari: new Map(),
-      disamb: new Map(),
-      flows: new Map(),
-      verbs: [],
-      adjectives: [],
-      auxiliaries: [],
-      particles: [],
-    };
-    return cachedGrammar;
+  return {
+    auxConn,
+    kakari,
+    disamb,
+    flows,
+    verbs: grammarData.verbs || [],
+    adjectives: grammarData.adjectives || [],
+    auxiliaries: grammarData.auxiliaries || [],
+    particles: grammarData.particles || [],
+  };
+}
+
+/**
+ * 採点用の文法インデックス（同期）
+ * TDZ回避のため現在は JSON を読まず空のインデックスを返す
+ */
+export function loadGrammar(): GrammarIndex {
+  if (cachedGrammar) return cachedGrammar;
+
+  // TEMPORARY: Disable to avoid TDZ - return minimal grammar
+  console.warn("Grammar loading temporarily disabled to avoid TDZ");
+  cachedGrammar = emptyGrammar();
+  return cachedGrammar;
+}
+
+/**
+ * 文法データを動的 import で読み込む（別チャンクになるので TDZ の心配がない）
+ * 文法ドリルなど画面表示用。採点用の loadGrammar() のキャッシュには入れない
+ */
+export function loadGrammarAsync(): Promise<GrammarIndex> {
+  if (!loadedGrammar) {
+    loadedGrammar = import("../assets/kobun-grammar.json")
+      .then(mod => buildGrammarIndex(mod.default ?? mod))
+      .catch(e => {
+        console.warn("Failed to load grammar data:", e);
+        loadedGrammar = null;
+        return emptyGrammar();
+      });
   }
-  */
+  return loadedGrammar;
 }
 
 /**
@@ -182,4 +182,5 @@ export function loadGrammar(): GrammarIndex {
  */
 export function clearGrammarCache() {
   cachedGrammar = null;
+  loadedGrammar = null;
 }
@@ -0,0 +1,1006 @@
+/**
+ * 助動詞・助詞の規則（自動生成・直接編集しない）
+ * kobun-grammar.json と grammar-rules.overrides.json から npm run gen:grammar-rules で作る
+ */
+import type { GrammarRulesData } from "./grammarRulesBuilder";
+
+export const GRAMMAR_RULES: GrammarRulesData = {
+  "auxiliaries": [
+    {
+      "語": "ないで",
+      "意味": [],
+      "tag": "打消-接続",
+      "surfaces": [
+        "ないで"
+      ],
+      "modern": true
+    },
+    {
+      "語": "ずして",
+      "意味": [],
+      "tag": "打消-接続",
+      "surfaces": [
+        "ずして"
+      ],
+      "modern": true
+    },
+    {
+      "語": "くて",
+      "意味": [],
+      "tag": "形容詞-接続",
+      "surfaces": [
+        "くて"
+      ],
+      "modern": true
+    },
+    {
+      "語": "て",
+      "意味": [],
+      "tag": "接続",
+      "surfaces": [
+        "て"
+      ],
+      "modern": true
+    },
+    {
+      "語": "で",
+      "意味": [],
+      "tag": "接続",
+      "surfaces": [
+        "で"
+      ],
+      "modern": true
+    },
+    {
+      "語": "ない",
+      "意味": [],
+      "tag": "打消",
+      "surfaces": [
+        "ない"
+      ],
+      "modern": true
+    },
+    {
+      "語": "ている",
+      "意味": [],
+      "tag": "存続",
+      "surfaces": [
+        "ている"
+      ],
+      "modern": true
+    },
+    {
+      "語": "れる",
+      "意味": [],
+      "tag": "可能",
+      "surfaces": [
+        "れる"
+      ],
+      "modern": true
+    },
+    {
+      "語": "き",
+      "意味": [
+        "過去"
+      ],
+      "tag": "過去",
+      "surfaces": [
+        "き"
+      ]
+    },
+    {
+      "語": "けり",
+      "意味": [
+        "過去",
+        "詠嘆"
+      ],
+      "tag": "過去",
+      "surfaces": [
+        "けり"
+      ]
+    },
+    {
+      "語": "つ",
+      "意味": [
+        "完了",
+        "強意"
+      ],
+      "tag": "完了-存続",
+      "surfaces": [
+        "つ"
+      ]
+    },
+    {
+      "語": "ぬ",
+      "意味": [
+        "完了",
+        "強意"
+      ],
+      "tag": "完了-存続",
+      "surfaces": [
+        "ぬ"
+      ]
+    },
+    {
+      "語": "たり（完了・存続）",
+      "意味": [
+        "完了",
+        "存続"
+      ],
+      "tag": "完了-存続",
+      "surfaces": [
+        "たり"
+      ]
+    },
+    {
+      "語": "り",
+      "意味": [
+        "完了",
+        "存続"
+      ],
+      "tag": "完了-存続",
+      "surfaces": [
+        "り"
+      ],
+      "skip": "動詞の連用形の語尾（祈り・切り）と区別できない"
+    },
+    {
+      "語": "む（ん）",
+      "意味": [
+        "推量",
+        "意志",
+        "適当",
+        "勧誘",
+        "仮定",
+        "婉曲"
+      ],
+      "tag": "推量",
+      "surfaces": [
+        "む"
+      ]
+    },
+    {
+      "語": "らむ",
+      "意味": [
+        "現在推量",
+        "現在の原因推量",
+        "伝聞・婉曲"
+      ],
+      "tag": "推量",
+      "surfaces": [
+        "らむ"
+      ]
+    },
+    {
+      "語": "けむ",
+      "意味": [
+        "過去推量",
+        "過去の原因推量",
+        "過去の伝聞・婉曲"
+      ],
+      "tag": "過去",
+      "surfaces": [
+        "けむ",
+        "けん"
+      ]
+    },
+    {
+      "語": "べし",
+      "意味": [
+        "推量",
+        "当然",
+        "可能",
+        "命令",
+        "適当",
+        "意志"
+      ],
+      "tag": "推量",
+      "surfaces": [
+        "べし",
+        "べき",
+        "べく"
+      ]
+    },
+    {
+      "語": "まじ",
+      "意味": [
+        "打消推量",
+        "打消意志",
+        "不可能",
+        "禁止",
+        "当然否定",
+        "不適当"
+      ],
+      "tag": "打消",
+      "surfaces": [
+        "まじ"
+      ]
+    },
+    {
+      "語": "らし",
+      "意味": [
+        "推定（客観根拠）"
+      ],
+      "tag": "推定",
+      "surfaces": [
+        "らし"
+      ],
+      "skip": "形容詞の語尾（めづらし）と紛れる"
+    },
+    {
+      "語": "めり",
+      "意味": [
+        "推定（視覚）",
+        "婉曲"
+      ],
+      "tag": "推定",
+      "surfaces": [
+        "めり"
+      ]
+    },
+    {
+      "語": "なり（伝聞・推定）",
+      "意味": [
+        "伝聞（聴覚）",
+        "推定（聴覚）"
+      ],
+      "tag": "推定",
+      "surfaces": [
+        "なり"
+      ]
+    },
+    {
+      "語": "ず",
+      "意味": [
+        "打消"
+      ],
+      "tag": "打消",
+      "surfaces": [
+        "ず",
+        "ぬ",
+        "ざり"
+      ]
+    },
+    {
+      "語": "じ",
+      "意味": [
+        "打消推量",
+        "打消意志"
+      ],
+      "tag": "打消",
+      "surfaces": [
+        "じ"
+      ]
+    },
+    {
+      "語": "る",
+      "意味": [
+        "自発",
+        "可能",
+        "受身",
+        "尊敬"
+      ],
+      "tag": "受身-可能-自発-尊敬",
+      "surfaces": [
+        "る"
+      ]
+    },
+    {
+      "語": "らる",
+      "意味": [
+        "自発",
+        "可能",
+        "受身",
+        "尊敬"
+      ],
+      "tag": "受身-可能-自発-尊敬",
+      "surfaces": [
+        "らる"
+      ]
+    },
+    {
+      "語": "す",
+      "意味": [
+        "使役",
+        "尊敬"
+      ],
+      "tag": "使役",
+      "surfaces": [
+        "す"
+      ]
+    },
+    {
+      "語": "さす",
+      "意味": [
+        "使役",
+        "尊敬"
+      ],
+      "tag": "使役",
+      "surfaces": [
+        "さす"
+      ]
+    },
+    {
+      "語": "しむ",
+      "意味": [
+        "使役",
+        "尊敬"
+      ],
+      "tag": "使役",
+      "surfaces": [
+        "しむ"
+      ]
+    },
+    {
+      "語": "まし",
+      "意味": [
+        "反実仮想",
+        "実現不可能な願望"
+      ],
+      "tag": null,
+      "surfaces": [
+        "まし"
+      ],
+      "skip": "反実仮想は記述解答の照合で区別しない"
+    },
+    {
+      "語": "まほし",
+      "意味": [
+        "願望"
+      ],
+      "tag": null,
+      "surfaces": [
+        "まほし"
+      ],
+      "skip": "形容詞の語尾（あらまほし）と紛れる"
+    },
+    {
+      "語": "たし",
+      "意味": [
+        "願望"
+      ],
+      "tag": null,
+      "surfaces": [
+        "たし"
+      ],
+      "skip": "形容詞の語尾（めでたし）と紛れる"
+    },
+    {
+      "語": "なり（断定）",
+      "意味": [
+        "断定",
+        "所在"
+      ],
+      "tag": null,
+      "surfaces": [
+        "なり"
+      ],
+      "skip": "表層が伝聞推定の「なり」と同じで区別できない"
+    },
+    {
+      "語": "たり（断定）",
+      "意味": [
+        "断定"
+      ],
+      "tag": null,
+      "surfaces": [
+        "たり"
+      ],
+      "skip": "表層が完了の「たり」と同じで区別できない"
+    },
+    {
+      "語": "ごとし",
+      "意味": [
+        "比況",
+        "例示"
+      ],
+      "tag": null,
+      "surfaces": [
+        "ごとし"
+      ],
+      "skip": "比況は記述解答の照合で区別しない"
+    },
+    {
+      "語": "べらなり",
+      "意味": [
+        "推量（不確実）",
+        "婉曲"
+      ],
+      "tag": "推量",
+      "surfaces": [
+        "べらなり"
+      ],
+      "skip": "生成前の morphTokenizer は「なり」だけを推定として剥がしていた。保存済みの morph ルール（auxTags）の照合を変えないため同じ扱いにする"
+    }
+  ],
+  "particles": [
+    {
+      "key": "格助詞:が",
+      "種類": "格助詞",
+      "語": "が",
+      "tag": "格助:が",
+      "surfaces": [
+        "が"
+      ]
+    },
+    {
+      "key": "格助詞:の",
+      "種類": "格助詞",
+      "語": "の",
+      "tag": "格助:の",
+      "surfaces": [
+        "の"
+      ]
+    },
+    {
+      "key": "格助詞:を",
+      "種類": "格助詞",
+      "語": "を",
+      "tag": "格助:を",
+      "surfaces": [
+        "を"
+      ]
+    },
+    {
+      "key": "格助詞:に",
+      "種類": "格助詞",
+      "語": "に",
+      "tag": "格助:に",
+      "surfaces": [
+        "に"
+      ]
+    },
+    {
+      "key": "格助詞:へ",
+      "種類": "格助詞",
+      "語": "へ",
+      "tag": "格助:へ",
+      "surfaces": [
+        "へ"
+      ]
+    },
+    {
+      "key": "格助詞:と",
+      "種類": "格助詞",
+      "語": "と",
+      "tag": "格助:と",
+      "surfaces": [
+        "と"
+      ]
+    },
+    {
+      "key": "格助詞:より",
+      "種類": "格助詞",
+      "語": "より",
+      "tag": "格助:より",
+      "surfaces": [
+        "より"
+      ]
+    },
+    {
+      "key": "格助詞:から",
+      "種類": "格助詞",
+      "語": "から",
+      "tag": "格助:から",
+      "surfaces": [
+        "から"
+      ]
+    },
+    {
+      "key": "格助詞:にて",
+      "種類": "格助詞",
+      "語": "にて",
+      "tag": "格助:して",
+      "surfaces": [
+        "にて"
+      ]
+    },
+    {
+      "key": "格助詞:して",
+      "種類": "格助詞",
+      "語": "して",
+      "tag": "格助:して",
+      "surfaces": [
+        "して"
+      ]
+    },
+    {
+      "key": "接続助詞:て",
+      "種類": "接続助詞",
+      "語": "て",
+      "tag": "接続助:て",
+      "surfaces": [
+        "て"
+      ]
+    },
+    {
+      "key": "接続助詞:に",
+      "種類": "接続助詞",
+      "語": "に",
+      "tag": "接続助:に",
+      "surfaces": [
+        "に"
+      ]
+    },
+    {
+      "key": "接続助詞:を",
+      "種類": "接続助詞",
+      "語": "を",
+      "tag": "接続助:を",
+      "surfaces": [
+        "を"
+      ]
+    },
+    {
+      "key": "接続助詞:ば",
+      "種類": "接続助詞",
+      "語": "ば",
+      "tag": "接続助:ば",
+      "surfaces": [
+        "ば"
+      ]
+    },
+    {
+      "key": "接続助詞:ども",
+      "種類": "接続助詞",
+      "語": "ども",
+      "tag": "接続:逆接",
+      "surfaces": [
+        "ども"
+      ]
+    },
+    {
+      "key": "接続助詞:ど",
+      "種類": "接続助詞",
+      "語": "ど",
+      "tag": "接続:逆接",
+      "surfaces": [
+        "ど"
+      ]
+    },
+    {
+      "key": "接続助詞:が",
+      "種類": "接続助詞",
+      "語": "が",
+      "tag": "接続:逆接",
+      "surfaces": [
+        "が"
+      ]
+    },
+    {
+      "key": "接続助詞:ものの",
+      "種類": "接続助詞",
+      "語": "ものの",
+      "tag": "接続助:ものの",
+      "surfaces": [
+        "ものの"
+      ]
+    },
+    {
+      "key": "接続助詞:ものを",
+      "種類": "接続助詞",
+      "語": "ものを",
+      "tag": "接続助:ものを",
+      "surfaces": [
+        "ものを"
+      ]
+    },
+    {
+      "key": "接続助詞:ものから",
+      "種類": "接続助詞",
+      "語": "ものから",
+      "tag": "接続助:ものから",
+      "surfaces": [
+        "ものから"
+      ]
+    },
+    {
+      "key": "副助詞:だに",
+      "種類": "副助詞",
+      "語": "だに",
+      "tag": "副助:だに",
+      "surfaces": [
+        "だに"
+      ]
+    },
+    {
+      "key": "副助詞:さへ",
+      "種類": "副助詞",
+      "語": "さへ",
+      "tag": "副助:さへ",
+      "surfaces": [
+        "さへ"
+      ]
+    },
+    {
+      "key": "副助詞:など",
+      "種類": "副助詞",
+      "語": "など",
+      "tag": "副助:など",
+      "surfaces": [
+        "など"
+      ]
+    },
+    {
+      "key": "副助詞:ばかり",
+      "種類": "副助詞",
+      "語": "ばかり",
+      "tag": "副助:ばかり",
+      "surfaces": [
+        "ばかり"
+      ]
+    },
+    {
+      "key": "副助詞:まで",
+      "種類": "副助詞",
+      "語": "まで",
+      "tag": "格助:まで",
+      "surfaces": [
+        "まで"
+      ]
+    },
+    {
+      "key": "係助詞:は",
+      "種類": "係助詞",
+      "語": "は",
+      "tag": "係助:は",
+      "surfaces": [
+        "は",
+        "わ"
+      ]
+    },
+    {
+      "key": "係助詞:も",
+      "種類": "係助詞",
+      "語": "も",
+      "tag": "係助:も",
+      "surfaces": [
+        "も"
+      ]
+    },
+    {
+      "key": "係助詞:ぞ",
+      "種類": "係助詞",
+      "語": "ぞ",
+      "tag": "係助:係り結び",
+      "surfaces": [
+        "ぞ"
+      ]
+    },
+    {
+      "key": "係助詞:なむ",
+      "種類": "係助詞",
+      "語": "なむ",
+      "tag": "係助:係り結び",
+      "surfaces": [
+        "なむ"
+      ]
+    },
+    {
+      "key": "係助詞:や",
+      "種類": "係助詞",
+      "語": "や",
+      "tag": "係助:係り結び",
+      "surfaces": [
+        "や"
+      ]
+    },
+    {
+      "key": "係助詞:か",
+      "種類": "係助詞",
+      "語": "か",
+      "tag": "係助:係り結び",
+      "surfaces": [
+        "か"
+      ]
+    },
+    {
+      "key": "係助詞:こそ",
+      "種類": "係助詞",
+      "語": "こそ",
+      "tag": "係助:こそ",
+      "surfaces": [
+        "こそ"
+      ]
+    },
+    {
+      "key": "終助詞:な",
+      "種類": "終助詞",
+      "語": "な",
+      "tag": "終助:な",
+      "surfaces": [
+        "な"
+      ]
+    },
+    {
+      "key": "終助詞:そ",
+      "種類": "終助詞",
+      "語": "そ",
+      "tag": "終助:そ",
+      "surfaces": [
+        "そ"
+      ]
+    },
+    {
+      "key": "終助詞:なむ（願望）",
+      "種類": "終助詞",
+      "語": "なむ",
+      "tag": "終助:なむ",
+      "surfaces": [
+        "なむ"
+      ]
+    },
+    {
+      "key": "終助詞:ばや",
+      "種類": "終助詞",
+      "語": "ばや",
+      "tag": "終助:ばや",
+      "surfaces": [
+        "ばや"
+      ]
+    },
+    {
+      "key": "終助詞:もがな",
+      "種類": "終助詞",
+      "語": "もがな",
+      "tag": "終助:もがな",
+      "surfaces": [
+        "もがな"
+      ]
+    },
+    {
+      "key": "終助詞:かな",
+      "種類": "終助詞",
+      "語": "かな",
+      "tag": "終助:かな",
+      "surfaces": [
+        "かな"
+      ]
+    },
+    {
+      "key": "終助詞:かも",
+      "種類": "終助詞",
+      "語": "かも",
+      "tag": "終助:かも",
+      "surfaces": [
+        "かも"
+      ]
+    },
+    {
+      "key": "終助詞:やも",
+      "種類": "終助詞",
+      "語": "やも",
+      "tag": "終助:やも",
+      "surfaces": [
+        "やも"
+      ]
+    },
+    {
+      "key": "終助詞:ぞかし",
+      "種類": "終助詞",
+      "語": "ぞかし",
+      "tag": "終助:ぞかし",
+      "surfaces": [
+        "ぞかし"
+      ]
+    },
+    {
+      "key": "準体助詞:の",
+      "種類": "準体助詞",
+      "語": "の",
+      "tag": "準体助:の",
+      "surfaces": [
+        "の"
+      ]
+    },
+    {
+      "key": "準体助詞:が",
+      "種類": "準体助詞",
+      "語": "が",
+      "tag": "準体助:が",
+      "surfaces": [
+        "が"
+      ]
+    }
+  ],
+  "tokenizer": {
+    "aux": [
+      {
+        "tag": "打消-接続",
+        "surfaces": [
+          "ないで",
+          "ずして"
+        ]
+      },
+      {
+        "tag": "形容詞-接続",
+        "surfaces": [
+          "くて"
+        ]
+      },
+      {
+        "tag": "接続",
+        "surfaces": [
+          "て",
+          "で"
+        ]
+      },
+      {
+        "tag": "打消",
+        "surfaces": [
+          "ない",
+          "まじ",
+          "ず",
+          "ぬ",
+          "ざり",
+          "じ"
+        ]
+      },
+      {
+        "tag": "完了-存続",
+        "surfaces": [
+          "つ",
+          "ぬ",
+          "たり"
+        ]
+      },
+      {
+        "tag": "過去",
+        "surfaces": [
+          "き",
+          "けり",
+          "けむ",
+          "けん"
+        ]
+      },
+      {
+        "tag": "推量",
+        "surfaces": [
+          "む",
+          "らむ",
+          "べし",
+          "べき",
+          "べく"
+        ]
+      },
+      {
+        "tag": "推定",
+        "surfaces": [
+          "めり",
+          "なり"
+        ]
+      },
+      {
+        "tag": "存続",
+        "surfaces": [
+          "ている"
+        ]
+      },
+      {
+        "tag": "可能",
+        "surfaces": [
+          "れる"
+        ]
+      },
+      {
+        "tag": "受身-可能-自発-尊敬",
+        "surfaces": [
+          "る",
+          "らる"
+        ]
+      },
+      {
+        "tag": "使役",
+        "surfaces": [
+          "す",
+          "さす",
+          "しむ"
+        ]
+      }
+    ],
+    "particles": [
+      {
+        "tag": "係助:は",
+        "surfaces": [
+          "は",
+          "わ"
+        ]
+      },
+      {
+        "tag": "係助:も",
+        "surfaces": [
+          "も"
+        ]
+      },
+      {
+        "tag": "係助:係り結び",
+        "surfaces": [
+          "ぞ",
+          "なむ",
+          "や",
+          "か"
+        ]
+      },
+      {
+        "tag": "格助:を",
+        "surfaces": [
+          "を"
+        ]
+      },
+      {
+        "tag": "格助:に",
+        "surfaces": [
+          "に"
+        ]
+      },
+      {
+        "tag": "格助:へ",
+        "surfaces": [
+          "へ"
+        ]
+      },
+      {
+        "tag": "格助:が",
+        "surfaces": [
+          "が"
+        ]
+      },
+      {
+        "tag": "格助:より",
+        "surfaces": [
+          "より"
+        ]
+      },
+      {
+        "tag": "格助:まで",
+        "surfaces": [
+          "まで"
+        ]
+      },
+      {
+        "tag": "格助:して",
+        "surfaces": [
+          "して",
+          "にて"
+        ]
+      },
+      {
+        "tag": "接続:逆接",
+        "surfaces": [
+          "ども",
+          "ど",
+          "が"
+        ]
+      },
+      {
+        "tag": "係助:こそ",
+        "surfaces": [
+          "こそ"
+        ]
+      }
+    ]
+  },
+  "sentenceTags": {
+    "completed": [
+      "つ",
+      "ぬ",
+      "たり",
+      "り",
+      "た"
+    ],
+    "negated": [
+      "ず",
+      "ない",
+      "ん"
+    ],
+    "past": [
+      "き",
+      "けり"
+    ],
+    "conditional": [
+      "ば",
+      "たら",
+      "なら"
+    ]
+  }
+};
@@ -0,0 +1,42 @@
+/**
+ * 助動詞・助詞の規則（morphTokenizer・gradeMeaning・validateConnections が共通で使う）
+ * 中身は grammarRules.generated.ts（kobun-grammar.json＋grammar-rules.overrides.json から生成）
+ * TDZ対策: JSON は読まず生成済みの定数だけを使い、正規表現は初回に作る
+ */
+import { GRAMMAR_RULES } from './grammarRules.generated';
+import type { AuxRuleEntry, SentenceTagName } from './grammarRulesBuilder';
+
+export type { AuxRuleEntry, SentenceTagName } from './grammarRulesBuilder';
+
+export interface SuffixRule {
+  re: RegExp;
+  tag: string;
+}
+
+const toSuffixRules = (rules: Array<{ tag: string; surfaces: string[] }>): SuffixRule[] =>
+  rules.map(r => ({ re: new RegExp(`(${r.surfaces.join('|')})$`, 'u'), tag: r.tag }));
+
+let auxRulesCache: SuffixRule[] | null = null;
+let particleRulesCache: SuffixRule[] | null = null;
+
+/** 語末の助動詞（タグごと、先に当たったものを採る） */
+export function getAuxSuffixRules(): SuffixRule[] {
+  if (!auxRulesCache) auxRulesCache = toSuffixRules(GRAMMAR_RULES.tokenizer.aux);
+  return auxRulesCache;
+}
+
+/** 語末の助詞（タグごと、先に当たったものを採る） */
+export function getParticleSuffixRules(): SuffixRule[] {
+  if (!particleRulesCache) particleRulesCache = toSuffixRules(GRAMMAR_RULES.tokenizer.particles);
+  return particleRulesCache;
+}
+
+/** gradeMeaning の文タグ（完了・打消・過去・条件）に数える語 */
+export function getSentenceTagWords(name: SentenceTagName): string[] {
+  return GRAMMAR_RULES.sentenceTags[name];
+}
+
+/** morphTokenizer のタグと語形から文法データの助動詞を引く（剥がさない語・現代語は除く） */
+export function findAuxRule(tag: string, surface: string): AuxRuleEntry | undefined {
+  return GRAMMAR_RULES.auxiliaries.find(a => !a.skip && !a.modern && a.tag === tag && a.surfaces.includes(surface));
+}
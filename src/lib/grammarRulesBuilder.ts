@@ -0,0 +1,122 @@
+/**
+ * 助動詞・助詞の規則を kobun-grammar.json と上書きファイル（grammar-rules.overrides.json）から作る
+ * scripts/gen-grammar-rules.ts がこれで grammarRules.generated.ts を書き出し、テストで生成物が最新か確かめる
+ * JSON は引数で受け取る（このモジュールは JSON を import しない）
+ */
+
+export type SentenceTagName = 'completed' | 'negated' | 'past' | 'conditional';
+
+export interface GrammarRulesOverrides {
+  auxTagByMeaning: Array<{ 意味: string; tag: string }>;
+  auxTagOrder: string[];
+  auxExtraSurfaces: Record<string, string[]>;
+  dropSurfaces: Array<{ surface: string; reason: string }>;
+  skipAuxiliaries: Array<{ 語: string; reason: string }>;
+  modernAuxiliaries: Array<{ 語: string; tag: string }>;
+  particleTags: Record<string, string>;
+  particleExtraSurfaces: Record<string, string[]>;
+  tokenizerParticles: string[];
+  sentenceTags: Record<SentenceTagName, { from: 'auxiliaries' | 'particles'; 意味: string; extra: string[] }>;
+}
+
+export interface AuxRuleEntry {
+  /** 表の語（"む（ん）" など）。現代語は "ない" など */
+  語: string;
+  意味: string[];
+  /** morphTokenizer のタグ（意味から決まらなければ null） */
+  tag: string | null;
+  /** 語末で照合する形 */
+  surfaces: string[];
+  /** morphTokenizer で剥がさない理由 */
+  skip?: string;
+  /** 文法データに無い現代語 */
+  modern?: boolean;
+}
+
+export interface ParticleRuleEntry {
+  /** "格助詞:に" のように種類と語で引く */
+  key: string;
+  種類: string;
+  語: string;
+  tag: string;
+  surfaces: string[];
+}
+
+export interface TokenizerRule {
+  tag: string;
+  surfaces: string[];
+}
+
+export interface GrammarRulesData {
+  auxiliaries: AuxRuleEntry[];
+  particles: ParticleRuleEntry[];
+  /** morphTokenizer が語末を照合する順 */
+  tokenizer: { aux: TokenizerRule[]; particles: TokenizerRule[] };
+  /** gradeMeaning の文タグに数える語（基本形） */
+  sentenceTags: Record<SentenceTagName, string[]>;
+}
+
+interface GrammarSource {
+  auxiliaries: Array<{ 語: string; 意味: string[]; 活用?: Record<string, string> }>;
+  particles: Array<{ 種類: string; 語: string; 意味?: string[]; 呼応?: string }>;
+}
+
+/** "む（ん）" → "む"、"なむ（願望）" → "なむ" */
+export const bareWord = (w: string) => w.replace(/（[^）]*）$/, '');
+
+const unique = (xs: string[]) => Array.from(new Set(xs));
+
+/** 意味の一致：「完了」は「完了」と「順接（完了）」に当たり、「過去推量」には当たらない */
+const meaningIs = (meanings: string[] | undefined, key: string) =>
+  (meanings ?? []).some(m => m === key || m.includes(`（${key}）`));
+
+/** タグごとに語形をまとめ、order の順に並べる（order に無いタグは後ろ） */
+function groupByTag(entries: Array<{ tag: string | null; surfaces: string[] }>, order: string[]): TokenizerRule[] {
+  const groups = new Map<string, string[]>();
+  for (const e of entries) {
+    if (!e.tag) continue;
+    groups.set(e.tag, unique([...(groups.get(e.tag) ?? []), ...e.surfaces]));
+  }
+  const tags = [...order.filter(t => groups.has(t)), ...Array.from(groups.keys()).filter(t => !order.includes(t))];
+  return tags.map(tag => ({ tag, surfaces: groups.get(tag)! }));
+}
+
+export function buildGrammarRules(grammar: GrammarSource, overrides: GrammarRulesOverrides): GrammarRulesData {
+  const dropped = new Set(overrides.dropSurfaces.map(d => d.surface));
+  const skipped = new Map(overrides.skipAuxiliaries.map(s => [s.語, s.reason]));
+
+  // 助動詞：終止形（別形を含む）＋上書きの追加形。タグは意味から
+  const auxiliaries: AuxRuleEntry[] = [
+    ...overrides.modernAuxiliaries.map(m => ({ 語: m.語, 意味: [], tag: m.tag, surfaces: [m.語], modern: true })),
+    ...grammar.auxiliaries.map(a => {
+      const shushi = (a.活用?.終止 ?? bareWord(a.語)).split('／').map(s => s.replace(/[（）]/g, '').trim()).filter(Boolean);
+      const surfaces = unique([...shushi, ...(overrides.auxExtraSurfaces[a.語] ?? [])]).filter(s => !dropped.has(s));
+      const tag = overrides.auxTagByMeaning.find(r => a.意味.some(m => m.includes(r.意味)))?.tag ?? null;
+      const skip = skipped.get(a.語);
+      return { 語: a.語, 意味: a.意味, tag, surfaces, ...(skip ? { skip } : {}) };
+    }),
+  ];
+
+  // 助詞：呼応が連体形の係助詞は「係り結び」にまとめる。他は「格助:を」のように種類と語から
+  const particles: ParticleRuleEntry[] = grammar.particles.map(p => {
+    const 語 = bareWord(p.語);
+    const key = `${p.種類}:${p.語}`;
+    const tag = overrides.particleTags[key]
+      ?? (p.種類 === '係助詞' && p.呼応 === '連体形' ? '係助:係り結び' : `${p.種類.replace(/詞$/, '')}:${語}`);
+    return { key, 種類: p.種類, 語, tag, surfaces: unique([語, ...(overrides.particleExtraSurfaces[key] ?? [])]) };
+  });
+
+  const tokenizerAux = groupByTag(auxiliaries.filter(a => !a.skip), overrides.auxTagOrder);
+  const tokenizerParticles = groupByTag(
+    overrides.tokenizerParticles.map(key => particles.find(p => p.key === key) ?? { tag: null, surfaces: [] }),
+    []
+  );
+
+  const sentenceTags = {} as Record<SentenceTagName, string[]>;
+  for (const [name, spec] of Object.entries(overrides.sentenceTags) as Array<[SentenceTagName, GrammarRulesOverrides['sentenceTags'][SentenceTagName]]>) {
+    const source = spec.from === 'auxiliaries' ? grammar.auxiliaries : grammar.particles;
+    sentenceTags[name] = unique([...source.filter(x => meaningIs(x.意味, spec.意味)).map(x => bareWord(x.語)), ...spec.extra]);
+  }
+
+  return { auxiliaries, particles, tokenizer: { aux: tokenizerAux, particles: tokenizerParticles }, sentenceTags };
+}
@@ -0,0 +1,71 @@
+/**
+ * 識別ドリル（文法モード「識別」）
+ * 例文の〔〕の語を identification_rules_flow の条件に上から順に当てはめ、最初に当てはまった条件の result が答え
+ * 生徒は各条件に「はい／いいえ」で答えて進む
+ */
+import type { DisambFlow, GrammarIndex } from './grammarLoader';
+import { IDENTIFICATION_ITEMS, type IdentificationItem } from '../data/identificationItems';
+import { shuffle } from './grammarDrill';
+
+export interface IdentificationQuestion {
+  /** 回答の記録に使う qid（"identification:namu-1"） */
+  qid: string;
+  word: string;
+  /** 〔〕の前・中・後 */
+  before: string;
+  target: string;
+  after: string;
+  source?: string;
+  steps: DisambFlow[];
+  /** 当てはまる条件の位置（steps の添字） */
+  answerStep: number;
+}
+
+export interface StepOutcome {
+  /** この条件への答えが正しかったか */
+  correct: boolean;
+  /** 問題が終わったか（正しく当てはめた・間違えた） */
+  done: boolean;
+}
+
+export const identificationQid = (itemId: string) => `identification:${itemId}`;
+
+/** 例文とフローを突き合わせる（フローが無い語・result がフローに無い例文は除く） */
+export function buildIdentificationQuestions(
+  grammar: GrammarIndex,
+  items: IdentificationItem[] = IDENTIFICATION_ITEMS
+): IdentificationQuestion[] {
+  const questions: IdentificationQuestion[] = [];
+  for (const item of items) {
+    const steps = grammar.flows.get(item.word);
+    const answerStep = steps?.findIndex(s => s.result === item.result) ?? -1;
+    const m = /^(.*?)〔([^〕]+)〕(.*)$/.exec(item.sentence);
+    if (!steps || answerStep < 0 || !m) continue;
+    questions.push({
+      qid: identificationQid(item.id),
+      word: item.word,
+      before: m[1],
+      target: m[2],
+      after: m[3],
+      source: item.source,
+      steps,
+      answerStep,
+    });
+  }
+  return questions;
+}
+
+/** count 問をランダムに選ぶ */
+export function generateIdentificationQuiz(grammar: GrammarIndex, count: number, random: () => number = Math.random): IdentificationQuestion[] {
+  return shuffle(buildIdentificationQuestions(grammar), random).slice(0, Math.max(1, count));
+}
+
+/**
+ * stepIndex 番目の条件に「当てはまる（yes）／当てはまらない」と答えた結果
+ * 答えの条件より前は「いいえ」、答えの条件で「はい」が正しい
+ */
+export function answerStep(question: IdentificationQuestion, stepIndex: number, yes: boolean): StepOutcome {
+  if (stepIndex === question.answerStep) return { correct: yes, done: true };
+  if (stepIndex < question.answerStep) return { correct: !yes, done: yes };
+  return { correct: false, done: true };
+}
@@ -0,0 +1,63 @@
+/**
+ * 記述式解答の自動判定
+ * クライアント採点（App.tsx）と再採点API（api/rejudge）で同じ判定を使う
+ */
+import { matchSense, type SenseCandidate, type LearnedCandidate } from "../utils/matchSense";
+
+/** 判定ロジックのバージョン（raw.auto.version に記録） */
+export const JUDGE_VERSION = "matchSense-5.0";
+
+/** この点数以上を正解扱い（手動判定で変更可能） */
+export const PASS_SCORE = 60;
+
+/** matchSense のスコア → フィードバック文 */
+const SCORE_FEEDBACK: Record<number, string> = {
+  100: '完全一致！',
+  85: '接続部分（〜て、〜で）のみ訳し忘れ',
+  75: '余分な意味を付け加えています',
+  70: '活用形の違い',
+  65: '必須要素が欠落しています',
+  60: '意味的に近い',
+  0: '意味が異なります'
+};
+
+export interface WritingJudgment {
+  score: number;
+  result: "OK" | "NG";
+  feedback: string;
+  reason: string;
+  detail?: string;
+  /** matchSense の生スコア（NG でも 0 にしない） */
+  matchScore: number;
+}
+
+/**
+ * 記述解答を採点し、OK/NG とフィードバックを返す
+ */
+export function judgeWriting(
+  answer: string,
+  candidates: SenseCandidate[],
+  learned: LearnedCandidate[] = []
+): WritingJudgment {
+  const result = matchSense(answer, candidates, learned);
+
+  if (result.ok && result.score >= PASS_SCORE) {
+    return {
+      score: result.score,
+      result: "OK",
+      feedback: SCORE_FEEDBACK[result.score] || `${result.score}% - ${result.detail || ''}`,
+      reason: result.reason,
+      detail: result.detail,
+      matchScore: result.score
+    };
+  }
+
+  return {
+    score: 0,
+    result: "NG",
+    feedback: SCORE_FEEDBACK[0],
+    reason: result.reason,
+    detail: result.detail,
+    matchScore: result.score
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * 学習済み正解バンドル（/api/learnedBundle）のクライアント側キャッシュ
+ * 起動時に取得し、ハッシュが変わっていなければ 304 でキャッシュをそのまま使う
+ * オフラインでも前回取得した版で採点できるよう localStorage に保存する
+ */
+import type { LearnedCandidate } from '../utils/matchSense';
+
+const CACHE_KEY = 'kobun-learned';
+
+export type LearnedMap = Record<string, LearnedCandidate[]>;
+
+export interface CachedLearned {
+  version: number;
+  hash: string | null;
+  learned: LearnedMap;
+}
+
+const EMPTY: CachedLearned = { version: 0, hash: null, learned: {} };
+
+export function getCachedLearned(): CachedLearned {
+  try {
+    const stored = localStorage.getItem(CACHE_KEY);
+    return stored ? JSON.parse(stored) : EMPTY;
+  } catch {
+    return EMPTY;
+  }
+}
+
+/** サーバーから取得してキャッシュを更新（失敗時はキャッシュを返す） */
+export async function loadLearned(): Promise<CachedLearned> {
+  const cached = getCachedLearned();
+  try {
+    const response = await fetch('/api/learnedBundle', {
+      headers: cached.hash ? { 'If-None-Match': `"${cached.hash}"` } : {},
+    });
+    if (response.status === 304) return cached;
+    if (!response.ok) throw new Error(`learnedBundle failed: ${response.status}`);
+    const data = await response.json();
+    const next: CachedLearned = { version: data.version ?? 0, hash: data.hash ?? null, learned: data.learned ?? {} };
+    localStorage.setItem(CACHE_KEY, JSON.stringify(next));
+    return next;
+  } catch {
+    return cached;
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * 回答履歴 → 学習進捗の集計（純粋関数）
+ */
+import type { Word } from '../types';
+import type { AnswerLogEntry } from './answerLog';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Accuracy {
+  key: string;
+  attempts: number;
+  correct: number;
+  rate: number;  // 0〜1
+}
+
+export interface ProgressSummary {
+  total: number;
+  correct: number;
+  byGroup: Accuracy[];
+  byLemma: Accuracy[];
+  byQuizType: Accuracy[];
+  weakestSenses: Array<Accuracy & { lemma: string; sense: string }>;
+  currentDayStreak: number;   // 今日（または昨日）まで連続で学習した日数
+  bestDayStreak: number;
+  currentCorrectStreak: number;  // 直近の連続正解数
+}
+
+function tally(entries: AnswerLogEntry[], keyOf: (e: AnswerLogEntry) => string | null): Accuracy[] {
+  const map = new Map<string, Accuracy>();
+  for (const e of entries) {
+    const key = keyOf(e);
+    if (key === null) continue;
+    const acc = map.get(key) ?? { key, attempts: 0, correct: 0, rate: 0 };
+    acc.attempts++;
+    if (e.correct) acc.correct++;
+    map.set(key, acc);
+  }
+  return Array.from(map.values()).map(a => ({ ...a, rate: a.correct / a.attempts }));
+}
+
+/** ローカル日付の通し番号（タイムゾーン考慮） */
+function dayNumber(ts: number, tzOffsetMin: number): number {
+  return Math.floor((ts - tzOffsetMin * 60 * 1000) / DAY_MS);
+}
+
+export function computeProgress(
+  entries: AnswerLogEntry[],
+  words: Word[],
+  now: number = Date.now(),
+  tzOffsetMin: number = new Date(now).getTimezoneOffset()
+): ProgressSummary {
+  const wordByQid = new Map(words.map(w => [w.qid, w]));
+
+  const byGroup = tally(entries, e => {
+    const w = wordByQid.get(e.qid);
+    return w ? String(w.group) : null;
+  }).sort((a, b) => Number(a.key) - Number(b.key));
+
+  const byLemma = tally(entries, e => wordByQid.get(e.qid)?.lemma ?? null)
+    .sort((a, b) => a.rate - b.rate || b.attempts - a.attempts);
+
+  const byQuizType = tally(entries, e => e.quizType)
+    .sort((a, b) => b.attempts - a.attempts);
+
+  // 2回以上解いた意味のうち正答率の低い順
+  const weakestSenses = tally(entries, e => e.qid)
+    .filter(a => a.attempts >= 2 && a.rate < 1)
+    .sort((a, b) => a.rate - b.rate || b.attempts - a.attempts)
+    .slice(0, 10)
+    .map(a => ({
+      ...a,
+      lemma: wordByQid.get(a.key)?.lemma ?? a.key,
+      sense: wordByQid.get(a.key)?.sense ?? '',
+    }));
+
+  // 日単位の連続学習
+  const days = Array.from(new Set(entries.map(e => dayNumber(e.ts, tzOffsetMin)))).sort((a, b) => a - b);
+  let bestDayStreak = 0;
+  let run = 0;
+  for (let i = 0; i < days.length; i++) {
+    run = i > 0 && days[i] === days[i - 1] + 1 ? run + 1 : 1;
+    bestDayStreak = Math.max(bestDayStreak, run);
+  }
+  const today = dayNumber(now, tzOffsetMin);
+  const lastDay = days[days.length - 1];
+  const currentDayStreak = lastDay !== undefined && today - lastDay <= 1 ? run : 0;
+
+  // 直近の連続正解
+  const sorted = [...entries].sort((a, b) => b.ts - a.ts);
+  let currentCorrectStreak = 0;
+  for (const e of sorted) {
+    if (!e.correct) break;
+    currentCorrectStreak++;
+  }
+
+  return {
+    total: entries.length,
+    correct: entries.filter(e => e.correct).length,
+    byGroup,
+    byLemma,
+    byQuizType,
+    weakestSenses,
+    currentDayStreak,
+    bestDayStreak,
+    currentCorrectStreak,
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * 問題ごとの採点閾値（/api/thresholds）のクライアント側キャッシュ
+ * オフラインでも前回取得した閾値で採点できるよう localStorage に保存する
+ */
+import { DEFAULT_THRESHOLDS, type Thresholds } from '../scoring/thresholds';
+
+const CACHE_KEY = 'kobun-thresholds';
+
+export type ThresholdMap = Record<string, Thresholds>;
+
+export function getCachedThresholds(): ThresholdMap {
+  try {
+    const stored = localStorage.getItem(CACHE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** サーバーから取得してキャッシュを更新（失敗時はキャッシュを返す） */
+export async function loadThresholds(): Promise<ThresholdMap> {
+  try {
+    const response = await fetch('/api/thresholds');
+    if (!response.ok) throw new Error(`thresholds failed: ${response.status}`);
+    const data = await response.json();
+    const map: ThresholdMap = {};
+    for (const [qid, t] of Object.entries<any>(data.thresholds ?? {})) {
+      map[qid] = { hi: t.hi, lo: t.lo, ...(t.autoResolve !== undefined ? { autoResolve: t.autoResolve } : {}) };
+    }
+    localStorage.setItem(CACHE_KEY, JSON.stringify(map));
+    return map;
+  } catch {
+    return getCachedThresholds();
+  }
+}
+
+export function thresholdsFor(map: ThresholdMap, qid: string): Thresholds {
+  return map[qid] ?? DEFAULT_THRESHOLDS;
+}
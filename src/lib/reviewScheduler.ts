@@ -0,0 +1,113 @@
+/**
+ * qid 単位の間隔反復スケジューラ（SM-2 方式）
+ * 採点済みの回答を記録し、次回の復習期限を localStorage に保存する
+ */
+
+const SCHEDULE_KEY = 'kobun-review-schedule';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** SM-2 の易しさ係数の下限・初期値 */
+const MIN_EASE = 1.3;
+const INITIAL_EASE = 2.5;
+
+export interface ReviewItem {
+  qid: string;
+  ease: number;       // 易しさ係数
+  interval: number;   // 次回までの間隔（日）
+  reps: number;       // 連続正解回数
+  lapses: number;     // 累計の誤答回数
+  due: number;        // 復習期限（epoch ms）
+  lastReviewed: number;
+}
+
+export type ReviewSchedule = Record<string, ReviewItem>;
+
+/**
+ * SM-2 で次回の間隔を計算する（純粋関数）
+ * quality: 0〜5（3未満は誤答扱いで間隔をリセット）
+ */
+export function scheduleNext(
+  prev: ReviewItem | undefined,
+  qid: string,
+  quality: number,
+  now: number = Date.now()
+): ReviewItem {
+  const q = Math.max(0, Math.min(5, Math.round(quality)));
+  const ease = prev?.ease ?? INITIAL_EASE;
+  const nextEase = Math.max(MIN_EASE, ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+  let reps: number;
+  let interval: number;
+  if (q < 3) {
+    // 誤答: 翌日にもう一度
+    reps = 0;
+    interval = 1;
+  } else {
+    reps = (prev?.reps ?? 0) + 1;
+    if (reps === 1) interval = 1;
+    else if (reps === 2) interval = 6;
+    else interval = Math.round((prev?.interval ?? 1) * nextEase);
+  }
+
+  return {
+    qid,
+    ease: nextEase,
+    interval,
+    reps,
+    lapses: (prev?.lapses ?? 0) + (q < 3 ? 1 : 0),
+    due: now + interval * DAY_MS,
+    lastReviewed: now,
+  };
+}
+
+/** 正誤（と記述式の点数）→ SM-2 の quality */
+export function answerQuality(isCorrect: boolean, score?: number): number {
+  if (!isCorrect) return 1;
+  if (score === undefined) return 4;
+  if (score >= 100) return 5;
+  if (score >= 85) return 4;
+  return 3;
+}
+
+/**
+ * 期限切れの qid を、期限を過ぎてからの経過が長い順に返す（純粋関数）
+ */
+export function dueQids(schedule: ReviewSchedule, now: number = Date.now()): string[] {
+  return Object.values(schedule)
+    .filter(item => item.due <= now)
+    .sort((a, b) => a.due - b.due)
+    .map(item => item.qid);
+}
+
+export function loadSchedule(): ReviewSchedule {
+  try {
+    const stored = localStorage.getItem(SCHEDULE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveSchedule(schedule: ReviewSchedule) {
+  try {
+    localStorage.setItem(SCHEDULE_KEY, JSON.stringify(schedule));
+  } catch {
+    // localStorage が使えない場合は無視
+  }
+}
+
+/**
+ * 採点済みの回答を記録し、更新後の項目を返す
+ */
+export function recordReview(qid: string, quality: number, now: number = Date.now()): ReviewItem {
+  const schedule = loadSchedule();
+  const next = scheduleNext(schedule[qid], qid, quality, now);
+  schedule[qid] = next;
+  saveSchedule(schedule);
+  return next;
+}
+
+/** 現在期限切れの qid 一覧 */
+export function getDueQids(now: number = Date.now()): string[] {
+  return dueQids(loadSchedule(), now);
+}
@@ -0,0 +1,111 @@
+/**
+ * 例文の逐語解析（ExampleDisplay の「解析」表示）
+ * kuromoji で単語に分け、助動詞・助詞を GrammarIndex の表と照合し、活用語は活用表の逆引き（conjugation）で活用形を推定する
+ * 係助詞とその結び（同じ文の最後の活用語）を組にして印を付ける
+ */
+import type { Morpheme } from '../scoring/gradeMeaning';
+import type { GrammarIndex, AuxiliaryRule, ParticleRule } from './grammarLoader';
+import { loadGrammarAsync } from './grammarLoader';
+import { guessAdjectiveForm, guessVerbForm, type Form } from '../utils/formGuesser';
+import { analyzeAuxiliary, getConjugationTables } from './conjugation';
+
+export type GlossKind = 'content' | 'aux' | 'particle' | 'symbol';
+
+export interface GlossToken {
+  surface: string;
+  base: string;
+  /** kuromoji の品詞 */
+  pos: string;
+  kind: GlossKind;
+  /** 行間に出す説明（助動詞の意味・助詞の種類） */
+  gloss?: string;
+  /** 活用語の活用形（推定） */
+  form?: Form;
+  /** 係り結び：pair は文中の何組目か（0始まり） */
+  kakari?: { role: 'kakari' | 'musubi'; pair: number; expected: '連体形' | '已然形' };
+}
+
+const CONJUGATING = new Set(['動詞', '形容詞', '助動詞']);
+
+/** 助動詞の語形を、表で当たった助動詞の活用表から引く */
+function auxForm(m: Morpheme, rules: AuxiliaryRule[], grammar: GrammarIndex): Form {
+  const words = rules.map(a => a.語);
+  const hit = analyzeAuxiliary(getConjugationTables(grammar), m.surface).find(c => words.includes(c.基本形));
+  return hit?.form ?? '不明';
+}
+const SENTENCE_END = /^[。！？!?]$/;
+
+/** "む（ん）" → ["む", "ん"]、"たり（完了・存続）" → ["たり"] */
+function auxSpellings(aux: AuxiliaryRule): string[] {
+  const m = /^([^（]+)(?:（([^）]+)）)?$/.exec(aux.語);
+  if (!m) return [aux.語];
+  const alt = m[2];
+  // 括弧の中が仮名1〜2文字なら別表記、それ以外は意味の注記
+  return alt && /^[ぁ-ゖ]{1,2}$/.test(alt) ? [m[1], alt] : [m[1]];
+}
+
+function findAuxiliaries(m: Morpheme, grammar: GrammarIndex): AuxiliaryRule[] {
+  return grammar.auxiliaries.filter(a => auxSpellings(a).some(w => w === m.surface || w === m.base));
+}
+
+function findParticles(m: Morpheme, grammar: GrammarIndex): ParticleRule[] {
+  return grammar.particles.filter(p => p.語.replace(/（[^）]*）$/, '') === m.surface);
+}
+
+/** 形態素列に文法の説明と係り結びを付ける */
+export function analyzeMorphemes(morphemes: Morpheme[], grammar: GrammarIndex): GlossToken[] {
+  const tokens: GlossToken[] = morphemes.map(m => {
+    const base = { surface: m.surface, base: m.base, pos: m.pos0 };
+    if (m.pos0 === '記号') return { ...base, kind: 'symbol' as const };
+
+    if (m.pos0 === '助詞') {
+      const rules = findParticles(m, grammar);
+      const kinds = Array.from(new Set(rules.map(p => p.種類)));
+      return { ...base, kind: 'particle' as const, gloss: kinds.length ? kinds.join('／') : undefined };
+    }
+
+    // 助動詞は品詞か表の語で判定（kuromoji は古語の助動詞を動詞に分けることがある）
+    const auxRules = m.pos0 === '名詞' ? [] : findAuxiliaries(m, grammar);
+    if (m.pos0 === '助動詞' || auxRules.length > 0) {
+      const meanings = Array.from(new Set(auxRules.flatMap(a => a.意味)));
+      return {
+        ...base,
+        kind: 'aux' as const,
+        gloss: meanings.length ? meanings.join('・') : undefined,
+        form: auxForm(m, auxRules, grammar),
+      };
+    }
+
+    const form = m.pos0 === '動詞' ? guessVerbForm(m.surface, grammar)
+      : m.pos0 === '形容詞' ? guessAdjectiveForm(m.surface, grammar)
+      : undefined;
+    return { ...base, kind: 'content' as const, form };
+  });
+
+  // 係り結び：係助詞から文末（句点）までの最後の活用語を結びとする
+  let pair = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    const expected = t.kind === 'particle' ? grammar.kakari.get(t.surface) : undefined;
+    if (!expected) continue;
+
+    let musubi = -1;
+    for (let j = i + 1; j < tokens.length && !SENTENCE_END.test(tokens[j].surface); j++) {
+      if (CONJUGATING.has(tokens[j].pos) || tokens[j].kind === 'aux') musubi = j;
+    }
+    if (musubi < 0) continue;
+    t.kakari = { role: 'kakari', pair, expected };
+    tokens[musubi].kakari = { role: 'musubi', pair, expected };
+    pair++;
+  }
+
+  return tokens;
+}
+
+/** 例文を解析する（〔〕は見出し語の印なので外す） */
+export async function analyzeSentence(text: string): Promise<GlossToken[]> {
+  const { getTokenizer, toM } = await import('../scoring/gradeMeaning');
+  const [tokenizer, grammar] = await Promise.all([getTokenizer(), loadGrammarAsync()]);
+  const morphemes = tokenizer.tokenize(text.replace(/[〔〕]/g, '')).map(toM);
+  return analyzeMorphemes(morphemes, grammar);
+}
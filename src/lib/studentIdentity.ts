@@ -0,0 +1,71 @@
+/**
+ * 生徒の識別（端末ごとの anonId）と参加中のクラス
+ * クラスは /api/joinClass で参加コードを送って入り、表示名は名簿側（classMembers）に保存される
+ * anonId の本人確認には端末だけが知る anonKey を x-anon-key ヘッダで送る（サーバは最初に届いた鍵を覚える）
+ */
+
+const ANON_KEY = 'anonId';
+const ANON_SECRET_KEY = 'anonKey';
+const CLASS_KEY = 'kobun-class';
+
+export interface StudentClass {
+  classId: string;
+  className: string;
+  displayName: string;
+}
+
+/** 推測できないランダムな文字列（base64url） */
+function randomToken(bytes: number): string {
+  const buf = crypto.getRandomValues(new Uint8Array(bytes));
+  return btoa(String.fromCharCode(...buf)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** 端末の anonId（無ければ作って保存） */
+export function getAnonId(): string {
+  let anonId = localStorage.getItem(ANON_KEY);
+  if (!anonId) {
+    anonId = `anon_${randomToken(16)}`;
+    localStorage.setItem(ANON_KEY, anonId);
+  }
+  return anonId;
+}
+
+/** anonId の本人確認用の鍵（無ければ作って保存。サーバには送るが画面には出さない） */
+export function getAnonKey(): string {
+  let key = localStorage.getItem(ANON_SECRET_KEY);
+  if (!key) {
+    key = randomToken(32);
+    localStorage.setItem(ANON_SECRET_KEY, key);
+  }
+  return key;
+}
+
+export function getStudentClass(): StudentClass | null {
+  try {
+    const stored = localStorage.getItem(CLASS_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** 参加コードでクラスに入る（参加済みのクラスなら表示名の変更になる） */
+export async function joinClass(joinCode: string, displayName: string): Promise<StudentClass> {
+  const response = await fetch('/api/joinClass', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-anon-key': getAnonKey() },
+    body: JSON.stringify({ joinCode, displayName, anonId: getAnonId() }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(response.status === 404 ? '参加コードが見つかりません' : data.error || `joinClass failed: ${response.status}`);
+  }
+  const joined: StudentClass = { classId: data.classId, className: data.className, displayName: data.displayName };
+  localStorage.setItem(CLASS_KEY, JSON.stringify(joined));
+  return joined;
+}
+
+/** 端末からクラスの記録を外す（名簿からは消えない） */
+export function leaveClass() {
+  localStorage.removeItem(CLASS_KEY);
+}
@@ -3,6 +3,8 @@
  * 助動詞の左接続、係り結びの呼応、曖昧形の識別を検証
  */
 import { loadGrammar } from "./grammarLoader";
+import { findAuxRule } from "./grammarRules";
+import { bareWord } from "./grammarRulesBuilder";
 import { tokenizeSense, Morpheme } from "../utils/morphTokenizer";
 import {
   guessLeftForm,
@@ -165,12 +167,10 @@ function findAuxWordByTag(
   surface: string,
   grammar: ReturnType<typeof loadGrammar>
 ): string | null {
-  // タグから助動詞を逆引き
-  for (const aux of grammar.auxiliaries) {
-    const cleanWord = aux.語.replace(/[（）\(\)][^（）\(\)]*$/g, "").trim();
-    if (aux.意味.includes(tag)) {
-      return cleanWord;
-    }
+  // タグと表層から助動詞を逆引き（lib/grammarRules、文法データから生成）
+  const rule = findAuxRule(tag, surface);
+  if (rule) {
+    return bareWord(rule.語);
   }
 
   // 表層から直接マッチ
@@ -178,23 +178,7 @@ function findAuxWordByTag(
     return surface;
   }
 
-  // 一部のケース（「けり」「き」など）
-  const directMap: Record<string, string> = {
-    けり: "けり",
-    き: "き",
-    けむ: "けむ",
-    べし: "べし",
-    まじ: "まじ",
-    らむ: "らむ",
-    む: "む",
-    ず: "ず",
-    つ: "つ",
-    ぬ: "ぬ",
-    たり: "たり",
-    り: "り",
-  };
-
-  return directMap[surface] || null;
+  return null;
 }
 
 /**
@@ -4,8 +4,13 @@ import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import App from './App.tsx'
 import { TestGrading } from './TestGrading.tsx'
 import Teacher from './pages/Teacher.tsx'
+import Progress from './pages/Progress.tsx'
+import { startQueueSync } from './lib/answerQueue'
 import './index.css'
 
+// オフライン中に溜まった回答を再送
+startQueueSync()
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <BrowserRouter>
@@ -13,6 +18,7 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
         <Route path="/" element={<App />} />
         <Route path="/test-grading" element={<TestGrading />} />
         <Route path="/teacher" element={<Teacher />} />
+        <Route path="/progress" element={<Progress />} />
       </Routes>
     </BrowserRouter>
   </React.StrictMode>,
@@ -0,0 +1,240 @@
+// src/pages/Progress.tsx
+import { useEffect, useMemo, useState, type FormEvent } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { dataParser } from "../utils/dataParser";
+import type { Word } from "../types";
+import { getAllAnswers, mergeRemoteAnswers, type AnswerLogEntry, type LoggedQuizType } from "../lib/answerLog";
+import { computeProgress, type Accuracy } from "../lib/progressStats";
+import { getAnonKey, getStudentClass, joinClass, leaveClass, type StudentClass } from "../lib/studentIdentity";
+
+const QUIZ_TYPE_LABELS: Record<string, string> = {
+  "word-meaning": "単語→意味",
+  "word-reverse": "意味→単語",
+  "sentence-meaning": "例文→意味",
+  "meaning-writing": "意味記述",
+  "example-comprehension": "例文理解",
+  "true-false": "正誤問題",
+  "context-writing": "文脈記述",
+  "identification": "識別",
+};
+
+/** サーバの回答履歴を端末内の履歴に取り込む（この端末の anonId の分。鍵は x-anon-key で送る） */
+async function syncWithServer(): Promise<number> {
+  const anonId = localStorage.getItem("anonId");
+  if (!anonId) return 0;
+
+  const r = await fetch(`/api/myAnswers?anonId=${encodeURIComponent(anonId)}`, { headers: { "x-anon-key": getAnonKey() } });
+  if (!r.ok) throw new Error(await r.text());
+  const data = await r.json();
+
+  const remote: AnswerLogEntry[] = (data.answers || [])
+    .filter((a: any) => a.qid && a.result)
+    .map((a: any) => ({
+      qid: a.qid,
+      quizType: (a.quizType || "meaning-writing") as LoggedQuizType,
+      correct: a.result === "OK",
+      ts: a.ts,
+      score: a.score ?? undefined,
+      answerRaw: a.answerRaw,
+      answerId: a.answerId,
+      clientTs: a.clientTs ?? undefined,
+    }));
+  return mergeRemoteAnswers(remote);
+}
+
+function percent(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function AccuracyBar({ rate }: { rate: number }) {
+  const color = rate >= 0.8 ? "bg-green-500" : rate >= 0.5 ? "bg-yellow-500" : "bg-red-500";
+  return (
+    <div className="w-full h-2 bg-slate-200 rounded">
+      <div className={`h-2 rounded ${color}`} style={{ width: percent(rate) }} />
+    </div>
+  );
+}
+
+function AccuracyTable({ title, rows, labelOf }: { title: string; rows: Accuracy[]; labelOf?: (key: string) => string }) {
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <h3 className="font-bold text-slate-800 mb-3">{title}</h3>
+      {rows.length === 0 ? (
+        <div className="text-sm text-slate-500">まだ記録がありません</div>
+      ) : (
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {rows.map(r => (
+            <div key={r.key} className="grid grid-cols-[6rem_1fr_5rem] items-center gap-2 text-sm">
+              <span className="text-slate-700 truncate">{labelOf ? labelOf(r.key) : r.key}</span>
+              <AccuracyBar rate={r.rate} />
+              <span className="text-right text-slate-600">{percent(r.rate)}（{r.attempts}）</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** クラス参加（?join=参加コード のリンクで開くとコードが入った状態になる） */
+function ClassCard({ initialCode }: { initialCode: string }) {
+  const [joined, setJoined] = useState<StudentClass | null>(getStudentClass);
+  const [editing, setEditing] = useState(!joined || !!initialCode);
+  const [code, setCode] = useState(initialCode);
+  const [name, setName] = useState(joined?.displayName ?? "");
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setMessage(null);
+    try {
+      const next = await joinClass(code.trim(), name.trim());
+      setJoined(next);
+      setEditing(false);
+      setMessage(`「${next.className}」に${next.displayName}として参加しました`);
+    } catch (err: any) {
+      setMessage(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 text-sm">
+      <h3 className="font-bold text-slate-800 mb-2">クラス</h3>
+      {joined && !editing && (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-slate-700">{joined.className}（{joined.displayName}）</span>
+          <button onClick={() => setEditing(true)} className="text-blue-600 hover:underline">名前・クラスを変える</button>
+          <button onClick={() => { leaveClass(); setJoined(null); setEditing(true); }} className="text-slate-500 hover:underline">参加をやめる</button>
+        </div>
+      )}
+      {editing && (
+        <form onSubmit={submit} className="flex flex-wrap items-center gap-2">
+          <input value={code} onChange={e => setCode(e.target.value)} placeholder="参加コード"
+            className="border border-slate-300 rounded px-2 py-1 w-32 uppercase" required />
+          <input value={name} onChange={e => setName(e.target.value)} placeholder="名前（先生に表示）" maxLength={40}
+            className="border border-slate-300 rounded px-2 py-1" required />
+          <button type="submit" disabled={busy} className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50">参加</button>
+          {joined && <button type="button" onClick={() => setEditing(false)} className="text-slate-500 hover:underline">やめる</button>}
+        </form>
+      )}
+      {message && <div className="mt-2 text-xs text-slate-600">{message}</div>}
+    </div>
+  );
+}
+
+export default function Progress() {
+  const [searchParams] = useSearchParams();
+  const [words, setWords] = useState<Word[]>([]);
+  const [entries, setEntries] = useState<AnswerLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [syncMessage, setSyncMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        await dataParser.loadData();
+        setWords(dataParser.getAllWords());
+        setEntries(await getAllAnswers());
+      } finally {
+        setLoading(false);
+      }
+
+      // サーバとの同期はバックグラウンドで
+      try {
+        const merged = await syncWithServer();
+        if (merged > 0) {
+          setEntries(await getAllAnswers());
+          setSyncMessage(`サーバから${merged}件の記録を同期しました`);
+        }
+      } catch (e) {
+        console.warn("Failed to sync answers:", e);
+        setSyncMessage("サーバとの同期に失敗しました（端末内の記録のみ表示）");
+      }
+    })();
+  }, []);
+
+  const summary = useMemo(() => computeProgress(entries, words), [entries, words]);
+
+  if (loading) return (
+    <div className="p-8 max-w-4xl mx-auto">
+      <div className="text-center text-slate-600">読み込み中...</div>
+    </div>
+  );
+
+  return (
+    <div className="p-4 sm:p-8 max-w-4xl mx-auto space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-slate-800">学習の記録</h2>
+        <Link to="/" className="text-sm text-blue-600 hover:underline">← クイズに戻る</Link>
+      </div>
+
+      {syncMessage && (
+        <div className="text-xs text-slate-500">{syncMessage}</div>
+      )}
+
+      <ClassCard initialCode={searchParams.get("join") ?? ""} />
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <div className="bg-white rounded-lg shadow p-3 text-center">
+          <div className="text-xs text-slate-500">解答数</div>
+          <div className="text-xl font-bold text-slate-800">{summary.total}</div>
+        </div>
+        <div className="bg-white rounded-lg shadow p-3 text-center">
+          <div className="text-xs text-slate-500">正答率</div>
+          <div className="text-xl font-bold text-slate-800">
+            {summary.total ? percent(summary.correct / summary.total) : "-"}
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow p-3 text-center">
+          <div className="text-xs text-slate-500">連続学習</div>
+          <div className="text-xl font-bold text-slate-800">
+            {summary.currentDayStreak}日
+            <span className="text-xs font-normal text-slate-500">（最長{summary.bestDayStreak}日）</span>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow p-3 text-center">
+          <div className="text-xs text-slate-500">連続正解</div>
+          <div className="text-xl font-bold text-slate-800">{summary.currentCorrectStreak}問</div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4">
+        <h3 className="font-bold text-slate-800 mb-3">苦手な意味</h3>
+        {summary.weakestSenses.length === 0 ? (
+          <div className="text-sm text-slate-500">2回以上解いた意味で間違えたものはありません</div>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody className="divide-y divide-slate-200">
+              {summary.weakestSenses.map(s => (
+                <tr key={s.key}>
+                  <td className="py-2 font-medium text-slate-800">{s.lemma}</td>
+                  <td className="py-2 text-slate-600">{s.sense}</td>
+                  <td className="py-2 text-right text-red-600">{s.correct}/{s.attempts}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <AccuracyTable
+          title="クイズ種別ごと"
+          rows={summary.byQuizType}
+          labelOf={k => QUIZ_TYPE_LABELS[k] ?? k}
+        />
+        <AccuracyTable
+          title="グループごと"
+          rows={summary.byGroup}
+          labelOf={k => `No.${k}`}
+        />
+      </div>
+
+      <AccuracyTable title="見出し語ごと（正答率の低い順）" rows={summary.byLemma} />
+    </div>
+  );
+}
@@ -1,25 +1,20 @@
 // src/pages/Teacher.tsx
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useRef, useState, type FormEvent } from "react";
 import { dataParser } from "../utils/dataParser";
+import { gradeWith } from "../scoring/graders";
+import { loadEnsembleConfig } from "../lib/ensembleConfig";
+
+// API キー（/api/apiKeys で発行）はこの端末の localStorage にだけ置く。URL には載せない（ログに残るため）
+const API_KEY_STORAGE = "ADMIN_VIEW_TOKEN";
 
 function getToken(): string | null {
-  // URL ?token=... → localStorage 保存（次回からURLに出さなくてOK）
-  const u = new URL(window.location.href);
-  const q = u.searchParams.get("token");
-  if (q) {
-    localStorage.setItem("ADMIN_VIEW_TOKEN", q);
-    // URLからtokenを消す（戻る対策に replaceState）
-    u.searchParams.delete("token");
-    window.history.replaceState(null, "", u.toString());
-    return q;
-  }
-  return localStorage.getItem("ADMIN_VIEW_TOKEN");
+  return localStorage.getItem(API_KEY_STORAGE);
 }
 
 async function callAPI(path: string, body?: any) {
   const tok = getToken();
   if (!tok) throw new Error("NO_TOKEN");
-  const headers: any = { "Content-Type": "application/json", "x-admin-token": tok };
+  const headers: any = { "Content-Type": "application/json", "x-api-key": tok };
   const res = await fetch(path, {
     method: body ? "POST" : "GET",
     headers,
@@ -29,33 +24,162 @@ async function callAPI(path: string, body?: any) {
   return res.json();
 }
 
+// 回答ブラウザの絞り込み（/api/browseAnswers のクエリ。空文字は指定なし）
+type AnswerFilterForm = {
+  classId: string;
+  qid: string;
+  lemma: string;
+  groupFrom: string;
+  groupTo: string;
+  result: string;
+  source: string;
+  questionType: string;
+  from: string;
+  to: string;
+  student: string;
+  scoreMin: string;
+  scoreMax: string;
+};
+
+const EMPTY_FILTERS: AnswerFilterForm = {
+  classId: "", qid: "", lemma: "", groupFrom: "", groupTo: "", result: "", source: "",
+  questionType: "writing", from: "", to: "", student: "", scoreMin: "", scoreMax: "",
+};
+
+const PAGE_SIZE = 50;
+
+// 課題の作成フォーム（/api/assignments の create。qids が空ならグループ範囲）
+type AssignmentForm = {
+  title: string;
+  classId: string;
+  quizType: string;
+  qids: string;
+  groupFrom: string;
+  groupTo: string;
+  count: string;
+  opensAt: string;   // datetime-local
+  closesAt: string;  // datetime-local
+};
+
+const QUIZ_TYPE_OPTIONS: Array<[string, string]> = [
+  ["word-meaning", "単語→意味"],
+  ["word-reverse", "意味→単語"],
+  ["sentence-meaning", "例文→意味"],
+  ["meaning-writing", "意味記述"],
+  ["example-comprehension", "多義語: 例文理解"],
+  ["true-false", "多義語: 正誤問題"],
+  ["context-writing", "多義語: 文脈記述"],
+];
+
+const STATUS_LABELS: Record<string, string> = { upcoming: "受付前", open: "受付中", closed: "締切" };
+
+const toLocalInput = (d: Date) => new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+const emptyAssignmentForm = (): AssignmentForm => ({
+  title: "", classId: "", quizType: "word-meaning", qids: "", groupFrom: "1", groupTo: "50", count: "10",
+  opensAt: toLocalInput(new Date()),
+  closesAt: toLocalInput(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)),
+});
+
+function filterParams(f: AnswerFilterForm): URLSearchParams {
+  const params = new URLSearchParams();
+  const { student, from, to, ...rest } = f;
+  for (const [k, v] of Object.entries(rest)) if (v.trim()) params.set(k, v.trim());
+  // 日付は日単位（to はその日の終わりまで）
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+  // 生徒は anonId（anon_ で始まる）か uid
+  if (student.trim()) params.set(student.trim().startsWith("anon") ? "anonId" : "uid", student.trim());
+  return params;
+}
+
+function answerQuery(f: AnswerFilterForm, cursor: string | null): string {
+  const params = filterParams(f);
+  params.set("limit", String(PAGE_SIZE));
+  if (cursor) params.set("cursor", cursor);
+  return `/api/browseAnswers?${params}`;
+}
+
+// 書き出しはヘッダーでトークンを送るので、fetch した Blob をリンクでダウンロードさせる
+async function downloadExport(f: AnswerFilterForm, format: "csv" | "xlsx", sheet: "answers" | "students" = "answers") {
+  const tok = getToken();
+  if (!tok) throw new Error("NO_TOKEN");
+  const params = filterParams(f);
+  params.set("format", format);
+  params.set("sheet", sheet);
+  const res = await fetch(`/api/exportAnswers?${params}`, { headers: { "x-api-key": tok } });
+  if (!res.ok) throw new Error(await res.text());
+  const name = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `kobun-${sheet}.${format}`;
+  const url = URL.createObjectURL(await res.blob());
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 export default function Teacher() {
-  const token = useMemo(getToken, []);
-  const [activeTab, setActiveTab] = useState<"answers" | "candidates">("answers");
+  const [token, setToken] = useState(getToken);
+  const [keyInput, setKeyInput] = useState("");
+  const [activeTab, setActiveTab] = useState<"answers" | "candidates" | "review" | "classes" | "assignments" | "keys">("answers");
+  // API キーの一覧（admin 以外は null でタブを出さない）と、発行直後だけ見せる平文のキー
+  const [apiKeys, setApiKeys] = useState<any[] | null>(null);
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+  const [classes, setClasses] = useState<any[]>([]);
+  const [roster, setRoster] = useState<{ class: any; members: any[] } | null>(null);
+  const [assignments, setAssignments] = useState<any[]>([]);
+  const [assignmentForm, setAssignmentForm] = useState<AssignmentForm | null>(null);
+  const [assignmentReport, setAssignmentReport] = useState<{ assignment: any; report: any } | null>(null);
   const [rows, setRows] = useState<any[]>([]);
+  const [filters, setFilters] = useState<AnswerFilterForm>(EMPTY_FILTERS);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [answersLoading, setAnswersLoading] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
   const [candidates, setCandidates] = useState<any[]>([]);
+  const [reviewQueue, setReviewQueue] = useState<any[]>([]);
   const [err, setErr] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [expandedRow, setExpandedRow] = useState<string | null>(null);
   const [questionData, setQuestionData] = useState<{[qid: string]: any}>({});
   const [allWordsData, setAllWordsData] = useState<any[]>([]);
+  // 回答ID → エンジン別の採点結果（ensemble で提出されていない回答はその場で採点）
+  const [engineBreakdown, setEngineBreakdown] = useState<{[answerId: string]: { engine: string; score: number; label: string }[]}>({});
 
   useEffect(() => {
     (async () => {
       try {
-        if (!token) throw new Error("このページを見るには token が必要です。URL末尾に ?token=xxxx を付けてアクセスしてください。");
+        if (!token) return;
 
         // 単語データを読み込み
         await dataParser.loadData();
         const words = dataParser.getAllWords();
         setAllWordsData(words);
 
-        const data = await callAPI("/api/listRecentAnswers?limit=50");
-        setRows(data);
+        const page = await callAPI(answerQuery(EMPTY_FILTERS, null));
+        setRows(page.rows);
+        setNextCursor(page.nextCursor);
+
+        // 担当クラス（admin の鍵は全クラス）
+        const classData = await callAPI("/api/classes");
+        setClasses(classData.classes || []);
+
+        const assignmentData = await callAPI("/api/assignments");
+        setAssignments(assignmentData.assignments || []);
+
+        // API キーの管理は admin だけ（それ以外は 403）
+        try {
+          setApiKeys((await callAPI("/api/apiKeys")).keys || []);
+        } catch {
+          setApiKeys(null);
+        }
 
         // 候補データも取得
         const candidatesData = await callAPI("/api/listCandidates?limit=100");
         setCandidates(candidatesData.candidates || []);
+
+        // 要確認キュー（ABSTAIN・低確信）
+        const reviewData = await callAPI("/api/top-abstain?limit=50");
+        setReviewQueue(reviewData.candidates || []);
       } catch (e: any) {
         setErr(String(e?.message || e));
       } finally {
@@ -64,6 +188,185 @@ export default function Teacher() {
     })();
   }, [token]);
 
+  // 絞り込みを変えたら1ページ目から読み直す
+  const reloadAnswers = useCallback(async (f: AnswerFilterForm = filters) => {
+    setAnswersLoading(true);
+    try {
+      const page = await callAPI(answerQuery(f, null));
+      setRows(page.rows);
+      setNextCursor(page.nextCursor);
+    } finally {
+      setAnswersLoading(false);
+    }
+  }, [filters]);
+
+  const loadMoreAnswers = useCallback(async () => {
+    if (!nextCursor || answersLoading) return;
+    setAnswersLoading(true);
+    try {
+      const page = await callAPI(answerQuery(filters, nextCursor));
+      setRows(rs => [...rs, ...page.rows.filter((r: any) => !rs.some(x => x.id === r.id))]);
+      setNextCursor(page.nextCursor);
+    } catch (e: any) {
+      setErr(String(e?.message || e));
+    } finally {
+      setAnswersLoading(false);
+    }
+  }, [filters, nextCursor, answersLoading]);
+
+  // 一覧の末尾が見えたら続きを読む（無限スクロール）
+  useEffect(() => {
+    const el = loadMoreRef.current;
+    if (!el || !nextCursor) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(e => e.isIntersecting)) loadMoreAnswers();
+    }, { rootMargin: "200px" });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMoreAnswers]);
+
+  const applyFilters = (e: FormEvent) => {
+    e.preventDefault();
+    reloadAnswers(filters).catch(e => alert(`エラー: ${e.message}`));
+  };
+
+  const resetFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    reloadAnswers(EMPTY_FILTERS).catch(e => alert(`エラー: ${e.message}`));
+  };
+
+  const reloadClasses = async () => {
+    const data = await callAPI("/api/classes");
+    setClasses(data.classes || []);
+  };
+
+  const openRoster = async (classId: string) => {
+    try {
+      setRoster(await callAPI(`/api/classes?classId=${encodeURIComponent(classId)}`));
+    } catch (e: any) {
+      alert(`エラー: ${e.message}`);
+    }
+  };
+
+  const classAction = async (body: Record<string, unknown>, confirmMessage?: string) => {
+    if (confirmMessage && !confirm(confirmMessage)) return;
+    try {
+      await callAPI("/api/classes", body);
+      await reloadClasses();
+      if (body.classId && roster?.class?.classId === body.classId) await openRoster(String(body.classId));
+    } catch (e: any) {
+      alert(`エラー: ${e.message}`);
+    }
+  };
+
+  const createClass = () => {
+    const name = prompt("クラス名（例: 2年3組 古文）");
+    if (name?.trim()) classAction({ action: "create", name: name.trim() });
+  };
+
+  const renameMember = (classId: string, m: any) => {
+    const displayName = prompt("表示名", m.displayName);
+    if (displayName?.trim() && displayName.trim() !== m.displayName) {
+      classAction({ action: "renameMember", classId, anonId: m.anonId, displayName: displayName.trim() });
+    }
+  };
+
+  const reloadAssignments = async () => {
+    const data = await callAPI("/api/assignments");
+    setAssignments(data.assignments || []);
+  };
+
+  const openAssignmentReport = async (assignmentId: string) => {
+    try {
+      setAssignmentReport(await callAPI(`/api/assignments?assignmentId=${encodeURIComponent(assignmentId)}`));
+    } catch (e: any) {
+      alert(`エラー: ${e.message}`);
+    }
+  };
+
+  const submitAssignment = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!assignmentForm) return;
+    const f = assignmentForm;
+    const qids = f.qids.split(/[\s,、]+/).map(q => q.trim()).filter(Boolean);
+    try {
+      await callAPI("/api/assignments", {
+        action: "create",
+        title: f.title,
+        classId: f.classId || null,
+        quizType: f.quizType,
+        ...(qids.length ? { qids } : { groupFrom: Number(f.groupFrom), groupTo: Number(f.groupTo) }),
+        count: Number(f.count),
+        opensAt: new Date(f.opensAt).toISOString(),
+        closesAt: new Date(f.closesAt).toISOString(),
+      });
+      setAssignmentForm(null);
+      await reloadAssignments();
+    } catch (e: any) {
+      alert(`エラー: ${e.message}`);
+    }
+  };
+
+  const archiveAssignment = async (a: any) => {
+    try {
+      await callAPI("/api/assignments", { action: "archive", assignmentId: a.assignmentId, archived: !a.archived });
+      await reloadAssignments();
+    } catch (e: any) {
+      alert(`エラー: ${e.message}`);
+    }
+  };
+
+  const signIn = (e: FormEvent) => {
+    e.preventDefault();
+    if (!keyInput.trim()) return;
+    localStorage.setItem(API_KEY_STORAGE, keyInput.trim());
+    setKeyInput("");
+    setErr(null);
+    setLoading(true);
+    setToken(keyInput.trim());
+  };
+
+  const signOut = () => {
+    localStorage.removeItem(API_KEY_STORAGE);
+    setApiKeys(null);
+    setErr(null);
+    setToken(null);
+  };
+
+  const reloadApiKeys = async () => {
+    setApiKeys((await callAPI("/api/apiKeys")).keys || []);
+  };
+
+  const issueApiKey = async () => {
+    const name = prompt("キーの名前（例: 山田先生 / 集計スクリプト）");
+    if (!name?.trim()) return;
+    const role = prompt("ロール（viewer / grader / curator / admin）", "grader");
+    if (!role) return;
+    const days = prompt("有効日数（1〜365）", "90");
+    if (!days) return;
+    try {
+      const data = await callAPI("/api/apiKeys", { action: "issue", name: name.trim(), role: role.trim(), expiresInDays: Number(days) });
+      setIssuedKey(data.key);
+      await reloadApiKeys();
+    } catch (e: any) {
+      alert(`エラー: ${e.message}`);
+    }
+  };
+
+  const revokeApiKey = async (k: any) => {
+    if (!confirm(`「${k.name}」のキーを失効させますか？（このキーでは以後ログインできません）`)) return;
+    try {
+      await callAPI("/api/apiKeys", { action: "revoke", keyId: k.keyId });
+      await reloadApiKeys();
+    } catch (e: any) {
+      alert(`エラー: ${e.message}`);
+    }
+  };
+
+  const exportAnswers = (format: "csv" | "xlsx", sheet?: "answers" | "students") => {
+    downloadExport(filters, format, sheet).catch(e => alert(`エラー: ${e.message}`));
+  };
+
   const doOverride = async (id: string, label: "OK" | "NG" | null) => {
     try {
       await callAPI("/api/overrideAnswer", { answerId: id, result: label });
@@ -83,18 +386,24 @@ export default function Teacher() {
       await callAPI("/api/upsertOverride", { qid, answerRaw, label: "OK", active: true });
       alert("辞書に登録しました（同型を一括置換）");
       // Refresh data
-      const data = await callAPI("/api/listRecentAnswers?limit=50");
-      setRows(data);
+      await reloadAnswers();
     } catch (e: any) {
       alert(`エラー: ${e.message}`);
     }
   };
 
-  const toggleRow = async (id: string, qid: string) => {
+  const toggleRow = async (id: string, qid: string, answerRaw?: string) => {
     if (expandedRow === id) {
       setExpandedRow(null);
     } else {
       setExpandedRow(id);
+      const word = allWordsData.find(w => w.qid === qid);
+      if (!engineBreakdown[id] && word && answerRaw) {
+        loadEnsembleConfig()
+          .then(ensemble => gradeWith("ensemble", { answer: answerRaw, gold: word.sense, ensemble }))
+          .then(outcome => setEngineBreakdown(prev => ({ ...prev, [id]: outcome.members ?? [] })))
+          .catch(e => console.error(`Failed to compare engines:`, e));
+      }
       if (!questionData[qid]) {
         try {
           const word = allWordsData.find(w => w.qid === qid);
@@ -153,16 +462,6 @@ export default function Teacher() {
   };
 
   // 記述式回答かどうかを判定（選択肢形式でないもの）
-  const isWritingAnswer = (answerRaw: string) => {
-    if (!answerRaw) return false;
-    // answerRawがqid形式なら選択肢回答
-    const selectedWord = getWordByQid(answerRaw);
-    return !selectedWord; // qidでなければ記述式
-  };
-
-  // 記述式回答のみをフィルタリング
-  const writingRows = rows.filter(r => isWritingAnswer(r.raw?.answerRaw));
-
   const aggregateCandidates = async () => {
     if (!confirm("回答データから選択肢候補を集計しますか？\n\n※この処理には時間がかかる場合があります")) {
       return;
@@ -183,6 +482,166 @@ export default function Teacher() {
     }
   };
 
+  // 正解候補から学習済み正解バンドルを作り直して公開
+  const publishLearned = async () => {
+    try {
+      const { bundle, unchanged } = await callAPI("/api/learnedBundle", { action: "publish" });
+      alert(unchanged
+        ? `変更はありません（公開中: 第${bundle.version}版）`
+        : `第${bundle.version}版を公開しました（${bundle.qidsCount}問・${bundle.candidatesCount}件）`);
+    } catch (e: any) {
+      alert(`エラー: ${e.message}`);
+    }
+  };
+
+  // 保持している古い版を公開し直す
+  const rollbackLearned = async () => {
+    try {
+      const { versions } = await callAPI("/api/learnedBundle?list=1");
+      if (!versions?.length) return alert("公開済みの版がありません");
+      const list = versions
+        .map((b: any) => `第${b.version}版 ${b.qidsCount}問・${b.candidatesCount}件${b.restoredFrom ? `（第${b.restoredFrom}版から復元）` : ""}`)
+        .join("\n");
+      const input = prompt(`戻す版の番号:\n\n${list}`, "");
+      if (!input) return;
+      const { bundle } = await callAPI("/api/learnedBundle", { action: "rollback", version: Number(input) });
+      alert(`第${input}版の内容を第${bundle.version}版として公開しました`);
+    } catch (e: any) {
+      alert(`エラー: ${e.message}`);
+    }
+  };
+
+  // 要確認キューのグループを一括で OK/NG 確定
+  const resolveReviewGroup = async (key: string, label: "OK" | "NG") => {
+    try {
+      const result = await callAPI("/api/upsertOverride", { key, label, active: true, reason: "要確認キューから確定" });
+      setReviewQueue(q => q.filter(g => g.key !== key));
+      await reloadAnswers();
+      alert(`${label === "OK" ? "正解" : "不正解"}として確定しました（${result.updated}件更新）`);
+    } catch (e: any) {
+      alert(`エラー: ${e.message}`);
+    }
+  };
+
+  // 候補を正解辞書 / 不正解辞書へ昇格
+  const promoteCandidate = async (key: string, to: "accepted" | "negatives") => {
+    try {
+      await callAPI("/api/promoteCandidate", { key, to });
+      setCandidates(cs => cs.map(c => (c.id === key ? { ...c, promotedTo: to } : c)));
+    } catch (e: any) {
+      alert(`エラー: ${e.message}`);
+    }
+  };
+
+  // パターンルールで一括判定（プレビューを確認してから適用）
+  const addPatternRule = async () => {
+    const qid = prompt("問題ID:", "");
+    if (!qid) return;
+    const kind = prompt("種類（contains / prefix / suffix / regex / morph）:", "contains");
+    if (!kind) return;
+    const isMorph = kind.trim() === "morph";
+    const pattern = prompt(isMorph ? "語幹（例: 気づ）:" : "パターン:", "");
+    if (!pattern) return;
+    const auxTags = isMorph ? prompt("含むべき助動詞タグ（カンマ区切り、例: 打消,過去）:", "") : null;
+    const label = prompt("判定（OK / NG / ABSTAIN）:", "OK");
+    if (!label) return;
+
+    const body = {
+      qid: qid.trim(),
+      kind: kind.trim(),
+      ...(isMorph
+        ? { lemma: pattern, auxTags: (auxTags ?? "").split(",").map(t => t.trim()).filter(Boolean) }
+        : { pattern }),
+      label: label.trim().toUpperCase(),
+      reason: "パターンルール",
+    };
+
+    try {
+      setLoading(true);
+      const preview = await callAPI("/api/overrideRules", { ...body, dryRun: true });
+      const hits = (preview.preview || [])
+        .slice(0, 10)
+        .map((p: any) => `「${p.answerRaw}」 ${p.before}→${p.after}`)
+        .join("\n");
+      if (!confirm(`ルールのプレビュー:\n一致: ${preview.matched}件（完全一致の訂正が優先: ${preview.shadowed}件）\n判定変更: ${preview.changed}件\n\n${hits}\n\nこのルールを保存して適用しますか？`)) {
+        return;
+      }
+      const result = await callAPI("/api/overrideRules", body);
+      alert(`ルールを適用しました（${result.changed}件更新）`);
+      await reloadAnswers();
+    } catch (e: any) {
+      alert(`エラー: ${e.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 一括訂正（upsertOverride / パターンルール）を操作単位で取り消す
+  const revertOverrideOp = async () => {
+    try {
+      const { ops } = await callAPI("/api/overrideOps?limit=20");
+      const revertible = (ops || []).filter((o: any) => !o.revertedAt && o.action !== "revert");
+      if (revertible.length === 0) return alert("取り消せる一括訂正がありません");
+      const list = revertible
+        .map((o: any, i: number) => `${i + 1}. ${o.action} ${o.targetId ?? ""}（${o.affected}件、${o.actor}）`)
+        .join("\n");
+      const input = prompt(`取り消す操作の番号:\n\n${list}`, "1");
+      if (!input) return;
+      const op = revertible[Number(input) - 1];
+      if (!op) return alert("番号が正しくありません");
+
+      const preview = await callAPI("/api/overrideOps", { opId: op.opId, dryRun: true });
+      if (!confirm(`取り消しプレビュー:\n元に戻す: ${preview.restored}件\n手動訂正済みのため除外: ${preview.skippedManual}件\n後の操作で変更済みのため除外: ${preview.skippedChanged}件\n担当クラス外のため除外: ${preview.skippedScope ?? 0}件\n\n取り消しますか？`)) {
+        return;
+      }
+      setLoading(true);
+      const result = await callAPI("/api/overrideOps", { opId: op.opId });
+      alert(`取り消しました（${result.restored}件を元に戻しました）`);
+      await reloadAnswers();
+    } catch (e: any) {
+      alert(`エラー: ${e.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rejudgeAnswers = async () => {
+    const qid = prompt("再採点する問題ID（空欄で全問題）:", "");
+    if (qid === null) return;
+
+    try {
+      setLoading(true);
+      const body = { qid: qid.trim() || undefined };
+      const preview = await callAPI("/api/rejudge", { ...body, dryRun: true });
+      const flips = (preview.preview || [])
+        .slice(0, 10)
+        .map((p: any) => `${p.qid} 「${p.answerRaw}」 ${p.before}→${p.after}`)
+        .join("\n");
+      const more = preview.nextCursor ? "（最初の500件。反映は全件）" : "";
+      if (!confirm(`再採点プレビュー${more}:\n対象: ${preview.rejudged}件\n判定変更: ${preview.changed}件\n\n${flips}\n\nこの内容で反映しますか？`)) {
+        return;
+      }
+
+      // 1回500件まで。nextCursor がなくなるまで続きを呼ぶ
+      let rejudged = 0;
+      let changed = 0;
+      let cursor: string | undefined;
+      do {
+        const result = await callAPI("/api/rejudge", { ...body, cursor });
+        rejudged += result.rejudged;
+        changed += result.changed;
+        cursor = result.nextCursor ?? undefined;
+      } while (cursor);
+      alert(`再採点完了:\n対象: ${rejudged}件\n判定変更: ${changed}件`);
+
+      await reloadAnswers();
+    } catch (e: any) {
+      alert(`エラー: ${e.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const deleteAllData = async () => {
     if (!confirm("本当に全データ（answers, candidates, overrides）を削除しますか？\n\nこの操作は取り消せません。")) {
       return;
@@ -200,10 +659,10 @@ export default function Teacher() {
       alert(`削除完了:\n${JSON.stringify(result.deleted, null, 2)}`);
 
       // データを再取得
-      const data = await callAPI("/api/listRecentAnswers?limit=50");
-      setRows(data);
+      await reloadAnswers();
       const candidatesData = await callAPI("/api/listCandidates?limit=100");
       setCandidates(candidatesData.candidates || []);
+      setReviewQueue([]);
     } catch (e: any) {
       alert(`エラー: ${e.message}`);
     } finally {
@@ -211,11 +670,24 @@ export default function Teacher() {
     }
   };
 
+  if (!token) return (
+    <div className="p-8 max-w-md mx-auto">
+      <form onSubmit={signIn} className="bg-white rounded-lg shadow p-6 space-y-3">
+        <h2 className="text-lg font-bold text-slate-800">教師用管理画面</h2>
+        <p className="text-sm text-slate-600">管理者から受け取った API キーを入力してください（この端末にだけ保存されます）。</p>
+        <input type="password" value={keyInput} onChange={e => setKeyInput(e.target.value)} autoComplete="off"
+          placeholder="kbn_..." className="w-full border border-slate-300 rounded px-3 py-2 font-mono text-sm" />
+        <button type="submit" className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded">ログイン</button>
+      </form>
+    </div>
+  );
+
   if (err) return (
-    <div className="p-8 max-w-4xl mx-auto">
+    <div className="p-8 max-w-4xl mx-auto space-y-3">
       <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">
         {err}
       </div>
+      <button onClick={signOut} className="px-4 py-2 bg-slate-200 hover:bg-slate-300 rounded">別のキーでログインする</button>
     </div>
   );
 
@@ -229,7 +701,7 @@ export default function Teacher() {
     <div className="p-8 max-w-7xl mx-auto">
       <div className="sticky top-0 bg-white z-10 pb-4">
         <div className="flex items-center justify-between mb-6">
-          <h2 className="text-2xl font-bold text-slate-800">教師用管理画面（共有トークン）</h2>
+          <h2 className="text-2xl font-bold text-slate-800">教師用管理画面</h2>
           <div className="flex gap-2">
             <button
               onClick={aggregateCandidates}
@@ -237,12 +709,48 @@ export default function Teacher() {
             >
               📊 候補を集計
             </button>
+            <button
+              onClick={publishLearned}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-medium rounded-lg transition"
+            >
+              📦 学習済み正解を公開
+            </button>
+            <button
+              onClick={rollbackLearned}
+              className="px-4 py-2 bg-slate-500 hover:bg-slate-600 text-white font-medium rounded-lg transition"
+            >
+              ↩️ 公開版を戻す
+            </button>
+            <button
+              onClick={rejudgeAnswers}
+              className="px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white font-medium rounded-lg transition"
+            >
+              🔁 再採点
+            </button>
+            <button
+              onClick={addPatternRule}
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-medium rounded-lg transition"
+            >
+              🧩 ルールで一括判定
+            </button>
+            <button
+              onClick={revertOverrideOp}
+              className="px-4 py-2 bg-slate-500 hover:bg-slate-600 text-white font-medium rounded-lg transition"
+            >
+              ↶ 一括訂正を取り消す
+            </button>
             <button
               onClick={deleteAllData}
               className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white font-medium rounded-lg transition"
             >
               🗑️ 全データ削除
             </button>
+            <button
+              onClick={signOut}
+              className="px-4 py-2 bg-slate-200 hover:bg-slate-300 text-slate-700 font-medium rounded-lg transition"
+            >
+              ログアウト
+            </button>
           </div>
         </div>
 
@@ -268,11 +776,116 @@ export default function Teacher() {
         >
           選択肢候補
         </button>
+        <button
+          onClick={() => setActiveTab("review")}
+          className={`px-4 py-2 font-medium transition ${
+            activeTab === "review"
+              ? "text-blue-600 border-b-2 border-blue-600"
+              : "text-slate-600 hover:text-slate-800"
+          }`}
+        >
+          要確認キュー{reviewQueue.length > 0 && ` (${reviewQueue.length})`}
+        </button>
+        <button
+          onClick={() => setActiveTab("classes")}
+          className={`px-4 py-2 font-medium transition ${
+            activeTab === "classes"
+              ? "text-blue-600 border-b-2 border-blue-600"
+              : "text-slate-600 hover:text-slate-800"
+          }`}
+        >
+          クラス{classes.length > 0 && ` (${classes.length})`}
+        </button>
+        <button
+          onClick={() => setActiveTab("assignments")}
+          className={`px-4 py-2 font-medium transition ${
+            activeTab === "assignments"
+              ? "text-blue-600 border-b-2 border-blue-600"
+              : "text-slate-600 hover:text-slate-800"
+          }`}
+        >
+          課題{assignments.length > 0 && ` (${assignments.length})`}
+        </button>
+        {apiKeys && (
+          <button
+            onClick={() => setActiveTab("keys")}
+            className={`px-4 py-2 font-medium transition ${
+              activeTab === "keys"
+                ? "text-blue-600 border-b-2 border-blue-600"
+                : "text-slate-600 hover:text-slate-800"
+            }`}
+          >
+            API キー
+          </button>
+        )}
       </div>
       </div>
 
       {activeTab === "answers" && (
         <>
+      <form onSubmit={applyFilters} className="bg-white rounded-lg shadow p-4 mb-4 grid grid-cols-2 md:grid-cols-6 gap-3 text-sm">
+        <select value={filters.classId} onChange={e => setFilters({ ...filters, classId: e.target.value })}
+          className="border border-slate-300 rounded px-2 py-1">
+          <option value="">クラス: すべて</option>
+          {classes.map(c => <option key={c.classId} value={c.classId}>{c.name}</option>)}
+        </select>
+        <input value={filters.qid} onChange={e => setFilters({ ...filters, qid: e.target.value })}
+          placeholder="問題ID（1-1,1-2）" className="border border-slate-300 rounded px-2 py-1" />
+        <input value={filters.lemma} onChange={e => setFilters({ ...filters, lemma: e.target.value })}
+          placeholder="見出し語" className="border border-slate-300 rounded px-2 py-1" />
+        <div className="flex items-center gap-1">
+          <input type="number" value={filters.groupFrom} onChange={e => setFilters({ ...filters, groupFrom: e.target.value })}
+            placeholder="グループ" className="border border-slate-300 rounded px-2 py-1 w-full" />
+          <span>〜</span>
+          <input type="number" value={filters.groupTo} onChange={e => setFilters({ ...filters, groupTo: e.target.value })}
+            className="border border-slate-300 rounded px-2 py-1 w-full" />
+        </div>
+        <select value={filters.result} onChange={e => setFilters({ ...filters, result: e.target.value })}
+          className="border border-slate-300 rounded px-2 py-1">
+          <option value="">判定: すべて</option>
+          <option value="OK">OK</option>
+          <option value="NG">NG</option>
+          <option value="ABSTAIN">保留</option>
+        </select>
+        <select value={filters.source} onChange={e => setFilters({ ...filters, source: e.target.value })}
+          className="border border-slate-300 rounded px-2 py-1">
+          <option value="">判定の由来: すべて</option>
+          <option value="auto">自動</option>
+          <option value="manual">手動訂正</option>
+          <option value="override">一括訂正</option>
+        </select>
+        <select value={filters.questionType} onChange={e => setFilters({ ...filters, questionType: e.target.value })}
+          className="border border-slate-300 rounded px-2 py-1">
+          <option value="writing">記述式</option>
+          <option value="selection">選択式</option>
+          <option value="">出題形式: すべて</option>
+        </select>
+        <input type="date" value={filters.from} onChange={e => setFilters({ ...filters, from: e.target.value })}
+          className="border border-slate-300 rounded px-2 py-1" />
+        <input type="date" value={filters.to} onChange={e => setFilters({ ...filters, to: e.target.value })}
+          className="border border-slate-300 rounded px-2 py-1" />
+        <input value={filters.student} onChange={e => setFilters({ ...filters, student: e.target.value })}
+          placeholder="生徒（anonId / uid）" className="border border-slate-300 rounded px-2 py-1" />
+        <div className="flex items-center gap-1">
+          <input type="number" value={filters.scoreMin} onChange={e => setFilters({ ...filters, scoreMin: e.target.value })}
+            placeholder="点数" className="border border-slate-300 rounded px-2 py-1 w-full" />
+          <span>〜</span>
+          <input type="number" value={filters.scoreMax} onChange={e => setFilters({ ...filters, scoreMax: e.target.value })}
+            className="border border-slate-300 rounded px-2 py-1 w-full" />
+        </div>
+        <button type="submit" className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded">絞り込む</button>
+        <button type="button" onClick={resetFilters} className="px-3 py-1 bg-slate-200 hover:bg-slate-300 text-slate-700 rounded">リセット</button>
+        <div className="col-span-2 md:col-span-6 flex flex-wrap items-center gap-2 border-t border-slate-100 pt-3">
+          <span className="text-slate-500">この条件で書き出す:</span>
+          <button type="button" onClick={() => exportAnswers("xlsx")}
+            className="px-3 py-1 bg-emerald-600 hover:bg-emerald-700 text-white rounded">⬇ Excel（回答・生徒別）</button>
+          <button type="button" onClick={() => exportAnswers("csv", "answers")}
+            className="px-3 py-1 bg-slate-600 hover:bg-slate-700 text-white rounded">⬇ CSV（回答）</button>
+          <button type="button" onClick={() => exportAnswers("csv", "students")}
+            className="px-3 py-1 bg-slate-600 hover:bg-slate-700 text-white rounded">⬇ CSV（生徒別）</button>
+        </div>
+      </form>
+
       <div className="bg-white rounded-lg shadow overflow-hidden">
         <table className="w-full">
           <thead className="bg-slate-100 border-b border-slate-200">
@@ -287,17 +900,18 @@ export default function Teacher() {
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-200">
-            {writingRows.map((r: any) => (
+            {rows.map((r: any) => (
               <>
                 <tr key={r.id} className="hover:bg-slate-50">
                   <td className="px-4 py-3 text-sm text-slate-600 font-mono">
                     <button
-                      onClick={() => toggleRow(r.id, r.raw?.qid)}
+                      onClick={() => toggleRow(r.id, r.raw?.qid, r.raw?.answerRaw)}
                       className="text-blue-600 hover:text-blue-800"
                     >
                       {expandedRow === r.id ? "▼" : "▶"}
                     </button>
                     {" "}{r.id.slice(0, 8)}
+                    {r.displayName && <div className="text-xs text-slate-500 font-sans">{r.displayName}</div>}
                   </td>
                   <td className="px-4 py-3 text-sm text-slate-700">
                     {getQuestionDisplay(r.raw?.qid)}
@@ -421,6 +1035,29 @@ export default function Teacher() {
                           {r.raw?.auto && (
                             <div className="text-xs text-slate-500 pt-2 border-t">
                               <span>自動採点: {r.raw.auto.score}点 ({r.raw.auto.reason})</span>
+                              {r.raw.auto.engine && <span className="ml-2">[{r.raw.auto.engine}]</span>}
+                            </div>
+                          )}
+
+                          {/* エンジン別の判定（提出時の内訳があればそれを、無ければ現在のエンジンで採点） */}
+                          {(r.raw?.auto?.breakdown ?? engineBreakdown[r.id])?.length > 0 && (
+                            <div className="text-xs">
+                              <span className="font-medium text-slate-700">
+                                エンジン別{r.raw?.auto?.breakdown ? "（提出時）" : "（現在のエンジンで再計算）"}:
+                              </span>
+                              <div className="mt-1 flex flex-wrap gap-2">
+                                {(r.raw?.auto?.breakdown ?? engineBreakdown[r.id]).map((m: any) => (
+                                  <span
+                                    key={m.engine}
+                                    className={`px-2 py-1 rounded ${
+                                      m.label === "OK" ? "bg-green-100 text-green-700" :
+                                      m.label === "NG" ? "bg-red-100 text-red-700" : "bg-yellow-100 text-yellow-700"
+                                    }`}
+                                  >
+                                    {m.engine}: {m.label} {m.score}点
+                                  </span>
+                                ))}
+                              </div>
                             </div>
                           )}
                         </div>
@@ -439,11 +1076,17 @@ export default function Teacher() {
         </table>
       </div>
 
-      {writingRows.length === 0 && (
+      {rows.length === 0 && !answersLoading && (
         <div className="text-center py-12 text-slate-500">
-          記述式の回答データがありません
+          条件に合う回答がありません
         </div>
       )}
+
+      <div ref={loadMoreRef} className="py-4 text-center text-sm text-slate-500">
+        {answersLoading ? "読み込み中..." : nextCursor ? (
+          <button onClick={loadMoreAnswers} className="text-blue-600 hover:text-blue-800">さらに読み込む</button>
+        ) : rows.length > 0 ? `${rows.length}件（すべて表示）` : null}
+      </div>
         </>
       )}
 
@@ -458,6 +1101,7 @@ export default function Teacher() {
                 <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">平均点</th>
                 <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">役割</th>
                 <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">最終確認</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">辞書</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-200">
@@ -488,6 +1132,31 @@ export default function Teacher() {
                     {c.lastSeen?.toDate ? new Date(c.lastSeen.toDate()).toLocaleDateString('ja-JP') :
                      c.lastSeen?._seconds ? new Date(c.lastSeen._seconds * 1000).toLocaleDateString('ja-JP') : '-'}
                   </td>
+                  <td className="px-4 py-3 text-sm whitespace-nowrap">
+                    {c.promotedTo && (
+                      <span className={`inline-flex px-2 py-1 mr-2 rounded text-xs font-medium ${
+                        c.promotedTo === "accepted" ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"
+                      }`}>
+                        {c.promotedTo === "accepted" ? "正解辞書" : "不正解辞書"}
+                      </span>
+                    )}
+                    {c.promotedTo !== "accepted" && (
+                      <button
+                        onClick={() => promoteCandidate(c.id, "accepted")}
+                        className="px-2 py-1 mr-1 text-xs rounded bg-green-600 text-white hover:bg-green-700"
+                      >
+                        正解辞書へ
+                      </button>
+                    )}
+                    {c.promotedTo !== "negatives" && (
+                      <button
+                        onClick={() => promoteCandidate(c.id, "negatives")}
+                        className="px-2 py-1 text-xs rounded bg-red-600 text-white hover:bg-red-700"
+                      >
+                        不正解辞書へ
+                      </button>
+                    )}
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -500,6 +1169,310 @@ export default function Teacher() {
           )}
         </div>
       )}
+
+      {activeTab === "review" && (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-slate-100 border-b border-slate-200">
+              <tr>
+                <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">単語</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">入力された回答</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">件数</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">平均点</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">一括確定</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {reviewQueue.map((g: any) => (
+                <tr key={g.key} className="hover:bg-slate-50">
+                  <td className="px-4 py-3 text-sm text-slate-700">
+                    {getQuestionDisplay(g.qid)}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-slate-900">{g.answerRaw}</td>
+                  <td className="px-4 py-3 text-sm text-slate-700">
+                    <span className="inline-flex items-center px-2 py-1 rounded bg-blue-100 text-blue-700 font-medium">
+                      {g.count}回
+                    </span>
+                    {g.abstainCount > 0 && (
+                      <span className="ml-1 text-xs text-yellow-700">保留{g.abstainCount}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-slate-700">{g.avgScore}点</td>
+                  <td className="px-4 py-3 text-sm space-x-2">
+                    <button
+                      onClick={() => resolveReviewGroup(g.key, "OK")}
+                      className="px-3 py-1 bg-green-600 hover:bg-green-700 text-white rounded transition"
+                    >
+                      OK
+                    </button>
+                    <button
+                      onClick={() => resolveReviewGroup(g.key, "NG")}
+                      className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded transition"
+                    >
+                      NG
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {reviewQueue.length === 0 && (
+            <div className="text-center py-12 text-slate-500">
+              確認待ちの回答はありません。
+            </div>
+          )}
+        </div>
+      )}
+
+      {activeTab === "classes" && (
+        <div className="space-y-4">
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-slate-100 border-b border-slate-200">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">クラス</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">参加コード</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">人数</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">担当</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">操作</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {classes.map(c => (
+                  <tr key={c.classId} className={c.archived ? "bg-slate-50 text-slate-400" : "hover:bg-slate-50"}>
+                    <td className="px-4 py-3 text-sm font-medium">{c.name}{c.archived && "（アーカイブ）"}</td>
+                    <td className="px-4 py-3 text-sm">
+                      <span className="font-mono text-base tracking-widest">{c.joinCode}</span>
+                      <div className="text-xs text-slate-500 break-all">{`${window.location.origin}/progress?join=${c.joinCode}`}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm">{c.memberCount}人</td>
+                    <td className="px-4 py-3 text-xs text-slate-600">{(c.teachers || []).join(", ") || "-"}</td>
+                    <td className="px-4 py-3 text-sm space-x-2 whitespace-nowrap">
+                      <button onClick={() => openRoster(c.classId)} className="text-blue-600 hover:underline">名簿</button>
+                      <button onClick={() => classAction({ action: "rotateCode", classId: c.classId }, "参加コードを作り直しますか？（今のコードは使えなくなります）")}
+                        className="text-blue-600 hover:underline">コード再発行</button>
+                      <button onClick={() => classAction({ action: "archive", classId: c.classId, archived: !c.archived })}
+                        className="text-slate-500 hover:underline">{c.archived ? "戻す" : "アーカイブ"}</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {classes.length === 0 && (
+              <div className="text-center py-12 text-slate-500">担当のクラスがありません。</div>
+            )}
+          </div>
+          <button onClick={createClass} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded">＋ クラスを作る</button>
+
+          {roster && (
+            <div className="bg-white rounded-lg shadow p-4">
+              <h3 className="font-bold text-slate-800 mb-3">{roster.class.name} の名簿（{roster.members.length}人）</h3>
+              <table className="w-full text-sm">
+                <tbody className="divide-y divide-slate-200">
+                  {roster.members.map(m => (
+                    <tr key={m.anonId}>
+                      <td className="py-2 font-medium text-slate-800">{m.displayName}</td>
+                      <td className="py-2 font-mono text-xs text-slate-500">{m.anonId}</td>
+                      <td className="py-2 text-right space-x-2">
+                        <button onClick={() => { setFilters({ ...EMPTY_FILTERS, classId: roster.class.classId, student: m.anonId }); setActiveTab("answers"); reloadAnswers({ ...EMPTY_FILTERS, classId: roster.class.classId, student: m.anonId }).catch(e => alert(`エラー: ${e.message}`)); }}
+                          className="text-blue-600 hover:underline">回答</button>
+                        <button onClick={() => renameMember(roster.class.classId, m)} className="text-blue-600 hover:underline">名前変更</button>
+                        <button onClick={() => classAction({ action: "removeMember", classId: roster.class.classId, anonId: m.anonId }, `${m.displayName} を名簿から外しますか？`)}
+                          className="text-red-600 hover:underline">外す</button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {activeTab === "assignments" && (
+        <div className="space-y-4">
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-slate-100 border-b border-slate-200">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">課題</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">課題コード</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">期間</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">提出</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">操作</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {assignments.map(a => (
+                  <tr key={a.assignmentId} className={a.archived ? "bg-slate-50 text-slate-400" : "hover:bg-slate-50"}>
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium">{a.title}{a.archived && "（アーカイブ）"}</div>
+                      <div className="text-xs text-slate-500">
+                        {classes.find(c => c.classId === a.classId)?.name ?? (a.classId ? a.classId : "全クラス")}・
+                        {QUIZ_TYPE_OPTIONS.find(([v]) => v === a.quizType)?.[1] ?? a.quizType}・
+                        {a.qids ? `${a.qids.length}語指定` : `${a.groupFrom}〜${a.groupTo}`}・{a.count}問
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <span className="font-mono text-base tracking-widest">{a.code}</span>
+                      <div className="text-xs text-slate-500 break-all">{`${window.location.origin}/?assignment=${a.code}`}</div>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-slate-600 whitespace-nowrap">
+                      <div>{new Date(a.opensAt).toLocaleString("ja-JP")}</div>
+                      <div>〜 {new Date(a.closesAt).toLocaleString("ja-JP")}</div>
+                      <div className={a.status === "open" ? "text-green-600" : "text-slate-500"}>{STATUS_LABELS[a.status] ?? a.status}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm whitespace-nowrap">完了 {a.completed} / 着手 {a.started}</td>
+                    <td className="px-4 py-3 text-sm space-x-2 whitespace-nowrap">
+                      <button onClick={() => openAssignmentReport(a.assignmentId)} className="text-blue-600 hover:underline">提出状況</button>
+                      <button onClick={() => archiveAssignment(a)} className="text-slate-500 hover:underline">{a.archived ? "戻す" : "アーカイブ"}</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {assignments.length === 0 && (
+              <div className="text-center py-12 text-slate-500">課題がありません。</div>
+            )}
+          </div>
+
+          {assignmentForm ? (
+            <form onSubmit={submitAssignment} className="bg-white rounded-lg shadow p-4 grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+              <input value={assignmentForm.title} onChange={e => setAssignmentForm({ ...assignmentForm, title: e.target.value })}
+                placeholder="課題名" required className="border border-slate-300 rounded px-2 py-1 col-span-2" />
+              <select value={assignmentForm.classId} onChange={e => setAssignmentForm({ ...assignmentForm, classId: e.target.value })}
+                className="border border-slate-300 rounded px-2 py-1">
+                <option value="">クラスを選ぶ</option>
+                {classes.filter(c => !c.archived).map(c => <option key={c.classId} value={c.classId}>{c.name}</option>)}
+              </select>
+              <select value={assignmentForm.quizType} onChange={e => setAssignmentForm({ ...assignmentForm, quizType: e.target.value })}
+                className="border border-slate-300 rounded px-2 py-1">
+                {QUIZ_TYPE_OPTIONS.map(([v, label]) => <option key={v} value={v}>{label}</option>)}
+              </select>
+              <input value={assignmentForm.qids} onChange={e => setAssignmentForm({ ...assignmentForm, qids: e.target.value })}
+                placeholder="出題する qid（カンマ区切り。空ならグループ範囲）" className="border border-slate-300 rounded px-2 py-1 col-span-2" />
+              <label className="flex items-center gap-1">
+                グループ
+                <input type="number" min={1} max={330} value={assignmentForm.groupFrom} disabled={!!assignmentForm.qids.trim()}
+                  onChange={e => setAssignmentForm({ ...assignmentForm, groupFrom: e.target.value })} className="border border-slate-300 rounded px-2 py-1 w-16" />
+                〜
+                <input type="number" min={1} max={330} value={assignmentForm.groupTo} disabled={!!assignmentForm.qids.trim()}
+                  onChange={e => setAssignmentForm({ ...assignmentForm, groupTo: e.target.value })} className="border border-slate-300 rounded px-2 py-1 w-16" />
+              </label>
+              <label className="flex items-center gap-1">
+                問題数
+                <input type="number" min={1} max={330} value={assignmentForm.count}
+                  onChange={e => setAssignmentForm({ ...assignmentForm, count: e.target.value })} className="border border-slate-300 rounded px-2 py-1 w-16" />
+              </label>
+              <label className="flex items-center gap-1 col-span-2">
+                開始
+                <input type="datetime-local" value={assignmentForm.opensAt} required
+                  onChange={e => setAssignmentForm({ ...assignmentForm, opensAt: e.target.value })} className="border border-slate-300 rounded px-2 py-1" />
+              </label>
+              <label className="flex items-center gap-1 col-span-2">
+                締切
+                <input type="datetime-local" value={assignmentForm.closesAt} required
+                  onChange={e => setAssignmentForm({ ...assignmentForm, closesAt: e.target.value })} className="border border-slate-300 rounded px-2 py-1" />
+              </label>
+              <div className="col-span-2 md:col-span-4 flex gap-2">
+                <button type="submit" className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded">作成</button>
+                <button type="button" onClick={() => setAssignmentForm(null)} className="px-4 py-2 bg-slate-200 hover:bg-slate-300 rounded">やめる</button>
+              </div>
+            </form>
+          ) : (
+            <button onClick={() => setAssignmentForm(emptyAssignmentForm())} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded">＋ 課題を作る</button>
+          )}
+
+          {assignmentReport && (
+            <div className="bg-white rounded-lg shadow p-4">
+              <h3 className="font-bold text-slate-800 mb-3">
+                {assignmentReport.assignment.title} の提出状況（完了 {assignmentReport.report.completed} / 着手 {assignmentReport.report.started}・
+                {assignmentReport.assignment.mode === "word" ? "問題" : "単語"} {assignmentReport.report.expected} で完了）
+              </h3>
+              <table className="w-full text-sm">
+                <thead className="text-left text-slate-600">
+                  <tr>
+                    <th className="py-2">生徒</th>
+                    <th className="py-2">進捗</th>
+                    <th className="py-2">正解</th>
+                    <th className="py-2">正答率</th>
+                    <th className="py-2">最終回答</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200">
+                  {assignmentReport.report.students.map((s: any) => (
+                    <tr key={s.uid || s.anonId} className={s.answers === 0 ? "text-slate-400" : ""}>
+                      <td className="py-2">
+                        <div className="font-medium text-slate-800">{s.displayName ?? "-"}</div>
+                        <div className="font-mono text-xs text-slate-500">{s.uid || s.anonId}</div>
+                      </td>
+                      <td className="py-2">
+                        {s.done} / {assignmentReport.report.expected}
+                        {s.completed && <span className="ml-2 text-green-600 font-bold">完了</span>}
+                      </td>
+                      <td className="py-2">{s.correct} / {s.answers}</td>
+                      <td className="py-2">{s.accuracy === null ? "-" : `${Math.round(s.accuracy * 100)}%`}</td>
+                      <td className="py-2 text-xs text-slate-500">{s.lastAnswerAt ? new Date(s.lastAnswerAt).toLocaleString("ja-JP") : "未着手"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {activeTab === "keys" && apiKeys && (
+        <div className="space-y-4">
+          {issuedKey && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm">
+              <div className="font-bold text-amber-800 mb-1">発行したキー（この画面を閉じると二度と表示できません）</div>
+              <div className="font-mono break-all select-all bg-white border border-amber-200 rounded px-2 py-1">{issuedKey}</div>
+              <button onClick={() => setIssuedKey(null)} className="mt-2 text-amber-800 hover:underline">控えたので閉じる</button>
+            </div>
+          )}
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-slate-100 border-b border-slate-200">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">名前</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">ロール</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">有効期限</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">最終利用</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-600">操作</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {apiKeys.map(k => (
+                  <tr key={k.keyId} className={k.status === "active" ? "hover:bg-slate-50" : "bg-slate-50 text-slate-400"}>
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium">{k.name}</div>
+                      <div className="font-mono text-xs text-slate-500">{k.keyId}（{k.createdBy}）</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm">{k.role}</td>
+                    <td className="px-4 py-3 text-xs whitespace-nowrap">
+                      {new Date(k.expiresAt).toLocaleDateString("ja-JP")}
+                      {k.status === "expired" && "（期限切れ）"}
+                      {k.status === "revoked" && "（失効）"}
+                    </td>
+                    <td className="px-4 py-3 text-xs">{k.lastUsedAt ? new Date(k.lastUsedAt).toLocaleString("ja-JP") : "-"}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {k.status !== "revoked" && (
+                        <button onClick={() => revokeApiKey(k)} className="text-red-600 hover:underline">失効</button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {apiKeys.length === 0 && (
+              <div className="text-center py-12 text-slate-500">発行したキーはありません。</div>
+            )}
+          </div>
+          <button onClick={issueApiKey} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded">＋ キーを発行する</button>
+        </div>
+      )}
     </div>
   );
 }
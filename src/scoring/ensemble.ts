@@ -0,0 +1,149 @@
+/**
+ * アンサンブル採点：複数エンジンの結果を重み付き平均または投票でまとめる
+ * エンジン同士の判定が大きく割れたときは ABSTAIN（教員の要確認キューへ回る）
+ */
+import { PASS_SCORE } from "../lib/judgeWriting";
+import { labelFromScore, type Grader, type GraderName, type GradeInput, type GradeOutcome, type GradeLabel } from "./grader";
+
+export type MemberName = Exclude<GraderName, "ensemble">;
+
+export interface EnsembleConfig {
+  /** 使うエンジン（ブラウザ専用のものはサーバーでは自動的に外す） */
+  engines: MemberName[];
+  /** エンジンごとの重み（未指定は 1） */
+  weights: Partial<Record<MemberName, number>>;
+  /** weighted: 重み付き平均スコアで判定 / vote: 各エンジンの OK/NG を重み付きで投票 */
+  mode: "weighted" | "vote";
+  /** weighted: この点数以上で OK */
+  passScore: number;
+  /** weighted: 最高点と最低点の差がこれ以上なら ABSTAIN */
+  maxSpread: number;
+  /** vote: OK（または NG）の票の割合がこれ以上で確定、届かなければ ABSTAIN */
+  minAgreement: number;
+}
+
+/**
+ * 既定はサーバーでも動くエンジンだけ（ブラウザとサーバーで同じ顔ぶれで採点する）
+ * gradeMeaning はブラウザ専用なので、使うときは meta/ensemble で明示的に加える
+ */
+export const DEFAULT_ENSEMBLE: EnsembleConfig = {
+  engines: ["matchSense", "gradeWithMorph", "gradeMeaningSimple"],
+  weights: { matchSense: 0.5, gradeWithMorph: 0.2, gradeMeaningSimple: 0.15 },
+  mode: "weighted",
+  passScore: PASS_SCORE,
+  maxSpread: 60,
+  minAgreement: 0.7,
+};
+
+export const ENSEMBLE_VERSION = "ensemble-1.0";
+
+const MEMBER_NAMES: MemberName[] = ["matchSense", "gradeWithMorph", "gradeMeaning", "gradeMeaningSimple"];
+
+/** 入力検証（未指定の項目は既定値を使うので、指定されたものだけ見る）。問題があればエラーメッセージを返す */
+export function validateEnsembleConfig(c: Partial<Record<keyof EnsembleConfig, unknown>>): string | null {
+  if (c.engines !== undefined) {
+    if (!Array.isArray(c.engines) || c.engines.length === 0) return "engines must be a non-empty array";
+    const unknown = c.engines.find(e => !MEMBER_NAMES.includes(e as MemberName));
+    if (unknown !== undefined) return `unknown engine: ${unknown}`;
+  }
+  if (c.weights !== undefined) {
+    if (!c.weights || typeof c.weights !== "object" || Array.isArray(c.weights)) return "weights must be an object";
+    for (const [name, w] of Object.entries(c.weights)) {
+      if (!MEMBER_NAMES.includes(name as MemberName)) return `unknown engine: ${name}`;
+      if (typeof w !== "number" || !Number.isFinite(w) || w < 0) return "weights must be numbers >= 0";
+    }
+  }
+  if (c.mode !== undefined && c.mode !== "weighted" && c.mode !== "vote") return "mode must be weighted or vote";
+  for (const key of ["passScore", "maxSpread"] as const) {
+    const v = c[key];
+    if (v !== undefined && (typeof v !== "number" || !Number.isFinite(v) || v < 0 || v > 100)) return `${key} must be 0..100`;
+  }
+  const a = c.minAgreement;
+  if (a !== undefined && (typeof a !== "number" || !Number.isFinite(a) || a <= 0.5 || a > 1)) return "minAgreement must be in (0.5, 1]";
+  return null;
+}
+
+/** 保存された設定（一部の項目だけでもよい）を既定値で補う */
+export function resolveEnsembleConfig(partial?: Partial<EnsembleConfig> | null): EnsembleConfig {
+  if (!partial) return DEFAULT_ENSEMBLE;
+  const pick = <K extends keyof EnsembleConfig>(key: K): EnsembleConfig[K] => partial[key] ?? DEFAULT_ENSEMBLE[key];
+  return {
+    engines: pick("engines"),
+    weights: pick("weights"),
+    mode: pick("mode"),
+    passScore: pick("passScore"),
+    maxSpread: pick("maxSpread"),
+    minAgreement: pick("minAgreement"),
+  };
+}
+
+/** 各エンジンの結果から最終判定を出す（エンジン実行とは分けてテストしやすくする） */
+export function combineOutcomes(members: GradeOutcome[], config: EnsembleConfig = DEFAULT_ENSEMBLE): GradeOutcome {
+  const voting = members.filter(m => m.label !== "ABSTAIN");
+  const features: Record<string, number> = {};
+  for (const m of members) features[m.engine] = m.score;
+
+  if (voting.length === 0) {
+    return {
+      engine: "ensemble", version: ENSEMBLE_VERSION, score: 0, label: "ABSTAIN",
+      code: "all_abstain", reasons: ["判定できたエンジンがありません"], features, members,
+    };
+  }
+
+  const weightOf = (m: GradeOutcome) => config.weights[m.engine as MemberName] ?? 1;
+  const totalWeight = voting.reduce((sum, m) => sum + weightOf(m), 0) || 1;
+  const score = Math.round(voting.reduce((sum, m) => sum + weightOf(m) * m.score, 0) / totalWeight);
+  const scores = voting.map(m => m.score);
+  const spread = Math.max(...scores) - Math.min(...scores);
+  const okShare = voting.filter(m => m.label === "OK").reduce((sum, m) => sum + weightOf(m), 0) / totalWeight;
+  features.spread = spread;
+  features.okShare = Math.round(okShare * 100) / 100;
+
+  let label: GradeLabel;
+  let code: string;
+  if (config.mode === "vote") {
+    if (okShare >= config.minAgreement) { label = "OK"; code = "vote_ok"; }
+    else if (1 - okShare >= config.minAgreement) { label = "NG"; code = "vote_ng"; }
+    else { label = "ABSTAIN"; code = "disagreement"; }
+  } else if (voting.length > 1 && spread >= config.maxSpread) {
+    label = "ABSTAIN"; code = "disagreement";
+  } else {
+    label = labelFromScore(score, config.passScore);
+    code = label === "OK" ? "weighted_ok" : "weighted_ng";
+  }
+
+  const summary = members.map(m => `${m.engine}: ${m.label} ${m.score}点`).join(" / ");
+  const reasons = code === "disagreement"
+    ? [`エンジン間で判定が割れています（${summary}）`]
+    : [`${config.mode === "vote" ? "投票" : "重み付き平均"} ${score}点（${summary}）`];
+
+  return { engine: "ensemble", version: ENSEMBLE_VERSION, score, label, code, reasons, features, members };
+}
+
+/**
+ * アンサンブル用 Grader を作る
+ * run は登録表の gradeWith（循環 import を避けるため外から渡す）
+ * 設定は input.ensemble（meta/ensemble から読んだもの）が優先。省略時は config
+ * この環境で動かないエンジンは外し、外したことを reasons に残す
+ */
+export function createEnsembleGrader(
+  config: EnsembleConfig,
+  deps: { run: (name: MemberName, input: GradeInput) => Promise<GradeOutcome>; isAvailable: (name: MemberName) => boolean },
+): Grader {
+  return {
+    name: "ensemble",
+    version: ENSEMBLE_VERSION,
+    description: "複数エンジンの重み付き平均または投票（判定が割れたら ABSTAIN）",
+    serverSafe: true,
+    async grade(input) {
+      const active = input.ensemble ?? config;
+      const engines = active.engines.filter(deps.isAvailable);
+      const skipped = active.engines.filter(name => !deps.isAvailable(name));
+      const members = await Promise.all(engines.map(name => deps.run(name, input)));
+      const outcome = combineOutcomes(members, active);
+      return skipped.length
+        ? { ...outcome, reasons: [...outcome.reasons, `この環境では動かないため除外: ${skipped.join(", ")}`] }
+        : outcome;
+    },
+  };
+}
@@ -3,8 +3,9 @@
  * 生成AIなし・フロントのみで堅く採点
  */
 import moji from "moji";
-import kuromoji from "kuromoji.js";
+import kuromoji from "kuromoji.js/browser";
 import { SYN_NOUN, SYN_ADJ, ANT_ADJ } from "../data/synonyms";
+import { getSentenceTagWords } from "../lib/grammarRules";
 
 export type Morpheme = {
   surface: string;
@@ -39,6 +40,8 @@ export type GradeResult = {
   score: number;
   breakdown: { concept: number; predicate: number; pattern: number; penalty: number };
   feedback: string[];
+  /** 正解側から比較パターンを抽出できず、完全一致でしか判定していない */
+  unparsed?: boolean;
   tags?: {
     gold: { completed: boolean; negated: boolean; past: boolean; conditional: boolean };
     answer: { completed: boolean; negated: boolean; past: boolean; conditional: boolean };
@@ -112,26 +115,32 @@ function detectTags(ms: Morpheme[]): SentenceTags {
     conditional: false
   };
 
+  // 語の一覧は lib/grammarRules（文法データの意味から生成）
+  const completed = getSentenceTagWords("completed");
+  const negated = getSentenceTagWords("negated");
+  const past = getSentenceTagWords("past");
+  const conditional = getSentenceTagWords("conditional");
+
   for (const m of ms) {
     const base = m.base;
 
     // 完了助動詞: ぬ, つ, たり, り, た
-    if (isAux(m) && ["ぬ", "つ", "たり", "り", "た"].includes(base)) {
+    if (isAux(m) && completed.includes(base)) {
       tags.completed = true;
     }
 
-    // 否定助動詞: ず, ない（打消の「ぬ」は文脈依存なので除外）
-    if (isAux(m) && ["ず", "ない", "ん"].includes(base)) {
+    // 否定助動詞: ず, ない, ん（打消の「ぬ」は文脈依存なので除外）
+    if (isAux(m) && negated.includes(base)) {
       tags.negated = true;
     }
 
     // 過去助動詞: けり, き
-    if (isAux(m) && ["けり", "き"].includes(base)) {
+    if (isAux(m) && past.includes(base)) {
       tags.past = true;
     }
 
     // 条件助詞: ば, たら, なら
-    if (isParticle(m) && ["ば", "たら", "なら"].includes(base)) {
+    if (isParticle(m) && conditional.includes(base)) {
       tags.conditional = true;
     }
   }
@@ -347,6 +356,7 @@ export async function gradeMeaningTS(
       score: exact ? 100 : 0,
       breakdown,
       feedback: [exact ? "完全一致" : "比較パターン抽出に失敗（辞書/ルールを拡張してください）"],
+      unparsed: !exact,
       tags: { gold: goldTags, answer: answerTags }
     };
   }
@@ -3,6 +3,7 @@
  * 品詞判定に依存せず、正規化と文字列類似度ベースで採点
  */
 import moji from "moji";
+import { getSentenceTagWords, type SentenceTagName } from "../lib/grammarRules";
 
 export type GradeResultSimple = {
   score: number;
@@ -129,11 +130,13 @@ type SentenceTags = {
 function detectTagsSimple(text: string): SentenceTags {
   const normalized = normalizeText(text);
 
+  const endsWithAny = (name: SentenceTagName) => getSentenceTagWords(name).some(w => normalized.endsWith(w));
+
   return {
-    completed: /[ぬつたり]$|た$/.test(normalized),
-    negated: /ず$|ない$|ん$/.test(normalized),
-    past: /けり$|き$/.test(normalized),
-    conditional: /ば$|たら$|なら$/.test(normalized)
+    completed: endsWithAny("completed"),
+    negated: endsWithAny("negated"),
+    past: endsWithAny("past"),
+    conditional: endsWithAny("conditional")
   };
 }
 
@@ -0,0 +1,61 @@
+/**
+ * 採点エンジンの共通インターフェース
+ * matchSense / gradeWithMorph / gradeMeaning / gradeMeaningSimple を同じ入出力で扱う
+ */
+import type { SenseCandidate, LearnedCandidate } from "../utils/matchSense";
+import type { GoldAnswer } from "../lib/gradeWithMorph";
+import { PASS_SCORE } from "../lib/judgeWriting";
+import type { EnsembleConfig } from "./ensemble";
+
+export type GraderName = "matchSense" | "gradeWithMorph" | "gradeMeaning" | "gradeMeaningSimple" | "ensemble";
+
+/** OK/NG に加え、エンジンが判断できなかったときは ABSTAIN */
+export type GradeLabel = "OK" | "NG" | "ABSTAIN";
+
+export interface GradeInput {
+  /** 生徒の解答 */
+  answer: string;
+  /** 正解訳（語義「〔 思はれ 〕」や例文の現代語訳） */
+  gold: string;
+  /** matchSense 用の正解候補（省略時は gold から作る） */
+  candidates?: SenseCandidate[];
+  /** matchSense 用の学習済み候補 */
+  learned?: LearnedCandidate[];
+  /** gradeWithMorph 用の正解構造（省略時は gold の形態素から作る） */
+  goldMorph?: GoldAnswer;
+  /** 接続助詞「ば」の用法（gradeMeaning 系のみ参照） */
+  ba_condition?: "" | "確定" | "仮定";
+  /** ensemble のみ：構成と判定方式（meta/ensemble。省略時は DEFAULT_ENSEMBLE） */
+  ensemble?: EnsembleConfig;
+}
+
+export interface GradeOutcome {
+  engine: GraderName;
+  /** raw.auto.version に記録する判定ロジックのバージョン */
+  version: string;
+  /** 0〜100 */
+  score: number;
+  label: GradeLabel;
+  /** 機械可読の判定理由（matchSense の reason など） */
+  code: string;
+  /** 人が読む判定理由・フィードバック */
+  reasons: string[];
+  /** スコア内訳（キーはエンジンごと） */
+  features: Record<string, number>;
+  /** ensemble のみ：各エンジンの結果 */
+  members?: GradeOutcome[];
+}
+
+export interface Grader {
+  name: GraderName;
+  version: string;
+  description: string;
+  /** false のエンジンはブラウザ専用（kuromoji 辞書を /kuromoji/dict から読む） */
+  serverSafe: boolean;
+  grade(input: GradeInput): Promise<GradeOutcome>;
+}
+
+/** 0〜100 のスコアを OK/NG に振り分ける */
+export function labelFromScore(score: number, passScore = PASS_SCORE): GradeLabel {
+  return score >= passScore ? "OK" : "NG";
+}
@@ -0,0 +1,165 @@
+/**
+ * 採点エンジンのアダプタと登録表
+ * 呼び出し側は getGrader(name) / gradeWith(name, input) でエンジンを名前で選ぶ
+ */
+import type { SenseCandidate } from "../utils/matchSense";
+import { normalizeSense } from "../utils/normalizeSense";
+import { morphKey } from "../utils/morphTokenizer";
+import { judgeWriting, JUDGE_VERSION } from "../lib/judgeWriting";
+import { gradeWithMorph, type GoldAnswer } from "../lib/gradeWithMorph";
+import { gradeMeaningSimple } from "./gradeMeaningSimple";
+import { labelFromScore, type Grader, type GraderName, type GradeInput, type GradeOutcome } from "./grader";
+import { createEnsembleGrader, DEFAULT_ENSEMBLE } from "./ensemble";
+
+export type { Grader, GraderName, GradeInput, GradeOutcome, GradeLabel } from "./grader";
+export { combineOutcomes, DEFAULT_ENSEMBLE, validateEnsembleConfig, resolveEnsembleConfig, type EnsembleConfig } from "./ensemble";
+
+/** 既定のエンジン（記述式の本番採点と同じ） */
+export const DEFAULT_GRADER: GraderName = "matchSense";
+
+function candidatesOf(input: GradeInput): SenseCandidate[] {
+  if (input.candidates?.length) return input.candidates;
+  return input.gold.trim() ? [{ surface: input.gold, norm: normalizeSense(input.gold) }] : [];
+}
+
+/** 正解の語義から gradeWithMorph 用の正解構造を作る（語幹＝必須、助動詞＝必須） */
+function goldFromSense(input: GradeInput): GoldAnswer {
+  const keys = candidatesOf(input).map(c => morphKey(normalizeSense(c.surface)));
+  const lemmaNorms = [...new Set(keys.map(k => k.content.lemma).filter(Boolean))];
+  return {
+    lemmaNorms,
+    requiredAux: keys[0]?.aux ?? [],
+    optionalAux: [...new Set(keys.slice(1).flatMap(k => k.aux))],
+    particlesNear: [],
+    senseTags: [],
+  };
+}
+
+const matchSenseGrader: Grader = {
+  name: "matchSense",
+  version: JUDGE_VERSION,
+  description: "語義候補との照合（語幹＋助動詞タグ、学習済み候補）",
+  serverSafe: true,
+  async grade(input) {
+    const candidates = candidatesOf(input);
+    if (candidates.length === 0) {
+      return abstain("matchSense", JUDGE_VERSION, "no_candidates", "正解候補がありません");
+    }
+    const j = judgeWriting(input.answer, candidates, input.learned ?? []);
+    return {
+      engine: "matchSense",
+      version: JUDGE_VERSION,
+      score: j.score,
+      label: j.result,
+      code: j.reason,
+      reasons: j.detail ? [j.feedback, j.detail] : [j.feedback],
+      features: { matchScore: j.matchScore },
+    };
+  },
+};
+
+const morphGrader: Grader = {
+  name: "gradeWithMorph",
+  version: "gradeWithMorph-1.0",
+  description: "形態素ベースの配点＋接続規則違反の減点",
+  serverSafe: true,
+  async grade(input) {
+    const gold = input.goldMorph ?? goldFromSense(input);
+    if (gold.lemmaNorms.length === 0) {
+      return abstain("gradeWithMorph", this.version, "no_gold_lemma", "正解の語幹を取り出せません");
+    }
+    const r = gradeWithMorph(input.answer, gold);
+    const score = Math.round(r.score * 100);
+    return {
+      engine: "gradeWithMorph",
+      version: this.version,
+      score,
+      label: r.correct ? "OK" : "NG",
+      code: r.connIssues ? "connection_violation" : r.correct ? "morph_match" : "morph_mismatch",
+      reasons: r.notes,
+      features: { ...r.breakdown, connIssues: r.connIssues?.length ?? 0 },
+    };
+  },
+};
+
+const meaningGrader: Grader = {
+  name: "gradeMeaning",
+  version: "gradeMeaning-1.0",
+  description: "kuromoji による名詞＋形容詞／動詞パターン照合（ブラウザ専用）",
+  serverSafe: false,
+  async grade(input) {
+    // kuromoji は重いので使うときだけ読み込む
+    const { gradeMeaning } = await import("./gradeMeaning");
+    const r = await gradeMeaning(input.gold, input.answer, { ba_condition: input.ba_condition });
+    return {
+      engine: "gradeMeaning",
+      version: this.version,
+      score: r.score,
+      label: r.unparsed ? "ABSTAIN" : labelFromScore(r.score),
+      code: r.unparsed ? "pattern_unparsed" : "pattern_match",
+      reasons: r.feedback,
+      features: { ...r.breakdown },
+    };
+  },
+};
+
+const meaningSimpleGrader: Grader = {
+  name: "gradeMeaningSimple",
+  version: "gradeMeaningSimple-1.0",
+  description: "正規化＋文字列類似度",
+  serverSafe: true,
+  async grade(input) {
+    const r = await gradeMeaningSimple(input.gold, input.answer, { ba_condition: input.ba_condition });
+    return {
+      engine: "gradeMeaningSimple",
+      version: this.version,
+      score: r.score,
+      label: labelFromScore(r.score),
+      code: "similarity",
+      reasons: r.feedback,
+      features: { ...r.breakdown },
+    };
+  },
+};
+
+function abstain(engine: GraderName, version: string, code: string, reason: string): GradeOutcome {
+  return { engine, version, score: 0, label: "ABSTAIN", code, reasons: [reason], features: {} };
+}
+
+const GRADERS: Record<GraderName, Grader> = {
+  matchSense: matchSenseGrader,
+  gradeWithMorph: morphGrader,
+  gradeMeaning: meaningGrader,
+  gradeMeaningSimple: meaningSimpleGrader,
+  // ブラウザ専用エンジンはサーバー（window なし）では外して合議する
+  ensemble: createEnsembleGrader(DEFAULT_ENSEMBLE, {
+    run: (name, input) => gradeWith(name, input),
+    isAvailable: name => GRADERS[name].serverSafe || typeof window !== "undefined",
+  }),
+};
+
+export function isGraderName(name: unknown): name is GraderName {
+  return typeof name === "string" && Object.prototype.hasOwnProperty.call(GRADERS, name);
+}
+
+export function getGrader(name: GraderName): Grader {
+  return GRADERS[name];
+}
+
+/** 登録済みエンジン一覧（serverOnly: サーバーで動くものだけ） */
+export function listGraders(opts: { serverOnly?: boolean } = {}): Grader[] {
+  return Object.values(GRADERS).filter(g => !opts.serverOnly || g.serverSafe);
+}
+
+/**
+ * 名前でエンジンを選んで採点する
+ * エンジン内部の例外（辞書読み込み失敗など）は ABSTAIN として返す
+ */
+export async function gradeWith(name: GraderName, input: GradeInput): Promise<GradeOutcome> {
+  const grader = getGrader(name);
+  try {
+    return await grader.grade(input);
+  } catch (e: any) {
+    return abstain(name, grader.version, "engine_error", `採点エラー: ${String(e?.message || e)}`);
+  }
+}
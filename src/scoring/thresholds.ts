@@ -0,0 +1,52 @@
+/**
+ * 問題ごとの採点閾値（thresholds/{qid}）
+ * エンジンのスコア（0〜100）を hi / lo で OK / NG / ABSTAIN に振り分ける
+ * クライアント採点（App.tsx）とサーバー（submitAnswer / rejudge）で同じ判定を使う
+ */
+import { PASS_SCORE } from "../lib/judgeWriting";
+import type { GradeLabel, GradeOutcome } from "./grader";
+
+export interface Thresholds {
+  /** この点数以上で OK */
+  hi: number;
+  /** この点数未満で NG（lo〜hi の間は ABSTAIN） */
+  lo: number;
+  /** true: lo〜hi の間を ABSTAIN にせず NG とする */
+  autoResolve?: boolean;
+}
+
+/** ドキュメントが無い問題の既定値（従来どおり 60 点で OK/NG、保留なし） */
+export const DEFAULT_THRESHOLDS: Thresholds = { hi: PASS_SCORE, lo: PASS_SCORE };
+
+/** 候補集計（aggregateCandidates）の既定の帯（accept / review / negative） */
+export const DEFAULT_CANDIDATE_BANDS: Thresholds = { hi: 80, lo: 50 };
+
+/** 入力検証。問題があればエラーメッセージを返す */
+export function validateThresholds(t: { hi?: unknown; lo?: unknown; autoResolve?: unknown }): string | null {
+  if (typeof t.hi !== "number" || typeof t.lo !== "number" || !Number.isFinite(t.hi) || !Number.isFinite(t.lo)) {
+    return "hi and lo must be numbers";
+  }
+  if (t.lo < 0 || t.hi > 100 || t.lo > t.hi) return "require 0 <= lo <= hi <= 100";
+  if (t.autoResolve !== undefined && typeof t.autoResolve !== "boolean") return "autoResolve must be boolean";
+  return null;
+}
+
+/**
+ * スコアを閾値で判定（エンジン自身が ABSTAIN したものはそのまま）
+ */
+export function resolveLabel(score: number, engineLabel: GradeLabel, t: Thresholds = DEFAULT_THRESHOLDS): GradeLabel {
+  if (engineLabel === "ABSTAIN") return "ABSTAIN";
+  if (score >= t.hi) return "OK";
+  if (score < t.lo) return "NG";
+  return t.autoResolve ? "NG" : "ABSTAIN";
+}
+
+/** エンジンの結果に閾値を適用 */
+export function applyThresholds(outcome: GradeOutcome, t: Thresholds = DEFAULT_THRESHOLDS): GradeOutcome {
+  const label = resolveLabel(outcome.score, outcome.label, t);
+  if (label === outcome.label) return outcome;
+  const reasons = label === "ABSTAIN"
+    ? [...outcome.reasons, `${t.lo}〜${t.hi}点の間のため先生の確認待ち`]
+    : outcome.reasons;
+  return { ...outcome, label, reasons };
+}
@@ -0,0 +1,28 @@
+/**
+ * 端末内履歴へのサーバ回答の取り込み（planRemoteMerge）のテスト
+ */
+import { describe, it, expect } from "vitest";
+import { planRemoteMerge, type AnswerLogEntry } from "../lib/answerLog";
+
+const entry = (e: Partial<AnswerLogEntry>): AnswerLogEntry => ({ qid: "1-1", quizType: "meaning-writing", correct: false, ts: 1000, ...e });
+
+describe("planRemoteMerge", () => {
+  it("updates known answerIds and adds unknown ones", () => {
+    const local = [entry({ id: 1, answerId: "a1", correct: false })];
+    const remote = [entry({ answerId: "a1", correct: true }), entry({ answerId: "a2", qid: "1-2" })];
+    expect(planRemoteMerge(local, remote)).toEqual([
+      { type: "update", id: 1, patch: { correct: true } },
+      { type: "add", entry: expect.objectContaining({ answerId: "a2", qid: "1-2" }) },
+    ]);
+  });
+
+  it("attaches the answerId to an offline entry with the same qid and clientTs instead of duplicating it", () => {
+    const local = [entry({ id: 1, clientTs: 5000 }), entry({ id: 2, qid: "1-2", clientTs: 5000 })];
+    const remote = [entry({ answerId: "a1", clientTs: 5000, correct: true, ts: 5000 })];
+    expect(planRemoteMerge(local, remote)).toEqual([{ type: "update", id: 1, patch: { answerId: "a1", correct: true } }]);
+    // 同じ回答が2回返っても1件にしか付けない
+    const twice = planRemoteMerge(local, [...remote, entry({ answerId: "a9", clientTs: 5000 })]);
+    expect(twice.filter(s => s.type === "update")).toHaveLength(1);
+    expect(twice.filter(s => s.type === "add")).toHaveLength(1);
+  });
+});
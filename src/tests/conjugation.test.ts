@@ -0,0 +1,80 @@
+/**
+ * 活用エンジンのテスト（kobun-grammar.json の活用表から作る・逆引きする）
+ */
+import { describe, it, expect } from "vitest";
+import grammarData from "../assets/kobun-grammar.json";
+import { buildGrammarIndex } from "../lib/grammarLoader";
+import { analyzeConjugated, buildConjugationTables, conjugate, CONJUGATED_FORMS } from "../lib/conjugation";
+import { CONJUGATION_TABLES } from "../lib/conjugationTables.generated";
+
+const grammar = buildGrammarIndex(grammarData);
+const tables = buildConjugationTables(grammar);
+
+describe("conjugation", () => {
+  it("generated tables are up to date (npm run gen:grammar-rules)", () => {
+    expect(CONJUGATION_TABLES).toEqual(tables);
+  });
+
+  it("reproduces every example of the verb and adjective tables", () => {
+    const examples = [
+      ...grammar.verbs.flatMap(v => v.例.map(e => ({ 品詞: v.品詞, 基本形: e.基本形, 語幹: e.語幹, 語尾: e.活用語尾 }))),
+      ...grammar.adjectives.flatMap(a => a.例.map(e => ({ 品詞: a.品詞, 基本形: e.基本形, 語幹: e.語幹, 語尾: e.語尾変化 }))),
+    ];
+    // 表の例1つが活用の種類1つになる
+    expect(tables.classes).toHaveLength(examples.length);
+    examples.forEach((ex, i) => {
+      // 見る・来 は語幹と語尾の区別がないので仮名書き（語尾だけ）で、静かナリ は語幹＋なり で作る
+      const word = ex.基本形.endsWith(ex.語尾.終止) ? ex.基本形 : ex.品詞 === "動詞" ? ex.語尾.終止 : ex.語幹 + ex.語尾.終止;
+      const stem = word.slice(0, word.length - ex.語尾.終止.length);
+      const made = conjugate(tables, word, tables.classes[i].name)!;
+      expect(made, ex.基本形).toBeTruthy();
+      for (const form of CONJUGATED_FORMS) {
+        const cell = ex.語尾[form.replace("形", "")];
+        expect(made.forms[form]).toEqual(cell.split("／").map(e => stem + e.replace(/[（）]/g, "")));
+      }
+    });
+  });
+
+  it("moves the example row to the row of the given verb", () => {
+    expect(conjugate(tables, "読む", "四段")!.forms["未然形"]).toEqual(["読ま"]);
+    expect(conjugate(tables, "落つ", "上二")!.forms["命令形"]).toEqual(["落ちよ"]);
+    expect(conjugate(tables, "植う", "下二段")!.forms["連用形"]).toEqual(["植ゑ"]);
+    expect(conjugate(tables, "感ず", "サ変")!.forms["命令形"]).toEqual(["感ぜよ"]);
+    expect(conjugate(tables, "見る", "上一")!.forms["已然形"]).toEqual(["見れ"]);
+    // 種類に合わない基本形は作らない
+    expect(conjugate(tables, "高し", "四段")).toBeNull();
+  });
+
+  it("chains auxiliaries through their connection rules", () => {
+    expect(conjugate(tables, "書く", "四段", ["る", "たり", "けり"])!.forms["終止形"]).toEqual(["書かれたりけり"]);
+    // 補助活用・ラ変型は連体形に付く
+    expect(conjugate(tables, "高し", "ク", ["べし"])!.forms["終止形"]).toEqual(["高かるべし"]);
+    expect(conjugate(tables, "書く", "四段", ["ず", "けり"])!.forms["連体形"]).toEqual(["書かざりける"]);
+    expect(conjugate(tables, "す", "サ変", ["り"])!.forms["終止形"]).toEqual(["せり"]);
+    // り は四段・サ変にしか付かない、む に連用形は無い
+    expect(conjugate(tables, "起く", "上二", ["り"])).toBeNull();
+    expect(conjugate(tables, "書く", "四段", ["む", "けり"])).toBeNull();
+  });
+
+  it("analyzes every generated form back to its word, class and form", () => {
+    const words: Array<[string, string, string[]]> = [
+      ["書く", "四段", []], ["起く", "上二段", []], ["死ぬ", "ナ変", []], ["あり", "ラ変", []],
+      ["悲し", "シク活用", []], ["静かなり", "ナリ活用", []], ["書く", "四段", ["る", "たり", "けり"]],
+    ];
+    for (const [word, cls, aux] of words) {
+      const made = conjugate(tables, word, cls, aux)!;
+      for (const form of CONJUGATED_FORMS) {
+        for (const surface of made.forms[form]) {
+          const found = analyzeConjugated(tables, surface).some(c => c.基本形 === word && c.分類 === made.分類 && c.form === form && c.助動詞.join("+") === made.助動詞.join("+"));
+          expect(found, `${surface}（${word}・${form}）`).toBe(true);
+        }
+      }
+    }
+  });
+
+  it("puts rare forms behind the usual ones", () => {
+    const adj = analyzeConjugated(tables, "悲しく", 0).filter(c => c.品詞 === "形容詞");
+    expect(adj[0].form).toBe("連用形");
+    expect(adj.find(c => c.form === "未然形")!.rare).toBe(true);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * アンサンブル採点（重み付き平均・投票・ABSTAIN）のユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import { combineOutcomes, createEnsembleGrader, validateEnsembleConfig, DEFAULT_ENSEMBLE, type EnsembleConfig } from "../scoring/ensemble";
+import type { GradeOutcome, GraderName, GradeLabel } from "../scoring/grader";
+
+function member(engine: GraderName, score: number, label: GradeLabel): GradeOutcome {
+  return { engine, version: "test", score, label, code: "test", reasons: [], features: {} };
+}
+
+const equal: EnsembleConfig = { ...DEFAULT_ENSEMBLE, weights: {} };
+
+describe("combineOutcomes (weighted)", () => {
+  it("重み付き平均で合否を決め、内訳を members / features に残す", () => {
+    const r = combineOutcomes([
+      member("matchSense", 100, "OK"),
+      member("gradeWithMorph", 70, "OK"),
+      member("gradeMeaningSimple", 70, "OK"),
+    ], equal);
+    expect(r).toMatchObject({ engine: "ensemble", label: "OK", score: 80, code: "weighted_ok" });
+    expect(r.members).toHaveLength(3);
+    expect(r.features).toMatchObject({ matchSense: 100, gradeWithMorph: 70, spread: 30 });
+  });
+
+  it("重みを反映する", () => {
+    const r = combineOutcomes([
+      member("matchSense", 100, "OK"),
+      member("gradeMeaningSimple", 40, "NG"),
+    ], { ...equal, weights: { matchSense: 3, gradeMeaningSimple: 1 }, maxSpread: 100 });
+    expect(r.score).toBe(85);
+    expect(r.label).toBe("OK");
+  });
+
+  it("点数が大きく割れたら ABSTAIN", () => {
+    const r = combineOutcomes([
+      member("matchSense", 0, "NG"),
+      member("gradeMeaningSimple", 90, "OK"),
+    ], equal);
+    expect(r.label).toBe("ABSTAIN");
+    expect(r.code).toBe("disagreement");
+  });
+
+  it("ABSTAIN のエンジンは合議から外す。全員 ABSTAIN なら ABSTAIN", () => {
+    const r = combineOutcomes([
+      member("matchSense", 100, "OK"),
+      member("gradeMeaning", 0, "ABSTAIN"),
+    ], equal);
+    expect(r.label).toBe("OK");
+    expect(r.score).toBe(100);
+
+    const none = combineOutcomes([member("gradeMeaning", 0, "ABSTAIN")], equal);
+    expect(none.label).toBe("ABSTAIN");
+    expect(none.code).toBe("all_abstain");
+  });
+});
+
+describe("combineOutcomes (vote)", () => {
+  const vote: EnsembleConfig = { ...equal, mode: "vote", minAgreement: 0.6 };
+
+  it("多数が一致すれば確定、割れたら ABSTAIN", () => {
+    const ok = combineOutcomes([
+      member("matchSense", 100, "OK"),
+      member("gradeWithMorph", 80, "OK"),
+      member("gradeMeaningSimple", 40, "NG"),
+    ], vote);
+    expect(ok.label).toBe("OK");
+
+    const ng = combineOutcomes([
+      member("matchSense", 0, "NG"),
+      member("gradeWithMorph", 30, "NG"),
+      member("gradeMeaningSimple", 70, "OK"),
+    ], vote);
+    expect(ng.label).toBe("NG");
+
+    const split = combineOutcomes([
+      member("matchSense", 100, "OK"),
+      member("gradeWithMorph", 30, "NG"),
+    ], vote);
+    expect(split.label).toBe("ABSTAIN");
+  });
+});
+
+describe("createEnsembleGrader", () => {
+  const scores: Record<string, number> = { matchSense: 100, gradeWithMorph: 30, gradeMeaning: 90, gradeMeaningSimple: 20 };
+  const grader = createEnsembleGrader(DEFAULT_ENSEMBLE, {
+    run: async name => member(name, scores[name], scores[name] >= 60 ? "OK" : "NG"),
+    isAvailable: name => name !== "gradeMeaning",
+  });
+
+  it("input.ensemble の構成と判定方式を使い、動かないエンジンは外したと記録する", async () => {
+    const r = await grader.grade({
+      answer: "a", gold: "b",
+      ensemble: { ...equal, engines: ["matchSense", "gradeWithMorph", "gradeMeaning"], mode: "vote", minAgreement: 0.6 },
+    });
+    expect(r.members?.map(m => m.engine)).toEqual(["matchSense", "gradeWithMorph"]);
+    expect(r.code).toBe("disagreement");
+    expect(r.reasons.at(-1)).toContain("gradeMeaning");
+  });
+
+  it("既定の構成はサーバーで動くエンジンだけ", async () => {
+    const r = await grader.grade({ answer: "a", gold: "b" });
+    expect(r.members?.map(m => m.engine)).toEqual(DEFAULT_ENSEMBLE.engines);
+    expect(r.reasons.join()).not.toContain("除外");
+  });
+});
+
+describe("validateEnsembleConfig", () => {
+  it("未知のエンジン・範囲外の値を弾く", () => {
+    expect(validateEnsembleConfig({ mode: "vote", minAgreement: 0.7 })).toBeNull();
+    expect(validateEnsembleConfig({ engines: ["ensemble"] })).toMatch(/unknown engine/);
+    expect(validateEnsembleConfig({ weights: { matchSense: -1 } })).toMatch(/weights/);
+    expect(validateEnsembleConfig({ mode: "median" })).toMatch(/mode/);
+    expect(validateEnsembleConfig({ minAgreement: 0.4 })).toMatch(/minAgreement/);
+  });
+});
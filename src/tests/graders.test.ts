@@ -0,0 +1,65 @@
+/**
+ * 採点エンジン共通インターフェース（アダプタ・登録表）のユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import { gradeWith, getGrader, listGraders, isGraderName, DEFAULT_GRADER } from "../scoring/graders";
+import { labelFromScore } from "../scoring/grader";
+import { judgeWriting } from "../lib/judgeWriting";
+import { normalizeSense } from "../utils/normalizeSense";
+
+const gold = "〔 気づい 〕";
+const candidates = [{ surface: gold, norm: normalizeSense(gold) }];
+
+describe("registry", () => {
+  it("各エンジンを名前で引ける", () => {
+    expect(listGraders().map(g => g.name)).toEqual([
+      "matchSense", "gradeWithMorph", "gradeMeaning", "gradeMeaningSimple", "ensemble",
+    ]);
+    expect(getGrader(DEFAULT_GRADER).name).toBe("matchSense");
+    expect(isGraderName("gradeWithMorph")).toBe(true);
+    expect(isGraderName("unknown")).toBe(false);
+    expect(isGraderName("toString")).toBe(false);
+  });
+
+  it("サーバーでは kuromoji 依存のエンジンを除く", () => {
+    expect(listGraders({ serverOnly: true }).map(g => g.name)).not.toContain("gradeMeaning");
+  });
+});
+
+describe("adapters", () => {
+  it("matchSense は judgeWriting と同じ判定を返す", async () => {
+    for (const answer of ["気づい", "眠る"]) {
+      const j = judgeWriting(answer, candidates);
+      const r = await gradeWith("matchSense", { answer, gold, candidates });
+      expect(r).toMatchObject({ engine: "matchSense", score: j.score, label: j.result, code: j.reason });
+      expect(r.reasons[0]).toBe(j.feedback);
+    }
+  });
+
+  it("正解候補が無ければ ABSTAIN", async () => {
+    const r = await gradeWith("matchSense", { answer: "気づい", gold: "" });
+    expect(r.label).toBe("ABSTAIN");
+  });
+
+  it("gradeWithMorph は 0〜100 に換算し、内訳を features に入れる", async () => {
+    const r = await gradeWith("gradeWithMorph", { answer: "気づい", gold });
+    expect(r.score).toBeGreaterThanOrEqual(0);
+    expect(r.score).toBeLessThanOrEqual(100);
+    expect(r.features).toHaveProperty("lemma");
+    expect(r.features).toHaveProperty("connIssues");
+  });
+
+  it("gradeMeaningSimple の完全一致は OK", async () => {
+    const r = await gradeWith("gradeMeaningSimple", { answer: "身分が低い", gold: "身分が低い" });
+    expect(r.label).toBe("OK");
+    expect(r.features).toHaveProperty("baseSimilarity");
+  });
+});
+
+describe("labelFromScore", () => {
+  it("合格点以上で OK", () => {
+    expect(labelFromScore(60)).toBe("OK");
+    expect(labelFromScore(59)).toBe("NG");
+    expect(labelFromScore(70, 80)).toBe("NG");
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * 採点ベンチマークの集計（混同行列・reason 別・ベースライン比較）のユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import { parseCorpus, summarize, compareToBaseline, type BenchResult } from "../lib/gradingBench";
+
+function result(key: string, label: "OK" | "NG", predicted: "OK" | "NG" | "ABSTAIN", score: number, code: string): BenchResult {
+  return { key, qid: null, answer: key, label, predicted, score, code, correct: label === predicted };
+}
+
+describe("parseCorpus", () => {
+  it("OK/NG ラベル付きで qid か gold がある行だけ読む", () => {
+    const text = [
+      '{"qid":"1-1","answer":"気づいた","label":"OK"}',
+      '{"gold":"祈り","answer":"いのり","label":"NG"}',
+      '{"qid":"1-1","answer":"未判定","label":"ABSTAIN"}',
+      '{"answer":"正解なし","label":"OK"}',
+      "壊れた行",
+      "",
+    ].join("\n");
+    expect(parseCorpus(text).map(i => i.answer)).toEqual(["気づいた", "いのり"]);
+  });
+});
+
+describe("summarize", () => {
+  const results = [
+    result("a", "OK", "OK", 100, "perfect"),
+    result("b", "OK", "NG", 0, "context_mismatch"),
+    result("c", "NG", "OK", 60, "partial_match"),
+    result("d", "NG", "NG", 0, "context_mismatch"),
+    result("e", "OK", "ABSTAIN", 50, "disagreement"),
+  ];
+
+  it("正解率・判定率・混同行列", () => {
+    const r = summarize("matchSense", "v", results);
+    expect(r.accuracy).toBeCloseTo(2 / 5);
+    expect(r.coverage).toBeCloseTo(4 / 5);
+    expect(r.decidedAccuracy).toBeCloseTo(2 / 4);
+    expect(r.confusion.OK).toEqual({ OK: 1, NG: 1, ABSTAIN: 1 });
+    expect(r.confusion.NG).toEqual({ OK: 1, NG: 1, ABSTAIN: 0 });
+  });
+
+  it("reason 別の適合率・再現率（OK 判定が無ければ precision は null）", () => {
+    const r = summarize("matchSense", "v", results);
+    expect(r.byReason.perfect).toEqual({ support: 1, precision: 1, recall: 1 });
+    expect(r.byReason.context_mismatch).toEqual({ support: 2, precision: null, recall: 0 });
+    expect(r.byReason.partial_match).toEqual({ support: 1, precision: 0, recall: null });
+  });
+
+  it("ワーストは人手ラベルから遠いスコア順", () => {
+    const r = summarize("matchSense", "v", results, 2);
+    expect(r.worst.map(w => w.key)).toEqual(["b", "c"]);
+  });
+});
+
+describe("compareToBaseline", () => {
+  it("正誤が入れ替わった回答を悪化・改善に分ける", () => {
+    const base = summarize("matchSense", "v1", [
+      result("a", "OK", "OK", 100, "perfect"),
+      result("b", "OK", "NG", 0, "context_mismatch"),
+    ]);
+    const now = summarize("matchSense", "v2", [
+      result("a", "OK", "NG", 0, "context_mismatch"),
+      result("b", "OK", "OK", 70, "partial_match"),
+      result("new", "NG", "NG", 0, "context_mismatch"),
+    ]);
+    const diff = compareToBaseline(now, base);
+    expect(diff.regressions.map(d => d.now.key)).toEqual(["a"]);
+    expect(diff.fixes.map(d => d.now.key)).toEqual(["b"]);
+  });
+});
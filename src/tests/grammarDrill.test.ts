@@ -0,0 +1,63 @@
+/**
+ * 文法ドリルの問題生成テスト（kobun-grammar.json から作る）
+ */
+import { describe, it, expect } from "vitest";
+import grammarData from "../assets/kobun-grammar.json";
+import { buildGrammarIndex } from "../lib/grammarLoader";
+import { buildGrammarQuestions, generateGrammarQuiz, GRAMMAR_QUIZ_TYPES } from "../lib/grammarDrill";
+
+const grammar = buildGrammarIndex(grammarData);
+
+describe("grammarDrill", () => {
+  it("builds four distinct options containing the answer for every quiz type", () => {
+    for (const quizType of GRAMMAR_QUIZ_TYPES) {
+      const questions = buildGrammarQuestions(grammar, quizType);
+      expect(questions.length).toBeGreaterThan(0);
+      for (const q of questions) {
+        expect(q.options).toHaveLength(4);
+        expect(new Set(q.options).size).toBe(4);
+        expect(q.options).toContain(q.answer);
+      }
+    }
+  });
+
+  it("asks the ending of each form from the conjugation tables", () => {
+    const q = buildGrammarQuestions(grammar, "conjugation").find(q => q.id === "conjugation:書く:未然")!;
+    expect(q.prompt).toBe("「書く」（四段）の未然形の活用語尾は？");
+    expect(q.answer).toBe("か");
+    // 6活用形 × (動詞9 + 形容詞・形容動詞4)
+    expect(buildGrammarQuestions(grammar, "conjugation")).toHaveLength(78);
+  });
+
+  it("uses the auxiliary table for connection and meaning", () => {
+    const conn = buildGrammarQuestions(grammar, "aux-connection").find(q => q.target === "けり")!;
+    expect(conn.answer).toBe("連用形");
+
+    const meaning = buildGrammarQuestions(grammar, "aux-meaning").find(q => q.target === "けり")!;
+    expect(["過去", "詠嘆"]).toContain(meaning.answer);
+    // 誤答にけりの他の意味は入らない
+    expect(meaning.options.filter(o => o === "過去" || o === "詠嘆")).toHaveLength(1);
+  });
+
+  it("builds auxiliary chains with the conjugation engine", () => {
+    const questions = buildGrammarQuestions(grammar, "aux-chain");
+    expect(questions.find(q => q.id === "aux-chain:書く:けり")!.answer).toBe("書きけり");
+    expect(questions.find(q => q.id === "aux-chain:起く:らる")!.answer).toBe("起きらる");
+    // 接続できない組み合わせは出さない
+    expect(questions.find(q => q.id === "aux-chain:起く:り")).toBeUndefined();
+    expect(questions.find(q => q.id === "aux-chain:書く:らる")).toBeUndefined();
+  });
+
+  it("skips particles whose kind depends on context", () => {
+    const targets = buildGrammarQuestions(grammar, "particle-type").map(q => q.target);
+    expect(targets).toContain("ばかり");
+    expect(targets).not.toContain("が");
+    expect(targets).not.toContain("なむ");
+    expect(buildGrammarQuestions(grammar, "particle-type").find(q => q.target === "こそ")!.answer).toBe("係助詞");
+  });
+
+  it("caps the quiz at the number of questions available", () => {
+    expect(generateGrammarQuiz(grammar, "aux-connection", 5)).toHaveLength(5);
+    expect(generateGrammarQuiz(grammar, "aux-connection", 999)).toHaveLength(grammarData.auxiliaries.length);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * 助動詞・助詞の規則のテスト（文法データ・morphTokenizer・gradeMeaning の文タグが食い違わないか）
+ */
+import { describe, it, expect } from "vitest";
+import grammarData from "../assets/kobun-grammar.json";
+import overrides from "../assets/grammar-rules.overrides.json";
+import { GRAMMAR_RULES } from "../lib/grammarRules.generated";
+import { bareWord, buildGrammarRules, GrammarRulesOverrides } from "../lib/grammarRulesBuilder";
+import { findAuxRule, getSentenceTagWords } from "../lib/grammarRules";
+import { morphKey, tokenizeSense } from "../utils/morphTokenizer";
+
+const ov = overrides as unknown as GrammarRulesOverrides;
+
+describe("grammarRules", () => {
+  it("generated module is up to date (npm run gen:grammar-rules)", () => {
+    expect(GRAMMAR_RULES).toEqual(buildGrammarRules(grammarData, ov));
+  });
+
+  it("every auxiliary of the grammar has a tag or a reason to be skipped", () => {
+    const skipped = new Set(ov.skipAuxiliaries.map(s => s.語));
+    for (const aux of grammarData.auxiliaries) {
+      const rule = GRAMMAR_RULES.auxiliaries.find(a => a.語 === aux.語 && !a.modern)!;
+      expect(rule.tag !== null || skipped.has(aux.語), aux.語).toBe(true);
+    }
+    // 上書きは文法データにある語・形だけを指す
+    for (const s of ov.skipAuxiliaries) expect(grammarData.auxiliaries.some(a => a.語 === s.語), s.語).toBe(true);
+    for (const d of ov.dropSurfaces) {
+      const forms = grammarData.auxiliaries.flatMap(a => [a.語, ...Object.values(a.活用 ?? {})]);
+      expect(forms.some(f => f.includes(d.surface)), d.surface).toBe(true);
+    }
+    for (const key of ov.tokenizerParticles) expect(GRAMMAR_RULES.particles.some(p => p.key === key), key).toBe(true);
+    for (const rule of GRAMMAR_RULES.tokenizer.aux) expect(ov.auxTagOrder, rule.tag).toContain(rule.tag);
+  });
+
+  it("sentence tag words agree with the tokenizer tags", () => {
+    const expected = { completed: "完了-存続", negated: "打消", past: "過去" } as const;
+    const skipped = new Set(ov.skipAuxiliaries.map(s => bareWord(s.語)));
+    const dropped = new Set(ov.dropSurfaces.map(d => d.surface));
+    const inGrammar = new Set(grammarData.auxiliaries.map(a => bareWord(a.語)));
+
+    for (const [name, tag] of Object.entries(expected) as Array<[keyof typeof expected, string]>) {
+      for (const word of getSentenceTagWords(name)) {
+        // 剥がさない語・形は理由つきで上書きに載っている。文法データに無い語（現代語の「た」など）は文タグだけ
+        if (skipped.has(word) || dropped.has(word) || !inGrammar.has(word)) continue;
+        expect(findAuxRule(tag, word), `${name}:${word}`).toBeTruthy();
+      }
+    }
+    expect(morphKey("行きけり").aux).toContain("過去");
+    expect(morphKey("行かず").aux).toContain("打消");
+    expect(morphKey("行きつ").aux).toContain("完了-存続");
+  });
+
+  it("keeps the tags the hand-written tokenizer produced", () => {
+    const tags = (w: string) => tokenizeSense(w, { ignoreParticles: false }).filter(m => m.pos !== "content").map(m => (m as { tag: string }).tag);
+    expect(tags("京まで")).toEqual(["格助:まで"]);
+    expect(tags("咲くべらなり")).toEqual(["推定"]);
+    expect(tags("行くまじ")).toEqual(["打消"]);
+  });
+
+  it("keeps り in the sentence tags but not in the tokenizer", () => {
+    expect(getSentenceTagWords("completed")).toContain("り");
+    expect(GRAMMAR_RULES.auxiliaries.find(a => a.語 === "り")!.skip).toBeTruthy();
+    expect(GRAMMAR_RULES.tokenizer.aux.some(r => r.surfaces.includes("り"))).toBe(false);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * 識別ドリルのテスト（例文と identification_rules_flow の突き合わせ）
+ */
+import { describe, it, expect } from "vitest";
+import grammarData from "../assets/kobun-grammar.json";
+import { buildGrammarIndex } from "../lib/grammarLoader";
+import { answerStep, buildIdentificationQuestions } from "../lib/identificationDrill";
+import { IDENTIFICATION_ITEMS } from "../data/identificationItems";
+
+const grammar = buildGrammarIndex(grammarData);
+
+describe("identificationDrill", () => {
+  it("matches every example sentence to a step of its flow", () => {
+    const questions = buildIdentificationQuestions(grammar);
+    expect(questions).toHaveLength(IDENTIFICATION_ITEMS.length);
+    for (const q of questions) {
+      expect(q.target).toBe(q.word);
+      expect(q.steps[q.answerStep].note).toBeTruthy();
+    }
+  });
+
+  it("expects no before the matching condition and yes on it", () => {
+    const q = buildIdentificationQuestions(grammar).find(q => q.qid === "identification:ni-3")!;
+    expect(q.steps[q.answerStep].result).toBe("格助詞");
+    expect(q.before.endsWith("戌の時")).toBe(true);
+
+    expect(answerStep(q, 0, false)).toEqual({ correct: true, done: false });
+    expect(answerStep(q, 1, false)).toEqual({ correct: true, done: false });
+    expect(answerStep(q, 2, true)).toEqual({ correct: true, done: true });
+    // 手前の条件で「はい」・答えの条件で「いいえ」は不正解で終わり
+    expect(answerStep(q, 0, true)).toEqual({ correct: false, done: true });
+    expect(answerStep(q, 2, false)).toEqual({ correct: false, done: true });
+  });
+
+  it("drops sentences whose result is not in the flow", () => {
+    const questions = buildIdentificationQuestions(grammar, [
+      { id: "x", word: "なむ", sentence: "竹〔なむ〕ありける。", result: "格助詞" },
+      { id: "y", word: "が", sentence: "梅〔が〕香", result: "格助詞" },
+    ]);
+    expect(questions).toHaveLength(0);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * 学習進捗集計のユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import { computeProgress } from "../lib/progressStats";
+import type { AnswerLogEntry } from "../lib/answerLog";
+import type { Word } from "../types";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const word = (qid: string, lemma: string, group: number): Word =>
+  ({ qid, lemma, sense: `〔 ${qid} 〕`, meaning_idx: 1, group, examples: [] }) as Word;
+
+const words = [word("1-1", "あはれ", 1), word("1-2", "あはれ", 1), word("2-1", "いと", 2)];
+
+const entry = (qid: string, correct: boolean, ts: number, quizType: AnswerLogEntry["quizType"] = "word-meaning"): AnswerLogEntry =>
+  ({ qid, correct, ts, quizType });
+
+describe("computeProgress", () => {
+  it("グループ・見出し語・クイズ種別ごとの正答率", () => {
+    const s = computeProgress([
+      entry("1-1", true, 0),
+      entry("1-2", false, 1),
+      entry("2-1", true, 2, "true-false"),
+    ], words, 10, 0);
+
+    expect(s).toMatchObject({ total: 3, correct: 2 });
+    expect(s.byGroup).toEqual([
+      { key: "1", attempts: 2, correct: 1, rate: 0.5 },
+      { key: "2", attempts: 1, correct: 1, rate: 1 },
+    ]);
+    expect(s.byLemma[0]).toMatchObject({ key: "あはれ", rate: 0.5 });
+    expect(s.byQuizType.find(q => q.key === "true-false")?.attempts).toBe(1);
+  });
+
+  it("苦手な意味は2回以上解いたものから正答率の低い順", () => {
+    const s = computeProgress([
+      entry("1-1", false, 0),
+      entry("1-1", false, 1),
+      entry("1-2", true, 2),
+      entry("1-2", false, 3),
+      entry("2-1", false, 4),
+    ], words, 10, 0);
+
+    expect(s.weakestSenses.map(w => w.key)).toEqual(["1-1", "1-2"]);
+    expect(s.weakestSenses[0].lemma).toBe("あはれ");
+  });
+
+  it("連続学習日数と連続正解数", () => {
+    const s = computeProgress([
+      entry("1-1", true, 0),
+      entry("1-1", true, 1 * DAY),
+      entry("1-1", false, 5 * DAY),
+      entry("1-1", true, 6 * DAY),
+      entry("2-1", true, 6 * DAY + 1),
+    ], words, 7 * DAY, 0);
+
+    expect(s.bestDayStreak).toBe(2);
+    expect(s.currentDayStreak).toBe(2);
+    expect(s.currentCorrectStreak).toBe(2);
+
+    const stale = computeProgress([entry("1-1", true, 0)], words, 3 * DAY, 0);
+    expect(stale.currentDayStreak).toBe(0);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * 間隔反復スケジューラのユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import { scheduleNext, answerQuality, dueQids } from "../lib/reviewScheduler";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("scheduleNext", () => {
+  it("初回正解 → 1日後、2回目 → 6日後", () => {
+    const first = scheduleNext(undefined, "1-1", 4, 0);
+    expect(first).toMatchObject({ reps: 1, interval: 1, due: DAY, lapses: 0 });
+
+    const second = scheduleNext(first, "1-1", 4, DAY);
+    expect(second).toMatchObject({ reps: 2, interval: 6, due: 7 * DAY });
+  });
+
+  it("3回目以降は ease 倍で間隔が伸びる", () => {
+    let item = scheduleNext(undefined, "1-1", 5, 0);
+    item = scheduleNext(item, "1-1", 5, 0);
+    const third = scheduleNext(item, "1-1", 5, 0);
+    expect(third.interval).toBe(Math.round(6 * third.ease));
+  });
+
+  it("誤答で間隔リセット・ease 低下（下限 1.3）", () => {
+    let item = scheduleNext(undefined, "1-1", 5, 0);
+    item = scheduleNext(item, "1-1", 5, 0);
+    const lapsed = scheduleNext(item, "1-1", 1, 0);
+    expect(lapsed).toMatchObject({ reps: 0, interval: 1, lapses: 1 });
+    expect(lapsed.ease).toBeLessThan(item.ease);
+
+    for (let i = 0; i < 10; i++) item = scheduleNext(item, "1-1", 0, 0);
+    expect(item.ease).toBe(1.3);
+  });
+});
+
+describe("answerQuality", () => {
+  it("正誤と記述点数から quality を決める", () => {
+    expect(answerQuality(false)).toBe(1);
+    expect(answerQuality(true)).toBe(4);
+    expect(answerQuality(true, 100)).toBe(5);
+    expect(answerQuality(true, 85)).toBe(4);
+    expect(answerQuality(true, 60)).toBe(3);
+  });
+});
+
+describe("dueQids", () => {
+  it("期限切れのみを超過の長い順に返す", () => {
+    const schedule = {
+      a: scheduleNext(undefined, "a", 4, 0),          // due: 1日
+      b: scheduleNext(undefined, "b", 4, -2 * DAY),   // due: -1日
+      c: scheduleNext(undefined, "c", 4, 5 * DAY),    // due: 6日
+    };
+    expect(dueQids(schedule, 2 * DAY)).toEqual(["b", "a"]);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * 例文の逐語解析テスト（kuromoji の出力を模した形態素列で確認）
+ */
+import { describe, it, expect } from "vitest";
+import grammarData from "../assets/kobun-grammar.json";
+import { buildGrammarIndex } from "../lib/grammarLoader";
+import { analyzeMorphemes } from "../lib/sentenceAnalyzer";
+import type { Morpheme } from "../scoring/gradeMeaning";
+
+const grammar = buildGrammarIndex(grammarData);
+const m = (surface: string, pos0: string, base = surface): Morpheme => ({ surface, base, pos0 });
+
+describe("sentenceAnalyzer", () => {
+  it("tags auxiliaries and particles from the grammar tables", () => {
+    // 「人は京に行きぬなり」
+    const tokens = analyzeMorphemes(
+      [m("人", "名詞"), m("は", "助詞"), m("京", "名詞"), m("に", "助詞"), m("行き", "動詞", "行く"), m("ぬ", "助動詞"), m("なり", "動詞")],
+      grammar
+    );
+    expect(tokens.map(t => t.kind)).toEqual(["content", "particle", "content", "particle", "content", "aux", "aux"]);
+    expect(tokens[3].gloss).toBe("格助詞／接続助詞");
+    expect(tokens[5].gloss).toBe("完了・強意");
+    // kuromoji が動詞にした「なり」も助動詞の表から拾う（断定と伝聞推定の両方）
+    expect(tokens[6].gloss).toContain("断定");
+    expect(tokens[6].gloss).toContain("伝聞（聴覚）");
+    expect(tokens[0].form).toBeUndefined();
+    // 活用形は活用表から引く（ぬ は完了「ぬ」の表で終止形）
+    expect(tokens[4].form).toBe("連用形");
+    expect(tokens[5].form).toBe("終止形");
+  });
+
+  it("pairs a kakari particle with the last conjugated word of the sentence", () => {
+    // 「竹なむ一筋ありけり。昔の人ぞ」
+    const tokens = analyzeMorphemes(
+      [m("竹", "名詞"), m("なむ", "助詞"), m("一筋", "名詞"), m("あり", "動詞"), m("けり", "動詞"), m("。", "記号"), m("昔", "名詞"), m("ぞ", "助詞")],
+      grammar
+    );
+    expect(tokens[1].kakari).toEqual({ role: "kakari", pair: 0, expected: "連体形" });
+    expect(tokens[4].kakari).toEqual({ role: "musubi", pair: 0, expected: "連体形" });
+    expect(tokens[3].kakari).toBeUndefined();
+    // 結びが無い係助詞には印を付けない
+    expect(tokens[7].kakari).toBeUndefined();
+  });
+});
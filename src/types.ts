@@ -25,17 +25,21 @@ export interface MultiMeaningWord {
 }
 
 // アプリのメインモード
-export type AppMode = 'word' | 'polysemy';
+export type AppMode = 'word' | 'polysemy' | 'grammar';
 
 // 単語モードのクイズタイプ
 export type WordQuizType = 'word-meaning' | 'word-reverse' | 'sentence-meaning' | 'meaning-writing';
 
+// 単語モードの出題元（範囲 / 復習期限切れ）
+export type WordQuizSource = 'range' | 'review-due';
+
 // 多義語モードのクイズタイプ
 export type PolysemyQuizType = 'example-comprehension' | 'true-false' | 'context-writing';
 
 // 単語モードの設定
 export interface WordModeSettings {
   quizType: WordQuizType;
+  source: WordQuizSource;
   rangeStart: number;
   rangeEnd: number;
   numQuestions: number;
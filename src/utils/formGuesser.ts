@@ -1,8 +1,11 @@
 /**
  * 左語の活用形推定（未然/連用/終止/連体/已然/命令）
- * 粗い推定：形容詞優先 → 動詞、文法データも参照
+ * 文法データの活用表から逆引きする（lib/conjugation）。形容詞優先 → 動詞
+ * grammar を渡さなければ生成済みの活用表（conjugationTables.generated.ts）を使う
  */
-import { loadGrammar } from "../lib/grammarLoader";
+import type { GrammarIndex } from "../lib/grammarLoader";
+import { analyzeConjugated, getConjugationTables, type ConjugationCandidate, type ConjugationTables } from "../lib/conjugation";
+import { CONJUGATION_TABLES } from "../lib/conjugationTables.generated";
 
 export type Form =
   | "未然形"
@@ -13,92 +16,46 @@ export type Form =
   | "命令形"
   | "不明";
 
+function tablesFor(grammar?: GrammarIndex): ConjugationTables {
+  return grammar ? getConjugationTables(grammar) : CONJUGATION_TABLES;
+}
+
 /**
- * 形容詞の活用形を推定（ク/シク活用）
+ * 活用表の逆引きで最初に当たった候補の活用形（助動詞は付けずに語単独で見る）
  */
-export function guessAdjectiveForm(surface: string): Form {
-  // ク活用
-  if (/く$|から$/.test(surface)) return "未然形";
-  if (/く$|かり$/.test(surface)) return "連用形";
-  if (/し$/.test(surface)) return "終止形";
-  if (/き$|かる$/.test(surface)) return "連体形";
-  if (/けれ$/.test(surface)) return "已然形";
-  if (/かれ$/.test(surface)) return "命令形";
-
-  // シク活用
-  if (/しく$|しから$/.test(surface)) return "未然形";
-  if (/しく$|しかり$/.test(surface)) return "連用形";
-  if (/し$/.test(surface)) return "終止形";
-  if (/しき$|しかる$/.test(surface)) return "連体形";
-  if (/しけれ$/.test(surface)) return "已然形";
-  if (/しかれ$/.test(surface)) return "命令形";
-
-  return "不明";
+function guessForm(
+  surface: string,
+  grammar: GrammarIndex | undefined,
+  accept: (c: ConjugationCandidate) => boolean
+): Form {
+  const candidates = analyzeConjugated(tablesFor(grammar), surface, 0);
+  return candidates.find(accept)?.form ?? "不明";
 }
 
 /**
- * 動詞の活用形を推定（四段・上一・下一・カ変・サ変・ナ変・ラ変）
+ * 形容詞（形容動詞を含む）の活用形を推定（ク/シク/ナリ/タリ活用）
  */
-export function guessVerbForm(surface: string): Form {
-  const grammar = loadGrammar();
-
-  // カ変「来」
-  if (/こ$/.test(surface)) return "未然形";
-  if (/き$/.test(surface)) return "連用形";
-  if (/く$/.test(surface)) return "終止形";
-  if (/くる$/.test(surface)) return "連体形";
-  if (/くれ$/.test(surface)) return "已然形";
-  if (/こよ$/.test(surface)) return "命令形";
-
-  // サ変「す」
-  if (/せ$|し$|す$/.test(surface)) return "未然形";
-  if (/し$/.test(surface)) return "連用形";
-  if (/す$/.test(surface)) return "終止形";
-  if (/する$/.test(surface)) return "連体形";
-  if (/すれ$/.test(surface)) return "已然形";
-  if (/せよ$/.test(surface)) return "命令形";
-
-  // ナ変「死ぬ」
-  if (/な$/.test(surface)) return "未然形";
-  if (/に$/.test(surface)) return "連用形";
-  if (/ぬ$/.test(surface)) return "終止形";
-  if (/ぬる$/.test(surface)) return "連体形";
-  if (/ぬれ$/.test(surface)) return "已然形";
-  if (/ね$/.test(surface)) return "命令形";
-
-  // ラ変「あり」
-  if (/ら$/.test(surface)) return "未然形";
-  if (/り$/.test(surface)) return "連用形";
-  if (/り$/.test(surface)) return "終止形";
-  if (/る$/.test(surface)) return "連体形";
-  if (/れ$/.test(surface)) return "已然形";
-  if (/れ$/.test(surface)) return "命令形";
-
-  // 四段
-  if (/[あわかがさざただなはばまやらわ]$/.test(surface)) return "未然形";
-  if (/[いきぎしじちぢにひびみりゐ]$/.test(surface)) return "連用形";
-  if (/[うくぐすずつづぬふぶむゆるう]$/.test(surface)) return "終止形";
-  if (/[うくぐすずつづぬふぶむゆるう]$/.test(surface)) return "連体形"; // 終止形と同形
-  if (/[えけげせぜてでねへべめれゑ]$/.test(surface)) return "已然形";
-
-  // 上一・下一（ざっくり）
-  if (/[みきぎにひび]$/.test(surface)) return "連用形";
-  if (/[みる|きる|ぎる|にる|ひる|びる]$/.test(surface)) return "連体形";
-  if (/[みれ|きれ|ぎれ|にれ|ひれ|びれ]$/.test(surface)) return "已然形";
+export function guessAdjectiveForm(surface: string, grammar?: GrammarIndex): Form {
+  return guessForm(surface, grammar, (c) => c.品詞 !== "動詞");
+}
 
-  return "不明";
+/**
+ * 動詞の活用形を推定（四段・上一・上二・下一・下二・カ変・サ変・ナ変・ラ変）
+ */
+export function guessVerbForm(surface: string, grammar?: GrammarIndex): Form {
+  return guessForm(surface, grammar, (c) => c.品詞 === "動詞");
 }
 
 /**
  * 左形を推定（形容詞優先）
  */
-export function guessLeftForm(surface: string): Form {
+export function guessLeftForm(surface: string, grammar?: GrammarIndex): Form {
   // 形容詞パターンを優先（「悲しき」「美しき」など）
-  const adjForm = guessAdjectiveForm(surface);
+  const adjForm = guessAdjectiveForm(surface, grammar);
   if (adjForm !== "不明") return adjForm;
 
   // 動詞パターン
-  const verbForm = guessVerbForm(surface);
+  const verbForm = guessVerbForm(surface, grammar);
   if (verbForm !== "不明") return verbForm;
 
   return "不明";
@@ -6,6 +6,7 @@
  */
 
 import { normalizeSense } from "./normalizeSense";
+import { getAuxSuffixRules, getParticleSuffixRules } from "../lib/grammarRules";
 
 export type Morpheme =
   | { pos: "content"; surface: string; lemma: string }
@@ -19,54 +20,14 @@ export interface TokenizeOptions {
   allowAuxSubset?: boolean;
 }
 
-/** 助動詞・接続助詞（終止形代表タグ）。現代語「ない」も打消として吸収。 */
-let auxRulesCache: Array<{ re: RegExp; tag: string }> | null = null;
+/** 助動詞・接続助詞（終止形代表タグ）。規則は lib/grammarRules（文法データから生成）。現代語「ない」も打消として吸収 */
 function getAuxRules(): Array<{ re: RegExp; tag: string }> {
-  if (auxRulesCache) return auxRulesCache;
-  auxRulesCache = [
-    // 接続助詞（最長一致の原則：複合形を先に評価）
-    { re: /ないで$/u, tag: "打消-接続" },
-    { re: /ずして$/u, tag: "打消-接続" },
-    { re: /くて$/u, tag: "形容詞-接続" },
-    { re: /(て|で)$/u, tag: "接続" },  // 「座って」「見て」「読んで」など
-
-    // 助動詞
-    { re: /(ず|ぬ|ざり|じ|ない)$/u, tag: "打消" },
-    { re: /(つ|ぬ|たり)$/u, tag: "完了-存続" },  // 「り」は動詞語尾と曖昧なので除外
-    { re: /(けり|き|けむ|けん)$/u, tag: "過去" },
-    { re: /(む|らむ|べし|べき|べく|まじ)$/u, tag: "推量" },
-    { re: /(なり|めり)$/u, tag: "推定" },
-    { re: /ている$/u, tag: "存続" },  // 現代語の吸収
-    { re: /れる$/u, tag: "可能" },   // ら抜き言葉の吸収
-    { re: /(らる|る)$/u, tag: "受身-可能-自発-尊敬" },
-    { re: /(さす|しむ|す)$/u, tag: "使役" },
-
-    // 連用形音便も接続の機能を持つ（「座っ」=「座って」の「て」省略形）
-    // ただし、これは語幹の一部とも解釈できるため、慎重に扱う
-    // 現在の設計では、toContentMorphemeで語幹抽出時に処理する
-  ];
-  return auxRulesCache;
+  return getAuxSuffixRules();
 }
 
-/** 助詞の揺れをタグに正規化（必要に応じて拡張） */
-let particleRulesCache: Array<{ re: RegExp; tag: string }> | null = null;
+/** 助詞の揺れをタグに正規化（対象の助詞は grammar-rules.overrides.json の tokenizerParticles） */
 function getParticleRules(): Array<{ re: RegExp; tag: string }> {
-  if (particleRulesCache) return particleRulesCache;
-  particleRulesCache = [
-    { re: /(は|わ)$/u, tag: "係助:は" },
-    { re: /(も)$/u, tag: "係助:も" },
-    { re: /(ぞ|なむ|や|か)$/u, tag: "係助:係り結び" },
-    { re: /(を)$/u, tag: "格助:を" },
-    { re: /(に)$/u, tag: "格助:に" },
-    { re: /(へ)$/u, tag: "格助:へ" },
-    { re: /(が)$/u, tag: "格助:が" },
-    { re: /(より)$/u, tag: "格助:より" },
-    { re: /(まで)$/u, tag: "格助:まで" },
-    { re: /(して|にて)$/u, tag: "格助:して" },   // して/にて を同一視
-    { re: /(ども|ど|が)$/u, tag: "接続:逆接" },  // ど/ども/が を同一視
-    { re: /(こそ)$/u, tag: "係助:こそ" },
-  ];
-  return particleRulesCache;
+  return getParticleSuffixRules();
 }
 
 /** 動詞：終止形にざっくり寄せる（四段・上一・下一・カ/サ/ラ変） */
@@ -1,6 +1,7 @@
 // vite.config.ts
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
 import { resolve } from 'node:path';
 
 // https://vitejs.dev/config/
@@ -9,7 +10,28 @@ export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '');
 
   return {
-    plugins: [react()],
+    plugins: [
+      react(),
+      VitePWA({
+        registerType: 'autoUpdate',
+        // public/manifest.webmanifest をそのまま使う（index.html で読み込み済み）
+        manifest: false,
+        workbox: {
+          // アプリシェル + 問題データ + 学習済み候補 + kuromoji 辞書をプリキャッシュ
+          globPatterns: [
+            '**/*.{js,css,html,png,svg,ico,webmanifest}',
+            'kobun_q.jsonl.txt',
+            'candidates.json',
+            'kuromoji/dict/*.dat.gz',
+          ],
+          // kuromoji の base.dat.gz（約4MB）を含めるため上限を引き上げ
+          maximumFileSizeToCacheInBytes: 8 * 1024 * 1024,
+          navigateFallback: '/index.html',
+          navigateFallbackDenylist: [/^\/api\//],
+          cleanupOutdatedCaches: true,
+        },
+      }),
+    ],
     resolve: {
       alias: {
         '@': resolve(__dirname, './src'),